@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// The NodeJS build in `dist` contains ES modules, which `esm` allows us to load from here.
+require = require("esm")(module);
+const { runLoadTestCLI } = require("../dist/node/HiFiLoadTestCLI");
+
+runLoadTestCLI(process.argv.slice(2), __filename)
+    .then((exitCode) => {
+        process.exit(exitCode);
+    })
+    .catch((e) => {
+        console.error(`The load test failed:\n${e}`);
+        process.exit(1);
+    });
@@ -189,12 +189,21 @@ export class ReceivedHiFiAudioAPIData extends HiFiAudioAPIData {
      * The server sends `isStereo` data to all clients connected to a server during "peer updates".
      */
     isStereo: boolean;
+
+    /**
+     * `true` if this data describes the client's own connection, i.e. if {@link hashedVisitID} matches the `visit_id_hash`
+     * returned by the server in response to `audionet.init`.
+     *
+     * ❌ The server never sends `isSelf` data; the client derives it.
+     */
+    isSelf: boolean;
     
-    constructor(params: { providedUserID?: string, hashedVisitID?: string, volumeDecibels?: number, position?: Point3D, orientation?: Quaternion, isStereo?: boolean } = {}) {
+    constructor(params: { providedUserID?: string, hashedVisitID?: string, volumeDecibels?: number, position?: Point3D, orientation?: Quaternion, isStereo?: boolean, isSelf?: boolean } = {}) {
         super(params);
         this.providedUserID = params.providedUserID;
         this.hashedVisitID = params.hashedVisitID;
         this.volumeDecibels = params.volumeDecibels;
         this.isStereo = params.isStereo;
+        this.isSelf = params.isSelf;
     }
 }
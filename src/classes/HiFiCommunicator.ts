@@ -1,8 +1,9 @@
 /**
  * Methods on the [[HiFiCommunicator]] class allow developers to perform actions such as:
  * - `connectToHiFiAudioAPIServer()`: Connect to and disconnect from the High Fidelity Audio Server
- * - `updateUserDataAndTransmit()`: Update the user's data (position, orientation, etc) on the High Fidelity Audio Server
+ * - `updateUserData()`: Update the user's data (position, orientation, etc) on the High Fidelity Audio Server
  * - `setInputAudioMediaStream()`: Set a new input audio media stream (for example, when the user's audio input device changes)
+ * - `setInputMode()`: Choose between open mic, push-to-talk, toggle-to-talk, and voice-activated input
  * @packageDocumentation
  */
 
@@ -10,13 +11,29 @@ declare var HIFI_API_VERSION: string;
 
 import { HiFiConstants } from "../constants/HiFiConstants";
 import { WebRTCSessionParams, CustomSTUNandTURNConfig } from "../libravi/RaviSession";
+import { WebRTCStatsCallback, WebRTCStatsReport, WebRTCStatsSample, WebRTCStatsSubscriptionConfig, WebRTCStatsSubscriptionHandle } from "../libravi/RaviWebRTCStats";
 import { HiFiLogger } from "../utilities/HiFiLogger";
 import { HiFiUtilities } from "../utilities/HiFiUtilities";
+import { HiFiEventEmitter } from "../utilities/HiFiEventEmitter";
+import { HiFiJWTUtilities } from "../utilities/HiFiJWTUtilities";
+import { HiFiPeerMotionInterpolator, PeerMotionInterpolationConfig, PeerPose } from "../utilities/HiFiPeerMotionInterpolator";
+import { HiFiProtocolTraceRecorder, HiFiProtocolTraceReplayer, ProtocolTraceEntry } from "../utilities/HiFiProtocolTrace";
+import { HiFiDiagnosticsHistory, DiagnosticsHistoryConfig, DiagnosticsBundle } from "../utilities/HiFiDiagnosticsHistory";
+import { HiFiSpeakingDetector, SpeakingDetectionConfig, ActiveSpeaker, OnSpeakingChangedCallback } from "./HiFiSpeakingDetector";
+import { HiFiConnectionQualityMonitor, ConnectionQualityConfig, ConnectionQuality, ConnectionQualityChangedEvent, OnConnectionQualityChangedCallback } from "./HiFiConnectionQualityMonitor";
+import { HiFiInputModeController, HiFiInputModes, InputModeConfig } from "./HiFiInputModeController";
+import { HiFiOtherUserGainStore, OtherUserGainStorage, OtherUserGainSetting } from "./HiFiOtherUserGainStore";
+import { HiFiUserDataTransmitFilter, UserDataTransmitConfig, UserDataTransmitStats } from "./HiFiUserDataTransmitFilter";
+import { HiFiRetryPolicy, RetryPolicy } from "./HiFiRetryPolicy";
 import { HiFiAudioAPIData, ReceivedHiFiAudioAPIData, Point3D, Quaternion, OtherUserGainMap } from "./HiFiAudioAPIData";
 import { HiFiCoordinateFrameUtil } from "../utilities/HiFiCoordinateFrameUtil";
 import { HiFiHandedness, WorldFrameConfiguration } from "./HiFiAxisConfiguration";
-import { HiFiMixerSession, SetOtherUserGainForThisConnectionResponse, SetOtherUserGainsForThisConnectionResponse, OnMuteChangedCallback } from "./HiFiMixerSession";
-import { AvailableUserDataSubscriptionComponents, UserDataSubscription } from "./HiFiUserDataSubscription";
+import { HiFiMixerSession, SetOtherUserGainForThisConnectionResponse, SetOtherUserGainsForThisConnectionResponse, OnMuteChangedCallback, OnPeerChangedCallback, OnServerInstructionCallback, MuteChangedEvent, MuteReason } from "./HiFiMixerSession";
+import { AvailableUserDataSubscriptionComponents, UserDataSubscription, UserDataSubscriptionHandle } from "./HiFiUserDataSubscription";
+import { DiagnosticsConfig } from "../diagnostics/diagnostics";
+
+// Used to give each HiFiCommunicator a distinct default ID for its log records.
+let communicatorCount = 0;
 
 /**
  * When the state of the connection to the High Fidelity Audio Server changes, the new state will be one of these values.
@@ -142,15 +159,37 @@ export interface ConnectionRetryAndTimeoutConfig {
    * The amount of time in milliseconds to wait between retry attempts. This defaults
    * to 500 milliseconds and can be used to slow down the connection attempts if needed
    * (especially for testing!) In general, you probably won't need to set this value.
+   * If a `retryPolicy` is set, this is the default for its `baseDelayMS`.
    */
   pauseBetweenRetriesMS?: number;
 
+  /**
+   * How long to wait between retry attempts, and how many attempts to make in each retry cycle.
+   * By default, every retry waits `pauseBetweenRetriesMS` and only the `maxSecondsToSpend...` settings limit the retries.
+   * Clients that may all be disconnected at once -- for example, when a mixer restarts -- should use one of the exponential
+   * policies with jitter, so that they don't all retry in lockstep. See {@link RetryPolicy}.
+   */
+  retryPolicy?: RetryPolicy;
+
   /**
    * The amount of time in milliseconds to wait before timing out an attempted
    * connection. This is used for all connection attempts, including retries
    * (if enabled). Defaults to 5000 milliseconds (5 seconds).
    */
   timeoutPerConnectionAttemptMS?: number;
+
+  /**
+   * If greater than 0, when the network connection of an established connection is interrupted -- for example, when a laptop switches
+   * Wi-Fi networks -- or the browser reports that the network is back online, we first try to recover the existing
+   * connection with an ICE restart, which keeps the same visit and doesn't change the connection state.
+   * This is how long (in milliseconds) to wait for the ICE restart to succeed before giving up on it and
+   * disconnecting (and, if `autoRetryOnDisconnect` is set, reconnecting as usual).
+   *
+   * ICE restarts are requested with an `iceRestart` flag on the `renegotiate` signaling message, so they are only attempted if the
+   * server lists `"ice_restart"` in the `capabilities` of its `audionet.init` response ({@link HiFiMockMixer} does). Against other
+   * servers, the connection is recovered by reconnecting, as before. Set this to `0` to disable ICE restarts. Defaults to `5000`.
+   */
+  iceRestartTimeoutMS?: number;
 };
 
 /**
@@ -183,6 +222,214 @@ export interface HiFiConnectionAttemptResult {
     disableReconnect?: boolean;
 }
 
+/**
+ * The result of transmitting the user's data to the server. Returned by {@link HiFiCommunicator.updateUserDataAndTransmit},
+ * and used to settle the Promises returned by {@link HiFiCommunicator.updateUserData} and {@link HiFiCommunicator.flush}.
+ */
+export interface UserDataTransmitResult {
+    /**
+     * `true` if the data was transmitted, or, for {@link HiFiCommunicator.updateUserDataAndTransmit} only, if it will be transmitted shortly.
+     */
+    success: boolean;
+    /**
+     * If `success` is `false`, a message explaining why the data wasn't transmitted. May also contain an informational message when `success` is `true`.
+     */
+    error?: string;
+    /**
+     * The stringified data that was written to the server. This is `"{}"` if nothing had changed since the last transmission,
+     * in which case nothing was written. Not set if the data hasn't been transmitted yet.
+     */
+    rawDataTransmitted?: string;
+}
+
+/**
+ * The Promises returned by {@link HiFiCommunicator.updateUserData} and {@link HiFiCommunicator.flush} are rejected with this error
+ * if the user's data couldn't be transmitted, for example because the connection was lost before the rate-limited transmission happened.
+ */
+export class HiFiUserDataTransmitError extends Error {
+    /**
+     * The failed result of the transmission. Its `success` is `false`, and its `error` is the message of this error.
+     */
+    result: UserDataTransmitResult;
+
+    /**
+     * @param result - The failed result of the transmission.
+     */
+    constructor(result: UserDataTransmitResult) {
+        super(result.error);
+        this.name = "HiFiUserDataTransmitError";
+        this.result = result;
+    }
+}
+
+/**
+ * Describes how the state of a {@link HiFiCommunicator} was replayed after it reconnected. It is passed to `stateRestored` listeners.
+ *
+ * The communicator remembers the state that the application asked for: the user's own data (position, orientation, gains, etc.),
+ * the gains of other users, the mute state, and the input audio stream. Whenever the communicator connects again, that state is replayed
+ * to the server, so the application doesn't have to re-establish it.
+ */
+export interface StateRestoredEvent {
+    /**
+     * `true` if every part of the state was replayed successfully.
+     */
+    success: boolean;
+    /**
+     * Messages describing the parts of the state that couldn't be replayed. Empty if `success` is `true`.
+     */
+    errors: Array<string>;
+    /**
+     * `true` if an input audio stream was set with {@link HiFiCommunicator.setInputAudioMediaStream} and was set again.
+     */
+    restoredInputAudioMediaStream: boolean;
+    /**
+     * The mute state that was re-applied to the input audio stream, taking both {@link HiFiCommunicator.setInputAudioMuted}
+     * and the input mode into account. `undefined` if there is no input audio stream.
+     */
+    restoredInputAudioMuted: boolean;
+    /**
+     * The number of other users whose gains, set with {@link HiFiCommunicator.setOtherUserGainsForThisConnection}, were transmitted again.
+     */
+    restoredOtherUserGainCount: number;
+}
+
+/**
+ * Describes a connection attempt that the {@link HiFiCommunicator} is about to retry. It is passed to `retryScheduled` listeners
+ * and to {@link HiFiCommunicator.onRetryScheduled}.
+ */
+export interface RetryScheduledEvent {
+    /**
+     * The number of the retry that has been scheduled, starting at `1` for each retry cycle.
+     */
+    attempt: number;
+    /**
+     * The maximum number of retries in this retry cycle, or `Infinity` if only time limits the retries. See {@link RetryPolicy.maxAttempts}.
+     */
+    maxAttempts: number;
+    /**
+     * The number of milliseconds until the retry is made.
+     */
+    delayMS: number;
+    /**
+     * `Connecting` if the initial connection is being retried, or `Reconnecting` if an existing connection was lost.
+     */
+    connectionState: HiFiConnectionStates;
+    /**
+     * The reason that the previous attempt failed, if known.
+     */
+    error?: string;
+}
+
+/**
+ * A function that returns a Promise for a new JWT. If a `tokenProvider` is passed to the {@link HiFiCommunicator} constructor,
+ * it is called before every connection attempt (including automatic reconnection attempts) and shortly before the current JWT expires,
+ * so that long-lived sessions never reconnect with an expired JWT. See {@link HiFiCommunicator.connectToHiFiAudioAPIServer} for how to create a JWT.
+ */
+export type HiFiTokenProvider = () => Promise<string>;
+
+/**
+ * Describes a JWT that is about to expire. It is passed to `tokenExpiring` listeners.
+ *
+ * The JWT is only checked by the server when connecting, so an expired JWT doesn't affect the current connection. However, it would cause
+ * the next automatic reconnection attempt to fail. Pass a `tokenProvider` to the {@link HiFiCommunicator} constructor, or use
+ * {@link HiFiCommunicator.setTokenProvider}, so that a new JWT can be fetched.
+ */
+export interface TokenExpiringEvent {
+    /**
+     * The time at which the current JWT expires, according to its `exp` claim.
+     */
+    expiresAt: Date;
+    /**
+     * The number of seconds until the current JWT expires, according to the client's clock. `0` if it has already expired.
+     */
+    secondsRemaining: number;
+    /**
+     * `true` if the communicator has a `tokenProvider` and is fetching a new JWT from it. `false` if the `tokenProvider` returned this JWT
+     * when it was asked to replace an expiring JWT, but this JWT was already within `tokenExpiringLeadTimeSeconds` of expiring.
+     */
+    refreshing: boolean;
+}
+
+/**
+ * The events emitted by a {@link HiFiCommunicator}, and the signatures of their listeners.
+ * Use {@link HiFiCommunicator.on}, {@link HiFiCommunicator.once}, and {@link HiFiCommunicator.off} to listen for these events.
+ */
+export interface HiFiCommunicatorEvents {
+    /**
+     * Emitted when the connection state changes. See {@link HiFiConnectionStates}.
+     */
+    connectionStateChanged: (state: HiFiConnectionStates, result: HiFiConnectionAttemptResult) => void;
+    /**
+     * Emitted when the mute state of the client may have changed, for example when muted by an admin. See {@link OnMuteChangedCallback}.
+     */
+    muteChanged: OnMuteChangedCallback;
+    /**
+     * Emitted when the server sends new user data. Each element contains only the data that changed, expressed in the World coordinate frame.
+     * This is the same data that is delivered to User Data Subscriptions, before it is filtered by each Subscription.
+     */
+    userDataUpdated: (userData: Array<ReceivedHiFiAudioAPIData>) => void;
+    /**
+     * Emitted when the server reports that peers have disconnected. See {@link HiFiCommunicator.onUsersDisconnected}.
+     */
+    usersDisconnected: (usersDisconnected: Array<ReceivedHiFiAudioAPIData>) => void;
+    /**
+     * Emitted when a peer is added to the peer roster. See {@link HiFiCommunicator.getPeers}.
+     */
+    peerJoined: OnPeerChangedCallback;
+    /**
+     * Emitted when a peer is removed from the peer roster. See {@link HiFiCommunicator.getPeers}.
+     */
+    peerLeft: OnPeerChangedCallback;
+    /**
+     * Emitted when the server sends new data about a peer already in the peer roster. See {@link HiFiCommunicator.getPeers}.
+     */
+    peerUpdated: OnPeerChangedCallback;
+    /**
+     * Emitted when the server sends an instruction to the client, such as `"mute"` or `"terminate"`. See {@link OnServerInstructionCallback}.
+     */
+    serverInstruction: OnServerInstructionCallback;
+    /**
+     * Emitted periodically with WebRTC stats while there is at least one listener for this event.
+     * `stats` holds the current reports and `prevStats` the reports of the previous sample, which is empty the first time.
+     * Only a fixed selection of fields is collected; see {@link HiFiCommunicator.subscribeToWebRTCStats} for your own selection
+     * of fields, a configurable interval and the reports grouped by type.
+     */
+    stats: (stats: Array<WebRTCStatsReport>, prevStats: Array<WebRTCStatsReport>) => void;
+    /**
+     * Emitted when a peer starts speaking. Only emitted if a `speakingDetectionConfig` was passed to the constructor. See {@link SpeakingDetectionConfig}.
+     */
+    speakingStarted: OnSpeakingChangedCallback;
+    /**
+     * Emitted when a peer stops speaking, including when a speaking peer leaves. Only emitted if a `speakingDetectionConfig` was passed to the constructor.
+     * See {@link SpeakingDetectionConfig}.
+     */
+    speakingStopped: OnSpeakingChangedCallback;
+    /**
+     * Emitted when the quality level of the connection changes, for example from "good" to "poor", and when it changes back to "unknown"
+     * because the connection was lost. Only emitted if a `connectionQualityConfig` was passed to the constructor. See {@link ConnectionQualityChangedEvent}.
+     */
+    qualityChanged: OnConnectionQualityChangedCallback;
+    /**
+     * Emitted when the input gate of the current input mode opens or closes, for example when push-to-talk is pressed, or after it is released
+     * and the release tail has elapsed. See {@link HiFiCommunicator.setInputMode}.
+     */
+    inputGateChanged: (isOpen: boolean) => void;
+    /**
+     * Emitted after the communicator reconnects, once the state that the application asked for has been replayed. See {@link StateRestoredEvent}.
+     * Not emitted for the first connection.
+     */
+    stateRestored: (stateRestoredEvent: StateRestoredEvent) => void;
+    /**
+     * Emitted once per JWT, `tokenExpiringLeadTimeSeconds` before it expires according to its `exp` claim, while the communicator
+     * is connected or connecting. See {@link TokenExpiringEvent}.
+     */
+    tokenExpiring: (tokenExpiringEvent: TokenExpiringEvent) => void;
+    /**
+     * Emitted when a connection attempt has failed and another attempt has been scheduled. See {@link RetryScheduledEvent} and {@link RetryPolicy}.
+     */
+    retryScheduled: (retryScheduledEvent: RetryScheduledEvent) => void;
+}
+
 /**
  * This class exposes properties and methods useful for communicating from the High Fidelity Audio API Client to
  * the High Fidelity Audio API Server. 
@@ -193,12 +440,23 @@ export class HiFiCommunicator {
     transmitRateLimitTimeoutMS: number;
     private _timers: any = {
         transmitRateLimitTimeout: null,
-        wantedToTransmitHiFiAudioAPIData: true
+        wantedToTransmitHiFiAudioAPIData: true,
+        deferredTransmitTimeout: null,
+        speakingDetectionInterval: null,
+        tokenExpiringTimeout: null,
+        retryDelayTimeout: null
     };
 
     // This is usually the `MediaStream` associated with a user's audio input device,
     // but it could be any `MediaStream`.
     private _inputAudioMediaStream: MediaStream;
+    private _inputAudioMediaStreamIsStereo: boolean;
+
+    // The gains that have been set for other users during this communicator's lifetime, keyed by hashed visit ID.
+    // Gains are only transmitted once, so these are replayed whenever we reconnect. Users are removed when the server reports that they disconnected.
+    private _desiredOtherUserGains: OtherUserGainMap;
+    // `true` once the communicator has connected, so that later connections can be told apart from the first.
+    private _hasConnectedBefore: boolean;
 
     // These next two member variables are used for keeping track of what to send to the mixer.
     // The client only sends data that the mixer doesn't already know about.
@@ -209,10 +467,30 @@ export class HiFiCommunicator {
     // when the server reports that a user's data - such as position, orientation, and volume - has been modified.
     private _userDataSubscriptions: Array<UserDataSubscription>;
 
+    /**
+     * Applies the dead-bands and rate limits from the `userDataTransmitConfig` passed to the constructor. See {@link getUserDataTransmitStats}.
+     */
+    private _userDataTransmitFilter: HiFiUserDataTransmitFilter;
+
+    // The Promises returned by `updateUserData()` while the transmission is rate limited. They're settled by the next transmission.
+    private _pendingTransmits: Array<{ resolve: (result: UserDataTransmitResult) => void, reject: (error: HiFiUserDataTransmitError) => void }> = [];
+
     /**
      * See {@link HiFiCommunicator._onUsersDisconnected}.
      */
     onUsersDisconnected: Function;
+    /**
+     * A function that will get called when a peer is added to the peer roster. See {@link getPeers}.
+     */
+    onPeerJoined: OnPeerChangedCallback;
+    /**
+     * A function that will get called when a peer is removed from the peer roster. See {@link getPeers}.
+     */
+    onPeerLeft: OnPeerChangedCallback;
+    /**
+     * A function that will get called when the server sends new data about a peer already in the peer roster. See {@link getPeers}.
+     */
+    onPeerUpdated: OnPeerChangedCallback;
     /**
      * This is a function that will get called when the "connection state" changes. It should be set
      * when the HiFiCommunicator object is first constructed. (Note that if a connection state re-triggers --
@@ -220,6 +498,24 @@ export class HiFiCommunicator {
      * new state is different than the previous state.)
      */
     onConnectionStateChanged: Function;
+    /**
+     * A function that will get called when the mute state of the client may have changed. See {@link OnMuteChangedCallback}.
+     */
+    onMuteChanged: OnMuteChangedCallback;
+    /**
+     * A function that will get called when a connection attempt has failed and another attempt has been scheduled. See {@link RetryScheduledEvent}.
+     */
+    onRetryScheduled: (retryScheduledEvent: RetryScheduledEvent) => void;
+
+    /**
+     * Dispatches the events described by {@link HiFiCommunicatorEvents}. The `on*` callback members above are
+     * called by listeners added to this emitter during construction.
+     */
+    private _events: HiFiEventEmitter<HiFiCommunicatorEvents>;
+    /**
+     * The WebRTC stats observer that emits `stats` events; only set while there are listeners for that event.
+     */
+    private _statsEventObserver: Function;
 
     /**
      * Stores the current HiFi Connection State, which is an abstraction separate from the individual states
@@ -239,10 +535,34 @@ export class HiFiCommunicator {
     // This contains data dealing with the mixer session, such as the RAVI session, WebRTC address, etc.
     private _mixerSession: HiFiMixerSession;
 
+    /**
+     * Identifies this HiFiCommunicator in log records. See {@link getCommunicatorID}.
+     */
+    private _communicatorID: string;
+    /**
+     * Logs with this HiFiCommunicator's `communicatorID`. The HiFiMixerSession gets a child of it.
+     */
+    private _logger: HiFiLogger;
+
     private _webRTCSessionParams?: WebRTCSessionParams;
     private _customSTUNandTURNConfig?: CustomSTUNandTURNConfig;
 
+    // The signaling address that the JWT is appended to, without the JWT. Set by `connectToHiFiAudioAPIServer()`.
+    private _webRTCSignalingAddress: string;
+    // The JWT used for the next connection attempt. Replaced by whatever the `tokenProvider`, if any, returns.
+    private _hifiAuthJWT: string;
+    private _tokenProvider: HiFiTokenProvider;
+    private _tokenExpiringLeadTimeSeconds: number;
+    // The JWT for which `tokenExpiring` was most recently emitted, so that the event is only emitted once per JWT.
+    private _tokenExpiringEmittedForJWT: string;
+    // When a new JWT was last requested from the `tokenProvider` because the current one was about to expire.
+    private _tokenRefreshRequestedAtMS: number;
+
     private _connectionRetryAndTimeoutConfig: ConnectionRetryAndTimeoutConfig;
+    /**
+     * Calculates the delays between retries. See {@link ConnectionRetryAndTimeoutConfig.retryPolicy}.
+     */
+    private _retryPolicy: HiFiRetryPolicy;
     private _retryTimerInProgress: any;
     private _failureNotificationPending: HiFiConnectionAttemptResult; // Stores the most recent failure notification message
     // `connectToHiFiAudioAPIServer()` creates a Promise, but we want to resolve it within the change handler.
@@ -264,6 +584,44 @@ export class HiFiCommunicator {
      */
     private _coordFrameUtil?: HiFiCoordinateFrameUtil;
 
+    /**
+     * Only set if a `peerMotionInterpolationConfig` was passed to the constructor. See {@link getInterpolatedPeerPose}.
+     */
+    private _peerMotionInterpolator?: HiFiPeerMotionInterpolator;
+
+    /**
+     * Only set if a `speakingDetectionConfig` was passed to the constructor. See {@link getActiveSpeakers}.
+     */
+    private _speakingDetector?: HiFiSpeakingDetector;
+
+    /**
+     * Only set if a `connectionQualityConfig` was passed to the constructor. See {@link getConnectionQuality}.
+     */
+    private _connectionQualityMonitor?: HiFiConnectionQualityMonitor;
+    // The stats subscription that feeds `_connectionQualityMonitor`; only set while we're connected.
+    private _connectionQualityStatsSubscription?: WebRTCStatsSubscriptionHandle;
+
+    /**
+     * Records what happens to our connections for {@link exportDiagnostics}.
+     */
+    private _diagnosticsHistory: HiFiDiagnosticsHistory;
+    // The stats subscription that feeds `_diagnosticsHistory`; only set while we're connected.
+    private _diagnosticsHistoryStatsSubscription?: WebRTCStatsSubscriptionHandle;
+
+    /**
+     * Decides whether input audio should be transmitted according to the current input mode. See {@link setInputMode}.
+     */
+    private _inputModeController: HiFiInputModeController;
+    // The value most recently passed to `setInputAudioMuted()`. The input audio is muted if this is `true` or the input gate is closed.
+    private _inputAudioMutedByUser: boolean;
+
+    /**
+     * The gains set with {@link setOtherUserGainByProvidedUserID}.
+     */
+    private _otherUserGainStore: HiFiOtherUserGainStore;
+    // The gains from `_otherUserGainStore` that have been applied to peers during the current connection. Keys are hashed visit IDs.
+    private _appliedOtherUserGains: Map<string, number>;
+
     /**
      * Constructor for the HiFiCommunicator object. Once you have created a HiFiCommunicator, you can use the
      * {@link setInputAudioMediaStream} method to assign an input audio stream to the connection, and
@@ -273,6 +631,9 @@ export class HiFiCommunicator {
      * @param initialHiFiAudioAPIData - The initial position, orientation, etc of the user.
      * @param onConnectionStateChanged - A function that will be called when the connection state to the High Fidelity Audio API Server changes. See {@link HiFiConnectionStates}.
      * @param onUsersDisconnected - A function that will be called when a peer disconnects from the Space.
+     * @param onPeerJoined - A function that will be called when a peer is added to the peer roster. See {@link OnPeerChangedCallback} and {@link getPeers}.
+     * @param onPeerLeft - A function that will be called when a peer is removed from the peer roster. See {@link OnPeerChangedCallback} and {@link getPeers}.
+     * @param onPeerUpdated - A function that will be called when the server sends new data about a peer already in the peer roster. See {@link OnPeerChangedCallback} and {@link getPeers}.
      * @param transmitRateLimitTimeoutMS - User Data updates will not be sent to the server any more frequently than this number in milliseconds.
      * @param userDataStreamingScope - Cannot be set later. See {@link HiFiUserDataStreamingScopes}.
      * @param worldFrameConfig - The WorldFrameConfiguration cannot be set later. Used to transform between World and HiFi coordinate frames. See {@link WorldFrameConfiguration} for details.
@@ -285,30 +646,87 @@ export class HiFiCommunicator {
      * @param onMuteChanged - A function that will be called when the mute state of the client has changed, for example when muted by an admin. See {@link OnMuteChangedCallback} for the information this function will receive.
      * @param connectionRetryAndTimeoutConfig - Settings for configuring auto-reconnect behavior and the amount of time spent trying to connect before giving up.
      * See {@link ConnectionRetryAndTimeoutConfig} for the format of this object. Values that are omitted from the passed object will be set to their defaults.
+     * @param onRetryScheduled - A function that will be called when a connection attempt has failed and another attempt has been scheduled. See {@link RetryScheduledEvent}.
+     * @param peerMotionInterpolationConfig - Cannot be set later. If set, the positions and orientations of peers are buffered so that smoothed
+     * poses can be retrieved with {@link getInterpolatedPeerPose}. See {@link PeerMotionInterpolationConfig} for the format of this object.
+     * @param speakingDetectionConfig - Cannot be set later. If set, the `speakingStarted` and `speakingStopped` events are emitted as peers
+     * start and stop speaking, and {@link getActiveSpeakers} can be used. See {@link SpeakingDetectionConfig} for the format of this object.
+     * @param connectionQualityConfig - Cannot be set later. If set, WebRTC stats are collected while connected, the `qualityChanged` event is
+     * emitted as the quality of the connection changes, and {@link getConnectionQuality} can be used. See {@link ConnectionQualityConfig} for the format of this object.
+     * @param otherUserGainStorage - Cannot be set later. Where to persist the gains set with {@link setOtherUserGainByProvidedUserID}.
+     * Defaults to `localStorage` if it is available. Pass `null` to keep the gains in memory only. See {@link OtherUserGainStorage}.
+     * @param userDataTransmitConfig - Cannot be set later. Dead-bands and rate limits that reduce how often noisy position and orientation data
+     * is transmitted to the server. See {@link UserDataTransmitConfig} for the format of this object.
+     * @param protocolTraceRecorder - If set, protocol traffic is captured from the start of the connection. See {@link setProtocolTraceRecorder}.
+     * @param tokenProvider - If set, this function is called to get a new JWT before every connection attempt, including automatic reconnection
+     * attempts, and shortly before the current JWT expires. See {@link HiFiTokenProvider} and {@link setTokenProvider}.
+     * @param tokenExpiringLeadTimeSeconds - The number of seconds before the current JWT expires at which the `tokenExpiring` event is emitted
+     * and a new JWT is requested from the `tokenProvider`. A JWT returned for such a request that expires within this many seconds isn't replaced
+     * until the next connection attempt. Defaults to {@link HiFiConstants.DEFAULT_TOKEN_EXPIRING_LEAD_TIME_SECONDS}.
+     * @param diagnosticsConfig - Cannot be set later. Disables the diagnostics reports about this client's connections, makes them wait for the
+     * user's consent (see {@link setDiagnosticsConsent}), or delivers them to your own sink. See {@link DiagnosticsConfig} for the format of this object.
+     * @param diagnosticsHistoryConfig - Cannot be set later. How much history is kept for {@link exportDiagnostics}.
+     * See {@link DiagnosticsHistoryConfig} for the format of this object.
+     * @param communicatorID - Cannot be set later. Identifies this HiFiCommunicator in log records (see {@link HiFiLogRecord}), so that apps that
+     * use several HiFiCommunicators can tell their logs apart. Defaults to `"communicator-<n>"`, where `<n>` counts the HiFiCommunicators created so far.
      */
     constructor({
         initialHiFiAudioAPIData = new HiFiAudioAPIData(),
         onConnectionStateChanged,
         onUsersDisconnected,
+        onPeerJoined,
+        onPeerLeft,
+        onPeerUpdated,
         transmitRateLimitTimeoutMS = HiFiConstants.DEFAULT_TRANSMIT_RATE_LIMIT_TIMEOUT_MS,
         userDataStreamingScope = HiFiUserDataStreamingScopes.All,
         worldFrameConfig,
         webrtcSessionParams,
         customSTUNandTURNConfig,
         onMuteChanged,
-        connectionRetryAndTimeoutConfig
+        connectionRetryAndTimeoutConfig,
+        onRetryScheduled,
+        peerMotionInterpolationConfig,
+        speakingDetectionConfig,
+        connectionQualityConfig,
+        otherUserGainStorage,
+        userDataTransmitConfig,
+        protocolTraceRecorder,
+        tokenProvider,
+        tokenExpiringLeadTimeSeconds = HiFiConstants.DEFAULT_TOKEN_EXPIRING_LEAD_TIME_SECONDS,
+        diagnosticsConfig,
+        diagnosticsHistoryConfig,
+        communicatorID
     }: {
         initialHiFiAudioAPIData?: HiFiAudioAPIData,
         onConnectionStateChanged?: Function,
         onUsersDisconnected?: Function,
+        onPeerJoined?: OnPeerChangedCallback,
+        onPeerLeft?: OnPeerChangedCallback,
+        onPeerUpdated?: OnPeerChangedCallback,
         transmitRateLimitTimeoutMS?: number,
         userDataStreamingScope?: HiFiUserDataStreamingScopes,
         worldFrameConfig?: WorldFrameConfiguration,
         webrtcSessionParams?: WebRTCSessionParams,
         customSTUNandTURNConfig?: CustomSTUNandTURNConfig,
         onMuteChanged?: OnMuteChangedCallback,
-        connectionRetryAndTimeoutConfig?: ConnectionRetryAndTimeoutConfig
+        connectionRetryAndTimeoutConfig?: ConnectionRetryAndTimeoutConfig,
+        onRetryScheduled?: (retryScheduledEvent: RetryScheduledEvent) => void,
+        peerMotionInterpolationConfig?: PeerMotionInterpolationConfig,
+        speakingDetectionConfig?: SpeakingDetectionConfig,
+        connectionQualityConfig?: ConnectionQualityConfig,
+        otherUserGainStorage?: OtherUserGainStorage,
+        userDataTransmitConfig?: UserDataTransmitConfig,
+        protocolTraceRecorder?: HiFiProtocolTraceRecorder,
+        tokenProvider?: HiFiTokenProvider,
+        tokenExpiringLeadTimeSeconds?: number,
+        diagnosticsConfig?: DiagnosticsConfig,
+        diagnosticsHistoryConfig?: DiagnosticsHistoryConfig,
+        communicatorID?: string
     } = {}) {
+        communicatorCount++;
+        this._communicatorID = communicatorID ? `${communicatorID}` : `communicator-${communicatorCount}`;
+        this._logger = HiFiLogger.child({ module: "HiFiCommunicator", communicatorID: this._communicatorID });
+
         // If user passed in their own stun/turn config, make sure it matches our interface (ish).
         // (I do so wish that TypeScript could just do this for us based on the interface definition, but it seems that it can not.)
         if (customSTUNandTURNConfig) {
@@ -329,10 +747,11 @@ export class HiFiCommunicator {
 
         // Make minimum 10ms
         if (transmitRateLimitTimeoutMS < HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS) {
-            HiFiLogger.warn(`\`transmitRateLimitTimeoutMS\` must be >= ${HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS}ms! Setting to ${HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS}ms...`);
+            this._logger.warn(`\`transmitRateLimitTimeoutMS\` must be >= ${HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS}ms! Setting to ${HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS}ms...`);
             transmitRateLimitTimeoutMS = HiFiConstants.MIN_TRANSMIT_RATE_LIMIT_TIMEOUT_MS;
         }
         this.transmitRateLimitTimeoutMS = transmitRateLimitTimeoutMS;
+        this._userDataTransmitFilter = new HiFiUserDataTransmitFilter(userDataTransmitConfig);
 
         if (onUsersDisconnected) {
             this.onUsersDisconnected = onUsersDisconnected;
@@ -340,22 +759,69 @@ export class HiFiCommunicator {
         if (onConnectionStateChanged) {
             this.onConnectionStateChanged = onConnectionStateChanged;
         }
+        if (onPeerJoined) {
+            this.onPeerJoined = onPeerJoined;
+        }
+        if (onPeerLeft) {
+            this.onPeerLeft = onPeerLeft;
+        }
+        if (onPeerUpdated) {
+            this.onPeerUpdated = onPeerUpdated;
+        }
+        if (onMuteChanged) {
+            this.onMuteChanged = onMuteChanged;
+        }
+        if (onRetryScheduled) {
+            this.onRetryScheduled = onRetryScheduled;
+        }
+
+        // The `on*` callback members are thin adapters on top of the event emitter. Because these listeners are added first,
+        // the callback members are always called before any listeners added via `on()` or `once()`.
+        this._events = new HiFiEventEmitter();
+        this._events.on("connectionStateChanged", (state, result) => { if (this.onConnectionStateChanged) { this.onConnectionStateChanged(state, result); } });
+        this._events.on("muteChanged", (muteChangedEvent) => { if (this.onMuteChanged) { this.onMuteChanged(muteChangedEvent); } });
+        this._events.on("usersDisconnected", (usersDisconnected) => { if (this.onUsersDisconnected) { this.onUsersDisconnected(usersDisconnected); } });
+        this._events.on("peerJoined", (peer) => { if (this.onPeerJoined) { this.onPeerJoined(peer); } });
+        this._events.on("peerLeft", (peer) => { if (this.onPeerLeft) { this.onPeerLeft(peer); } });
+        this._events.on("peerUpdated", (peer) => { if (this.onPeerUpdated) { this.onPeerUpdated(peer); } });
+        this._events.on("retryScheduled", (retryScheduledEvent) => { if (this.onRetryScheduled) { this.onRetryScheduled(retryScheduledEvent); } });
+        this._statsEventObserver = undefined;
+
+        this._diagnosticsHistory = new HiFiDiagnosticsHistory({ config: diagnosticsHistoryConfig, initialState: this._currentHiFiConnectionState });
+        this._events.on("connectionStateChanged", (state, result) => { this._diagnosticsHistory.recordStateTransition(state, result); });
+        this._events.on("retryScheduled", (retryScheduledEvent) => { this._diagnosticsHistory.recordRetry(retryScheduledEvent); });
+        this._events.on("muteChanged", (muteChangedEvent) => { this._diagnosticsHistory.recordMuteEvent(muteChangedEvent); });
 
         this._connectionRetryAndTimeoutConfig = {};
         Object.assign(this._connectionRetryAndTimeoutConfig, HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT, connectionRetryAndTimeoutConfig);
         if (this._connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingInitialConnection <= 0) {
-            HiFiLogger.warn(`\`connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingInitialConnection\` must be greater than 0! Setting to the default (${HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingInitialConnection}) instead.`);
+            this._logger.warn(`\`connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingInitialConnection\` must be greater than 0! Setting to the default (${HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingInitialConnection}) instead.`);
             this._connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingInitialConnection = HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingInitialConnection;
         }
         if (this._connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingOnDisconnect <= 0) {
-            HiFiLogger.warn(`\`connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingOnDisconnect\` must be greater than 0! Setting to the default (${HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingOnDisconnect}) instead.`);
+            this._logger.warn(`\`connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingOnDisconnect\` must be greater than 0! Setting to the default (${HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingOnDisconnect}) instead.`);
             this._connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingOnDisconnect = HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.maxSecondsToSpendRetryingOnDisconnect;
         }
         if (this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS < HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES) {
-            HiFiLogger.warn(`\`connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS\` must be >= ${HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES}! Setting to ${HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES}.`);
+            this._logger.warn(`\`connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS\` must be >= ${HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES}! Setting to ${HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES}.`);
             this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS = HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES;
         }
+        if (!(this._connectionRetryAndTimeoutConfig.iceRestartTimeoutMS >= 0)) {
+            this._logger.warn(`\`connectionRetryAndTimeoutConfig.iceRestartTimeoutMS\` must be >= 0! Setting to the default (${HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.iceRestartTimeoutMS}) instead.`);
+            this._connectionRetryAndTimeoutConfig.iceRestartTimeoutMS = HiFiConstants.DEFAULT_CONNECTION_RETRY_AND_TIMEOUT.iceRestartTimeoutMS;
+        }
+        this._retryPolicy = new HiFiRetryPolicy({
+            retryPolicy: this._connectionRetryAndTimeoutConfig.retryPolicy,
+            defaultBaseDelayMS: this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS,
+            minDelayMS: HiFiConstants.MIN_PAUSE_BETWEEN_RETRIES
+        });
 
+        if (!(tokenExpiringLeadTimeSeconds >= 0)) {
+            this._logger.warn(`\`tokenExpiringLeadTimeSeconds\` must be >= 0! Setting to the default (${HiFiConstants.DEFAULT_TOKEN_EXPIRING_LEAD_TIME_SECONDS}).`);
+            tokenExpiringLeadTimeSeconds = HiFiConstants.DEFAULT_TOKEN_EXPIRING_LEAD_TIME_SECONDS;
+        }
+        this._tokenExpiringLeadTimeSeconds = tokenExpiringLeadTimeSeconds;
+        this._tokenProvider = tokenProvider;
         if (worldFrameConfig) {
             if (WorldFrameConfiguration.isValid(worldFrameConfig)) {
                 let isRight = worldFrameConfig.handedness == HiFiHandedness.RightHand;
@@ -366,24 +832,65 @@ export class HiFiCommunicator {
                 if (this._coordFrameUtil.WorldIsCompatibleWithHifi()) {
                     // When the World-frame is 100% compatible with the HiFi-frame it is a waste
                     // of CPU cycles to transform between the two frames.
-                    HiFiLogger.warn(`The \`WorldFrameConfiguration\` is compatible with the HiFi-frame and is unnecessary.`);
+                    this._logger.warn(`The \`WorldFrameConfiguration\` is compatible with the HiFi-frame and is unnecessary.`);
                 }
             } else {
-                HiFiLogger.error(`There is an error with the passed \`WorldFrameConfiguration\`, so it was not used. There are more error details in the logs above.`);
+                this._logger.error(`There is an error with the passed \`WorldFrameConfiguration\`, so it was not used. There are more error details in the logs above.`);
+            }
+        }
+
+        if (peerMotionInterpolationConfig) {
+            this._peerMotionInterpolator = new HiFiPeerMotionInterpolator(peerMotionInterpolationConfig);
+        }
+
+        if (speakingDetectionConfig) {
+            if (userDataStreamingScope === HiFiUserDataStreamingScopes.None) {
+                this._logger.warn(`Speaking detection requires peer data, but \`userDataStreamingScope\` is \`HiFiUserDataStreamingScopes.None\`; no \`speakingStarted\` events will be emitted.`);
             }
+            this._speakingDetector = new HiFiSpeakingDetector({
+                config: speakingDetectionConfig,
+                onSpeakingStarted: (speaker: ActiveSpeaker) => { this._events.emit("speakingStarted", speaker); },
+                onSpeakingStopped: (speaker: ActiveSpeaker) => { this._events.emit("speakingStopped", speaker); }
+            });
+        }
+
+        if (connectionQualityConfig) {
+            this._connectionQualityMonitor = new HiFiConnectionQualityMonitor({
+                config: connectionQualityConfig,
+                onQualityChanged: (qualityChangedEvent: ConnectionQualityChangedEvent) => { this._events.emit("qualityChanged", qualityChangedEvent); }
+            });
         }
 
+        this._otherUserGainStore = new HiFiOtherUserGainStore({ storage: otherUserGainStorage });
+        this._appliedOtherUserGains = new Map();
+
+        this._inputAudioMutedByUser = false;
+        this._inputModeController = new HiFiInputModeController({
+            onGateChanged: (isOpen: boolean) => { this._handleInputGateChanged(isOpen); }
+        });
+
         this._mixerSession = new HiFiMixerSession({
             "userDataStreamingScope": userDataStreamingScope,
             "onUserDataUpdated": (data: Array<ReceivedHiFiAudioAPIData>) => { this._handleUserDataUpdates(data); },
             "onUsersDisconnected": (data: Array<ReceivedHiFiAudioAPIData>) => { this._onUsersDisconnected(data); },
+            "onPeerJoined": (peer: ReceivedHiFiAudioAPIData) => { this._handlePeerJoinedOrUpdated("peerJoined", peer); },
+            "onPeerLeft": (peer: ReceivedHiFiAudioAPIData) => { this._handlePeerLeft(peer); },
+            "onPeerUpdated": (peer: ReceivedHiFiAudioAPIData) => { this._handlePeerJoinedOrUpdated("peerUpdated", peer); },
+            "onServerInstruction": (instructionName: string, instructionArguments: Array<any>) => { this._events.emit("serverInstruction", instructionName, instructionArguments); },
             "onConnectionStateChanged": (state: HiFiConnectionStates, message: HiFiConnectionAttemptResult) => { this._manageConnection(state, message); },
-            "onMuteChanged": onMuteChanged,
+            "onMuteChanged": (muteChangedEvent: MuteChangedEvent) => { this._events.emit("muteChanged", muteChangedEvent); },
             "getUserFacingConnectionState": this.getConnectionState.bind(this),
-            "coordFrameUtil": this._coordFrameUtil
+            "coordFrameUtil": this._coordFrameUtil,
+            "peerMotionInterpolator": this._peerMotionInterpolator,
+            "protocolTraceRecorder": protocolTraceRecorder,
+            "diagnosticsConfig": diagnosticsConfig,
+            "logger": this._logger.child({ module: "HiFiMixerSession" })
         });
 
         this._inputAudioMediaStream = undefined;
+        this._inputAudioMediaStreamIsStereo = false;
+        this._desiredOtherUserGains = {};
+        this._hasConnectedBefore = false;
 
         this._currentHiFiAudioAPIData = new HiFiAudioAPIData();
 
@@ -392,11 +899,11 @@ export class HiFiCommunicator {
         this._userDataSubscriptions = [];
 
         if (webrtcSessionParams && webrtcSessionParams.audioMinJitterBufferDuration && (webrtcSessionParams.audioMinJitterBufferDuration < 0.0 || webrtcSessionParams.audioMinJitterBufferDuration > 10.0)) {
-            HiFiLogger.warn(`The value of \`webrtcSessionParams.audioMinJitterBufferDuration\` (${webrtcSessionParams.audioMinJitterBufferDuration}) will be clamped to (0.0, 10.0).`);
+            this._logger.warn(`The value of \`webrtcSessionParams.audioMinJitterBufferDuration\` (${webrtcSessionParams.audioMinJitterBufferDuration}) will be clamped to (0.0, 10.0).`);
             webrtcSessionParams.audioMinJitterBufferDuration = HiFiUtilities.clamp(webrtcSessionParams.audioMinJitterBufferDuration, 0.0, 10.0);
         }
         if (webrtcSessionParams && webrtcSessionParams.audioMaxJitterBufferDuration && (webrtcSessionParams.audioMaxJitterBufferDuration < 0.0 || webrtcSessionParams.audioMaxJitterBufferDuration > 10.0)) {
-            HiFiLogger.warn(`The value of \`webrtcSessionParams.audioMaxJitterBufferDuration\` (${webrtcSessionParams.audioMaxJitterBufferDuration}) will be clamped to (0.0, 10.0).`);
+            this._logger.warn(`The value of \`webrtcSessionParams.audioMaxJitterBufferDuration\` (${webrtcSessionParams.audioMaxJitterBufferDuration}) will be clamped to (0.0, 10.0).`);
             webrtcSessionParams.audioMaxJitterBufferDuration = HiFiUtilities.clamp(webrtcSessionParams.audioMaxJitterBufferDuration, 0.0, 10.0);
         }
         this._webRTCSessionParams = webrtcSessionParams;
@@ -432,11 +939,18 @@ export class HiFiCommunicator {
      *     ```
      * Please reference our {@link https://www.highfidelity.com/api/guides/misc/getAJWT|"Get a JWT" guide} for additional context.
      * 4. Pass the created JWT to `connectToHiFiAudioAPIServer()`.
+     *
+     * JWTs may contain an `exp` claim, after which the server won't accept them. This JWT is re-used for automatic reconnection attempts,
+     * so long-lived sessions should pass a `tokenProvider` to the constructor instead (see {@link HiFiTokenProvider}); in that case,
+     * `hifiAuthJWT` may be omitted. If both are set, the `tokenProvider` is used, and this JWT is only used if the `tokenProvider` fails
+     * and this JWT hasn't expired yet.
      * 
      * @param signalingHostURL An URL that will be used to create a valid WebRTC signaling address at High Fidelity. The passed `signalingHostURL` parameter should not contain the protocol
      * or port - e.g. `server.highfidelity.com` - and it will be used to construct a signaling address of the form: `wss://${signalingHostURL}:${signalingPort}/?token=`
      * If the developer does not pass a `signalingHostURL` parameter, a default URL will be used instead. See: {@link DEFAULT_PROD_HIGH_FIDELITY_ENDPOINT}
      * Reading this parameter from the URL (if needed) should be implemented by the developer as part of the application code.
+     * If the passed `signalingHostURL` does include the `ws:` protocol (e.g. `ws://127.0.0.1:8889`, as used by {@link HiFiMockMixer}), an insecure
+     * WebSocket connection will be made instead; this is only intended for local testing.
      *
      * @param signalingPort The port to use for making WebSocket connections to the High Fidelity servers.
      * If the developer does not pass a `signalingPort` parameter, the default (443) will be used instead. See: {@link DEFAULT_PROD_HIGH_FIDELITY_PORT}
@@ -444,7 +958,7 @@ export class HiFiCommunicator {
      * @returns If this operation is successful, the Promise will resolve with `{ success: true, audionetInitResponse: <The response to `audionet.init` from the server in Object format>}`.
      * If unsuccessful, the Promise will reject with `{ success: false, error: <an error message> }`.
      */
-    async connectToHiFiAudioAPIServer(hifiAuthJWT: string, signalingHostURL?: string, signalingPort?: number): Promise<HiFiConnectionAttemptResult> {
+    async connectToHiFiAudioAPIServer(hifiAuthJWT?: string, signalingHostURL?: string, signalingPort?: number): Promise<HiFiConnectionAttemptResult> {
         if (!this._mixerSession) {
             let errMsg = `\`this._mixerSession\` is falsey; try creating a new HiFiCommunicator and starting over.`;
             return Promise.reject({
@@ -460,13 +974,24 @@ export class HiFiCommunicator {
                 error: msg
             });
         }
+        if (!hifiAuthJWT && !this._tokenProvider) {
+            let errMsg = `A JWT must be passed to \`connectToHiFiAudioAPIServer()\` unless a \`tokenProvider\` was passed to the HiFiCommunicator constructor.`;
+            return Promise.reject({
+                success: false,
+                error: errMsg
+            });
+        }
 
 
         let signalingHostURLSafe;
+        let signalingProtocol = "wss";
 
         try {
             let url = new URL(signalingHostURL);
             signalingHostURLSafe = url.hostname;
+            if (url.protocol === "ws:") {
+                signalingProtocol = "ws";
+            }
             if (signalingPort == null && url.port !== "") {
                 // sometimes the signalingPort is specified in the signalHostURL in which case
                 // we extract the port number rather than fallback to default
@@ -481,9 +1006,12 @@ export class HiFiCommunicator {
         this._mixerSession._disableReconnect  = false;
 
         signalingPort = signalingPort ? signalingPort : HiFiConstants.DEFAULT_PROD_HIGH_FIDELITY_PORT;
-        let webRTCSignalingAddress = `wss://${signalingHostURLSafe}:${signalingPort}/?token=`;
-        this._mixerSession.webRTCAddress = `${webRTCSignalingAddress}${hifiAuthJWT}`;
-        HiFiLogger.log(`Using WebRTC Signaling Address:\n${webRTCSignalingAddress}<token redacted>`);
+        let webRTCSignalingAddress = `${signalingProtocol}://${signalingHostURLSafe}:${signalingPort}/?token=`;
+        this._webRTCSignalingAddress = webRTCSignalingAddress;
+        if (hifiAuthJWT) {
+            this._setHiFiAuthJWT(hifiAuthJWT);
+        }
+        this._logger.log(`Using WebRTC Signaling Address:\n${webRTCSignalingAddress}<token redacted>`);
 
         // When making the initial connection, this connection method's promise shouldn't
         // resolve or reject until all retries have been attempted.
@@ -520,8 +1048,9 @@ export class HiFiCommunicator {
      * relies on connectToHiFiAudioAPIServer() having set up this._mixerSession appropriately.
      */
     private _connectToHiFiMixer(): void {
-        if (!this._mixerSession || !this._mixerSession.webRTCAddress) {
+        if (!this._mixerSession || !this._webRTCSignalingAddress) {
             this._manageConnection(HiFiConnectionStates.Failed, { success: false, error: "_connectToHiFiMixer() must be called after connectToHiFiAudioAPIServer()" });
+            return;
         }
         // This should never get called unless we are reasonably certain that the session is
         // NOT connected, but just in case.
@@ -530,12 +1059,45 @@ export class HiFiCommunicator {
             throw new Error(msg);
         }
 
+        if (!this._tokenProvider) {
+            this._startHiFiMixerConnectionAttempt();
+            return;
+        }
+
+        // Get a fresh JWT for every connection attempt. If the state changes while we're waiting for it -- for example,
+        // because `disconnectFromHiFiAudioAPIServer()` was called, or because we ran out of time for retries -- give up on this attempt.
+        let connectionState = this._currentHiFiConnectionState;
+        this._getHiFiAuthJWTFromTokenProvider().then((result) => {
+            if (this._currentHiFiConnectionState !== connectionState) {
+                this._logger.log(`The connection state changed to ${this._currentHiFiConnectionState} while waiting for the \`tokenProvider\`; abandoning the connection attempt.`);
+                return;
+            }
+            if (!result.success) {
+                // Handle this just like a connection attempt that failed; the connection manager will retry if that's configured.
+                this._manageConnection(HiFiConnectionStates.Failed, result);
+                this._manageConnection(HiFiConnectionStates.Disconnected, result);
+                return;
+            }
+            this._startHiFiMixerConnectionAttempt();
+        });
+    }
+
+    /**
+     * Connects the mixer session using the current JWT. Only called by `_connectToHiFiMixer()`.
+     */
+    private _startHiFiMixerConnectionAttempt(): void {
+        this._mixerSession.webRTCAddress = `${this._webRTCSignalingAddress}${this._hifiAuthJWT}`;
+        if (!this._timers.tokenExpiringTimeout) {
+            this._scheduleTokenExpiring();
+        }
+
         let timeoutPerConnectionAttempt = this._connectionRetryAndTimeoutConfig.timeoutPerConnectionAttemptMS;
+        let iceRestartTimeout = this._connectionRetryAndTimeoutConfig.iceRestartTimeoutMS;
         // Kick off the connection attempt. This returns a boolean, but any actual success or failure
         // gets handled by the _manageConnection callback handler. (Note that calls to our _connectToHiFiMixer()
         // method get handled entirely by callback-initiated retry code, so we should never get here unless
         // a callback asked us to do it.)
-        this._mixerSession.connectToHiFiMixer({ webRTCSessionParams: this._webRTCSessionParams, customSTUNandTURNConfig: this._customSTUNandTURNConfig, timeout: timeoutPerConnectionAttempt, initData: this._currentHiFiAudioAPIData });
+        this._mixerSession.connectToHiFiMixer({ webRTCSessionParams: this._webRTCSessionParams, customSTUNandTURNConfig: this._customSTUNandTURNConfig, timeout: timeoutPerConnectionAttempt, iceRestartTimeoutMS: iceRestartTimeout, initData: this._currentHiFiAudioAPIData });
     }
 
     /**
@@ -568,11 +1130,11 @@ export class HiFiCommunicator {
                  * They should always kick off a new connection attempt, UNLESS the current state is already "Connected".
                  */
                 if (this._currentHiFiConnectionState !== HiFiConnectionStates.Connected) {
-                    HiFiLogger.log(`_manageConnection: kicking off connection attempt.`);
+                    this._logger.log(`_manageConnection: kicking off connection attempt.`);
                     this._updateStateAndCallUserStateChangeHandler(newState, message);
                     this._connectToHiFiMixer();
                 } else {
-                    HiFiLogger.warn(`_manageConnection called for ${newState} -- but already connected; taking no action.`);
+                    this._logger.warn(`_manageConnection called for ${newState} -- but already connected; taking no action.`);
                 }
                 return;
 
@@ -585,6 +1147,8 @@ export class HiFiCommunicator {
                  */
                 clearTimeout(this._retryTimerInProgress);
                 this._retryTimerInProgress = null;
+                clearTimeout(this._timers.retryDelayTimeout);
+                this._timers.retryDelayTimeout = null;
                 this._failureNotificationPending = undefined; // No need to let them know if we failed earlier; everything's OK now!
                 // Finally, tell the user ("message" should be set to audionet.init result by the mixer change handler)
                 this._updateStateAndCallUserStateChangeHandler(newState, message);
@@ -594,7 +1158,10 @@ export class HiFiCommunicator {
                 /**
                  * The Disconnecting state is only ever set explicitly, when the `disconnectFromHiFiAudioAPIServer()` method is called,
                  * and is just used to track the fact that the user initiated the disconnection.
+                 * Any retry that's waiting to be made is abandoned.
                  */
+                clearTimeout(this._timers.retryDelayTimeout);
+                this._timers.retryDelayTimeout = null;
                 this._updateStateAndCallUserStateChangeHandler(newState, message);
                 return;
 
@@ -619,24 +1186,19 @@ export class HiFiCommunicator {
                  * and we're all done. However, if the current state is something else, we may want to retry.
                  */
                 if (this._retryTimerInProgress) {
-                    HiFiLogger.log("_manageConnection: Timer active; continuing to retry connection");
+                    this._logger.log("_manageConnection: Timer active; continuing to retry connection");
 
                     // `this._currentHiFiConnectionState` should already be
                     // either Connecting or Reconnecting, since there's a timer in play.
                     // (And if it's not, someone will hopefully let us know.)
                     if (this._currentHiFiConnectionState !== HiFiConnectionStates.Connecting &&
                                 this._currentHiFiConnectionState !== HiFiConnectionStates.Reconnecting) {
-                        HiFiLogger.warn(`_manageConnection handling reconnection, but encountered unexpected state ${this._currentHiFiConnectionState}; will attempt to reconnect, but please contact High Fidelity and report this message`);
+                        this._logger.warn(`_manageConnection handling reconnection, but encountered unexpected state ${this._currentHiFiConnectionState}; will attempt to reconnect, but please contact High Fidelity and report this message`);
                         // Fix the state; "Reconnecting" seems the best option at this point.
                         this._updateStateAndCallUserStateChangeHandler(HiFiConnectionStates.Reconnecting, message);
                     }
-                    // Catch our breath (the "pauseBetweenRetriesMS" setting), and then retry again
-                    setTimeout(() => {
-                        // The current connection state is either "Connecting" or "Reconnecting"
-                        // because we're already in the process of doing it. Re-calling with that
-                        // same state will kick off another connection.
-                        this._manageConnection(this._currentHiFiConnectionState);
-                    }, this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS);
+                    // Catch our breath (as long as the retry policy says), and then retry again
+                    this._scheduleRetry();
                     return;
                 }
 
@@ -656,7 +1218,7 @@ export class HiFiCommunicator {
                     // (Note - we're not even supposed to be here; this situation should have been
                     // caught by the "there's already a timer in play" logic above.
                     // However, bugs will be bugs, so log this unexpected event and handle it anyway.)
-                    HiFiLogger.warn(`_manageConnection handling reconnection, but is being called for ${newState} and there isn't already a timer. Will attempt to reconnect, but please contact High Fidelity and report this message`);
+                    this._logger.warn(`_manageConnection handling reconnection, but is being called for ${newState} and there isn't already a timer. Will attempt to reconnect, but please contact High Fidelity and report this message`);
                     retriesTimeoutMs = 1000 * this._connectionRetryAndTimeoutConfig.maxSecondsToSpendRetryingOnDisconnect;
 
                 } else if (this._currentHiFiConnectionState === HiFiConnectionStates.Connected &&
@@ -682,25 +1244,20 @@ export class HiFiCommunicator {
 
                 // Timeout should be non-zero if we've made it this far, but just in case...
                 if (retriesTimeoutMs >= 0) {
-                    HiFiLogger.warn("_manageConnection: Attempting retry of connection with timeout " + retriesTimeoutMs);
+                    this._logger.warn("_manageConnection: Attempting retry of connection with timeout " + retriesTimeoutMs);
                     // Set up a timer that will cancel the retries after the specified amount of time
                     this._retryTimerInProgress = setTimeout(() => {
                         this._cancelRetriedConnectionAttempts();
                     }, retriesTimeoutMs);
+                    // Each retry cycle starts over at the retry policy's first delay.
+                    this._retryPolicy.reset();
 
                     if (this._currentHiFiConnectionState === HiFiConnectionStates.Connected) {
                         // Set the state to "Reconnecting" if it's the first failure from a connected state.
                         this._updateStateAndCallUserStateChangeHandler(HiFiConnectionStates.Reconnecting, message);
-                        setTimeout(() => {
-                                this._manageConnection(HiFiConnectionStates.Reconnecting);
-                        }, this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS);
-                    } else if (this._currentHiFiConnectionState === HiFiConnectionStates.Connecting) {
-                        // We're kicking off an initial reconnect from a new attempt to connect, so
-                        // stay at "Connecting".
-                        setTimeout(() => {
-                                this._manageConnection(HiFiConnectionStates.Connecting);
-                        }, this._connectionRetryAndTimeoutConfig.pauseBetweenRetriesMS);
                     }
+                    // If we're kicking off an initial reconnect from a new attempt to connect, we stay at "Connecting".
+                    this._scheduleRetry();
                 }
                 return;
 
@@ -713,11 +1270,48 @@ export class HiFiCommunicator {
                 return;
 
             default:
-                HiFiLogger.error(`_manageConnection called for invalid state change to ${newState}; taking no action.`);
+                this._logger.error(`_manageConnection called for invalid state change to ${newState}; taking no action.`);
                 return;
         }
     }
 
+    /**
+     * Schedules the next connection attempt of the current retry cycle, after the delay given by the retry policy,
+     * and emits `retryScheduled`. If the retry policy doesn't allow any more attempts, the retries are cancelled instead.
+     * Must only be called while the current state is "Connecting" or "Reconnecting".
+     */
+    private _scheduleRetry(): void {
+        let error = this._failureNotificationPending ? this._failureNotificationPending.error : undefined;
+        let delayMS = this._retryPolicy.nextDelayMS();
+        if (delayMS === undefined) {
+            this._logger.warn(`_manageConnection: Giving up after ${this._retryPolicy.getAttemptCount()} retries, as configured by the retry policy.`);
+            if (!this._failureNotificationPending) {
+                this._failureNotificationPending = { success: false, error: `Connection retry attempts unsuccessful after ${this._retryPolicy.getAttemptCount()} retries` };
+            }
+            this._cancelRetriedConnectionAttempts();
+            return;
+        }
+
+        // The current connection state is either "Connecting" or "Reconnecting"
+        // because we're already in the process of doing it. Re-calling with that
+        // same state will kick off another connection.
+        let connectionState = this._currentHiFiConnectionState;
+        clearTimeout(this._timers.retryDelayTimeout);
+        this._timers.retryDelayTimeout = setTimeout(() => {
+            this._timers.retryDelayTimeout = null;
+            this._manageConnection(connectionState);
+        }, delayMS);
+
+        this._logger.log(`_manageConnection: Retry ${this._retryPolicy.getAttemptCount()} scheduled in ${delayMS}ms.`);
+        this._events.emit("retryScheduled", {
+            attempt: this._retryPolicy.getAttemptCount(),
+            maxAttempts: this._retryPolicy.maxAttempts,
+            delayMS,
+            connectionState,
+            error
+        });
+    }
+
     /**
      * This method will handle updating the _currentHiFiConnectionState and notifying
      * the user's callback (when we're ready for that to happen). This will also resolve
@@ -726,19 +1320,58 @@ export class HiFiCommunicator {
      * unless there's a really good reason (e.g. `_cancelRetriedConnectionAttempts`)
      */
     private _updateStateAndCallUserStateChangeHandler(newState: HiFiConnectionStates, message?: HiFiConnectionAttemptResult): void {
+        let restoredOtherUserGainCount = 0;
         if (newState === HiFiConnectionStates.Connected) {
-            // Always reset last transmitted, and transmit current data as soon as we connect, just to be sure
+            // Always reset last transmitted, and transmit current data as soon as we connect, just to be sure.
+            // This also replays the gains that we've set for other users, which are otherwise only transmitted once.
             this._lastTransmittedHiFiAudioAPIData = new HiFiAudioAPIData();
+            restoredOtherUserGainCount = Object.keys(this._desiredOtherUserGains).length;
+            this._currentHiFiAudioAPIData._otherUserGainQueue = Object.assign({}, this._desiredOtherUserGains, this._currentHiFiAudioAPIData._otherUserGainQueue);
             this._transmitHiFiAudioAPIDataToServer(true);
         }
 
+        if (newState === HiFiConnectionStates.Connected) {
+            this._startSpeakingDetection();
+            this._startConnectionQualityMonitoring();
+            this._startDiagnosticsHistoryStats();
+        } else {
+            this._stopSpeakingDetection();
+            this._stopConnectionQualityMonitoring();
+            this._stopDiagnosticsHistoryStats();
+            // Nothing can be transmitted until we're connected again, and the desired state is replayed then.
+            this._maybeClearRateLimitTimeout();
+            this._maybeClearDeferredTransmitTimeout();
+        }
+
+        // Hashed visit IDs, and the gains applied to them, don't survive a reconnection.
+        this._appliedOtherUserGains.clear();
+        if (newState === HiFiConnectionStates.Connected) {
+            this._applyOtherUserGainsByProvidedUserID(this.getPeers()).catch((e) => {
+                this._logger.error(`Couldn't re-apply the gains set by provided user ID:\n${e}`);
+            });
+        }
+
         // If the new state is different from the current state,
         // change the current state to the new state and call the user's handler.
         if (newState !== this._currentHiFiConnectionState) {
             this._currentHiFiConnectionState = newState;
-            if (this.onConnectionStateChanged) {
-                this.onConnectionStateChanged(this._currentHiFiConnectionState, message);
-            }
+            this._events.emit("connectionStateChanged", this._currentHiFiConnectionState, message);
+        }
+
+        if (newState === HiFiConnectionStates.Disconnecting || newState === HiFiConnectionStates.Disconnected || newState === HiFiConnectionStates.Unavailable) {
+            // The JWT only matters while we're connected or trying to connect.
+            clearTimeout(this._timers.tokenExpiringTimeout);
+            this._timers.tokenExpiringTimeout = null;
+        }
+
+        if (newState !== HiFiConnectionStates.Connected) {
+            this._settlePendingTransmits({ success: false, error: `The connection to the server was lost before the user data was transmitted.` });
+        }
+
+        if (newState === HiFiConnectionStates.Connected) {
+            let isReconnection = this._hasConnectedBefore;
+            this._hasConnectedBefore = true;
+            this._restoreDesiredState(isReconnection, restoredOtherUserGainCount);
         }
 
         // Also check to make sure there aren't any Promises that need fulfilling
@@ -766,9 +1399,11 @@ export class HiFiCommunicator {
      * when an attempt to reconnect times out.
      */
     private _cancelRetriedConnectionAttempts(): void {
-        HiFiLogger.warn("Cancelling retries of connections");
+        this._logger.warn("Cancelling retries of connections");
         clearTimeout(this._retryTimerInProgress);
         this._retryTimerInProgress = undefined;
+        clearTimeout(this._timers.retryDelayTimeout);
+        this._timers.retryDelayTimeout = null;
         // Explicitly set the current state to "Failed" so that we don't
         // end up just kicking off another set of retries. This will get
         // messaged to the user once the `disconnectFromHiFiMixer` method
@@ -799,47 +1434,171 @@ export class HiFiCommunicator {
     }
 
     /**
+     * Sets the function that is called to get a new JWT before every connection attempt and shortly before the current JWT expires.
+     * The new `tokenProvider` is used from the next connection attempt on; it doesn't affect the current connection.
+     * See {@link HiFiTokenProvider}.
      *
-     * NON-connection-handling methods below here
-     *
+     * @param tokenProvider The new `tokenProvider`, or `undefined` to keep using the current JWT for reconnection attempts.
      */
+    setTokenProvider(tokenProvider: HiFiTokenProvider): void {
+        this._tokenProvider = tokenProvider;
+    }
 
     /**
-     * Adjusts the gain of another user for this communicator's current connection only. This is a single user version of {@link HiFiCommunicator.setOtherUserGainsForThisConnection}.
-     * This can be used to provide a more comfortable listening experience for the client. If you need to perform moderation actions which apply server side, use the {@link https://docs.highfidelity.com/rest/latest/index.html|Administrative REST API}.
-     * 
-     * To use this command, the communicator must currently be connected to a space. You can connect to a space using {@link connectToHiFiAudioAPIServer}.
-     * 
-     * @param hashedVisitId  The hashed visit ID of the user whose gain will be adjusted.
-     * Use {@link addUserDataSubscription} and {@link HiFiCommunicator.onUsersDisconnected} to keep track of the hashed visit IDs of currently connected users.
-     * 
-     * When you subscribe to user data, you will get a list of {@link ReceivedHiFiAudioAPIData} objects, which each contain, at minimum, {@link ReceivedHifiAudioAPIData.hashedVisitID}s and {@link ReceivedHifiAudioAPIData.providedUserID}s for each user in the space. By inspecting each of these objects, you can associate a user with their hashed visit ID, if you know their provided user ID.
-     *
-     * @param gain  The relative gain to apply to the other user. By default, this is `1.0`. The gain can be any value greater or equal to `0.0`.
-     * For example: a gain of `2.0` will double the loudness of the user, while a gain of `0.5` will halve the user's loudness. A gain of `0.0` will effectively mute the user.
-     * 
-     * @returns If this operation is successful, the Promise will resolve with {@link SetOtherUserGainForThisConnectionResponse} with `success` equal to `true`.
-     * If unsuccessful, the Promise will reject with {@link SetOtherUserGainForThisConnectionResponse} with `success` equal to `false` and `error` set to an error message describing what went wrong.
+     * @returns The time at which the JWT used for the current (or next) connection attempt expires, according to its `exp` claim.
+     * `undefined` if there's no JWT yet, or if the JWT doesn't expire. The JWT's signature isn't verified.
      */
-    async setOtherUserGainForThisConnection(visitIdHash: string, gain: number): Promise<SetOtherUserGainForThisConnectionResponse> {
-        let otherUserGainMap: OtherUserGainMap = {};
-        otherUserGainMap[visitIdHash] = gain;
-        let result = this.setOtherUserGainsForThisConnection(otherUserGainMap);
-        return Promise.resolve(result);
+    getHiFiAuthJWTExpiration(): Date {
+        let expirationTimeMS = HiFiJWTUtilities.getExpirationTimeMS(this._hifiAuthJWT);
+        return expirationTimeMS === undefined ? undefined : new Date(expirationTimeMS);
     }
 
     /**
-     * Adjusts the gain of one or more users for this communicator's current connection only.
-     * This can be used to provide a more comfortable listening experience for the client. If you need to perform moderation actions on the server side, use the {@link https://docs.highfidelity.com/rest/latest/index.html|Administrative REST API}.
-     * 
-     * To use this command, the communicator must currently be connected to a space. You can connect to a space using {@link connectToHiFiAudioAPIServer}.
-     * 
-     * @param otherUserGainMap  The map between hashed visit IDs and the desired adjusted gains of users from the perspective of this client, for this connection only.
-     * 
-     * Use {@link addUserDataSubscription} and {@link HiFiCommunicator.onUsersDisconnected} to keep track of the hashed visit IDs of currently connected users.
-     * 
-     * When you subscribe to user data, you will get a list of {@link ReceivedHiFiAudioAPIData} objects, which each contain, at minimum, {@link ReceivedHifiAudioAPIData.hashedVisitID}s and {@link ReceivedHifiAudioAPIData.providedUserID}s for each user in the space. By inspecting each of these objects, you can associate a user with their hashed visit ID, if you know their provided user ID.
-     * 
+     * Makes `hifiAuthJWT` the JWT used for connection attempts, and schedules the `tokenExpiring` event for it.
+     */
+    private _setHiFiAuthJWT(hifiAuthJWT: string): void {
+        if (hifiAuthJWT === this._hifiAuthJWT) {
+            return;
+        }
+        this._hifiAuthJWT = hifiAuthJWT;
+        if (this._webRTCSignalingAddress && this._mixerSession) {
+            this._mixerSession.webRTCAddress = `${this._webRTCSignalingAddress}${hifiAuthJWT}`;
+        }
+
+        if (HiFiJWTUtilities.isExpired(hifiAuthJWT)) {
+            this._logger.warn(`The JWT expired at ${this.getHiFiAuthJWTExpiration().toISOString()}, so the server will probably reject it. Please check the client's clock if that's unexpected.`);
+        }
+        this._scheduleTokenExpiring();
+    }
+
+    /**
+     * Calls the `tokenProvider` and, if it returns a JWT, makes it the JWT used for connection attempts. If the `tokenProvider` fails,
+     * the current JWT is kept, as long as it hasn't expired.
+     *
+     * @returns A Promise that always resolves; `success` is `false` if there's no usable JWT.
+     */
+    private async _getHiFiAuthJWTFromTokenProvider(): Promise<HiFiConnectionAttemptResult> {
+        let errMsg: string;
+        try {
+            let hifiAuthJWT = await this._tokenProvider();
+            if (typeof (hifiAuthJWT) === "string" && hifiAuthJWT.length > 0) {
+                this._setHiFiAuthJWT(hifiAuthJWT);
+                return { success: true };
+            }
+            errMsg = `The \`tokenProvider\` didn't return a JWT.`;
+        } catch (e) {
+            errMsg = `The \`tokenProvider\` failed! Error:\n${e}`;
+        }
+
+        if (this._hifiAuthJWT && !HiFiJWTUtilities.isExpired(this._hifiAuthJWT)) {
+            this._logger.warn(`${errMsg} Using the current JWT instead.`);
+            return { success: true };
+        }
+        this._logger.error(errMsg);
+        return { success: false, error: errMsg };
+    }
+
+    /**
+     * Schedules the `tokenExpiring` event for the current JWT, if it has an `exp` claim and the communicator is connected or connecting.
+     */
+    private _scheduleTokenExpiring(): void {
+        clearTimeout(this._timers.tokenExpiringTimeout);
+        this._timers.tokenExpiringTimeout = null;
+        if (![HiFiConnectionStates.Connected, HiFiConnectionStates.Connecting, HiFiConnectionStates.Reconnecting].includes(this._currentHiFiConnectionState)) {
+            return;
+        }
+        let expirationTimeMS = HiFiJWTUtilities.getExpirationTimeMS(this._hifiAuthJWT);
+        if (expirationTimeMS === undefined) {
+            return;
+        }
+
+        // `setTimeout()` can't wait for longer than about 24.8 days, so check again after that long.
+        const MAX_TIMEOUT_MS = 0x7FFFFFFF;
+        let delayMS = expirationTimeMS - 1000 * this._tokenExpiringLeadTimeSeconds - Date.now();
+        if (delayMS > MAX_TIMEOUT_MS) {
+            this._timers.tokenExpiringTimeout = setTimeout(() => { this._scheduleTokenExpiring(); }, MAX_TIMEOUT_MS);
+            return;
+        }
+        this._timers.tokenExpiringTimeout = setTimeout(() => {
+            this._timers.tokenExpiringTimeout = null;
+            this._handleTokenExpiring();
+        }, Math.max(0, delayMS));
+    }
+
+    /**
+     * Emits `tokenExpiring` for the current JWT (once), and proactively fetches a new JWT if there's a `tokenProvider`, so that it's
+     * ready for the next reconnection attempt.
+     */
+    private _handleTokenExpiring(): void {
+        let hifiAuthJWT = this._hifiAuthJWT;
+        if (this._tokenExpiringEmittedForJWT === hifiAuthJWT) {
+            return;
+        }
+        this._tokenExpiringEmittedForJWT = hifiAuthJWT;
+
+        let expirationTimeMS = HiFiJWTUtilities.getExpirationTimeMS(hifiAuthJWT);
+        let refreshing = !!this._tokenProvider;
+        // If the `tokenProvider` returned a JWT that was already this close to expiring, requesting another one would just return
+        // another such JWT, straight away and over and over again.
+        if (refreshing && this._tokenRefreshRequestedAtMS !== undefined && expirationTimeMS - this._tokenRefreshRequestedAtMS <= 1000 * this._tokenExpiringLeadTimeSeconds) {
+            this._logger.warn(`The JWT from the \`tokenProvider\` expires at ${new Date(expirationTimeMS).toISOString()}, within \`tokenExpiringLeadTimeSeconds\` (${this._tokenExpiringLeadTimeSeconds}) of being requested, so it won't be replaced before it expires. A new JWT will be requested before the next connection attempt.`);
+            refreshing = false;
+        }
+        this._events.emit("tokenExpiring", {
+            expiresAt: new Date(expirationTimeMS),
+            secondsRemaining: Math.max(0, (expirationTimeMS - Date.now()) / 1000),
+            refreshing
+        });
+
+        if (refreshing) {
+            this._logger.log(`The JWT expires at ${new Date(expirationTimeMS).toISOString()}; requesting a new JWT from the \`tokenProvider\`.`);
+            this._tokenRefreshRequestedAtMS = Date.now();
+            this._getHiFiAuthJWTFromTokenProvider();
+        }
+    }
+
+    /**
+     *
+     * NON-connection-handling methods below here
+     *
+     */
+
+    /**
+     * Adjusts the gain of another user for this communicator's current connection only. This is a single user version of {@link HiFiCommunicator.setOtherUserGainsForThisConnection}.
+     * This can be used to provide a more comfortable listening experience for the client. If you need to perform moderation actions which apply server side, use the {@link https://docs.highfidelity.com/rest/latest/index.html|Administrative REST API}.
+     * 
+     * To use this command, the communicator must currently be connected to a space. You can connect to a space using {@link connectToHiFiAudioAPIServer}.
+     * 
+     * @param hashedVisitId  The hashed visit ID of the user whose gain will be adjusted.
+     * Use {@link addUserDataSubscription} and {@link HiFiCommunicator.onUsersDisconnected} to keep track of the hashed visit IDs of currently connected users.
+     * 
+     * When you subscribe to user data, you will get a list of {@link ReceivedHiFiAudioAPIData} objects, which each contain, at minimum, {@link ReceivedHifiAudioAPIData.hashedVisitID}s and {@link ReceivedHifiAudioAPIData.providedUserID}s for each user in the space. By inspecting each of these objects, you can associate a user with their hashed visit ID, if you know their provided user ID.
+     *
+     * @param gain  The relative gain to apply to the other user. By default, this is `1.0`. The gain can be any value greater or equal to `0.0`.
+     * For example: a gain of `2.0` will double the loudness of the user, while a gain of `0.5` will halve the user's loudness. A gain of `0.0` will effectively mute the user.
+     * 
+     * @returns If this operation is successful, the Promise will resolve with {@link SetOtherUserGainForThisConnectionResponse} with `success` equal to `true`.
+     * If unsuccessful, the Promise will reject with {@link SetOtherUserGainForThisConnectionResponse} with `success` equal to `false` and `error` set to an error message describing what went wrong.
+     */
+    async setOtherUserGainForThisConnection(visitIdHash: string, gain: number): Promise<SetOtherUserGainForThisConnectionResponse> {
+        let otherUserGainMap: OtherUserGainMap = {};
+        otherUserGainMap[visitIdHash] = gain;
+        let result = this.setOtherUserGainsForThisConnection(otherUserGainMap);
+        return Promise.resolve(result);
+    }
+
+    /**
+     * Adjusts the gain of one or more users for this communicator's current connection only.
+     * This can be used to provide a more comfortable listening experience for the client. If you need to perform moderation actions on the server side, use the {@link https://docs.highfidelity.com/rest/latest/index.html|Administrative REST API}.
+     * 
+     * To use this command, the communicator must currently be connected to a space. You can connect to a space using {@link connectToHiFiAudioAPIServer}.
+     * 
+     * @param otherUserGainMap  The map between hashed visit IDs and the desired adjusted gains of users from the perspective of this client, for this connection only.
+     * 
+     * Use {@link addUserDataSubscription} and {@link HiFiCommunicator.onUsersDisconnected} to keep track of the hashed visit IDs of currently connected users.
+     * 
+     * When you subscribe to user data, you will get a list of {@link ReceivedHiFiAudioAPIData} objects, which each contain, at minimum, {@link ReceivedHifiAudioAPIData.hashedVisitID}s and {@link ReceivedHifiAudioAPIData.providedUserID}s for each user in the space. By inspecting each of these objects, you can associate a user with their hashed visit ID, if you know their provided user ID.
+     * 
      * The relative gain will be applied to the other user with the matching hashed visit ID. By default, this is `1.0`. The gain can be any value greater or equal to `0.0`.
      * For example: a gain of `2.0` will double the loudness of the user, while a gain of `0.5` will halve the user's loudness. A gain of `0.0` will effectively mute the user.
      * 
@@ -848,6 +1607,7 @@ export class HiFiCommunicator {
      */
     async setOtherUserGainsForThisConnection(otherUserGainMap: OtherUserGainMap): Promise<SetOtherUserGainsForThisConnectionResponse> {
         Object.assign(this._currentHiFiAudioAPIData._otherUserGainQueue, otherUserGainMap);
+        Object.assign(this._desiredOtherUserGains, otherUserGainMap);
 
         let result = this._transmitHiFiAudioAPIDataToServer();
         return Promise.resolve({
@@ -857,6 +1617,106 @@ export class HiFiCommunicator {
     }
 
 
+    /**
+     * Adjusts the gain of every connection of another user, identified by their provided user ID, from the perspective of this client.
+     * Unlike {@link setOtherUserGainForThisConnection}, the gain is persisted (see the `otherUserGainStorage` parameter of {@link constructor}),
+     * and is automatically re-applied whenever a user with that provided user ID joins the Space, and whenever this communicator reconnects.
+     *
+     * @param providedUserID  The provided user ID of the user whose gain will be adjusted. See {@link ReceivedHiFiAudioAPIData.providedUserID}.
+     * @param gain  The relative gain to apply to the other user. The gain can be any value greater or equal to `0.0`. See {@link setOtherUserGainsForThisConnection}.
+     * If the user has been muted with {@link setOtherUserMutedByProvidedUserID}, the new gain is applied when they are unmuted.
+     *
+     * @returns The result of applying the gain to the matching users who are currently connected. The gain is persisted even if that fails,
+     * or if no matching users are connected, unless the gain is invalid.
+     */
+    async setOtherUserGainByProvidedUserID(providedUserID: string, gain: number): Promise<SetOtherUserGainsForThisConnectionResponse> {
+        if (typeof (gain) !== "number" || !(gain >= 0)) {
+            let errMsg = `Couldn't set the gain for \`${providedUserID}\`: The gain must be a number greater than or equal to 0.`;
+            this._logger.error(errMsg);
+            return Promise.resolve({ success: false, error: errMsg });
+        }
+        this._otherUserGainStore.setGain(providedUserID, gain);
+        return this._applyOtherUserGainsByProvidedUserID(this.getPeers(), providedUserID);
+    }
+
+    /**
+     * Mutes or unmutes every connection of another user, identified by their provided user ID, from the perspective of this client.
+     * The mute state is persisted and re-applied in the same way as {@link setOtherUserGainByProvidedUserID}; unmuting restores the user's gain.
+     *
+     * @param providedUserID  The provided user ID of the user to mute or unmute. See {@link ReceivedHiFiAudioAPIData.providedUserID}.
+     * @param muted  `true` to mute the other user, `false` to unmute them.
+     * @returns The result of applying the mute state to the matching users who are currently connected.
+     */
+    async setOtherUserMutedByProvidedUserID(providedUserID: string, muted: boolean): Promise<SetOtherUserGainsForThisConnectionResponse> {
+        this._otherUserGainStore.setMuted(providedUserID, muted);
+        return this._applyOtherUserGainsByProvidedUserID(this.getPeers(), providedUserID);
+    }
+
+    /**
+     * Forgets the gain and mute state set for another user with {@link setOtherUserGainByProvidedUserID} or {@link setOtherUserMutedByProvidedUserID},
+     * and resets the gain of their current connections to `1.0`.
+     *
+     * @param providedUserID  The provided user ID of the other user.
+     * @returns The result of resetting the gain of the matching users who are currently connected.
+     */
+    async removeOtherUserGainByProvidedUserID(providedUserID: string): Promise<SetOtherUserGainsForThisConnectionResponse> {
+        if (!this._otherUserGainStore.remove(providedUserID)) {
+            return Promise.resolve({ success: true });
+        }
+        let otherUserGainMap: OtherUserGainMap = {};
+        for (const peer of this.getPeers()) {
+            if (peer.providedUserID === providedUserID && this._appliedOtherUserGains.has(peer.hashedVisitID)) {
+                this._appliedOtherUserGains.delete(peer.hashedVisitID);
+                otherUserGainMap[peer.hashedVisitID] = 1.0;
+            }
+        }
+        if (Object.keys(otherUserGainMap).length === 0) {
+            return Promise.resolve({ success: true });
+        }
+        return this.setOtherUserGainsForThisConnection(otherUserGainMap);
+    }
+
+    /**
+     * @returns A copy of every gain and mute state set with {@link setOtherUserGainByProvidedUserID} and {@link setOtherUserMutedByProvidedUserID},
+     * keyed by provided user ID.
+     */
+    getOtherUserGainsByProvidedUserID(): { [providedUserID: string]: OtherUserGainSetting } {
+        return this._otherUserGainStore.getAll();
+    }
+
+    /**
+     * Applies the gains from `_otherUserGainStore` to the given peers, skipping peers that already have the right gain for this connection.
+     * @param peers The peers to consider.
+     * @param onlyProvidedUserID If set, only peers with this provided user ID are considered.
+     */
+    private async _applyOtherUserGainsByProvidedUserID(peers: Array<ReceivedHiFiAudioAPIData>, onlyProvidedUserID?: string): Promise<SetOtherUserGainsForThisConnectionResponse> {
+        let otherUserGainMap: OtherUserGainMap = {};
+        for (const peer of peers) {
+            if (peer.isSelf || !peer.hashedVisitID || !peer.providedUserID) {
+                continue;
+            }
+            if (onlyProvidedUserID !== undefined && peer.providedUserID !== onlyProvidedUserID) {
+                continue;
+            }
+            let gain = this._otherUserGainStore.getEffectiveGain(peer.providedUserID);
+            if (gain === undefined || this._appliedOtherUserGains.get(peer.hashedVisitID) === gain) {
+                continue;
+            }
+            otherUserGainMap[peer.hashedVisitID] = gain;
+        }
+        if (Object.keys(otherUserGainMap).length === 0) {
+            return Promise.resolve({ success: true });
+        }
+        let result = await this.setOtherUserGainsForThisConnection(otherUserGainMap);
+        // Only gains that were sent are considered applied, so that failed gains are sent again the next time.
+        if (result.success) {
+            for (const hashedVisitID in otherUserGainMap) {
+                this._appliedOtherUserGains.set(hashedVisitID, otherUserGainMap[hashedVisitID]);
+            }
+        }
+        return result;
+    }
+
     /**
      * @returns The final mixed audio `MediaStream` coming from the High Fidelity Audio Server.
      */
@@ -890,8 +1750,14 @@ export class HiFiCommunicator {
         const retval = await this._mixerSession.setRAVIInputAudio(newInputAudioMediaStream, isStereo);
         if (retval) {
             this._inputAudioMediaStream = newInputAudioMediaStream;
+            this._inputAudioMediaStreamIsStereo = isStereo;
+            this._inputModeController.setInputAudioMediaStream(newInputAudioMediaStream);
+            if (!this._inputModeController.isGateOpen() && !this._inputAudioMutedByUser) {
+                // The new stream's tracks are enabled, but the input gate is closed.
+                await this._mixerSession._setMutedByInputMode(true);
+            }
         } else {
-            HiFiLogger.warn(`Error trying to setRAVIInputAudio on this._mixerSession`);
+            this._logger.warn(`Error trying to setRAVIInputAudio on this._mixerSession`);
         }
         return retval;
     }
@@ -908,19 +1774,376 @@ export class HiFiCommunicator {
      * the moment the input is muted.
      *
      * An alterative is to set the user's {@link volumeThreshold} to 0, which smoothly gates off the user's input.
+     *
+     * Muting takes precedence over the input mode: while muted, input audio is not transmitted even if push-to-talk is pressed.
+     * Unmuting while the input gate is closed (see {@link setInputMode}) leaves the stream muted until the gate opens.
      * @returns `true` if the stream was successfully muted/unmuted, `false` if it was not. (The user should
      * assume that if this returns `false`, no change was made to the mute (track enabled) state of the stream.)
      */
     async setInputAudioMuted(isMuted: boolean): Promise<boolean> {
         if (this._mixerSession) {
-            HiFiLogger.debug(`Setting mute state to : ${isMuted}`);
-            return await this._mixerSession.setInputAudioMuted(isMuted);
+            this._logger.debug(`Setting mute state to : ${isMuted}`);
+            this._inputAudioMutedByUser = isMuted;
+            return await this._mixerSession.setInputAudioMuted(isMuted || !this._inputModeController.isGateOpen());
         } else {
-            HiFiLogger.warn(`Couldn't set mute state: No \`_mixerSession\`.`);
+            this._logger.warn(`Couldn't set mute state: No \`_mixerSession\`.`);
             return false;
         }
     }
 
+    /**
+     * Sets how the client decides whether to transmit its input audio. See {@link HiFiInputModes} for the available modes.
+     * In every mode except {@link HiFiInputModes.OpenMic}, the input audio is muted until the user starts talking.
+     *
+     * The input mode never overrides other mutes: input audio is not transmitted while {@link setInputAudioMuted} has muted it,
+     * and an admin mute (see {@link MuteReason.ADMIN}) cannot be bypassed by starting to talk. When an admin allows the client to unmute again,
+     * the input audio is unmuted the next time the input gate opens.
+     *
+     * To bind push-to-talk to a key, pass a `pushToTalkKeyCode` to {@link HiFiControls} and call {@link startTalking} and {@link stopTalking}
+     * from its `onPushToTalkKeyDown` and `onPushToTalkKeyUp` callbacks. To bind it to an element, use {@link bindPushToTalkElement}.
+     * @param mode The new input mode.
+     * @param config Settings such as the release tail and the voice activation threshold. See {@link InputModeConfig}.
+     * @returns `true` if the input mode was changed, `false` if it was not, for example because voice activation isn't available in this context.
+     */
+    setInputMode(mode: HiFiInputModes, config?: InputModeConfig): boolean {
+        return this._inputModeController.setMode(mode, config);
+    }
+
+    /**
+     * @returns The current input mode. See {@link setInputMode}.
+     */
+    getInputMode(): HiFiInputModes {
+        return this._inputModeController.getMode();
+    }
+
+    /**
+     * @returns `true` if the current input mode allows input audio to be transmitted right now. Input audio may still be muted
+     * by {@link setInputAudioMuted} or by an admin.
+     */
+    isInputGateOpen(): boolean {
+        return this._inputModeController.isGateOpen();
+    }
+
+    /**
+     * Starts transmitting input audio in the {@link HiFiInputModes.PushToTalk} and {@link HiFiInputModes.ToggleToTalk} input modes.
+     * Call this when push-to-talk is pressed.
+     */
+    startTalking(): void {
+        this._inputModeController.startTalking();
+    }
+
+    /**
+     * Stops transmitting input audio in the {@link HiFiInputModes.PushToTalk} and {@link HiFiInputModes.ToggleToTalk} input modes.
+     * Call this when push-to-talk is released. In {@link HiFiInputModes.PushToTalk} mode, input audio continues to be transmitted for the release tail.
+     */
+    stopTalking(): void {
+        this._inputModeController.stopTalking();
+    }
+
+    /**
+     * Starts or stops transmitting input audio in the {@link HiFiInputModes.ToggleToTalk} input mode.
+     */
+    toggleTalking(): void {
+        this._inputModeController.toggleTalking();
+    }
+
+    /**
+     * Makes pressing and releasing an element, such as an on-screen button, call {@link startTalking} and {@link stopTalking}.
+     * @param element The element to bind.
+     * @returns A function that removes the binding.
+     */
+    bindPushToTalkElement(element: EventTarget): () => void {
+        return this._inputModeController.bindPushToTalkElement(element);
+    }
+
+    /**
+     * Called by the HiFiInputModeController when the input gate opens or closes.
+     */
+    private _handleInputGateChanged(isOpen: boolean): void {
+        this._events.emit("inputGateChanged", isOpen);
+        if (this._inputAudioMutedByUser) {
+            // The user's mute wins; the input audio is already muted.
+            return;
+        }
+        if (isOpen && this._mixerSession.getAdminPreventsInputAudioUnmuting()) {
+            this._logger.debug(`Not unmuting for the input mode: Muted by admin.`);
+            return;
+        }
+        this._mixerSession._setMutedByInputMode(!isOpen).catch((e) => {
+            this._logger.error(`Couldn't ${isOpen ? "unmute" : "mute"} the input audio for the input mode:\n${e}`);
+        });
+    }
+
+    /**
+     * The peer roster contains the full, merged state of every peer that the server has told this client about and that hasn't since disconnected,
+     * including this client itself (see {@link ReceivedHiFiAudioAPIData.isSelf}) unless the {@link HiFiUserDataStreamingScopes} is `Peers`.
+     * The roster is empty if the {@link HiFiUserDataStreamingScopes} is `None`, and it is emptied when this client disconnects.
+     * 
+     * Use {@link onPeerJoined}, {@link onPeerLeft}, and {@link onPeerUpdated} to be notified of changes to the roster.
+     * 
+     * @returns A copy of every peer in the peer roster, expressed in the World coordinate frame.
+     */
+    getPeers(): Array<ReceivedHiFiAudioAPIData> {
+        if (!this._mixerSession) {
+            return [];
+        }
+        return this._mixerSession.getPeers();
+    }
+
+    /**
+     * @param hashedVisitID - The hashed visit ID of the peer. See {@link ReceivedHiFiAudioAPIData.hashedVisitID}.
+     * @returns A copy of the peer in the peer roster with the given hashed visit ID, or `undefined` if there is no such peer. See {@link getPeers}.
+     */
+    getPeer(hashedVisitID: string): ReceivedHiFiAudioAPIData {
+        if (!this._mixerSession) {
+            return undefined;
+        }
+        return this._mixerSession.getPeer(hashedVisitID);
+    }
+
+    /**
+     * Because the High Fidelity API does not enforce uniqueness of provided user IDs, more than one peer may match.
+     * In that case, the peer that the server told this client about first is returned.
+     * 
+     * @param providedUserID - The provided user ID of the peer. See {@link ReceivedHiFiAudioAPIData.providedUserID}.
+     * @returns A copy of the peer in the peer roster with the given provided user ID, or `undefined` if there is no such peer. See {@link getPeers}.
+     */
+    getPeerByProvidedUserID(providedUserID: string): ReceivedHiFiAudioAPIData {
+        return this.getPeers().find((peer) => { return peer.providedUserID === providedUserID; });
+    }
+
+    /**
+     * @returns The number of peers currently in the peer roster. See {@link getPeers}.
+     */
+    getPeerCount(): number {
+        return this.getPeers().length;
+    }
+
+    /**
+     * Use this to render peers smoothly: rather than jumping to each new position and orientation when the server reports it,
+     * the peer's pose is interpolated between the samples received from the server, `renderDelayMS` in the past, and is
+     * extrapolated for a short time when no recent sample is available. Position is interpolated linearly, and orientation
+     * is interpolated using spherical linear interpolation.
+     *
+     * Requires a `peerMotionInterpolationConfig` to have been passed to the constructor.
+     *
+     * @param hashedVisitID The hashed visit ID of the peer. See {@link ReceivedHiFiAudioAPIData.hashedVisitID}.
+     * @param timeMS The current time, as returned by `Date.now()`. Defaults to `Date.now()`.
+     * @returns The smoothed pose of the peer, in the World coordinate frame, or `undefined` if no position or orientation has been received for the peer.
+     */
+    getInterpolatedPeerPose(hashedVisitID: string, timeMS: number = Date.now()): PeerPose {
+        if (!this._peerMotionInterpolator) {
+            this._logger.warn(`Couldn't get the interpolated pose of a peer: no \`peerMotionInterpolationConfig\` was passed to the \`HiFiCommunicator\` constructor.`);
+            return undefined;
+        }
+        return this._peerMotionInterpolator.getInterpolatedPeerPose(hashedVisitID, timeMS);
+    }
+
+    /**
+     * Requires a `speakingDetectionConfig` to have been passed to the constructor. See {@link SpeakingDetectionConfig}.
+     * @returns The peers who are currently speaking, loudest first. Listen for the `speakingStarted` and `speakingStopped` events
+     * to be told when this changes.
+     */
+    getActiveSpeakers(): Array<ActiveSpeaker> {
+        if (!this._speakingDetector) {
+            this._logger.warn(`Couldn't get the active speakers: no \`speakingDetectionConfig\` was passed to the \`HiFiCommunicator\` constructor.`);
+            return [];
+        }
+        return this._speakingDetector.getActiveSpeakers();
+    }
+
+    /**
+     * Requires a `connectionQualityConfig` to have been passed to the constructor. See {@link ConnectionQualityConfig}.
+     * @returns The current quality of the connection, averaged over the last few seconds; its `level` is "unknown" while we're not connected.
+     * Listen for the `qualityChanged` event to be told when the level changes.
+     */
+    getConnectionQuality(): ConnectionQuality {
+        if (!this._connectionQualityMonitor) {
+            this._logger.warn(`Couldn't get the connection quality: no \`connectionQualityConfig\` was passed to the \`HiFiCommunicator\` constructor.`);
+            return undefined;
+        }
+        return this._connectionQualityMonitor.getQuality();
+    }
+
+    /**
+     * Requires a `connectionQualityConfig` to have been passed to the constructor. See {@link ConnectionQualityConfig}.
+     * @returns The quality of the current connection, once per second for up to the last `historyLength` seconds, oldest first.
+     * Useful for drawing a graph of the connection quality.
+     */
+    getConnectionQualityHistory(): Array<ConnectionQuality> {
+        if (!this._connectionQualityMonitor) {
+            this._logger.warn(`Couldn't get the connection quality history: no \`connectionQualityConfig\` was passed to the \`HiFiCommunicator\` constructor.`);
+            return [];
+        }
+        return this._connectionQualityMonitor.getHistory();
+    }
+
+    /**
+     * After a reconnection, replays the parts of the desired state that aren't transmitted along with the user's data:
+     * the input audio stream and its mute state. Then emits `stateRestored`.
+     * @param isReconnection `true` if the communicator has connected before. There's nothing to replay for the first connection.
+     * @param restoredOtherUserGainCount The number of other users' gains that were replayed when the user's data was transmitted.
+     */
+    private async _restoreDesiredState(isReconnection: boolean, restoredOtherUserGainCount: number): Promise<void> {
+        if (!isReconnection) {
+            return;
+        }
+
+        let errors: Array<string> = [];
+        let restoredInputAudioMediaStream = false;
+        let restoredInputAudioMuted: boolean = undefined;
+
+        if (this._inputAudioMediaStream) {
+            try {
+                restoredInputAudioMediaStream = await this._mixerSession.setRAVIInputAudio(this._inputAudioMediaStream, this._inputAudioMediaStreamIsStereo);
+            } catch (e) {
+                this._logger.warn(`Error restoring the input audio stream:\n${e}`);
+            }
+            if (!restoredInputAudioMediaStream) {
+                errors.push(`Couldn't restore the input audio stream.`);
+            }
+
+            // The mixer session forgets admin mutes when it disconnects, but the server can mute this client again
+            // while the input audio stream is being restored. The admin mute wins.
+            restoredInputAudioMuted = this._inputAudioMutedByUser || !this._inputModeController.isGateOpen();
+            if (!restoredInputAudioMuted && this._mixerSession.getAdminPreventsInputAudioUnmuting()) {
+                this._logger.debug(`Not restoring the unmuted input audio: Muted by admin.`);
+                restoredInputAudioMuted = true;
+            } else if (!(await this._mixerSession._setMuted(restoredInputAudioMuted, false, MuteReason.INTERNAL))) {
+                errors.push(`Couldn't restore the input audio mute state.`);
+            }
+        }
+
+        if (errors.length > 0) {
+            this._logger.warn(`Couldn't fully restore the communicator's state after connecting:\n${errors.join("\n")}`);
+        }
+        if (this._currentHiFiConnectionState !== HiFiConnectionStates.Connected) {
+            // We disconnected again while replaying; the state will be replayed after the next reconnection.
+            return;
+        }
+        this._events.emit("stateRestored", {
+            success: errors.length === 0,
+            errors: errors,
+            restoredInputAudioMediaStream: restoredInputAudioMediaStream,
+            restoredInputAudioMuted: restoredInputAudioMuted,
+            restoredOtherUserGainCount: restoredOtherUserGainCount
+        });
+    }
+
+    /**
+     * Called by the HiFiMixerSession when a peer is added to the peer roster, or when the server sends new data about a peer.
+     * The peer's provided user ID may only become known after it has joined, so gains are applied in both cases.
+     */
+    private _handlePeerJoinedOrUpdated(eventName: "peerJoined" | "peerUpdated", peer: ReceivedHiFiAudioAPIData): void {
+        this._applyOtherUserGainsByProvidedUserID([peer]).catch((e) => {
+            this._logger.error(`Couldn't apply the gain set for \`${peer.providedUserID}\`:\n${e}`);
+        });
+        this._events.emit(eventName, peer);
+    }
+
+    /**
+     * Called by the HiFiMixerSession when a peer is removed from the peer roster.
+     */
+    private _handlePeerLeft(peer: ReceivedHiFiAudioAPIData): void {
+        this._appliedOtherUserGains.delete(peer.hashedVisitID);
+        if (this._speakingDetector) {
+            this._speakingDetector.removePeer(peer.hashedVisitID);
+        }
+        this._events.emit("peerLeft", peer);
+    }
+
+    /**
+     * The server only sends a peer's volume when it changes, so while we're connected we periodically check
+     * whether any peer's attack or release time has elapsed.
+     */
+    private _startSpeakingDetection(): void {
+        if (!this._speakingDetector || this._timers.speakingDetectionInterval) {
+            return;
+        }
+        this._timers.speakingDetectionInterval = setInterval(() => {
+            this._speakingDetector.update();
+        }, this._speakingDetector.updateIntervalMS);
+    }
+
+    private _stopSpeakingDetection(): void {
+        if (this._timers.speakingDetectionInterval) {
+            clearInterval(this._timers.speakingDetectionInterval);
+            this._timers.speakingDetectionInterval = null;
+        }
+        if (this._speakingDetector) {
+            this._speakingDetector.clear();
+        }
+    }
+
+    /**
+     * WebRTC stats are only collected for the connection quality monitor while we're connected.
+     */
+    private _startConnectionQualityMonitoring(): void {
+        if (!this._connectionQualityMonitor || this._connectionQualityStatsSubscription || !this._mixerSession) {
+            return;
+        }
+        this._connectionQualityStatsSubscription = this._mixerSession.subscribeToWebRTCStats((sample: WebRTCStatsSample) => {
+            this._connectionQualityMonitor.handleStats(sample.reports, sample.previousReports, sample.timestamp);
+        }, { fields: HiFiConnectionQualityMonitor.STATS_FIELDS });
+    }
+
+    private _stopConnectionQualityMonitoring(): void {
+        if (this._connectionQualityStatsSubscription) {
+            this._connectionQualityStatsSubscription.unsubscribe();
+            this._connectionQualityStatsSubscription = undefined;
+        }
+        if (this._connectionQualityMonitor) {
+            this._connectionQualityMonitor.stop();
+        }
+    }
+
+    /**
+     * WebRTC stats are only collected for the diagnostics history while we're connected.
+     */
+    private _startDiagnosticsHistoryStats(): void {
+        if (!this._diagnosticsHistory.enabled || this._diagnosticsHistoryStatsSubscription || !this._mixerSession) {
+            return;
+        }
+        this._diagnosticsHistoryStatsSubscription = this._mixerSession.subscribeToWebRTCStats((sample: WebRTCStatsSample) => {
+            this._diagnosticsHistory.handleStats(sample);
+        }, { intervalMS: this._diagnosticsHistory.statsIntervalMS, fields: HiFiDiagnosticsHistory.STATS_FIELDS });
+    }
+
+    private _stopDiagnosticsHistoryStats(): void {
+        if (this._diagnosticsHistoryStatsSubscription) {
+            this._diagnosticsHistoryStatsSubscription.unsubscribe();
+            this._diagnosticsHistoryStatsSubscription = undefined;
+        }
+    }
+
+    /**
+     * Creates a self-contained description of this `HiFiCommunicator` and what has happened to its connections: the connection state transitions
+     * and the results that came with them, the retries, the mute events, a time series of WebRTC stats, the mixer info, the most recent log lines
+     * (whatever the log level), the capabilities of the browser and the version of this library. The JWT is redacted.
+     *
+     * For example, to let users attach it to a support ticket:
+     * ```typescript
+     * let bundleJSON = JSON.stringify(communicator.exportDiagnostics(), null, 2);
+     * ```
+     * How much history is kept can be configured with the `diagnosticsHistoryConfig` passed to the constructor.
+     * @returns The bundle. See {@link DiagnosticsBundle}.
+     */
+    exportDiagnostics(): DiagnosticsBundle {
+        return this._diagnosticsHistory.createBundle({
+            connectionState: this._currentHiFiConnectionState,
+            mixerInfo: this._mixerSession ? this._mixerSession.mixerInfo : undefined,
+            communicatorID: this._communicatorID,
+            secrets: [this._hifiAuthJWT]
+        });
+    }
+
+    /**
+     * @returns The ID that this HiFiCommunicator's log records are tagged with. See {@link HiFiLogRecord.communicatorID}.
+     */
+    getCommunicatorID(): string {
+        return this._communicatorID;
+    }
+
     /**
      * @returns A bunch of info about this `HiFiCommunicator` instantiation, including Server Version.
      */
@@ -944,9 +2167,81 @@ export class HiFiCommunicator {
     }
 
     /**
-     * Start collecting data about the WebRTC connection between Client and Server.
+     * Adds a listener for one of the events emitted by this `HiFiCommunicator`. Any number of listeners may be added for each event.
+     * For example:
+     * ```typescript
+     * communicator.on("connectionStateChanged", (state, result) => { console.log(`New state: ${state}`); });
+     * ```
+     * The `on*` callback members (such as {@link onConnectionStateChanged}) continue to work, and are always called before listeners added with this method.
+     * 
+     * @param eventName - The name of the event. See {@link HiFiCommunicatorEvents} for the available events and the arguments passed to their listeners.
+     * @param listener - The function to call when the event is emitted.
+     * @returns This `HiFiCommunicator`, so that calls can be chained.
+     */
+    on<K extends keyof HiFiCommunicatorEvents>(eventName: K, listener: HiFiCommunicatorEvents[K]): HiFiCommunicator {
+        this._events.on(eventName, listener);
+        this._updateStatsEventObserver();
+        return this;
+    }
+
+    /**
+     * Adds a listener that will be removed after the next time the event is emitted. See {@link on}.
+     * 
+     * @param eventName - The name of the event. See {@link HiFiCommunicatorEvents}.
+     * @param listener - The function to call the next time the event is emitted.
+     * @returns This `HiFiCommunicator`, so that calls can be chained.
+     */
+    once<K extends keyof HiFiCommunicatorEvents>(eventName: K, listener: HiFiCommunicatorEvents[K]): HiFiCommunicator {
+        this._events.once(eventName, listener);
+        this._updateStatsEventObserver();
+        return this;
+    }
+
+    /**
+     * Removes a listener added with {@link on} or {@link once}.
+     * 
+     * @param eventName - The name of the event. See {@link HiFiCommunicatorEvents}.
+     * @param listener - The listener to remove.
+     * @returns This `HiFiCommunicator`, so that calls can be chained.
+     */
+    off<K extends keyof HiFiCommunicatorEvents>(eventName: K, listener: HiFiCommunicatorEvents[K]): HiFiCommunicator {
+        if (!listener) {
+            this._logger.warn(`\`off()\` requires a listener to remove; no listeners were removed for the \`${eventName}\` event.`);
+            return this;
+        }
+        this._events.off(eventName, listener);
+        this._updateStatsEventObserver();
+        return this;
+    }
+
+    /**
+     * WebRTC stats are only collected for `stats` events while there is at least one listener for them.
+     * This starts or stops that collection as needed. It is independent of {@link startCollectingWebRTCStats}.
+     */
+    private _updateStatsEventObserver(): void {
+        if (!this._mixerSession) {
+            return;
+        }
+        let wantStats = this._events.listenerCount("stats") > 0;
+        if (wantStats && !this._statsEventObserver) {
+            this._statsEventObserver = (stats: Array<WebRTCStatsReport>, prevStats: Array<WebRTCStatsReport>) => {
+                this._events.emit("stats", stats, prevStats);
+                // `once()` listeners may have just been removed.
+                this._updateStatsEventObserver();
+            };
+            this._mixerSession.addStatsObserver(this._statsEventObserver);
+        } else if (!wantStats && this._statsEventObserver) {
+            this._mixerSession.removeStatsObserver(this._statsEventObserver);
+            this._statsEventObserver = undefined;
+        }
+    }
+
+    /**
+     * Start collecting data about the WebRTC connection between Client and Server, once per second.
      * Note that the data inside the reports pertains only to payload data internal to the WebRTC connection
      * and does not include _total_ data sent over the wire or received over the wire in your application.
+     * Any number of callbacks can be collecting data at once. See {@link subscribeToWebRTCStats} for typed reports,
+     * a configurable interval and your own selection of fields.
      * 
      * @param callback Callback functions will be provided two Array arguments: `stats` and `prevStats`.
      * Each of those Array items contains one or more Objects, which are reports of WebRTC stats data,
@@ -954,7 +2249,7 @@ export class HiFiCommunicator {
      */
     startCollectingWebRTCStats(callback: Function) {
         if (!this._mixerSession) {
-            HiFiLogger.error(`Couldn't start collecting WebRTC Stats: No \`_mixerSession\`!`);
+            this._logger.error(`Couldn't start collecting WebRTC Stats: No \`_mixerSession\`!`);
         }
 
         this._mixerSession.startCollectingWebRTCStats(callback);
@@ -962,13 +2257,34 @@ export class HiFiCommunicator {
 
     /**
      * Stop collecting data about the WebRTC connection between Client and Server.
+     * @param callback The callback passed to {@link startCollectingWebRTCStats} to stop calling. If omitted, every such callback is stopped.
+     */
+    stopCollectingWebRTCStats(callback?: Function) {
+        if (!this._mixerSession) {
+            this._logger.error(`Couldn't stop collecting WebRTC Stats: No \`_mixerSession\`!`);
+        }
+
+        this._mixerSession.stopCollectingWebRTCStats(callback);
+    }
+
+    /**
+     * Start collecting typed data about the WebRTC connection between Client and Server. Every subscription is independent of the others,
+     * and has its own sampling interval and selection of fields; each sample includes how much the counters (such as `packetsLost`)
+     * have increased since the subscription's previous sample. Stats are only collected while connected, but the subscription
+     * lasts until it is stopped, including across reconnections.
+     *
+     * @param callback Called with each {@link WebRTCStatsSample}.
+     * @param config The sampling interval (which defaults to 1000 milliseconds) and the fields to collect (which default to every field of
+     * the `inbound-rtp`, `outbound-rtp`, `remote-inbound-rtp` and `candidate-pair` reports). See {@link WebRTCStatsSubscriptionConfig}.
+     * @returns A handle whose `unsubscribe()` method stops the subscription, or `undefined` if the subscription couldn't be started.
      */
-    stopCollectingWebRTCStats() {
+    subscribeToWebRTCStats(callback: WebRTCStatsCallback, config: WebRTCStatsSubscriptionConfig = {}): WebRTCStatsSubscriptionHandle {
         if (!this._mixerSession) {
-            HiFiLogger.error(`Couldn't stop collecting WebRTC Stats: No \`_mixerSession\`!`);
+            this._logger.error(`Couldn't subscribe to WebRTC Stats: No \`_mixerSession\`!`);
+            return undefined;
         }
 
-        this._mixerSession.stopCollectingWebRTCStats();
+        return this._mixerSession.subscribeToWebRTCStats(callback, config);
     }
 
     /**
@@ -1053,6 +2369,79 @@ export class HiFiCommunicator {
         }
     }
 
+    /**
+     * A change that was held back by one of the `userDataTransmitConfig` rate limits must still be transmitted eventually,
+     * even if the user data doesn't change again.
+     * @param retryAfterMS The number of milliseconds after which the change may be transmitted, or `undefined` if nothing was held back.
+     */
+    private _maybeScheduleDeferredTransmit(retryAfterMS: number): void {
+        if (retryAfterMS === undefined || this._timers.deferredTransmitTimeout) {
+            return;
+        }
+        this._timers.deferredTransmitTimeout = setTimeout(() => {
+            this._timers.deferredTransmitTimeout = null;
+            this._transmitHiFiAudioAPIDataToServer(true);
+        }, retryAfterMS);
+    }
+
+    /**
+     * @returns The number of changes to the user's position, orientation and parameters that have been transmitted to the server,
+     * and the number that were suppressed by the dead-bands and rate limits of the `userDataTransmitConfig` passed to the constructor.
+     * See {@link UserDataTransmitConfig}.
+     */
+    getUserDataTransmitStats(): UserDataTransmitStats {
+        return this._userDataTransmitFilter.getStats();
+    }
+
+    /**
+     * Sets the counters returned by {@link getUserDataTransmitStats} back to `0`.
+     */
+    resetUserDataTransmitStats(): void {
+        this._userDataTransmitFilter.resetStats();
+    }
+
+    /**
+     * Starts or stops capturing the protocol traffic between this client and the server: signaling messages, the `audionet.init` request and response,
+     * every user data update sent to the mixer and every frame of peer data and instructions received from the mixer.
+     * Attach the output of {@link HiFiProtocolTraceRecorder.toJSONL} to bug reports so that they can be replayed with {@link createProtocolTraceReplayer}.
+     * @param recorder Where to capture the traffic, or `null` to stop capturing.
+     */
+    setProtocolTraceRecorder(recorder: HiFiProtocolTraceRecorder): void {
+        this._mixerSession.protocolTraceRecorder = recorder || undefined;
+    }
+
+    /**
+     * @returns The recorder set with {@link setProtocolTraceRecorder} or passed to the constructor, or `undefined` if protocol traffic isn't being captured.
+     */
+    getProtocolTraceRecorder(): HiFiProtocolTraceRecorder {
+        return this._mixerSession.protocolTraceRecorder;
+    }
+
+    /**
+     * Records whether the user has consented to diagnostics reports about their connections. Only matters if `requireConsent` was set
+     * in the `diagnosticsConfig` passed to the constructor; until consent is given, no diagnostics are collected, saved or reported.
+     * The consent isn't saved: call this again every time you create a HiFiCommunicator.
+     * @param granted `true` if the user has consented. If consent is withdrawn, diagnostics stop being collected and any saved reports are discarded.
+     */
+    setDiagnosticsConsent(granted: boolean): void {
+        this._mixerSession.setDiagnosticsConsent(!!granted);
+    }
+
+    /**
+     * Creates a replayer that feeds the mixer frames of a protocol trace to this HiFiCommunicator as if the server had sent them, without any network
+     * connection. Peer events, User Data Subscriptions, the peer roster and coordinate-frame conversion all behave as they did when the trace was captured,
+     * provided that this HiFiCommunicator was constructed with the same `worldFrameConfig` and `userDataStreamingScope`.
+     * @param entries The trace, for example from {@link HiFiProtocolTraceRecorder.parseJSONL}.
+     * @returns The replayer, or `undefined` if this HiFiCommunicator is connected (replayed frames would corrupt the live peer roster).
+     */
+    createProtocolTraceReplayer(entries: Array<ProtocolTraceEntry>): HiFiProtocolTraceReplayer {
+        if ([HiFiConnectionStates.Connected, HiFiConnectionStates.Connecting, HiFiConnectionStates.Reconnecting].includes(this.getConnectionState())) {
+            this._logger.error(`Can't replay a protocol trace while connected or connecting to the server.`);
+            return undefined;
+        }
+        return new HiFiProtocolTraceReplayer({ target: this._mixerSession, entries: entries });
+    }
+
     /**
      * Clears the clientside rate limit timeout used to prevent user data from being sent to the High Fidelity Audio API server too often.
      */
@@ -1064,6 +2453,18 @@ export class HiFiCommunicator {
         this._timers.transmitRateLimitTimeout = null;
     }
 
+    /**
+     * Clears the timeout that transmits a change that was held back by one of the `userDataTransmitConfig` rate limits.
+     * See {@link _maybeScheduleDeferredTransmit}.
+     */
+    private _maybeClearDeferredTransmitTimeout(): void {
+        if (this._timers.deferredTransmitTimeout) {
+            clearTimeout(this._timers.deferredTransmitTimeout);
+        }
+
+        this._timers.deferredTransmitTimeout = null;
+    }
+
     /**
      * We keep a clientside copy of the data that we last transmitted to the High Fidelity Audio API server. We use this data to
      * ensure that we only send to the server the minimum set of data necessary - i.e. the difference between the data contained on the server
@@ -1127,7 +2528,7 @@ export class HiFiCommunicator {
      * @returns If this operation is successful, returns `{ success: true, rawDataTransmitted: <the raw data that was transmitted to the server>}`. If unsuccessful, returns
      * `{ success: false, error: <an error message> }`.
      */
-    private _transmitHiFiAudioAPIDataToServer(forceTransmit?: boolean): any {
+    private _transmitHiFiAudioAPIDataToServer(forceTransmit?: boolean): UserDataTransmitResult {
         // Make sure that a caller can't transmit data for another `this.transmitRateLimitTimeoutMS` milliseconds.
         if (this._mixerSession && (!this._timers.transmitRateLimitTimeout || forceTransmit)) {
             this._timers.wantedToTransmitHiFiAudioAPIData = false;
@@ -1147,24 +2548,35 @@ export class HiFiCommunicator {
             // This function will translate the new `HiFiAudioAPIData` object from above into stringified JSON data in the proper format,
             // then send that data to the mixer.
             // The function will return the raw data that it sent to the mixer.
-            let transmitRetval = this._mixerSession._transmitHiFiAudioAPIDataToServer(this._currentHiFiAudioAPIData, this._lastTransmittedHiFiAudioAPIData);
+            // Changes that are within a dead-band or held back by a rate limit are left out.
+            let transmitDecision = this._userDataTransmitFilter.filter(this._currentHiFiAudioAPIData, this._lastTransmittedHiFiAudioAPIData);
+            this._maybeScheduleDeferredTransmit(transmitDecision.retryAfterMS);
+            let transmitRetval = this._mixerSession._transmitHiFiAudioAPIDataToServer(transmitDecision.dataToTransmit, this._lastTransmittedHiFiAudioAPIData);
             if (transmitRetval.success) {
+                this._userDataTransmitFilter.recordTransmitted(transmitDecision);
                 // Now we have to update our "last transmitted" `HiFiAudioAPIData` object
-                // to contain the data that we just transmitted.
-                this._updateLastTransmittedHiFiAudioAPIData(this._currentHiFiAudioAPIData);
+                // to contain the data that we just transmitted. Suppressed changes must not be included, or they'd never be transmitted.
+                this._updateLastTransmittedHiFiAudioAPIData(transmitDecision.dataToTransmit);
                 // Finally, in some cases, clean up some of the transmitted data history
                 // (particularly, _otherUserGainQueue)
                 this._cleanUpHiFiAudioAPIDataHistory();
 
-                return {
+                let result: UserDataTransmitResult = {
                     success: true,
                     rawDataTransmitted: transmitRetval.stringifiedDataForMixer
                 };
+                // A change that a rate limit held back hasn't been written yet; the deferred transmission will settle the Promises.
+                if (transmitDecision.retryAfterMS === undefined) {
+                    this._settlePendingTransmits(result);
+                }
+                return result;
             } else {
-                return {
+                let result: UserDataTransmitResult = {
                     success: false,
                     error: transmitRetval.error
                 };
+                this._settlePendingTransmits(result);
+                return result;
             }
         } else if (this._mixerSession && this._timers.transmitRateLimitTimeout && !forceTransmit) {
             this._timers.wantedToTransmitHiFiAudioAPIData = true;
@@ -1193,7 +2605,24 @@ export class HiFiCommunicator {
         let maxCachedOtherUserGains = 1000;
         if (Object.keys(this._lastTransmittedHiFiAudioAPIData._otherUserGainQueue).length > maxCachedOtherUserGains) {
             this._lastTransmittedHiFiAudioAPIData._otherUserGainQueue = {};
-            HiFiLogger.warn(`Stored \`_lastTransmittedHiFiAudioAPIData._otherUserGainQueue\` was too large and was cleared to save space.`);
+            this._logger.warn(`Stored \`_lastTransmittedHiFiAudioAPIData._otherUserGainQueue\` was too large and was cleared to save space.`);
+        }
+    }
+
+    /**
+     * Settles every Promise returned by {@link updateUserData} and {@link flush} that is waiting for a transmission.
+     * @param result The result of the transmission. The Promises are resolved with it if it succeeded, and rejected with
+     * a {@link HiFiUserDataTransmitError} that carries it otherwise.
+     */
+    private _settlePendingTransmits(result: UserDataTransmitResult): void {
+        let pendingTransmits = this._pendingTransmits;
+        this._pendingTransmits = [];
+        for (const { resolve, reject } of pendingTransmits) {
+            if (result.success) {
+                resolve(result);
+            } else {
+                reject(new HiFiUserDataTransmitError(result));
+            }
         }
     }
 
@@ -1204,16 +2633,55 @@ export class HiFiCommunicator {
      * position, orientation, etc. No matter how often developers call this function, the internal data store transmission is rate-limited
      * and will only be sent to the server once every `transmitRateLimitTimeoutMS` milliseconds. When the internal data store is transmitted,
      * the most up-to-date data will be transmitted.
+     *
+     * Use {@link updateUserData} instead to find out when the data has actually been transmitted.
      * 
      * @param newUserData - The new user data that we want to send to the High Fidelity Audio API server.
-     * @returns Returns the return value of {@link _transmitHiFiAudioAPIDataToServer}.
+     * @returns The result of the transmission. If the transmission is rate limited, `success` is `true` and `rawDataTransmitted` isn't set.
      */
-    updateUserDataAndTransmit(newUserData: any): string {
+    updateUserDataAndTransmit(newUserData: any): UserDataTransmitResult {
         this._updateUserData(newUserData);
 
         return this._transmitHiFiAudioAPIDataToServer();
     }
 
+    /**
+     * Updates the user's data (position, orientation, etc.) and transmits it to the server. See {@link HiFiAudioAPIData} for what data can be sent.
+     * Like {@link updateUserDataAndTransmit}, this can be called as often as you want: the transmission is rate-limited to once every
+     * `transmitRateLimitTimeoutMS` milliseconds, and always contains the most up-to-date data.
+     *
+     * @param newUserData - The new user data that we want to send to the High Fidelity Audio API server. Omitted members are unchanged.
+     * @returns A Promise that resolves with a {@link UserDataTransmitResult} once the data has actually been written to the server, which may be
+     * after a rate limit has elapsed. It is rejected with a {@link HiFiUserDataTransmitError} if the data couldn't be transmitted, including when
+     * the connection is lost before the rate-limited transmission happens. Use {@link flush} to transmit immediately.
+     */
+    updateUserData(newUserData: { position?: Point3D, orientation?: Quaternion, volumeThreshold?: number, hiFiGain?: number, userAttenuation?: number, userRolloff?: number }): Promise<UserDataTransmitResult> {
+        this._updateUserData(newUserData);
+        return this._promiseToTransmit(false);
+    }
+
+    /**
+     * Transmits the user's data to the server now, without waiting for the rate limit. Every Promise returned by {@link updateUserData}
+     * that is still waiting for a transmission is settled with the same result.
+     * @returns A Promise that resolves with a {@link UserDataTransmitResult} once the data has been written to the server,
+     * or is rejected with a {@link HiFiUserDataTransmitError} if it couldn't be.
+     */
+    flush(): Promise<UserDataTransmitResult> {
+        return this._promiseToTransmit(true);
+    }
+
+    private _promiseToTransmit(forceTransmit: boolean): Promise<UserDataTransmitResult> {
+        return new Promise((resolve, reject) => {
+            // The transmission settles this Promise once all of the data has been written. If it is rate limited, or a change is held back
+            // by one of the `userDataTransmitConfig` rate limits, a later transmission will.
+            this._pendingTransmits.push({ resolve, reject });
+            let result = this._transmitHiFiAudioAPIDataToServer(forceTransmit);
+            if (!result.success) {
+                this._settlePendingTransmits(result);
+            }
+        });
+    }
+
     /**
      * Ingests user data updates from the server and, if relevant, calls the relevant callback functions associated with the
      * User Data Subscriptions. See {@link addUserDataSubscription}.
@@ -1221,83 +2689,103 @@ export class HiFiCommunicator {
      * @param newUserDataFromServer - Contains all of the new user data most recently received from the server. 
      */
     private _handleUserDataUpdates(newUserDataFromServer: Array<ReceivedHiFiAudioAPIData>): void {
+        this._events.emit("userDataUpdated", newUserDataFromServer);
+
+        if (this._speakingDetector) {
+            for (const userData of newUserDataFromServer) {
+                if (typeof (userData.volumeDecibels) === "number" && userData.hashedVisitID) {
+                    this._speakingDetector.handleVolume(userData.hashedVisitID, userData.providedUserID, userData.volumeDecibels);
+                }
+            }
+        }
+
         if (this._userDataSubscriptions.length === 0) {
             return;
         }
 
-        for (let subItr = 0; subItr < this._userDataSubscriptions.length; subItr++) {
-            let currentSubscription = this._userDataSubscriptions[subItr];
-
-            // Don't bother continuing to do anything if the developer didn't specify a callback associated
-            // with the current Subscription that we are processing.
-            if (!currentSubscription.callback) {
-                continue;
-            }
+        // Iterate over a copy, in case a Subscription callback adds or removes Subscriptions.
+        for (const currentSubscription of this._userDataSubscriptions.slice()) {
+            this._callUserDataSubscriptionCallback(currentSubscription, newUserDataFromServer);
+        }
+    }
 
-            let currentSubscriptionCallbackData: Array<ReceivedHiFiAudioAPIData> = [];
+    /**
+     * Filters the supplied user data down to the users and components that a User Data Subscription is interested in,
+     * then calls that Subscription's callback (if there's anything to tell it about).
+     * 
+     * @param currentSubscription - The Subscription whose callback should be called.
+     * @param newUserDataFromServer - User data received from the server, or the full state of peers from the peer roster.
+     */
+    private _callUserDataSubscriptionCallback(currentSubscription: UserDataSubscription, newUserDataFromServer: Array<ReceivedHiFiAudioAPIData>): void {
+        // Don't bother continuing to do anything if the developer didn't specify a callback associated
+        // with the current Subscription that we are processing.
+        if (!currentSubscription.callback) {
+            return;
+        }
 
-            for (let dataItr = 0; dataItr < newUserDataFromServer.length; dataItr++) {
-                let currentDataFromServer = newUserDataFromServer[dataItr];
+        let currentSubscriptionCallbackData: Array<ReceivedHiFiAudioAPIData> = [];
 
-                if (currentSubscription.providedUserID && currentDataFromServer.providedUserID !== currentSubscription.providedUserID) {
-                    continue;
-                }
+        for (let dataItr = 0; dataItr < newUserDataFromServer.length; dataItr++) {
+            let currentDataFromServer = newUserDataFromServer[dataItr];
 
-                let newCallbackData = new ReceivedHiFiAudioAPIData();
+            if (currentSubscription.providedUserID && currentDataFromServer.providedUserID !== currentSubscription.providedUserID) {
+                continue;
+            }
 
-                if (typeof (currentDataFromServer.providedUserID) === "string") {
-                    newCallbackData.providedUserID = currentDataFromServer.providedUserID;
-                }
+            let newCallbackData = new ReceivedHiFiAudioAPIData();
 
-                if (typeof (currentDataFromServer.hashedVisitID) === "string") {
-                    newCallbackData.hashedVisitID = currentDataFromServer.hashedVisitID;
-                }
+            if (typeof (currentDataFromServer.providedUserID) === "string") {
+                newCallbackData.providedUserID = currentDataFromServer.providedUserID;
+            }
 
-                let shouldPushNewCallbackData = false;
-
-                for (let componentItr = 0; componentItr < currentSubscription.components.length; componentItr++) {
-                    let currentComponent = currentSubscription.components[componentItr];
-
-                    switch (currentComponent) {
-                        case AvailableUserDataSubscriptionComponents.Position:
-                            if (currentDataFromServer.position) {
-                                newCallbackData.position = currentDataFromServer.position;
-                                shouldPushNewCallbackData = true;
-                            }
-                            break;
-
-                        case AvailableUserDataSubscriptionComponents.Orientation:
-                            if (currentDataFromServer.orientation) {
-                                newCallbackData.orientation = currentDataFromServer.orientation;
-                                shouldPushNewCallbackData = true;
-                            }
-                            break;
-
-                        case AvailableUserDataSubscriptionComponents.VolumeDecibels:
-                            if (typeof (currentDataFromServer.volumeDecibels) === "number") {
-                                newCallbackData.volumeDecibels = currentDataFromServer.volumeDecibels;
-                                shouldPushNewCallbackData = true;
-                            }
-                            break;
-
-                        case AvailableUserDataSubscriptionComponents.IsStereo:
-                            if (typeof (currentDataFromServer.isStereo) === "boolean") {
-                                newCallbackData.isStereo = currentDataFromServer.isStereo;
-                                shouldPushNewCallbackData = true;
-                            }
-                            break;
-                    }
-                }
+            if (typeof (currentDataFromServer.hashedVisitID) === "string") {
+                newCallbackData.hashedVisitID = currentDataFromServer.hashedVisitID;
+            }
 
-                if (shouldPushNewCallbackData) {
-                    currentSubscriptionCallbackData.push(newCallbackData);
+            let shouldPushNewCallbackData = false;
+
+            for (let componentItr = 0; componentItr < currentSubscription.components.length; componentItr++) {
+                let currentComponent = currentSubscription.components[componentItr];
+
+                switch (currentComponent) {
+                    case AvailableUserDataSubscriptionComponents.Position:
+                        if (currentDataFromServer.position) {
+                            newCallbackData.position = currentDataFromServer.position;
+                            shouldPushNewCallbackData = true;
+                        }
+                        break;
+
+                    case AvailableUserDataSubscriptionComponents.Orientation:
+                        if (currentDataFromServer.orientation) {
+                            newCallbackData.orientation = currentDataFromServer.orientation;
+                            shouldPushNewCallbackData = true;
+                        }
+                        break;
+
+                    case AvailableUserDataSubscriptionComponents.VolumeDecibels:
+                        if (typeof (currentDataFromServer.volumeDecibels) === "number") {
+                            newCallbackData.volumeDecibels = currentDataFromServer.volumeDecibels;
+                            shouldPushNewCallbackData = true;
+                        }
+                        break;
+
+                    case AvailableUserDataSubscriptionComponents.IsStereo:
+                        if (typeof (currentDataFromServer.isStereo) === "boolean") {
+                            newCallbackData.isStereo = currentDataFromServer.isStereo;
+                            shouldPushNewCallbackData = true;
+                        }
+                        break;
                 }
             }
 
-            if (currentSubscription.callback && currentSubscriptionCallbackData.length > 0) {
-                currentSubscription.callback(currentSubscriptionCallbackData);
+            if (shouldPushNewCallbackData) {
+                currentSubscriptionCallbackData.push(newCallbackData);
             }
         }
+
+        if (currentSubscriptionCallbackData.length > 0) {
+            currentSubscription.callback(currentSubscriptionCallbackData);
+        }
     }
 
     /**
@@ -1308,9 +2796,11 @@ export class HiFiCommunicator {
      * @param usersDisconnected - An Array of {@link ReceivedHiFiAudioAPIData} regarding the users who disconnected.
      */
     private _onUsersDisconnected(usersDisconnected: Array<ReceivedHiFiAudioAPIData>): void {
-        if (this.onUsersDisconnected) {
-            this.onUsersDisconnected(usersDisconnected);
+        // Hashed visit IDs are never reused, so there's no point replaying gains for users who have left.
+        for (const user of usersDisconnected) {
+            delete this._desiredOtherUserGains[user.hashedVisitID];
         }
+        this._events.emit("usersDisconnected", usersDisconnected);
     }
 
     /**
@@ -1321,20 +2811,72 @@ export class HiFiCommunicator {
      * 
      * To check if a user has disconnected, use {@link HiFiCommunicator.onUsersDisconnected}.
      * 
+     * If {@link UserDataSubscription.deliverInitialSnapshot} is `true`, the Subscription's callback will be called before this method returns
+     * with the current state of every matching peer in the peer roster (see {@link getPeers}).
+     * 
      * @param newSubscription - The new User Data Subscription associated with a user. 
+     * @returns A {@link UserDataSubscriptionHandle} that can be used to modify or remove the Subscription, or `undefined` if the Subscription couldn't be added.
      */
-    addUserDataSubscription(newSubscription: UserDataSubscription): void {
+    addUserDataSubscription(newSubscription: UserDataSubscription): UserDataSubscriptionHandle {
         if (!this._mixerSession) {
-            HiFiLogger.error(`No \`_mixerSession\`! Data subscription not added.`);
-            return;
+            this._logger.error(`No \`_mixerSession\`! Data subscription not added.`);
+            return undefined;
         }
 
         if (this._mixerSession.userDataStreamingScope === HiFiUserDataStreamingScopes.None) {
-            HiFiLogger.error(`During \`HiFiCommunicator\` construction, the server was set up to **not** send user data! Data subscription not added.`);
-            return;
+            this._logger.error(`During \`HiFiCommunicator\` construction, the server was set up to **not** send user data! Data subscription not added.`);
+            return undefined;
         }
 
-        HiFiLogger.log(`Adding new User Data Subscription:\n${JSON.stringify(newSubscription)}`);
+        this._logger.log(`Adding new User Data Subscription:\n${JSON.stringify(newSubscription)}`);
         this._userDataSubscriptions.push(newSubscription);
+
+        let handle = new UserDataSubscriptionHandle({
+            subscription: newSubscription,
+            onRemove: (subscription: UserDataSubscription) => { return this._removeUserDataSubscription(subscription); },
+            onUpdate: (subscription: UserDataSubscription) => { this._deliverInitialSnapshotIfWanted(subscription); },
+            isActive: () => { return this._userDataSubscriptions.indexOf(newSubscription) > -1; }
+        });
+
+        this._deliverInitialSnapshotIfWanted(newSubscription);
+
+        return handle;
+    }
+
+    /**
+     * Removes all User Data Subscriptions, including those added via {@link addUserDataSubscription}. Any outstanding
+     * {@link UserDataSubscriptionHandle}s will become inactive.
+     */
+    removeAllUserDataSubscriptions(): void {
+        this._logger.log(`Removing all ${this._userDataSubscriptions.length} User Data Subscriptions.`);
+        this._userDataSubscriptions = [];
+    }
+
+    /**
+     * @param subscription - The Subscription to remove.
+     * @returns `true` if the Subscription was removed; `false` if it wasn't present.
+     */
+    private _removeUserDataSubscription(subscription: UserDataSubscription): boolean {
+        let index = this._userDataSubscriptions.indexOf(subscription);
+        if (index === -1) {
+            return false;
+        }
+        this._logger.log(`Removing User Data Subscription:\n${JSON.stringify(subscription)}`);
+        this._userDataSubscriptions.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * If the Subscription wants it, calls the Subscription's callback with the full current state of all matching peers in the peer roster.
+     * @param subscription - The Subscription that was just added or updated.
+     */
+    private _deliverInitialSnapshotIfWanted(subscription: UserDataSubscription): void {
+        if (!subscription.deliverInitialSnapshot) {
+            return;
+        }
+        let peers = this.getPeers();
+        if (peers.length > 0) {
+            this._callUserDataSubscriptionCallback(subscription, peers);
+        }
     }
 }
@@ -0,0 +1,383 @@
+/**
+ * This Module contains the connection quality monitor used by {@link HiFiCommunicator} to emit `qualityChanged` events.
+ * @packageDocumentation
+ */
+
+import { WebRTCStatsFieldSelection } from "../libravi/RaviWebRTCStats";
+
+/**
+ * How good the connection to the High Fidelity Audio API Server is, as judged by its estimated MOS. See {@link ConnectionQuality}.
+ */
+export enum HiFiConnectionQualityLevels {
+    /**
+     * Not enough WebRTC stats have been collected yet, for example because the client isn't connected.
+     */
+    Unknown = "unknown",
+    Excellent = "excellent",
+    Good = "good",
+    Poor = "poor",
+    Bad = "bad"
+}
+
+/**
+ * Configures how the {@link HiFiCommunicator} judges the quality of its connection. Pass this as `connectionQualityConfig` to {@link HiFiCommunicator.constructor}.
+ *
+ * Connection quality is calculated from the WebRTC stats that are collected once per second while the client is connected.
+ */
+export interface ConnectionQualityConfig {
+    /**
+     * The number of stats samples (one per second) that packet loss, jitter and round-trip time are averaged over. Defaults to 5.
+     */
+    windowSize?: number;
+    /**
+     * The number of {@link ConnectionQuality} values kept for {@link HiFiCommunicator.getConnectionQualityHistory}. Defaults to 60.
+     */
+    historyLength?: number;
+    /**
+     * The lowest MOS that is {@link HiFiConnectionQualityLevels.Excellent}. Defaults to 4.0.
+     */
+    excellentMOS?: number;
+    /**
+     * The lowest MOS that is {@link HiFiConnectionQualityLevels.Good}. Defaults to 3.6.
+     */
+    goodMOS?: number;
+    /**
+     * The lowest MOS that is {@link HiFiConnectionQualityLevels.Poor}. Anything lower is {@link HiFiConnectionQualityLevels.Bad}. Defaults to 3.0.
+     */
+    poorMOS?: number;
+}
+
+/**
+ * The quality of the connection, averaged over the last `windowSize` stats samples. See {@link ConnectionQualityConfig}.
+ * Metrics that the browser doesn't report are `undefined`.
+ */
+export interface ConnectionQuality {
+    /**
+     * The quality level that `mos` falls into.
+     */
+    level: HiFiConnectionQualityLevels;
+    /**
+     * The estimated Mean Opinion Score, from 1 (bad) to about 4.4 (the best possible for a VoIP call), calculated with a simplified
+     * version of the ITU-T G.107 E-model from `packetLossPercent`, `jitterMS` and `roundTripTimeMS`.
+     */
+    mos: number;
+    /**
+     * The worse of `downstreamPacketLossPercent` and `upstreamPacketLossPercent`.
+     */
+    packetLossPercent: number;
+    /**
+     * The percentage of the packets sent by the server that didn't reach the client.
+     */
+    downstreamPacketLossPercent: number;
+    /**
+     * The percentage of the packets sent by the client that didn't reach the server, as reported by the server.
+     */
+    upstreamPacketLossPercent: number;
+    /**
+     * The worse of the jitter measured by the client and the jitter reported by the server, in milliseconds.
+     */
+    jitterMS: number;
+    /**
+     * The round-trip time between the client and the server, in milliseconds.
+     */
+    roundTripTimeMS: number;
+    /**
+     * The time, as returned by `Date.now()`, of the stats sample that this quality was calculated after.
+     */
+    timestamp: number;
+}
+
+/**
+ * Passed to `qualityChanged` listeners.
+ */
+export interface ConnectionQualityChangedEvent {
+    /**
+     * The new connection quality.
+     */
+    quality: ConnectionQuality;
+    /**
+     * The level before it changed to `quality.level`.
+     */
+    previousLevel: HiFiConnectionQualityLevels;
+}
+
+/**
+ * A `qualityChanged` listener with this signature can be passed to {@link HiFiCommunicator.on}.
+ */
+export type OnConnectionQualityChangedCallback = (qualityChangedEvent: ConnectionQualityChangedEvent) => void;
+
+// The metrics extracted from one stats sample. Each is `undefined` if the sample doesn't contain it.
+interface ConnectionQualitySample {
+    downstreamPacketsLost: number;
+    downstreamPacketsReceived: number;
+    upstreamFractionLost: number;
+    jitterMS: number;
+    roundTripTimeMS: number;
+}
+
+/**
+ * Calculates the quality of the connection from the WebRTC stats collected by the RAVI session's stats watcher, and
+ * keeps a history of it. The stats must include the fields in {@link HiFiConnectionQualityMonitor.STATS_FIELDS}.
+ *
+ * Stats are passed to {@link handleStats} as they arrive; `onQualityChanged` is called whenever the quality level changes.
+ */
+export class HiFiConnectionQualityMonitor {
+    /**
+     * The WebRTC stats fields that {@link handleStats} needs.
+     */
+    static STATS_FIELDS: WebRTCStatsFieldSelection = {
+        "inbound-rtp": ["packetsLost", "packetsReceived", "jitter"],
+        "remote-inbound-rtp": ["roundTripTime", "jitter", "fractionLost"]
+    };
+
+    windowSize: number;
+    historyLength: number;
+    excellentMOS: number;
+    goodMOS: number;
+    poorMOS: number;
+
+    onQualityChanged: OnConnectionQualityChangedCallback;
+
+    // The most recent samples, oldest first; at most `windowSize` of them.
+    private _window: Array<ConnectionQualitySample>;
+    // A ring buffer of at most `historyLength` qualities. `_historyIndex` is where the next one goes.
+    private _history: Array<ConnectionQuality>;
+    private _historyIndex: number;
+    private _quality: ConnectionQuality;
+
+    /**
+     * @param __namedParameters
+     * @param config - See {@link ConnectionQualityConfig}.
+     * @param onQualityChanged - The function to call when the quality level changes.
+     */
+    constructor({ config = {}, onQualityChanged }: { config?: ConnectionQualityConfig, onQualityChanged?: OnConnectionQualityChangedCallback } = {}) {
+        let { windowSize = 5, historyLength = 60, excellentMOS = 4.0, goodMOS = 3.6, poorMOS = 3.0 } = config;
+        this.windowSize = Math.max(1, Math.floor(windowSize));
+        this.historyLength = Math.max(1, Math.floor(historyLength));
+        this.excellentMOS = excellentMOS;
+        this.goodMOS = Math.min(goodMOS, this.excellentMOS);
+        this.poorMOS = Math.min(poorMOS, this.goodMOS);
+        this.onQualityChanged = onQualityChanged;
+        this.reset();
+    }
+
+    /**
+     * Forgets every sample and the history, and sets the level back to {@link HiFiConnectionQualityLevels.Unknown} without calling `onQualityChanged`.
+     * To let listeners know that the level is no longer known, use {@link stop} instead.
+     */
+    reset(): void {
+        this._window = [];
+        this._history = [];
+        this._historyIndex = 0;
+        this._quality = HiFiConnectionQualityMonitor._getUnknownQuality(Date.now());
+    }
+
+    /**
+     * Like {@link reset}, but calls `onQualityChanged` if the level wasn't {@link HiFiConnectionQualityLevels.Unknown} already.
+     * Call this when the connection is closed, so that listeners stop showing the quality of a connection that is gone, and the next
+     * connection starts from scratch.
+     */
+    stop(): void {
+        let previousLevel = this._quality.level;
+        this.reset();
+        if (previousLevel !== HiFiConnectionQualityLevels.Unknown && this.onQualityChanged) {
+            this.onQualityChanged({ quality: this._quality, previousLevel });
+        }
+    }
+
+    /**
+     * Takes a new stats sample into account, and calls `onQualityChanged` if that changes the quality level.
+     * This has the signature of a RAVI stats observer.
+     * @param stats The filtered WebRTC stats reports of the new sample.
+     * @param prevStats The filtered WebRTC stats reports of the previous sample; used to calculate how many packets were lost since then.
+     * @param timeMS The time of the sample. Defaults to `Date.now()`.
+     * @returns The new connection quality, or `undefined` if the sample didn't contain any of the stats that are needed.
+     */
+    handleStats(stats: Array<any>, prevStats: Array<any> = [], timeMS: number = Date.now()): ConnectionQuality {
+        let sample = HiFiConnectionQualityMonitor._getSample(stats || [], prevStats || []);
+        if (!sample) {
+            return undefined;
+        }
+
+        this._window.push(sample);
+        if (this._window.length > this.windowSize) {
+            this._window.shift();
+        }
+
+        let previousLevel = this._quality.level;
+        this._quality = this._calculateQuality(timeMS);
+        this._history[this._historyIndex] = this._quality;
+        this._historyIndex = (this._historyIndex + 1) % this.historyLength;
+
+        if (this._quality.level !== previousLevel && this.onQualityChanged) {
+            this.onQualityChanged({ quality: this._quality, previousLevel });
+        }
+        return this._quality;
+    }
+
+    /**
+     * @returns The current connection quality.
+     */
+    getQuality(): ConnectionQuality {
+        return this._quality;
+    }
+
+    /**
+     * @returns Up to `historyLength` of the most recent connection qualities, one per stats sample, oldest first.
+     */
+    getHistory(): Array<ConnectionQuality> {
+        if (this._history.length < this.historyLength) {
+            return this._history.slice();
+        }
+        return this._history.slice(this._historyIndex).concat(this._history.slice(0, this._historyIndex));
+    }
+
+    /**
+     * Estimates the Mean Opinion Score of a call, using the simplified E-model that is commonly used for VoIP monitoring.
+     * @param packetLossPercent The percentage of packets lost.
+     * @param jitterMS The jitter, in milliseconds.
+     * @param roundTripTimeMS The round-trip time, in milliseconds.
+     * @returns The MOS, from 1 to about 4.4.
+     */
+    static estimateMOS(packetLossPercent: number, jitterMS: number, roundTripTimeMS: number): number {
+        // Jitter counts double, because the jitter buffer has to absorb it; 10ms accounts for the codec.
+        let effectiveLatencyMS = roundTripTimeMS / 2 + 2 * jitterMS + 10;
+        let rFactor = effectiveLatencyMS < 160 ? 93.2 - effectiveLatencyMS / 40 : 93.2 - (effectiveLatencyMS - 120) / 10;
+        rFactor -= 2.5 * packetLossPercent;
+        rFactor = Math.min(100, Math.max(0, rFactor));
+        let mos = 1 + 0.035 * rFactor + 0.000007 * rFactor * (rFactor - 60) * (100 - rFactor);
+        return Math.min(4.5, Math.max(1, mos));
+    }
+
+    private _calculateQuality(timeMS: number): ConnectionQuality {
+        let downstreamPacketsLost = 0;
+        let downstreamPacketsExpected = 0;
+        let upstreamFractionsLost: Array<number> = [];
+        let jittersMS: Array<number> = [];
+        let roundTripTimesMS: Array<number> = [];
+        this._window.forEach((sample) => {
+            if (sample.downstreamPacketsLost !== undefined) {
+                downstreamPacketsLost += sample.downstreamPacketsLost;
+                downstreamPacketsExpected += sample.downstreamPacketsLost + sample.downstreamPacketsReceived;
+            }
+            if (sample.upstreamFractionLost !== undefined) {
+                upstreamFractionsLost.push(sample.upstreamFractionLost);
+            }
+            if (sample.jitterMS !== undefined) {
+                jittersMS.push(sample.jitterMS);
+            }
+            if (sample.roundTripTimeMS !== undefined) {
+                roundTripTimesMS.push(sample.roundTripTimeMS);
+            }
+        });
+
+        let downstreamPacketLossPercent = downstreamPacketsExpected > 0 ? 100 * downstreamPacketsLost / downstreamPacketsExpected : undefined;
+        let upstreamFractionLost = HiFiConnectionQualityMonitor._mean(upstreamFractionsLost);
+        let upstreamPacketLossPercent = upstreamFractionLost === undefined ? undefined : 100 * upstreamFractionLost;
+        let packetLossPercent = HiFiConnectionQualityMonitor._max(downstreamPacketLossPercent, upstreamPacketLossPercent);
+        let jitterMS = HiFiConnectionQualityMonitor._mean(jittersMS);
+        let roundTripTimeMS = HiFiConnectionQualityMonitor._mean(roundTripTimesMS);
+
+        if (packetLossPercent === undefined && jitterMS === undefined && roundTripTimeMS === undefined) {
+            return HiFiConnectionQualityMonitor._getUnknownQuality(timeMS);
+        }
+
+        // Metrics that we don't know about yet don't make the quality any worse.
+        let mos = HiFiConnectionQualityMonitor.estimateMOS(packetLossPercent || 0, jitterMS || 0, roundTripTimeMS || 0);
+        return {
+            level: this._getLevel(mos),
+            mos,
+            packetLossPercent,
+            downstreamPacketLossPercent,
+            upstreamPacketLossPercent,
+            jitterMS,
+            roundTripTimeMS,
+            timestamp: timeMS
+        };
+    }
+
+    private _getLevel(mos: number): HiFiConnectionQualityLevels {
+        if (mos >= this.excellentMOS) {
+            return HiFiConnectionQualityLevels.Excellent;
+        } else if (mos >= this.goodMOS) {
+            return HiFiConnectionQualityLevels.Good;
+        } else if (mos >= this.poorMOS) {
+            return HiFiConnectionQualityLevels.Poor;
+        }
+        return HiFiConnectionQualityLevels.Bad;
+    }
+
+    private static _getSample(stats: Array<any>, prevStats: Array<any>): ConnectionQualitySample {
+        let sample: ConnectionQualitySample = {
+            downstreamPacketsLost: undefined,
+            downstreamPacketsReceived: undefined,
+            upstreamFractionLost: undefined,
+            jitterMS: undefined,
+            roundTripTimeMS: undefined
+        };
+        let hasMetrics = false;
+
+        stats.forEach((report: any) => {
+            if (report.type === "inbound-rtp") {
+                // `packetsLost` and `packetsReceived` are totals, so we need the previous report to know what happened since then.
+                let prevReport = prevStats.find((prev: any) => { return prev.type === report.type && prev.id === report.id; });
+                if (prevReport && typeof (report.packetsLost) === "number" && typeof (report.packetsReceived) === "number" &&
+                    typeof (prevReport.packetsLost) === "number" && typeof (prevReport.packetsReceived) === "number") {
+                    // `packetsLost` can go down when late packets arrive after all.
+                    sample.downstreamPacketsLost = (sample.downstreamPacketsLost || 0) + Math.max(0, report.packetsLost - prevReport.packetsLost);
+                    sample.downstreamPacketsReceived = (sample.downstreamPacketsReceived || 0) + Math.max(0, report.packetsReceived - prevReport.packetsReceived);
+                    hasMetrics = true;
+                }
+                if (typeof (report.jitter) === "number") {
+                    sample.jitterMS = HiFiConnectionQualityMonitor._max(sample.jitterMS, 1000 * report.jitter);
+                    hasMetrics = true;
+                }
+            } else if (report.type === "remote-inbound-rtp") {
+                if (typeof (report.fractionLost) === "number") {
+                    sample.upstreamFractionLost = HiFiConnectionQualityMonitor._max(sample.upstreamFractionLost, report.fractionLost);
+                    hasMetrics = true;
+                }
+                if (typeof (report.jitter) === "number") {
+                    sample.jitterMS = HiFiConnectionQualityMonitor._max(sample.jitterMS, 1000 * report.jitter);
+                    hasMetrics = true;
+                }
+                if (typeof (report.roundTripTime) === "number") {
+                    sample.roundTripTimeMS = HiFiConnectionQualityMonitor._max(sample.roundTripTimeMS, 1000 * report.roundTripTime);
+                    hasMetrics = true;
+                }
+            }
+        });
+
+        return hasMetrics ? sample : undefined;
+    }
+
+    private static _getUnknownQuality(timeMS: number): ConnectionQuality {
+        return {
+            level: HiFiConnectionQualityLevels.Unknown,
+            mos: undefined,
+            packetLossPercent: undefined,
+            downstreamPacketLossPercent: undefined,
+            upstreamPacketLossPercent: undefined,
+            jitterMS: undefined,
+            roundTripTimeMS: undefined,
+            timestamp: timeMS
+        };
+    }
+
+    private static _mean(values: Array<number>): number {
+        if (values.length === 0) {
+            return undefined;
+        }
+        return values.reduce((sum, value) => { return sum + value; }, 0) / values.length;
+    }
+
+    // The larger of two values that may be `undefined`.
+    private static _max(a: number, b: number): number {
+        if (a === undefined) {
+            return b;
+        } else if (b === undefined) {
+            return a;
+        }
+        return Math.max(a, b);
+    }
+}
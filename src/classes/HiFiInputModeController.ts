@@ -0,0 +1,329 @@
+/**
+ * This Module contains the input modes that control when the client's microphone is transmitted to the server:
+ * open mic, push-to-talk, toggle-to-talk, and voice activation. Use {@link HiFiCommunicator.setInputMode} to select one.
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+
+/**
+ * The ways in which the {@link HiFiCommunicator} can decide whether to transmit the client's input audio.
+ * Whatever the input mode, input audio is never transmitted while the client is muted via {@link HiFiCommunicator.setInputAudioMuted}
+ * or by an admin.
+ */
+export enum HiFiInputModes {
+    /**
+     * Input audio is always transmitted. This is the default.
+     */
+    OpenMic = "openMic",
+    /**
+     * Input audio is transmitted while {@link HiFiCommunicator.startTalking} has been called more recently than {@link HiFiCommunicator.stopTalking},
+     * plus the release tail. Use {@link HiFiControls} or {@link HiFiCommunicator.bindPushToTalkElement} to bind these to a key or an element.
+     */
+    PushToTalk = "pushToTalk",
+    /**
+     * Each call to {@link HiFiCommunicator.toggleTalking} starts or stops transmitting input audio.
+     */
+    ToggleToTalk = "toggleToTalk",
+    /**
+     * Input audio is transmitted while its level, measured locally with a WebAudio analyser, is at or above `voiceActivationThresholdDecibels`,
+     * plus the release tail. Only available in the browser.
+     */
+    VoiceActivated = "voiceActivated"
+}
+
+/**
+ * Settings for the input modes. Values that are omitted keep their previous values.
+ */
+export interface InputModeConfig {
+    /**
+     * After push-to-talk is released, or after the input level of a voice-activated client drops below the threshold,
+     * input audio continues to be transmitted for this many milliseconds, so that the end of the last word isn't cut off.
+     * Defaults to 300 milliseconds.
+     */
+    releaseTailMS?: number;
+    /**
+     * In {@link HiFiInputModes.VoiceActivated} mode, input audio at or above this level (in dBFS) is transmitted. Defaults to -50 dB.
+     */
+    voiceActivationThresholdDecibels?: number;
+    /**
+     * In {@link HiFiInputModes.VoiceActivated} mode, how often, in milliseconds, to measure the level of the input audio. Defaults to 20 milliseconds.
+     */
+    voiceActivationIntervalMS?: number;
+}
+
+/**
+ * Decides whether the client's input audio should be transmitted (whether the "input gate" is open), according to the current {@link HiFiInputModes}.
+ * The {@link HiFiCommunicator} owns an instance of this class and mutes or unmutes the input audio when the gate opens or closes.
+ */
+export class HiFiInputModeController {
+    releaseTailMS: number;
+    voiceActivationThresholdDecibels: number;
+    voiceActivationIntervalMS: number;
+
+    /**
+     * Called whenever the input gate opens or closes.
+     */
+    onGateChanged: (isOpen: boolean) => void;
+
+    private _mode: HiFiInputModes;
+    private _isGateOpen: boolean;
+    // Whether the user is currently holding push-to-talk or has toggled talking on, or whether the input level is above the threshold.
+    private _wantsToTalk: boolean;
+    private _releaseTailTimeout: ReturnType<typeof setTimeout>;
+    private _inputAudioMediaStream: MediaStream;
+    private _voiceActivationAnalyser: { audioContext: AudioContext, analysedStream: MediaStream, interval: ReturnType<typeof setInterval> };
+
+    /**
+     * @param __namedParameters
+     * @param onGateChanged - The function to call when the input gate opens or closes.
+     */
+    constructor({ onGateChanged }: { onGateChanged?: (isOpen: boolean) => void } = {}) {
+        this.releaseTailMS = 300;
+        this.voiceActivationThresholdDecibels = -50;
+        this.voiceActivationIntervalMS = 20;
+        this.onGateChanged = onGateChanged;
+        this._mode = HiFiInputModes.OpenMic;
+        this._isGateOpen = true;
+        this._wantsToTalk = false;
+        this._releaseTailTimeout = null;
+        this._inputAudioMediaStream = undefined;
+        this._voiceActivationAnalyser = undefined;
+    }
+
+    /**
+     * @returns The current input mode.
+     */
+    getMode(): HiFiInputModes {
+        return this._mode;
+    }
+
+    /**
+     * @returns `true` if input audio should currently be transmitted according to the input mode.
+     */
+    isGateOpen(): boolean {
+        return this._isGateOpen;
+    }
+
+    /**
+     * Changes the input mode. The input gate is opened for {@link HiFiInputModes.OpenMic}, and closed for every other mode until
+     * the user starts talking.
+     * @param mode The new input mode.
+     * @param config Settings for the input modes. See {@link InputModeConfig}.
+     * @returns `true` if the input mode was changed; `false` if the mode isn't available, in which case the input mode is unchanged.
+     */
+    setMode(mode: HiFiInputModes, config: InputModeConfig = {}): boolean {
+        if (!Object.values(HiFiInputModes).includes(mode)) {
+            HiFiLogger.error(`Couldn't set the input mode: \`${mode}\` isn't a valid input mode.`);
+            return false;
+        }
+        if (mode === HiFiInputModes.VoiceActivated && !HiFiInputModeController._getAudioContextClass()) {
+            HiFiLogger.error(`Couldn't set the input mode to \`${mode}\`: WebAudio isn't available in this context.`);
+            return false;
+        }
+
+        if (typeof (config.releaseTailMS) === "number") {
+            this.releaseTailMS = Math.max(0, config.releaseTailMS);
+        }
+        if (typeof (config.voiceActivationThresholdDecibels) === "number") {
+            this.voiceActivationThresholdDecibels = config.voiceActivationThresholdDecibels;
+        }
+        if (typeof (config.voiceActivationIntervalMS) === "number") {
+            this.voiceActivationIntervalMS = Math.max(10, config.voiceActivationIntervalMS);
+        }
+
+        this._stopVoiceActivationAnalyser();
+        this._clearReleaseTail();
+        this._mode = mode;
+        this._wantsToTalk = false;
+        this._setGateOpen(mode === HiFiInputModes.OpenMic);
+        if (mode === HiFiInputModes.VoiceActivated) {
+            this._startVoiceActivationAnalyser();
+        }
+        return true;
+    }
+
+    /**
+     * Push-to-talk has been pressed. Also starts talking in {@link HiFiInputModes.ToggleToTalk} mode.
+     */
+    startTalking(): void {
+        if (this._mode !== HiFiInputModes.PushToTalk && this._mode !== HiFiInputModes.ToggleToTalk) {
+            HiFiLogger.warn(`\`startTalking()\` has no effect in the \`${this._mode}\` input mode.`);
+            return;
+        }
+        this._wantsToTalk = true;
+        this._clearReleaseTail();
+        this._setGateOpen(true);
+    }
+
+    /**
+     * Push-to-talk has been released. Also stops talking in {@link HiFiInputModes.ToggleToTalk} mode.
+     */
+    stopTalking(): void {
+        if (this._mode === HiFiInputModes.PushToTalk) {
+            this._wantsToTalk = false;
+            this._closeGateAfterReleaseTail();
+        } else if (this._mode === HiFiInputModes.ToggleToTalk) {
+            this._wantsToTalk = false;
+            this._setGateOpen(false);
+        } else {
+            HiFiLogger.warn(`\`stopTalking()\` has no effect in the \`${this._mode}\` input mode.`);
+        }
+    }
+
+    /**
+     * Starts talking if the user isn't talking, or stops talking if they are. Only has an effect in {@link HiFiInputModes.ToggleToTalk} mode.
+     */
+    toggleTalking(): void {
+        if (this._mode !== HiFiInputModes.ToggleToTalk) {
+            HiFiLogger.warn(`\`toggleTalking()\` has no effect in the \`${this._mode}\` input mode.`);
+            return;
+        }
+        if (this._wantsToTalk) {
+            this.stopTalking();
+        } else {
+            this.startTalking();
+        }
+    }
+
+    /**
+     * Makes pressing and releasing an element (for example, a button) start and stop talking in {@link HiFiInputModes.PushToTalk} mode.
+     * @param element The element to bind.
+     * @returns A function that removes the binding.
+     */
+    bindPushToTalkElement(element: EventTarget): () => void {
+        let onPress = (e: Event) => { e.preventDefault(); this.startTalking(); };
+        let onRelease = () => { if (this._mode === HiFiInputModes.PushToTalk && this._wantsToTalk) { this.stopTalking(); } };
+        let pressEvents = ["pointerdown"];
+        // Releasing the pointer anywhere, or dragging it off of the element, should stop talking.
+        let releaseEvents = ["pointerup", "pointerleave", "pointercancel"];
+        pressEvents.forEach((eventName) => { element.addEventListener(eventName, onPress, false); });
+        releaseEvents.forEach((eventName) => { element.addEventListener(eventName, onRelease, false); });
+        return () => {
+            pressEvents.forEach((eventName) => { element.removeEventListener(eventName, onPress, false); });
+            releaseEvents.forEach((eventName) => { element.removeEventListener(eventName, onRelease, false); });
+        };
+    }
+
+    /**
+     * Measures the level of a new input stream in {@link HiFiInputModes.VoiceActivated} mode.
+     * @param inputAudioMediaStream The input audio stream that is being transmitted.
+     */
+    setInputAudioMediaStream(inputAudioMediaStream: MediaStream): void {
+        this._inputAudioMediaStream = inputAudioMediaStream;
+        if (this._mode === HiFiInputModes.VoiceActivated) {
+            this._startVoiceActivationAnalyser();
+        }
+    }
+
+    /**
+     * Opens or closes the input gate according to the level of the input audio in {@link HiFiInputModes.VoiceActivated} mode.
+     * This is called periodically by the WebAudio analyser.
+     * @param levelDecibels The level of the input audio, in dBFS.
+     */
+    handleInputLevel(levelDecibels: number): void {
+        if (this._mode !== HiFiInputModes.VoiceActivated) {
+            return;
+        }
+        if (levelDecibels >= this.voiceActivationThresholdDecibels) {
+            this._wantsToTalk = true;
+            this._clearReleaseTail();
+            this._setGateOpen(true);
+        } else if (this._wantsToTalk) {
+            this._wantsToTalk = false;
+            this._closeGateAfterReleaseTail();
+        }
+    }
+
+    /**
+     * Stops measuring the input level and cancels any pending timers. The input mode is left unchanged.
+     */
+    stop(): void {
+        this._stopVoiceActivationAnalyser();
+        this._clearReleaseTail();
+    }
+
+    private _setGateOpen(isOpen: boolean): void {
+        if (isOpen === this._isGateOpen) {
+            return;
+        }
+        this._isGateOpen = isOpen;
+        if (this.onGateChanged) {
+            this.onGateChanged(isOpen);
+        }
+    }
+
+    private _closeGateAfterReleaseTail(): void {
+        if (this._releaseTailTimeout || !this._isGateOpen) {
+            return;
+        }
+        if (this.releaseTailMS === 0) {
+            this._setGateOpen(false);
+            return;
+        }
+        this._releaseTailTimeout = setTimeout(() => {
+            this._releaseTailTimeout = null;
+            this._setGateOpen(false);
+        }, this.releaseTailMS);
+    }
+
+    private _clearReleaseTail(): void {
+        if (this._releaseTailTimeout) {
+            clearTimeout(this._releaseTailTimeout);
+            this._releaseTailTimeout = null;
+        }
+    }
+
+    private static _getAudioContextClass(): any {
+        if (typeof (self) === "undefined") {
+            return undefined;
+        }
+        return (self as any).AudioContext || (self as any).webkitAudioContext;
+    }
+
+    private _startVoiceActivationAnalyser(): void {
+        this._stopVoiceActivationAnalyser();
+        if (!this._inputAudioMediaStream) {
+            // We'll start when `setInputAudioMediaStream()` is called.
+            return;
+        }
+        let AudioContextClass = HiFiInputModeController._getAudioContextClass();
+        if (!AudioContextClass) {
+            HiFiLogger.error(`Couldn't start voice activation: WebAudio isn't available in this context.`);
+            return;
+        }
+
+        // Closing the input gate mutes the input stream by disabling its tracks, which would make the analyser hear silence
+        // and never reopen the gate. So we analyse a clone of the stream, whose tracks are enabled independently.
+        let analysedStream = this._inputAudioMediaStream.clone();
+        let audioContext: AudioContext = new AudioContextClass();
+        let analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        audioContext.createMediaStreamSource(analysedStream).connect(analyser);
+        let samples = new Float32Array(analyser.fftSize);
+
+        let interval = setInterval(() => {
+            analyser.getFloatTimeDomainData(samples);
+            let sumOfSquares = 0;
+            for (let i = 0; i < samples.length; i++) {
+                sumOfSquares += samples[i] * samples[i];
+            }
+            let rms = Math.sqrt(sumOfSquares / samples.length);
+            this.handleInputLevel(rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+        }, this.voiceActivationIntervalMS);
+
+        this._voiceActivationAnalyser = { audioContext, analysedStream, interval };
+    }
+
+    private _stopVoiceActivationAnalyser(): void {
+        if (!this._voiceActivationAnalyser) {
+            return;
+        }
+        clearInterval(this._voiceActivationAnalyser.interval);
+        this._voiceActivationAnalyser.analysedStream.getTracks().forEach((track) => { track.stop(); });
+        this._voiceActivationAnalyser.audioContext.close().catch((e) => {
+            HiFiLogger.warn(`Couldn't close the voice activation \`AudioContext\`:\n${e}`);
+        });
+        this._voiceActivationAnalyser = undefined;
+    }
+}
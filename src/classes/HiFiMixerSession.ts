@@ -10,12 +10,15 @@
 import { HiFiAudioAPIData, Quaternion, Point3D, ReceivedHiFiAudioAPIData, OtherUserGainMap } from "./HiFiAudioAPIData";
 import { HiFiCoordinateFrameUtil } from "../utilities/HiFiCoordinateFrameUtil"; 
 import { HiFiLogger } from "../utilities/HiFiLogger";
+import { HiFiPeerMotionInterpolator } from "../utilities/HiFiPeerMotionInterpolator";
+import { HiFiProtocolTraceRecorder, HiFiProtocolTraceEntryTypes, ProtocolTraceDirection } from "../utilities/HiFiProtocolTrace";
 import { HiFiConnectionStates, HiFiUserDataStreamingScopes, HiFiConnectionAttemptResult } from "./HiFiCommunicator";
 
 import { RaviUtils } from "../libravi/RaviUtils";
 import { RaviSession, RaviSessionStates, WebRTCSessionParams, CustomSTUNandTURNConfig } from "../libravi/RaviSession";
+import { WebRTCStatsCallback, WebRTCStatsSubscriptionConfig, WebRTCStatsSubscriptionHandle } from "../libravi/RaviWebRTCStats";
 import { RaviSignalingConnection, RaviSignalingStates } from "../libravi/RaviSignalingConnection";
-import { Diagnostics } from "../diagnostics/diagnostics";
+import { Diagnostics, DiagnosticsConfig } from "../diagnostics/diagnostics";
 import pako from 'pako'
 
 const isBrowser = typeof window !== 'undefined';
@@ -73,11 +76,15 @@ export type SetOtherUserGainForThisConnectionResponse = SetOtherUserGainsForThis
  * {@link MuteReason.ADMIN} is used to indicate that the server has changed the client's mute state.
  *
  * {@link MuteReason.INTERNAL} is used to indicate that the client's mute state has changed due to an implementation detail of the spatial audio API, for example to keep the state of the client consistent with the server.
+ *
+ * {@link MuteReason.INPUT_MODE} is used to indicate that the client's mute state has changed because the input gate of the current {@link HiFiInputModes} opened or closed,
+ * for example because push-to-talk was pressed or released. Like {@link MuteReason.CLIENT}, this cannot unmute a client who has been muted by an admin.
 */
 export enum MuteReason {
     CLIENT = "client",
     ADMIN = "admin",
-    INTERNAL = "internal"
+    INTERNAL = "internal",
+    INPUT_MODE = "inputMode"
 }
 
 /**
@@ -126,10 +133,28 @@ export class MuteChangedEvent {
  *
  * If {@link MuteChangedEvent.muteReason} is equal to {@link MuteReason.INTERNAL}, the client's mute state has changed due to an implementation detail of the spatial audio API, for example to keep the state of the client consistent with the server.
  *
+ * If {@link MuteChangedEvent.muteReason} is equal to {@link MuteReason.INPUT_MODE}, the input gate of the current input mode opened or closed. See {@link HiFiCommunicator.setInputMode}.
+ *
  * This callback can also be used to keep track of whether the client is muted and display this in the client UI, and can also be used for debugging purposes. The mute state of the client may not have changed after this callback.
 */
 export type OnMuteChangedCallback = (muteChangedEvent: MuteChangedEvent) => void;
 
+/**
+ * An `onPeerJoined`, `onPeerLeft`, or `onPeerUpdated` callback function with this signature can be provided to {@link HiFiCommunicator.constructor}.
+ * 
+ * The `peer` argument always contains the full, merged state of the peer as known by the client (not just the values that changed),
+ * expressed in the World coordinate frame. The `peer` object is a copy; modifying it has no effect on the client's peer roster.
+ * See {@link HiFiCommunicator.getPeers}.
+ */
+export type OnPeerChangedCallback = (peer: ReceivedHiFiAudioAPIData) => void;
+
+/**
+ * A callback function with this signature is called whenever the server sends the client an instruction, such as `"mute"` or `"terminate"`.
+ * `instructionArguments` contains every element of the instruction after its name; for example, `[true]` for a `"mute"` instruction that mutes the client.
+ * Instructions are reported whether or not the client knows how to handle them.
+ */
+export type OnServerInstructionCallback = (instructionName: string, instructionArguments: Array<any>) => void;
+
 /**
  * Instantiations of this class contain data about a connection between a client and a mixer.
  * Client library users shouldn't have to care at all about the variables and methods contained in this class.
@@ -192,14 +217,16 @@ export class HiFiMixerSession {
     private _outputAudioMediaStream: MediaStream;
 
     /**
-     * Only valid for users covered by a user data subscription. Remains constant at disconnect until the next connect.
+     * The number of peers (including this client, if the {@link HiFiUserDataStreamingScopes} is `All`) known to be connected to the same space
+     * as this client. Peers are only known if the {@link HiFiUserDataStreamingScopes} is not `None`.
+     * Remains constant at disconnect until the next connect.
      */
     public concurrency:number = 0;
 
     /**
-     * The WebRTC Stats Observer callback
+     * The callbacks passed to {@link startCollectingWebRTCStats}.
      */
-    private _statsObserverCallback: Function;
+    private _statsObserverCallbacks: Set<Function>;
 
     /**
      * See {@link HiFiUserDataStreamingScopes}.
@@ -219,6 +246,23 @@ export class HiFiMixerSession {
      * This function is called when a Peer disconnects from the Server.
      */
     onUsersDisconnected: Function;
+    /**
+     * This function is called when a Peer is added to the peer roster.
+     */
+    onPeerJoined: OnPeerChangedCallback;
+    /**
+     * This function is called when a Peer is removed from the peer roster, either because the server reported that they
+     * disconnected, or because this client disconnected from the server.
+     */
+    onPeerLeft: OnPeerChangedCallback;
+    /**
+     * This function is called when the server sends new data about a Peer already in the peer roster.
+     */
+    onPeerUpdated: OnPeerChangedCallback;
+    /**
+     * This function is called when the server sends an instruction to the client.
+     */
+    onServerInstruction: OnServerInstructionCallback;
     /**
      * This function is called when the "connection state" changes.
      */
@@ -237,6 +281,18 @@ export class HiFiMixerSession {
      */
     _coordFrameUtil: HiFiCoordinateFrameUtil;
 
+    /**
+     * If set, every position and orientation received from the server is recorded here, in the World-frame,
+     * so that peer motion can be smoothed. See {@link HiFiCommunicator.getInterpolatedPeerPose}.
+     */
+    peerMotionInterpolator: HiFiPeerMotionInterpolator;
+
+    /**
+     * If set, signaling messages, `audionet.init`, every `sendInput` payload and every decompressed frame from the mixer are captured here.
+     * See {@link HiFiCommunicator.setProtocolTraceRecorder}.
+     */
+    protocolTraceRecorder: HiFiProtocolTraceRecorder;
+
     /**
      * Contains information about the mixer to which we are currently connected.
      */
@@ -260,6 +316,11 @@ export class HiFiMixerSession {
      */
     _disableReconnect: boolean;
 
+    /**
+     * Logs with the `communicatorID` of the HiFiCommunicator that owns this HiFiMixerSession.
+     */
+    private _logger: HiFiLogger;
+
     /**
      * Used for diagnostics
      */
@@ -275,6 +336,10 @@ export class HiFiMixerSession {
      * If set to `false`, User Data Subscriptions will serve no purpose.
      * @param onUserDataUpdated - The function to call when the server sends user data to the client. Irrelevant if `userDataStreamingScope` is `HiFiUserDataStreamingScopes.None`.
      * @param onUsersDisconnected - The function to call when the server sends user data about peers who just disconnected to the client.
+     * @param onPeerJoined - The function to call when a peer is added to the peer roster. See {@link OnPeerChangedCallback}.
+     * @param onPeerLeft - The function to call when a peer is removed from the peer roster. See {@link OnPeerChangedCallback}.
+     * @param onPeerUpdated - The function to call when the server sends new data about a peer already in the peer roster. See {@link OnPeerChangedCallback}.
+     * @param onServerInstruction - The function to call when the server sends an instruction to the client. See {@link OnServerInstructionCallback}.
      * @param onConnectionStateChanged - The function to call when the connection state of the HiFiMixerSession changes. (In practice, this is always the HiFiCommunicator's
      * `_manageConnection` method, which does the heavy lifting).
      * @param onMuteChanged - The function to call when the server sends a "mute" message to the client
@@ -285,39 +350,75 @@ export class HiFiMixerSession {
      * (The `_onConnectionStateChange` method can just blindly call the passed change handler if it wants to, without checking for a "real" change.)
      * So, if/when we remove diagnostics code (or if we want to approach this some other way) we could get rid of the `getUserFacingConnectionState`
      * parameter without affecting the functionality at all.
+     * @param coordFrameUtil - Converts between the World-frame and the HiFi-frame. See {@link _coordFrameUtil}.
+     * @param peerMotionInterpolator - Records peer motion for smoothing. See {@link peerMotionInterpolator}.
+     * @param protocolTraceRecorder - Captures protocol traffic. See {@link protocolTraceRecorder}.
+     * @param diagnosticsConfig - Controls the diagnostics reports about this session's connections. See {@link DiagnosticsConfig}.
+     * @param logger - The logger to log with. Defaults to a logger for the `"HiFiMixerSession"` module.
      */
     constructor({
         userDataStreamingScope = HiFiUserDataStreamingScopes.All,
         onUserDataUpdated,
         onUsersDisconnected,
+        onPeerJoined,
+        onPeerLeft,
+        onPeerUpdated,
+        onServerInstruction,
         onConnectionStateChanged,
         onMuteChanged,
         getUserFacingConnectionState,
-        coordFrameUtil
+        coordFrameUtil,
+        peerMotionInterpolator,
+        protocolTraceRecorder,
+        diagnosticsConfig,
+        logger = HiFiLogger.child({ module: "HiFiMixerSession" })
     }: {
         userDataStreamingScope?: HiFiUserDataStreamingScopes,
         onUserDataUpdated?: Function,
         onUsersDisconnected?: Function,
+        onPeerJoined?: OnPeerChangedCallback,
+        onPeerLeft?: OnPeerChangedCallback,
+        onPeerUpdated?: OnPeerChangedCallback,
+        onServerInstruction?: OnServerInstructionCallback,
         onConnectionStateChanged?: ConnectionStateChangeHandler,
         onMuteChanged?: OnMuteChangedCallback,
         getUserFacingConnectionState?: Function,
-        coordFrameUtil?: HiFiCoordinateFrameUtil
+        coordFrameUtil?: HiFiCoordinateFrameUtil,
+        peerMotionInterpolator?: HiFiPeerMotionInterpolator,
+        protocolTraceRecorder?: HiFiProtocolTraceRecorder,
+        diagnosticsConfig?: DiagnosticsConfig,
+        logger?: HiFiLogger
     }) {
         this.webRTCAddress = undefined;
         this.userDataStreamingScope = userDataStreamingScope;
         this.onUserDataUpdated = onUserDataUpdated;
         this.onUsersDisconnected = onUsersDisconnected;
+        this.onPeerJoined = onPeerJoined;
+        this.onPeerLeft = onPeerLeft;
+        this.onPeerUpdated = onPeerUpdated;
+        this.onServerInstruction = onServerInstruction;
         this._mixerPeerKeyToStateCacheDict = {};
         this._lastSuccessfulInputAudioMutedValue = false;
         this.onMuteChanged = onMuteChanged;
         this._getUserFacingConnectionState = getUserFacingConnectionState;
         this._disableReconnect = false;
         this._coordFrameUtil = coordFrameUtil;
+        this.peerMotionInterpolator = peerMotionInterpolator;
+        this.protocolTraceRecorder = protocolTraceRecorder;
+        this._logger = logger;
 
+        // The RAVI layer logs through the HiFiLogger, in the "RAVI" module; this only stops it from dispatching `logger` events on the document.
         RaviUtils.setDebug(false);
 
-        this._raviSignalingConnection = new RaviSignalingConnection();
-        this._raviSession = new RaviSession();
+        this._raviSignalingConnection = new RaviSignalingConnection(this._logger.context);
+        this._raviSignalingConnection.addMessageHandler((message: any) => {
+            this._recordProtocolTrace("in", HiFiProtocolTraceEntryTypes.Signaling, message && message.data !== undefined ? message.data : message);
+        });
+        this._raviSignalingConnection.addOutgoingMessageHandler((message: any) => {
+            this._recordProtocolTrace("out", HiFiProtocolTraceEntryTypes.Signaling, message);
+        });
+        this._raviSession = new RaviSession(this._logger.context);
+        this._statsObserverCallbacks = new Set();
         this._raviSession.getCommandController().addBinaryHandler((data: any) => {
             this.handleRAVISessionBinaryData(data)
         }, true);
@@ -329,8 +430,9 @@ export class HiFiMixerSession {
 
         this._tryingToConnect = false;
         this._resetMixerInfo();
-        this._raviDiagnostics = new Diagnostics({label: 'ravi', session: this, ravi: this._raviSession});
-        this._hifiDiagnostics = new Diagnostics({label: 'app', session: this, ravi: this._raviSession,
+        let diagnosticsLogger = this._logger.child({ module: "Diagnostics" });
+        this._raviDiagnostics = new Diagnostics({label: 'ravi', session: this, ravi: this._raviSession, config: diagnosticsConfig, logger: diagnosticsLogger});
+        this._hifiDiagnostics = new Diagnostics({label: 'app', session: this, ravi: this._raviSession, config: diagnosticsConfig, logger: diagnosticsLogger,
                                                  // The first is the standard way to tell, but browser have bugs in which they don't fire.
                                                  // The second is enough for all known browser bugs, except for Safari desktop closing a visible tab.
                                                  fireOn: ['visibilitychange', 'pagehide', 'beforeunload']});
@@ -375,8 +477,10 @@ export class HiFiMixerSession {
                 });
             }, INIT_TIMEOUT_MS);
 
+            this._recordProtocolTrace("out", HiFiProtocolTraceEntryTypes.AudionetInitRequest, initData);
             commandController.queueCommand("audionet.init", initData, async (response: string) => {
                 clearTimeout(initTimeout);
+                this._recordProtocolTrace("in", HiFiProtocolTraceEntryTypes.AudionetInitResponse, response);
                 let parsedResponse: any;
                 try {
                     parsedResponse = JSON.parse(response);
@@ -385,6 +489,9 @@ export class HiFiMixerSession {
                     this.mixerInfo["build_type"] = parsedResponse.build_type;
                     this.mixerInfo["build_version"] = parsedResponse.build_version;
                     this.mixerInfo["visit_id_hash"] = parsedResponse.visit_id_hash;
+                    this.mixerInfo["capabilities"] = Array.isArray(parsedResponse.capabilities) ? parsedResponse.capabilities : [];
+                    // Servers that don't list this capability ignore the `iceRestart` flag of the `renegotiate` signaling message.
+                    this._raviSession.setIceRestartSupported(this.mixerInfo["capabilities"].includes("ice_restart"));
                     return resolve({
                         success: true,
                         audionetInitResponse: parsedResponse,
@@ -408,9 +515,11 @@ export class HiFiMixerSession {
     handleRAVISessionBinaryData(data: any) {
         let unGZippedData = pako.ungzip(data, { to: 'string' });
         let jsonData = JSON.parse(unGZippedData);
+        this._recordProtocolTrace("in", HiFiProtocolTraceEntryTypes.MixerFrame, jsonData);
 
         if (jsonData.deleted_visit_ids) {
             let allDeletedUserData: Array<ReceivedHiFiAudioAPIData> = [];
+            let allLeftPeers: Array<ReceivedHiFiAudioAPIData> = [];
 
             let deletedVisitIDs = jsonData.deleted_visit_ids;
             for (const deletedVisitID of deletedVisitIDs) {
@@ -422,12 +531,18 @@ export class HiFiMixerSession {
 
                 let mixerPeerKeys = Object.keys(this._mixerPeerKeyToStateCacheDict);
                 for (const mixerPeerKey of mixerPeerKeys) {
-                    if (this._mixerPeerKeyToStateCacheDict[mixerPeerKey].hashedVisitID === hashedVisitID) {
-                        if (this._mixerPeerKeyToStateCacheDict[mixerPeerKey].providedUserID) {
-                            deletedUserData.providedUserID = this._mixerPeerKeyToStateCacheDict[mixerPeerKey].providedUserID;
+                    let userDataCache = this._mixerPeerKeyToStateCacheDict[mixerPeerKey] as ReceivedHiFiAudioAPIData;
+                    if (userDataCache.hashedVisitID === hashedVisitID) {
+                        if (userDataCache.providedUserID) {
+                            deletedUserData.providedUserID = userDataCache.providedUserID;
+                        }
+                        // The mixer will never send data for this peer key again (a reconnecting peer gets a new key),
+                        // so we remove it from the cache to keep the peer roster accurate.
+                        delete this._mixerPeerKeyToStateCacheDict[mixerPeerKey];
+                        if (this.peerMotionInterpolator) {
+                            this.peerMotionInterpolator.removePeer(hashedVisitID);
                         }
-                        // TODO: remove the entry from the peer state cache -- is this OK?
-                        //delete this._mixerPeerKeyToStateCacheDict[mixerPeerKey];
+                        allLeftPeers.push(this._getWorldFramePeerData(userDataCache));
                         break;
                     }
                 }
@@ -435,15 +550,21 @@ export class HiFiMixerSession {
                 allDeletedUserData.push(deletedUserData);
             }
 
-            // TODO: remove the entry from the peer state cache
-            this.concurrency -= allDeletedUserData.length;
+            this.concurrency = Object.keys(this._mixerPeerKeyToStateCacheDict).length;
             if (this.onUsersDisconnected && allDeletedUserData.length > 0) {
                 this.onUsersDisconnected(allDeletedUserData);
             }
+            if (this.onPeerLeft) {
+                for (const peer of allLeftPeers) {
+                    this.onPeerLeft(peer);
+                }
+            }
         }
 
         if (jsonData.peers) {
             let allNewUserData: Array<ReceivedHiFiAudioAPIData> = [];
+            let allJoinedPeers: Array<ReceivedHiFiAudioAPIData> = [];
+            let allUpdatedPeers: Array<ReceivedHiFiAudioAPIData> = [];
 
             let peerKeys = Object.keys(jsonData.peers);
             for (let itr = 0; itr < peerKeys.length; itr++) {
@@ -451,6 +572,7 @@ export class HiFiMixerSession {
 
                 // See {@link this._mixerPeerKeyToStateCacheDict}.
                 let userDataCache: ReceivedHiFiAudioAPIData;
+                let isNewPeer = false;
                 // If it is a known peer, we should have an entry for it in the cache dict
                 if (this._mixerPeerKeyToStateCacheDict[peerKeys[itr]]) {
                     userDataCache = this._mixerPeerKeyToStateCacheDict[peerKeys[itr]] as ReceivedHiFiAudioAPIData;
@@ -459,7 +581,7 @@ export class HiFiMixerSession {
                 else {
                     userDataCache = new ReceivedHiFiAudioAPIData();
                     this._mixerPeerKeyToStateCacheDict[peerKeys[itr]] = userDataCache;
-                    this.concurrency += 1;
+                    isNewPeer = true;
                 }
 
                 // This is a new empty data that will collect the changes received from the server.
@@ -485,6 +607,8 @@ export class HiFiMixerSession {
                     userDataCache.hashedVisitID = peerDataFromMixer.e;
                     newUserData.hashedVisitID = peerDataFromMixer.e;
                 }
+                userDataCache.isSelf = !!userDataCache.hashedVisitID && userDataCache.hashedVisitID === this.mixerInfo["visit_id_hash"];
+                newUserData.isSelf = userDataCache.isSelf;
 
                 let serverSentNewUserData = false;
 
@@ -591,11 +715,34 @@ export class HiFiMixerSession {
                 if (serverSentNewUserData) {
                     allNewUserData.push(newUserData);
                 }
+
+                if ((serverSentNewPosition || serverSentNewOrientation) && this.peerMotionInterpolator && userDataCache.hashedVisitID) {
+                    let worldFramePeerData = this._getWorldFramePeerData(userDataCache);
+                    this.peerMotionInterpolator.addSample(userDataCache.hashedVisitID, worldFramePeerData);
+                }
+
+                if (isNewPeer) {
+                    allJoinedPeers.push(this._getWorldFramePeerData(userDataCache));
+                } else if (serverSentNewUserData) {
+                    allUpdatedPeers.push(this._getWorldFramePeerData(userDataCache));
+                }
             }
 
+            this.concurrency = Object.keys(this._mixerPeerKeyToStateCacheDict).length;
+
             if (this.onUserDataUpdated && allNewUserData.length > 0) {
                 this.onUserDataUpdated(allNewUserData);
             }
+            if (this.onPeerJoined) {
+                for (const peer of allJoinedPeers) {
+                    this.onPeerJoined(peer);
+                }
+            }
+            if (this.onPeerUpdated) {
+                for (const peer of allUpdatedPeers) {
+                    this.onPeerUpdated(peer);
+                }
+            }
         }
         
         if (jsonData.instructions) {
@@ -606,6 +753,9 @@ export class HiFiMixerSession {
 
                 let instructionName = instruction[0];
                 let instructionArguments = instruction.slice(1);
+                if (this.onServerInstruction) {
+                    this.onServerInstruction(instructionName, instructionArguments);
+                }
                 if (instructionName === "mute") {
                     let shouldBeMuted: boolean;
                     if (instructionArguments.length >= 1) {
@@ -627,17 +777,71 @@ export class HiFiMixerSession {
         }
     }
 
+    /**
+     * @returns A World-frame copy of every peer in the peer roster, in the order in which they were first reported by the server.
+     */
+    getPeers(): Array<ReceivedHiFiAudioAPIData> {
+        return Object.keys(this._mixerPeerKeyToStateCacheDict).map((mixerPeerKey) => {
+            return this._getWorldFramePeerData(this._mixerPeerKeyToStateCacheDict[mixerPeerKey]);
+        });
+    }
+
+    /**
+     * @param hashedVisitID The hashed visit ID of the peer to find.
+     * @returns A World-frame copy of the peer in the peer roster with the given hashed visit ID, or `undefined` if no such peer is known.
+     */
+    getPeer(hashedVisitID: string): ReceivedHiFiAudioAPIData {
+        for (const mixerPeerKey of Object.keys(this._mixerPeerKeyToStateCacheDict)) {
+            let userDataCache = this._mixerPeerKeyToStateCacheDict[mixerPeerKey] as ReceivedHiFiAudioAPIData;
+            if (userDataCache.hashedVisitID === hashedVisitID) {
+                return this._getWorldFramePeerData(userDataCache);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Converts an entry from `_mixerPeerKeyToStateCacheDict` (which is expressed in the HiFi-frame) to a World-frame copy
+     * that is safe to hand to the Library user.
+     */
+    private _getWorldFramePeerData(userDataCache: ReceivedHiFiAudioAPIData): ReceivedHiFiAudioAPIData {
+        let peer = new ReceivedHiFiAudioAPIData({
+            providedUserID: userDataCache.providedUserID,
+            hashedVisitID: userDataCache.hashedVisitID,
+            volumeDecibels: userDataCache.volumeDecibels,
+            isStereo: userDataCache.isStereo,
+            isSelf: userDataCache.isSelf
+        });
+        if (userDataCache.position) {
+            if (this._coordFrameUtil == null) {
+                peer.position = new Point3D({ x: userDataCache.position.x, y: userDataCache.position.y, z: userDataCache.position.z });
+            } else {
+                peer.position = this._coordFrameUtil.HiFiPositionToWorld(userDataCache.position);
+            }
+        }
+        if (userDataCache.orientation) {
+            if (this._coordFrameUtil == null) {
+                peer.orientation = new Quaternion({ w: userDataCache.orientation.w, x: userDataCache.orientation.x, y: userDataCache.orientation.y, z: userDataCache.orientation.z });
+            } else {
+                peer.orientation = this._coordFrameUtil.HiFiOrientationToWorld(userDataCache.orientation);
+            }
+        }
+        return peer;
+    }
+
     /**
      * Connect to the Mixer given `this.webRTCAddress`.
      * 
      * @param __namedParameters
      * @param webRTCSessionParams - Parameters passed to the RAVI session when opening that session.
+     * @param iceRestartTimeoutMS - How long an ICE restart may take when the network connection is interrupted, before the
+     * RAVI session fails and we disconnect. `0` (the default) disables ICE restarts.
      * @returns void. Use the callback function to get information about errors upon failure, or the response from `audionet.init` when successful
      */
-    connectToHiFiMixer({ webRTCSessionParams, customSTUNandTURNConfig, timeout, initData }: { webRTCSessionParams?: WebRTCSessionParams, customSTUNandTURNConfig?: CustomSTUNandTURNConfig, timeout?: number, initData?: HiFiAudioAPIData }): void {
+    connectToHiFiMixer({ webRTCSessionParams, customSTUNandTURNConfig, timeout, iceRestartTimeoutMS = 0, initData }: { webRTCSessionParams?: WebRTCSessionParams, customSTUNandTURNConfig?: CustomSTUNandTURNConfig, timeout?: number, iceRestartTimeoutMS?: number, initData?: HiFiAudioAPIData }): void {
 
         if (this._tryingToConnect) {
-            HiFiLogger.warn("`HiFiMixerSession.connectToHiFiMixer()` was called, but is already in the process of connecting. No action will be taken.");
+            this._logger.warn("`HiFiMixerSession.connectToHiFiMixer()` was called, but is already in the process of connecting. No action will be taken.");
             return;
         }
 
@@ -674,9 +878,10 @@ export class HiFiMixerSession {
         // This `Promise.resolve()` is just here for formatting and reading sanity
         // for the below Promise chain.
         this._tryingToConnect = true;
+        this.concurrency = 0;
         Promise.resolve()
         .then(() => {
-            HiFiLogger.log(`Opening signaling connection`);
+            this._logger.log(`Opening signaling connection`);
             return this._raviSignalingConnection.openRAVISignalingConnection(this.webRTCAddress)
             .catch((errorOpeningSignalingConnection) => {
                 let errMsg = `Couldn't open signaling connection to \`${this.webRTCAddress.slice(0, this.webRTCAddress.indexOf("token="))}<token redacted>\`! Error:\n${errorOpeningSignalingConnection}`;
@@ -684,8 +889,8 @@ export class HiFiMixerSession {
             });
         })
         .then((value) => {
-            HiFiLogger.log(`Signaling connection open; starting RAVI session`);
-            return this._raviSession.openRAVISession({ signalingConnection: this._raviSignalingConnection, timeout: timeout, params: webRTCSessionParams, customStunAndTurn: customSTUNandTURNConfig })
+            this._logger.log(`Signaling connection open; starting RAVI session`);
+            return this._raviSession.openRAVISession({ signalingConnection: this._raviSignalingConnection, timeout: timeout, params: webRTCSessionParams, customStunAndTurn: customSTUNandTURNConfig, iceRestartTimeoutMS: iceRestartTimeoutMS })
             .catch((errorOpeningRAVISession) => {
                 let errMsg = `Couldn't open RAVI session associated with \`${this.webRTCAddress.slice(0, this.webRTCAddress.indexOf("token="))}<token redacted>\`! Error:\n${errorOpeningRAVISession}`;
                 if (mixerIsUnavailable) {
@@ -696,7 +901,7 @@ export class HiFiMixerSession {
             });
         })
         .then((value) => {
-            HiFiLogger.log(`Session open; running audionet.init`);
+            this._logger.log(`Session open; running audionet.init`);
             return this.promiseToRunAudioInit(initData)
             .catch((errorRunningAudionetInit) => {
                 let errMsg = `Connected, but was then unable to communicate the \`audionet.init\` message to the server. Error:\n${RaviUtils.safelyPrintable(errorRunningAudionetInit)}`;
@@ -704,7 +909,7 @@ export class HiFiMixerSession {
             });
         })
         .then((value) => {
-            HiFiLogger.log(`audionet.init run; calling state change handler for connected`);
+            this._logger.log(`audionet.init run; calling state change handler for connected`);
             this._onConnectionStateChange(HiFiConnectionStates.Connected, value);
         })
         .then((value) => {
@@ -723,12 +928,26 @@ export class HiFiMixerSession {
         })
         .finally(() => {
             this._raviSignalingConnection.removeStateChangeHandler(tempUnavailableStateHandler);
-            this.concurrency = 0;
             this._tryingToConnect = false;
         });
 
     }
 
+    /**
+     * Records whether the user has consented to diagnostics. Only matters if `requireConsent` was set in the {@link DiagnosticsConfig}.
+     * If consent is given while connected, diagnostics start being collected for the current connection.
+     * If consent is withdrawn, diagnostics stop being collected, and any saved reports are discarded.
+     * @param granted - `true` if the user has consented to diagnostics.
+     */
+    setDiagnosticsConsent(granted: boolean): void {
+        this._raviDiagnostics.setConsent(granted);
+        this._hifiDiagnostics.setConsent(granted);
+        if (granted && this.getCurrentHiFiConnectionState() === HiFiConnectionStates.Connected) {
+            this._raviDiagnostics.prime(this.mixerInfo.visit_id_hash);
+            this._hifiDiagnostics.prime(this.mixerInfo.visit_id_hash);
+        }
+    }
+
     /**
      * Disconnects from the Mixer. Closes the RAVI Signaling Connection and the RAVI Session.
      * @returns A Promise that _always_ Resolves with a "success" status string.
@@ -739,11 +958,12 @@ export class HiFiMixerSession {
         return this._disconnectFromHiFiMixer();
     }
     async _disconnectFromHiFiMixer(): Promise<string> {
+        let logger = this._logger;
         async function close(thingToClose: (RaviSignalingConnection | RaviSession), nameOfThingToClose: string, closedState: string) {
             if (thingToClose) {
                 let state = thingToClose.getState();
                 if (!thingToClose || state === closedState) {
-                    HiFiLogger.log(`The RAVI ${nameOfThingToClose} was already closed.`);
+                    logger.log(`The RAVI ${nameOfThingToClose} was already closed.`);
                 } else {
                     try {
                         if (thingToClose instanceof RaviSignalingConnection) {
@@ -751,13 +971,13 @@ export class HiFiMixerSession {
                         } else if (thingToClose instanceof RaviSession) {
                             await thingToClose.closeRAVISession();
                         }
-                        HiFiLogger.log(`The RAVI ${nameOfThingToClose} closed successfully from state ${state}.`);
+                        logger.log(`The RAVI ${nameOfThingToClose} closed successfully from state ${state}.`);
                     } catch (e) {
-                        HiFiLogger.warn(`The RAVI ${nameOfThingToClose} didn't close successfully from state ${state}! Error:\n${RaviUtils.safelyPrintable(e)}`);
+                        logger.warn(`The RAVI ${nameOfThingToClose} didn't close successfully from state ${state}! Error:\n${RaviUtils.safelyPrintable(e)}`);
                     }
                 }
             } else {
-                HiFiLogger.warn(`The RAVI ${nameOfThingToClose} was missing.`);
+                logger.warn(`The RAVI ${nameOfThingToClose} was missing.`);
             }
 
             thingToClose = null;
@@ -787,15 +1007,15 @@ export class HiFiMixerSession {
         if (this._raviSession) {
             let streamController = this._raviSession.getStreamController();
             if (!streamController) {
-                HiFiLogger.warn(`Couldn't set input audio on _raviSession.streamController: No \`streamController\`!`);
+                this._logger.warn(`Couldn't set input audio on _raviSession.streamController: No \`streamController\`!`);
                 retval = false;
             } else {
                 streamController.setInputAudio(inputAudioMediaStream, isStereo);
-                HiFiLogger.log(`Successfully set input audio on _raviSession.streamController!`);
+                this._logger.log(`Successfully set input audio on _raviSession.streamController!`);
                 retval = true;
             }
         } else {
-            HiFiLogger.warn(`Couldn't set input audio on _raviSession.streamController: No \`_raviSession\`!`);
+            this._logger.warn(`Couldn't set input audio on _raviSession.streamController: No \`_raviSession\`!`);
             retval = false;
         }
 
@@ -803,7 +1023,7 @@ export class HiFiMixerSession {
             if (this._inputAudioMediaStreamIsStereo != isStereo) {
                 if (this._raviSession.getState() === RaviSessionStates.CONNECTED) {
                     // Stereo status has changed; may need to call audionet.init again.
-                    HiFiLogger.warn(`Stereo status has changed from ${this._inputAudioMediaStreamIsStereo} to ${isStereo}; attempting to re-initialize with the mixer`);
+                    this._logger.warn(`Stereo status has changed from ${this._inputAudioMediaStreamIsStereo} to ${isStereo}; attempting to re-initialize with the mixer`);
                     let audionetInitResponse;
                     try {
                         this._inputAudioMediaStreamIsStereo = isStereo;
@@ -870,11 +1090,28 @@ export class HiFiMixerSession {
         return await this._setMuted(mutedByAdmin || this._lastSuccessfulInputAudioMutedValue, false, muteReason);
     }
 
+    /**
+     * Mutes or unmutes the input audio stream because the input gate of the current input mode closed or opened.
+     * As with {@link setInputAudioMuted}, this fails to unmute while an admin prevents the client from unmuting.
+     * @param mutedByInputMode `true` if the input gate closed, `false` if it opened.
+     * @returns `true` if the stream was successfully muted/unmuted, `false` if it was not.
+     */
+    async _setMutedByInputMode(mutedByInputMode: boolean): Promise<boolean> {
+        return await this._setMuted(mutedByInputMode, false, MuteReason.INPUT_MODE);
+    }
+
+    /**
+     * @returns `true` if the client has been muted by an admin and is prevented from unmuting.
+     */
+    getAdminPreventsInputAudioUnmuting(): boolean {
+        return !!this._adminPreventsInputAudioUnmuting;
+    }
+
     async _setMuted(newMutedValue: boolean, tryToStopMicStream: boolean, muteReason: MuteReason): Promise<boolean> {
         let success = true;
-        if (muteReason == MuteReason.CLIENT) {
+        if (muteReason == MuteReason.CLIENT || muteReason == MuteReason.INPUT_MODE) {
             if (this._adminPreventsInputAudioUnmuting && !newMutedValue) {
-                HiFiLogger.warn(`Couldn't set mute state: Muted by admin.`);
+                this._logger.warn(`Couldn't set mute state: Muted by admin.`);
                 success = false;
             }
         }
@@ -924,10 +1161,10 @@ export class HiFiMixerSession {
                     raviAudioStream.getTracks().forEach((track: MediaStreamTrack) => {
                         track.enabled = !newMutedValue;
                     });
-                    HiFiLogger.log(`Successfully set mute state to ${newMutedValue} on _raviSession.streamController._inputAudioStream`);
+                    this._logger.log(`Successfully set mute state to ${newMutedValue} on _raviSession.streamController._inputAudioStream`);
                     return true;
                 } else {
-                    HiFiLogger.warn(`Couldn't set mute state: No \`_inputAudioStream\` on \`_raviSession.streamController\`.`);
+                    this._logger.warn(`Couldn't set mute state: No \`_inputAudioStream\` on \`_raviSession.streamController\`.`);
                 }
             } else {
                 // In the browser context, if and only if the user has granted mic permissions to our script,
@@ -946,25 +1183,25 @@ export class HiFiMixerSession {
                         track.stop();
                     });
                     streamController.setInputAudio(null);
-                    HiFiLogger.log(`Successfully set mute state to \`true\` by stopping all input media tracks!`);
+                    this._logger.log(`Successfully set mute state to \`true\` by stopping all input media tracks!`);
                     return true;
                 } else if (!raviAudioStream && !newMutedValue) {
                     let newMediaStream = await navigator.mediaDevices.getUserMedia({ audio: this._cachedMediaTrackConstraints, video: false });
                     streamController.setInputAudio(newMediaStream);
-                    HiFiLogger.log(`Successfully set mute state to \`false\` by getting new input media stream!`);
+                    this._logger.log(`Successfully set mute state to \`false\` by getting new input media stream!`);
                     return true;
                 } else if (raviAudioStream && !newMutedValue) {
                     raviAudioStream.getTracks().forEach((track: MediaStreamTrack) => {
                         track.enabled = true;
                     });
-                    HiFiLogger.log(`Successfully set mute state to \`false\` by enabling all tracks on \`_raviSession.streamController._inputAudioStream\`!`);
+                    this._logger.log(`Successfully set mute state to \`false\` by enabling all tracks on \`_raviSession.streamController._inputAudioStream\`!`);
                     return true;
                 } else {
-                    HiFiLogger.warn(`Couldn't set mute state: No \`_inputAudioStream\` on \`_raviSession.streamController\`.`);
+                    this._logger.warn(`Couldn't set mute state: No \`_inputAudioStream\` on \`_raviSession.streamController\`.`);
                 }
             }
         } else {
-            HiFiLogger.warn(`Couldn't set mute state: No \`_raviSession\`, or \`_raviSession.getStreamController()\` returned null.`);
+            this._logger.warn(`Couldn't set mute state: No \`_raviSession\`, or \`_raviSession.getStreamController()\` returned null.`);
             return false;
         }
     }
@@ -1020,7 +1257,7 @@ export class HiFiMixerSession {
             try {
                 await this.disconnectFromHiFiMixer();
             } catch (errorClosing) {
-                HiFiLogger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
+                this._logger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
             }
         }
     }
@@ -1030,7 +1267,7 @@ export class HiFiMixerSession {
      * @param event 
      */
     onRAVISignalingStateChanged = (async function(event: any) : Promise<void> {
-        HiFiLogger.log(`New RAVI signaling state: \`${event.state}\``);
+        this._logger.log(`New RAVI signaling state: \`${event.state}\``);
         switch (event.state) {
             case RaviSignalingStates.UNAVAILABLE:
                 this._disableReconnect = true;
@@ -1038,7 +1275,7 @@ export class HiFiMixerSession {
                 try {
                     await this._disconnectFromHiFiMixer();
                 } catch (errorClosing) {
-                    HiFiLogger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
+                    this._logger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
                 }
                 break;
         }
@@ -1059,7 +1296,7 @@ export class HiFiMixerSession {
         }
 
         if (raviAudioTracks) {
-            HiFiLogger.log(`Resetting this._outputAudioMediaStream tracks to the current RAVI audio tracks.`);
+            this._logger.log(`Resetting this._outputAudioMediaStream tracks to the current RAVI audio tracks.`);
             currentAudioTracks.forEach(f => this._outputAudioMediaStream.removeTrack(f));
             raviAudioTracks.forEach(f => this._outputAudioMediaStream.addTrack(f));
         }
@@ -1069,12 +1306,12 @@ export class HiFiMixerSession {
      * @param event
      */
     onRAVISessionStateChanged = (async function(event:any) : Promise<void> {
-        HiFiLogger.log(`New RAVI session state: \`${event.state}\``);
+        this._logger.log(`New RAVI session state: \`${event.state}\``);
         let message = undefined;
         this._raviDiagnostics.fire(event.state.toString());
         switch (event.state) {
             case RaviSessionStates.CONNECTED:
-                HiFiLogger.log(`RaviSession connected; waiting for results of audionet.init`);
+                this._logger.log(`RaviSession connected; waiting for results of audionet.init`);
                 this._copyAudioTracksFromRavi();
                 break;
             case RaviSessionStates.CLOSED:
@@ -1088,36 +1325,81 @@ export class HiFiMixerSession {
                 try {
                     await this._disconnectFromHiFiMixer();
                 } catch (errorClosing) {
-                    HiFiLogger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
+                    this._logger.log(`Error encountered while trying to close the connection. Error:\n${RaviUtils.safelyPrintable(errorClosing)}`);
                 }
                 break;
         }
     }).bind(this);
 
+    /**
+     * Starts calling `callback` with WebRTC stats once per second. Any number of callbacks can be collecting stats at once.
+     * @param callback Called with `stats` and `prevStats` Arrays; see {@link HiFiCommunicator.startCollectingWebRTCStats}.
+     */
     startCollectingWebRTCStats(callback: Function) {
         if (!this._raviSession) {
-            HiFiLogger.error(`Couldn't start collecting WebRTC stats: No \`_raviSession\`!`);
+            this._logger.error(`Couldn't start collecting WebRTC stats: No \`_raviSession\`!`);
             return;
         }
 
-        if (this._statsObserverCallback) {
-            this.stopCollectingWebRTCStats();
-        }
+        this._statsObserverCallbacks.add(callback);
+        this._raviSession.addStatsObserver(callback);
+    }
 
-        this._statsObserverCallback = callback;
+    /**
+     * Stops calling a callback passed to {@link startCollectingWebRTCStats}.
+     * @param callback The callback to stop calling. If omitted, every callback passed to {@link startCollectingWebRTCStats} is stopped.
+     */
+    stopCollectingWebRTCStats(callback?: Function) {
+        if (!this._raviSession) {
+            this._logger.error(`Couldn't stop collecting WebRTC stats: No \`_raviSession\`!`);
+            return;
+        }
 
-        this._raviSession.addStatsObserver(this._statsObserverCallback);
+        let callbacks = callback ? [callback] : Array.from(this._statsObserverCallbacks);
+        callbacks.forEach((callbackToStop) => {
+            this._raviSession.removeStatsObserver(callbackToStop);
+            this._statsObserverCallbacks.delete(callbackToStop);
+        });
     }
 
-    stopCollectingWebRTCStats() {
+    /**
+     * Starts collecting typed WebRTC stats for an independent subscriber, with its own sampling interval and field selection.
+     * @param callback Called with each {@link WebRTCStatsSample}.
+     * @param config The sampling interval and fields to collect. See {@link WebRTCStatsSubscriptionConfig}.
+     * @returns A handle that stops the subscription, or `undefined` if the subscription couldn't be started.
+     */
+    subscribeToWebRTCStats(callback: WebRTCStatsCallback, config: WebRTCStatsSubscriptionConfig = {}): WebRTCStatsSubscriptionHandle {
         if (!this._raviSession) {
-            HiFiLogger.error(`Couldn't stop collecting WebRTC stats: No \`_raviSession\`!`);
-            return;
+            this._logger.error(`Couldn't subscribe to WebRTC stats: No \`_raviSession\`!`);
+            return undefined;
         }
+        return this._raviSession.subscribeToStats(callback, config);
+    }
 
-        this._raviSession.removeStatsObserver(this._statsObserverCallback);
+    /**
+     * Adds a WebRTC stats observer in addition to the one managed by {@link startCollectingWebRTCStats}.
+     * @param observer Called with `stats` and `prevStats` Arrays; see {@link HiFiCommunicator.startCollectingWebRTCStats}.
+     * @returns `true` if the observer was added; `false` otherwise.
+     */
+    addStatsObserver(observer: Function): boolean {
+        if (!this._raviSession) {
+            this._logger.error(`Couldn't add WebRTC stats observer: No \`_raviSession\`!`);
+            return false;
+        }
+        return this._raviSession.addStatsObserver(observer);
+    }
 
-        this._statsObserverCallback = undefined;
+    /**
+     * Removes a WebRTC stats observer added with {@link addStatsObserver}.
+     * @param observer The observer to remove.
+     * @returns `true` if the removal didn't throw an error; `false` otherwise.
+     */
+    removeStatsObserver(observer: Function): boolean {
+        if (!this._raviSession) {
+            this._logger.error(`Couldn't remove WebRTC stats observer: No \`_raviSession\`!`);
+            return false;
+        }
+        return this._raviSession.removeStatsObserver(observer);
     }
 
     /**
@@ -1295,6 +1577,7 @@ export class HiFiMixerSession {
             if (commandController) {
                 // Stringified NaN values get converted to null, which the mixer interprets as unset
                 let stringifiedDataForMixer = JSON.stringify(dataForMixer);
+                this._recordProtocolTrace("out", HiFiProtocolTraceEntryTypes.SendInput, stringifiedDataForMixer);
                 commandController.sendInput(stringifiedDataForMixer);
                 return {
                     success: true,
@@ -1309,13 +1592,43 @@ export class HiFiMixerSession {
         }
     }
 
+    /**
+     * Captures protocol traffic if a {@link protocolTraceRecorder} is set. Strings that contain JSON are captured in parsed form,
+     * so that the trace is readable and so that its frames can be replayed.
+     */
+    private _recordProtocolTrace(direction: ProtocolTraceDirection, type: HiFiProtocolTraceEntryTypes, data: any): void {
+        if (!this.protocolTraceRecorder) {
+            return;
+        }
+        if (typeof (data) === "string") {
+            try {
+                data = JSON.parse(data);
+            } catch (e) {
+                // Not JSON; capture the raw string.
+            }
+        }
+        this.protocolTraceRecorder.record(direction, type, data);
+    }
+
     /**
      * Resets our "Mixer Info". Happens upon instantiation and when disconnecting from the mixer.
+     * Every peer remaining in the peer roster is removed from it (and reported via `onPeerLeft`), because the
+     * mixer will send the complete roster again upon reconnection.
+     * `concurrency` is intentionally left untouched; see {@link concurrency}.
      */
     private _resetMixerInfo(): void {
         this.mixerInfo = {
             "connected": false,
         };
+        let allLeftPeers = this._mixerPeerKeyToStateCacheDict ? this.getPeers() : [];
         this._mixerPeerKeyToStateCacheDict = {};
+        if (this.peerMotionInterpolator) {
+            this.peerMotionInterpolator.clear();
+        }
+        if (this.onPeerLeft) {
+            for (const peer of allLeftPeers) {
+                this.onPeerLeft(peer);
+            }
+        }
     }
 }
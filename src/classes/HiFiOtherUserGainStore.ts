@@ -0,0 +1,181 @@
+/**
+ * This Module contains the persisted list of per-peer gains and mutes, keyed by provided user ID, used by
+ * {@link HiFiCommunicator.setOtherUserGainByProvidedUserID}.
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+
+/**
+ * Where per-peer gains are persisted. `localStorage` and `sessionStorage` can be used as-is; any other object with these
+ * two methods can be used to persist the gains elsewhere, for example in a file when running in NodeJS.
+ */
+export interface OtherUserGainStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+}
+
+/**
+ * The gain and mute state that this client has chosen for another user. See {@link HiFiCommunicator.setOtherUserGainByProvidedUserID}.
+ */
+export interface OtherUserGainSetting {
+    /**
+     * The relative gain to apply to the other user when they aren't muted. See {@link HiFiCommunicator.setOtherUserGainsForThisConnection}.
+     */
+    gain: number;
+    /**
+     * If `true`, a gain of `0.0` is applied to the other user, but {@link gain} is remembered for when they are unmuted.
+     */
+    muted: boolean;
+}
+
+/**
+ * Keeps track of the gain and mute state that this client has chosen for other users, keyed by their provided user ID,
+ * and persists them to an {@link OtherUserGainStorage}. Unlike hashed visit IDs, provided user IDs don't change when a user reconnects.
+ */
+export class HiFiOtherUserGainStore {
+    storageKey: string;
+
+    private _storage: OtherUserGainStorage;
+    // Keys are provided user IDs.
+    private _settings: Map<string, OtherUserGainSetting>;
+
+    /**
+     * @param __namedParameters
+     * @param storage - Where to persist the gains. If `undefined`, `localStorage` is used if it is available; otherwise, the gains are only kept in memory.
+     * If `null`, the gains are only kept in memory.
+     * @param storageKey - The key under which the gains are persisted.
+     */
+    constructor({ storage, storageKey = "hifiOtherUserGainsByProvidedUserID" }: { storage?: OtherUserGainStorage, storageKey?: string } = {}) {
+        this.storageKey = storageKey;
+        this._storage = storage === undefined ? HiFiOtherUserGainStore._getDefaultStorage() : storage;
+        this._settings = new Map();
+        this._load();
+    }
+
+    /**
+     * @param providedUserID The provided user ID of the other user.
+     * @returns A copy of the setting for the other user, or `undefined` if none has been set.
+     */
+    get(providedUserID: string): OtherUserGainSetting {
+        let setting = this._settings.get(providedUserID);
+        return setting ? { gain: setting.gain, muted: setting.muted } : undefined;
+    }
+
+    /**
+     * @param providedUserID The provided user ID of the other user.
+     * @returns The gain that should be applied to the other user, taking their mute state into account, or `undefined` if none has been set.
+     */
+    getEffectiveGain(providedUserID: string): number {
+        let setting = this._settings.get(providedUserID);
+        if (!setting) {
+            return undefined;
+        }
+        return setting.muted ? 0 : setting.gain;
+    }
+
+    /**
+     * @returns A copy of every setting, keyed by provided user ID.
+     */
+    getAll(): { [providedUserID: string]: OtherUserGainSetting } {
+        let all: { [providedUserID: string]: OtherUserGainSetting } = {};
+        this._settings.forEach((setting, providedUserID) => {
+            all[providedUserID] = { gain: setting.gain, muted: setting.muted };
+        });
+        return all;
+    }
+
+    /**
+     * Sets and persists the gain of another user, leaving their mute state unchanged.
+     * @param providedUserID The provided user ID of the other user.
+     * @param gain The relative gain. Must be greater than or equal to `0.0`.
+     */
+    setGain(providedUserID: string, gain: number): void {
+        let setting = this._settings.get(providedUserID);
+        this._settings.set(providedUserID, { gain: gain, muted: setting ? setting.muted : false });
+        this._save();
+    }
+
+    /**
+     * Sets and persists the mute state of another user, leaving their gain unchanged.
+     * @param providedUserID The provided user ID of the other user.
+     * @param muted `true` to mute the other user.
+     */
+    setMuted(providedUserID: string, muted: boolean): void {
+        let setting = this._settings.get(providedUserID);
+        this._settings.set(providedUserID, { gain: setting ? setting.gain : 1.0, muted: muted });
+        this._save();
+    }
+
+    /**
+     * Forgets the setting for another user.
+     * @param providedUserID The provided user ID of the other user.
+     * @returns `true` if there was a setting for the other user.
+     */
+    remove(providedUserID: string): boolean {
+        let existed = this._settings.delete(providedUserID);
+        if (existed) {
+            this._save();
+        }
+        return existed;
+    }
+
+    /**
+     * Forgets every setting.
+     */
+    clear(): void {
+        this._settings.clear();
+        this._save();
+    }
+
+    private static _getDefaultStorage(): OtherUserGainStorage {
+        try {
+            if (typeof (self) !== "undefined" && self.localStorage) {
+                return self.localStorage;
+            }
+        } catch (e) {
+            // Accessing `localStorage` throws if the user has disabled storage for this site.
+            HiFiLogger.warn(`\`localStorage\` isn't available, so per-user gains won't be persisted:\n${e}`);
+        }
+        return null;
+    }
+
+    private _load(): void {
+        if (!this._storage) {
+            return;
+        }
+        let stored: any;
+        try {
+            let serialized = this._storage.getItem(this.storageKey);
+            if (!serialized) {
+                return;
+            }
+            stored = JSON.parse(serialized);
+        } catch (e) {
+            HiFiLogger.error(`Couldn't load the persisted per-user gains:\n${e}`);
+            return;
+        }
+        if (typeof (stored) !== "object" || stored === null) {
+            HiFiLogger.error(`Couldn't load the persisted per-user gains: The stored value isn't an object.`);
+            return;
+        }
+        for (const [providedUserID, setting] of Object.entries<any>(stored)) {
+            if (setting && typeof (setting.gain) === "number" && setting.gain >= 0 && typeof (setting.muted) === "boolean") {
+                this._settings.set(providedUserID, { gain: setting.gain, muted: setting.muted });
+            } else {
+                HiFiLogger.warn(`Ignoring the invalid persisted gain for \`${providedUserID}\`.`);
+            }
+        }
+    }
+
+    private _save(): void {
+        if (!this._storage) {
+            return;
+        }
+        try {
+            this._storage.setItem(this.storageKey, JSON.stringify(this.getAll()));
+        } catch (e) {
+            HiFiLogger.error(`Couldn't persist the per-user gains:\n${e}`);
+        }
+    }
+}
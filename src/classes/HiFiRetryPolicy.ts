@@ -0,0 +1,203 @@
+/**
+ * This Module contains the retry policies that decide how long the {@link HiFiCommunicator} waits between connection attempts,
+ * and how many attempts it makes, when it retries the initial connection or reconnects. See {@link RetryPolicy}.
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+
+/**
+ * The ways in which the delay between connection attempts can be calculated. See {@link RetryPolicy}.
+ */
+export enum HiFiRetryPolicyTypes {
+    /**
+     * Wait `baseDelayMS` between every attempt. This is the default, and is how `pauseBetweenRetriesMS` has always behaved.
+     */
+    Fixed = "fixed",
+    /**
+     * Wait a random amount of time between 0 and `baseDelayMS * multiplier ^ (attempt - 1)`, capped at `maxDelayMS`.
+     * Spreads out the clients that reconnect when a mixer restarts, so that they don't all retry in lockstep.
+     */
+    ExponentialFullJitter = "exponentialFullJitter",
+    /**
+     * Wait a random amount of time between `baseDelayMS` and `multiplier` times the previous delay, capped at `maxDelayMS`.
+     * Like {@link HiFiRetryPolicyTypes.ExponentialFullJitter}, but the delays grow more smoothly and are never shorter than `baseDelayMS`.
+     */
+    ExponentialDecorrelatedJitter = "exponentialDecorrelatedJitter",
+    /**
+     * Call `getDelayMS` to calculate each delay.
+     */
+    Custom = "custom"
+}
+
+/**
+ * Decides how long to wait between connection attempts, and how many attempts to make, when the {@link HiFiCommunicator} retries
+ * the initial connection (`autoRetryInitialConnection`) or reconnects (`autoRetryOnDisconnect`). Pass it as `retryPolicy` in the
+ * {@link ConnectionRetryAndTimeoutConfig}.
+ *
+ * Each retry cycle -- the retries of the initial connection, or the reconnection attempts after a disconnection -- starts over at the first attempt.
+ * A cycle ends when the connection succeeds, when `maxAttempts` attempts have failed, or when `maxSecondsToSpendRetryingInitialConnection` /
+ * `maxSecondsToSpendRetryingOnDisconnect` have passed, whichever happens first.
+ */
+export interface RetryPolicy {
+    /**
+     * How the delays are calculated. Defaults to {@link HiFiRetryPolicyTypes.Fixed}, or to {@link HiFiRetryPolicyTypes.Custom} if `getDelayMS` is set.
+     */
+    type?: HiFiRetryPolicyTypes;
+    /**
+     * The delay, in milliseconds, before the first retry (or before every retry, for {@link HiFiRetryPolicyTypes.Fixed}).
+     * Defaults to `pauseBetweenRetriesMS`.
+     */
+    baseDelayMS?: number;
+    /**
+     * The longest delay, in milliseconds, that the exponential policies will wait. Defaults to 30000 milliseconds.
+     */
+    maxDelayMS?: number;
+    /**
+     * How quickly the exponential policies' delays grow. Defaults to `2` for {@link HiFiRetryPolicyTypes.ExponentialFullJitter}
+     * and `3` for {@link HiFiRetryPolicyTypes.ExponentialDecorrelatedJitter}.
+     */
+    multiplier?: number;
+    /**
+     * The maximum number of retries in each retry cycle. Defaults to no limit, in which case only the `maxSecondsToSpend...` settings apply.
+     */
+    maxAttempts?: number;
+    /**
+     * For {@link HiFiRetryPolicyTypes.Custom}, returns the delay in milliseconds before retry number `attempt` (starting at `1`).
+     * `previousDelayMS` is `undefined` for the first retry. Return a negative number, `undefined` or `null` to stop retrying.
+     */
+    getDelayMS?: (attempt: number, previousDelayMS: number) => number;
+}
+
+/**
+ * Calculates the delays between connection attempts according to a {@link RetryPolicy}, and keeps track of the attempts in the current retry cycle.
+ * The {@link HiFiCommunicator} owns an instance of this class.
+ */
+export class HiFiRetryPolicy {
+    /**
+     * The default for {@link RetryPolicy.maxDelayMS}.
+     */
+    static DEFAULT_MAX_DELAY_MS: number = 30000;
+
+    type: HiFiRetryPolicyTypes;
+    baseDelayMS: number;
+    maxDelayMS: number;
+    multiplier: number;
+    maxAttempts: number;
+    minDelayMS: number;
+    getDelayMS: (attempt: number, previousDelayMS: number) => number;
+
+    private _random: () => number;
+    private _attempt: number;
+    private _previousDelayMS: number;
+
+    /**
+     * @param __namedParameters
+     * @param retryPolicy - The policy to follow. See {@link RetryPolicy}.
+     * @param defaultBaseDelayMS - The `baseDelayMS` to use if the policy doesn't set one; usually `pauseBetweenRetriesMS`.
+     * @param minDelayMS - No delay is ever shorter than this, so that jittered delays can't slam the servers. Defaults to `0`.
+     * @param random - Returns a random number in [0, 1). Defaults to `Math.random`; useful for testing.
+     */
+    constructor({
+        retryPolicy = {},
+        defaultBaseDelayMS,
+        minDelayMS = 0,
+        random = Math.random
+    }: {
+        retryPolicy?: RetryPolicy,
+        defaultBaseDelayMS: number,
+        minDelayMS?: number,
+        random?: () => number
+    }) {
+        let type = retryPolicy.type;
+        if (type === undefined) {
+            type = typeof (retryPolicy.getDelayMS) === "function" ? HiFiRetryPolicyTypes.Custom : HiFiRetryPolicyTypes.Fixed;
+        } else if (!Object.values(HiFiRetryPolicyTypes).includes(type)) {
+            HiFiLogger.warn(`\`retryPolicy.type\` must be one of ${Object.values(HiFiRetryPolicyTypes).join(", ")}! Using \`${HiFiRetryPolicyTypes.Fixed}\`.`);
+            type = HiFiRetryPolicyTypes.Fixed;
+        }
+        if (type === HiFiRetryPolicyTypes.Custom && typeof (retryPolicy.getDelayMS) !== "function") {
+            HiFiLogger.warn(`\`retryPolicy.getDelayMS\` must be a function when \`retryPolicy.type\` is \`${HiFiRetryPolicyTypes.Custom}\`! Using \`${HiFiRetryPolicyTypes.Fixed}\`.`);
+            type = HiFiRetryPolicyTypes.Fixed;
+        }
+        this.type = type;
+        this.getDelayMS = retryPolicy.getDelayMS;
+
+        this.minDelayMS = Math.max(0, minDelayMS);
+        this.baseDelayMS = retryPolicy.baseDelayMS >= 0 ? retryPolicy.baseDelayMS : defaultBaseDelayMS;
+        this.maxDelayMS = retryPolicy.maxDelayMS >= 0 ? retryPolicy.maxDelayMS : HiFiRetryPolicy.DEFAULT_MAX_DELAY_MS;
+        if (this.maxDelayMS < this.baseDelayMS) {
+            HiFiLogger.warn(`\`retryPolicy.maxDelayMS\` (${this.maxDelayMS}) is less than \`retryPolicy.baseDelayMS\` (${this.baseDelayMS}); setting it to ${this.baseDelayMS}.`);
+            this.maxDelayMS = this.baseDelayMS;
+        }
+        let defaultMultiplier = type === HiFiRetryPolicyTypes.ExponentialDecorrelatedJitter ? 3 : 2;
+        this.multiplier = retryPolicy.multiplier >= 1 ? retryPolicy.multiplier : defaultMultiplier;
+        this.maxAttempts = retryPolicy.maxAttempts > 0 ? Math.floor(retryPolicy.maxAttempts) : Infinity;
+
+        this._random = random;
+        this.reset();
+    }
+
+    /**
+     * Starts a new retry cycle: the next delay is the delay before the first retry.
+     */
+    reset(): void {
+        this._attempt = 0;
+        this._previousDelayMS = undefined;
+    }
+
+    /**
+     * @returns The number of retries that have been scheduled in the current retry cycle.
+     */
+    getAttemptCount(): number {
+        return this._attempt;
+    }
+
+    /**
+     * Counts another retry in the current retry cycle, and calculates how long to wait before making it.
+     * @returns The delay in milliseconds, or `undefined` if no more retries should be made in this cycle.
+     */
+    nextDelayMS(): number {
+        if (this._attempt >= this.maxAttempts) {
+            return undefined;
+        }
+        let attempt = this._attempt + 1;
+
+        let delayMS: number;
+        switch (this.type) {
+            case HiFiRetryPolicyTypes.ExponentialFullJitter: {
+                let ceilingMS = Math.min(this.maxDelayMS, this.baseDelayMS * Math.pow(this.multiplier, attempt - 1));
+                delayMS = this._random() * ceilingMS;
+                break;
+            }
+            case HiFiRetryPolicyTypes.ExponentialDecorrelatedJitter: {
+                let previousDelayMS = this._previousDelayMS === undefined ? this.baseDelayMS : this._previousDelayMS;
+                let upperMS = Math.max(this.baseDelayMS, previousDelayMS * this.multiplier);
+                delayMS = Math.min(this.maxDelayMS, this.baseDelayMS + this._random() * (upperMS - this.baseDelayMS));
+                break;
+            }
+            case HiFiRetryPolicyTypes.Custom: {
+                try {
+                    delayMS = this.getDelayMS(attempt, this._previousDelayMS);
+                } catch (e) {
+                    HiFiLogger.error(`\`retryPolicy.getDelayMS\` threw an error; no more retries will be made. Error:\n${e}`);
+                    return undefined;
+                }
+                if (typeof (delayMS) !== "number" || isNaN(delayMS) || delayMS < 0) {
+                    return undefined;
+                }
+                break;
+            }
+            case HiFiRetryPolicyTypes.Fixed:
+            default: {
+                delayMS = this.baseDelayMS;
+                break;
+            }
+        }
+
+        delayMS = Math.round(Math.max(this.minDelayMS, delayMS));
+        this._attempt = attempt;
+        this._previousDelayMS = delayMS;
+        return delayMS;
+    }
+}
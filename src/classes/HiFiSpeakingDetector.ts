@@ -0,0 +1,228 @@
+/**
+ * This Module contains the voice-activity tracker used by {@link HiFiCommunicator} to emit `speakingStarted` and `speakingStopped` events.
+ * @packageDocumentation
+ */
+
+/**
+ * Configures how the {@link HiFiCommunicator} decides whether a peer is speaking. Pass this as `speakingDetectionConfig` to {@link HiFiCommunicator.constructor}.
+ *
+ * Speaking detection is based on the `volumeDecibels` data that the server sends for each peer, so it doesn't work if the `userDataStreamingScope`
+ * is {@link HiFiUserDataStreamingScopes.None}.
+ */
+export interface SpeakingDetectionConfig {
+    /**
+     * A peer whose volume is at or above this value is considered to be making sound. Defaults to -45 dB.
+     */
+    thresholdDecibels?: number;
+    /**
+     * A peer must stay at or above `thresholdDecibels` for this many milliseconds before they are considered to have started speaking.
+     * This prevents short noises, such as clicks, from being reported as speech. Defaults to 100 milliseconds.
+     */
+    attackMS?: number;
+    /**
+     * A speaking peer must stay below `thresholdDecibels` for this many milliseconds before they are considered to have stopped speaking.
+     * This prevents the short pauses between words from being reported as the end of speech. Defaults to 500 milliseconds.
+     */
+    releaseMS?: number;
+    /**
+     * Once a peer has started speaking, they are considered to be speaking for at least this many milliseconds. Defaults to 250 milliseconds.
+     */
+    minimumSpeakingDurationMS?: number;
+    /**
+     * How often, in milliseconds, to check whether peers whose volume hasn't changed have started or stopped speaking. Defaults to 50 milliseconds.
+     */
+    updateIntervalMS?: number;
+}
+
+/**
+ * Describes a peer who is speaking. Passed to `speakingStarted` and `speakingStopped` listeners and returned by {@link HiFiCommunicator.getActiveSpeakers}.
+ */
+export interface ActiveSpeaker {
+    /**
+     * See {@link ReceivedHiFiAudioAPIData.hashedVisitID}.
+     */
+    hashedVisitID: string;
+    /**
+     * See {@link ReceivedHiFiAudioAPIData.providedUserID}.
+     */
+    providedUserID: string;
+    /**
+     * The most recent volume of the peer, in decibels.
+     */
+    volumeDecibels: number;
+    /**
+     * The time, as returned by `Date.now()`, at which the peer was considered to have started speaking.
+     */
+    speakingSinceMS: number;
+}
+
+/**
+ * A `speakingStarted` or `speakingStopped` listener with this signature can be passed to {@link HiFiCommunicator.on}.
+ */
+export type OnSpeakingChangedCallback = (speaker: ActiveSpeaker) => void;
+
+interface PeerSpeakingState {
+    providedUserID: string;
+    volumeDecibels: number;
+    isSpeaking: boolean;
+    speakingSinceMS: number;
+    // Exactly one of these is set once a volume has been received: the time at which the volume last crossed the threshold
+    // in the corresponding direction.
+    aboveThresholdSinceMS: number;
+    belowThresholdSinceMS: number;
+}
+
+/**
+ * Tracks which peers are speaking, based on the volumes reported by the server.
+ *
+ * Volumes are passed to {@link handleVolume} as they arrive. Because the server only sends a volume when it changes,
+ * {@link update} must also be called periodically, so that a peer whose volume stays constant can still start or stop speaking.
+ */
+export class HiFiSpeakingDetector {
+    thresholdDecibels: number;
+    attackMS: number;
+    releaseMS: number;
+    minimumSpeakingDurationMS: number;
+    updateIntervalMS: number;
+
+    onSpeakingStarted: OnSpeakingChangedCallback;
+    onSpeakingStopped: OnSpeakingChangedCallback;
+
+    // Keys are hashed visit IDs.
+    private _peers: Map<string, PeerSpeakingState>;
+
+    /**
+     * @param __namedParameters
+     * @param config - See {@link SpeakingDetectionConfig}.
+     * @param onSpeakingStarted - The function to call when a peer starts speaking.
+     * @param onSpeakingStopped - The function to call when a peer stops speaking.
+     */
+    constructor({ config = {}, onSpeakingStarted, onSpeakingStopped }: { config?: SpeakingDetectionConfig, onSpeakingStarted?: OnSpeakingChangedCallback, onSpeakingStopped?: OnSpeakingChangedCallback } = {}) {
+        let { thresholdDecibels = -45, attackMS = 100, releaseMS = 500, minimumSpeakingDurationMS = 250, updateIntervalMS = 50 } = config;
+        this.thresholdDecibels = thresholdDecibels;
+        this.attackMS = Math.max(0, attackMS);
+        this.releaseMS = Math.max(0, releaseMS);
+        this.minimumSpeakingDurationMS = Math.max(0, minimumSpeakingDurationMS);
+        this.updateIntervalMS = Math.max(10, updateIntervalMS);
+        this.onSpeakingStarted = onSpeakingStarted;
+        this.onSpeakingStopped = onSpeakingStopped;
+        this._peers = new Map();
+    }
+
+    /**
+     * Records a new volume for a peer, and emits `speakingStarted` or `speakingStopped` if that changes whether the peer is speaking.
+     * @param hashedVisitID The hashed visit ID of the peer.
+     * @param providedUserID The provided user ID of the peer, if known.
+     * @param volumeDecibels The volume of the peer.
+     * @param timeMS The time at which the volume was received. Defaults to `Date.now()`.
+     */
+    handleVolume(hashedVisitID: string, providedUserID: string, volumeDecibels: number, timeMS: number = Date.now()): void {
+        let peer = this._peers.get(hashedVisitID);
+        if (!peer) {
+            peer = {
+                providedUserID: providedUserID,
+                volumeDecibels: volumeDecibels,
+                isSpeaking: false,
+                speakingSinceMS: undefined,
+                aboveThresholdSinceMS: undefined,
+                belowThresholdSinceMS: undefined
+            };
+            this._peers.set(hashedVisitID, peer);
+        }
+        if (providedUserID) {
+            peer.providedUserID = providedUserID;
+        }
+        peer.volumeDecibels = volumeDecibels;
+
+        if (volumeDecibels >= this.thresholdDecibels) {
+            if (peer.aboveThresholdSinceMS === undefined) {
+                peer.aboveThresholdSinceMS = timeMS;
+            }
+            peer.belowThresholdSinceMS = undefined;
+        } else {
+            if (peer.belowThresholdSinceMS === undefined) {
+                peer.belowThresholdSinceMS = timeMS;
+            }
+            peer.aboveThresholdSinceMS = undefined;
+        }
+
+        this._updatePeer(hashedVisitID, peer, timeMS);
+    }
+
+    /**
+     * Emits `speakingStarted` and `speakingStopped` for every peer whose attack or release time has elapsed since their volume last changed.
+     * @param timeMS The current time. Defaults to `Date.now()`.
+     */
+    update(timeMS: number = Date.now()): void {
+        for (const [hashedVisitID, peer] of Array.from(this._peers.entries())) {
+            this._updatePeer(hashedVisitID, peer, timeMS);
+        }
+    }
+
+    /**
+     * Forgets a peer, emitting `speakingStopped` if they were speaking. Call this when the peer leaves.
+     * @param hashedVisitID The hashed visit ID of the peer.
+     */
+    removePeer(hashedVisitID: string): void {
+        let peer = this._peers.get(hashedVisitID);
+        if (!peer) {
+            return;
+        }
+        this._peers.delete(hashedVisitID);
+        if (peer.isSpeaking && this.onSpeakingStopped) {
+            this.onSpeakingStopped(HiFiSpeakingDetector._getActiveSpeaker(hashedVisitID, peer));
+        }
+    }
+
+    /**
+     * Forgets every peer, emitting `speakingStopped` for each peer who was speaking.
+     */
+    clear(): void {
+        for (const hashedVisitID of Array.from(this._peers.keys())) {
+            this.removePeer(hashedVisitID);
+        }
+    }
+
+    /**
+     * @returns The peers who are currently speaking, loudest first.
+     */
+    getActiveSpeakers(): Array<ActiveSpeaker> {
+        let activeSpeakers: Array<ActiveSpeaker> = [];
+        this._peers.forEach((peer, hashedVisitID) => {
+            if (peer.isSpeaking) {
+                activeSpeakers.push(HiFiSpeakingDetector._getActiveSpeaker(hashedVisitID, peer));
+            }
+        });
+        return activeSpeakers.sort((a, b) => { return b.volumeDecibels - a.volumeDecibels; });
+    }
+
+    private _updatePeer(hashedVisitID: string, peer: PeerSpeakingState, timeMS: number): void {
+        if (!peer.isSpeaking) {
+            if (peer.aboveThresholdSinceMS !== undefined && timeMS - peer.aboveThresholdSinceMS >= this.attackMS) {
+                peer.isSpeaking = true;
+                // Use the time at which the attack time elapsed rather than `timeMS`, so that the result doesn't depend on how often we're updated.
+                peer.speakingSinceMS = peer.aboveThresholdSinceMS + this.attackMS;
+                if (this.onSpeakingStarted) {
+                    this.onSpeakingStarted(HiFiSpeakingDetector._getActiveSpeaker(hashedVisitID, peer));
+                }
+            }
+        } else if (peer.belowThresholdSinceMS !== undefined && timeMS - peer.belowThresholdSinceMS >= this.releaseMS &&
+            timeMS - peer.speakingSinceMS >= this.minimumSpeakingDurationMS) {
+            peer.isSpeaking = false;
+            let speaker = HiFiSpeakingDetector._getActiveSpeaker(hashedVisitID, peer);
+            peer.speakingSinceMS = undefined;
+            if (this.onSpeakingStopped) {
+                this.onSpeakingStopped(speaker);
+            }
+        }
+    }
+
+    private static _getActiveSpeaker(hashedVisitID: string, peer: PeerSpeakingState): ActiveSpeaker {
+        return {
+            hashedVisitID: hashedVisitID,
+            providedUserID: peer.providedUserID,
+            volumeDecibels: peer.volumeDecibels,
+            speakingSinceMS: peer.speakingSinceMS
+        };
+    }
+}
@@ -34,10 +34,86 @@ export class UserDataSubscription {
      * The first and only argument to the callback function will be of type `Array<ReceivedHiFiAudioAPIData>`.
      */
     callback: Function;
+    /**
+     * If `true`, when the Subscription is added (or updated via {@link UserDataSubscriptionHandle.update}), the callback will immediately be called
+     * with the current cached state of every matching peer in the peer roster, so that a Subscription added after peers have connected doesn't have to wait
+     * for those peers' data to change. Defaults to `false`. See {@link HiFiCommunicator.getPeers}.
+     */
+    deliverInitialSnapshot: boolean;
     
-    constructor({ providedUserID = null, components, callback }: { providedUserID?: string, components: Array<AvailableUserDataSubscriptionComponents>, callback: Function }) {
+    constructor({ providedUserID = null, components, callback, deliverInitialSnapshot = false }: { providedUserID?: string, components: Array<AvailableUserDataSubscriptionComponents>, callback: Function, deliverInitialSnapshot?: boolean }) {
         this.providedUserID = providedUserID;
         this.components = components;
         this.callback = callback;
+        this.deliverInitialSnapshot = deliverInitialSnapshot;
+    }
+}
+
+/**
+ * A `UserDataSubscriptionHandle` is returned by {@link HiFiCommunicator.addUserDataSubscription}, and can be used to modify or remove
+ * the User Data Subscription that was added. For example, a UI component that adds a Subscription when it's created should call `remove()`
+ * on the handle when it's destroyed.
+ */
+export class UserDataSubscriptionHandle {
+    /**
+     * The Subscription that this handle controls.
+     */
+    readonly subscription: UserDataSubscription;
+
+    private _onRemove: (subscription: UserDataSubscription) => boolean;
+    private _onUpdate: (subscription: UserDataSubscription) => void;
+    private _isActive: () => boolean;
+
+    /**
+     * Handles are created by {@link HiFiCommunicator.addUserDataSubscription}; there should be no need to construct one directly.
+     * @param __namedParameters
+     * @param subscription - The Subscription that this handle controls.
+     * @param onRemove - Called to remove the Subscription from its owner. Should return `true` if the Subscription was removed.
+     * @param onUpdate - Called after the Subscription's properties have been modified by {@link update}.
+     * @param isActive - Called to determine whether the Subscription is still in use by its owner.
+     */
+    constructor({ subscription, onRemove, onUpdate, isActive }: { subscription: UserDataSubscription, onRemove: (subscription: UserDataSubscription) => boolean, onUpdate: (subscription: UserDataSubscription) => void, isActive: () => boolean }) {
+        this.subscription = subscription;
+        this._onRemove = onRemove;
+        this._onUpdate = onUpdate;
+        this._isActive = isActive;
+    }
+
+    /**
+     * Removes the Subscription, so that its callback will no longer be called. Calling this more than once has no further effect.
+     * @returns `true` if the Subscription was removed by this call; `false` if it had already been removed.
+     */
+    remove(): boolean {
+        return this._onRemove(this.subscription);
+    }
+
+    /**
+     * Modifies the components and/or the provided user ID associated with the Subscription. Omitted values are left unchanged.
+     * If {@link UserDataSubscription.deliverInitialSnapshot} is `true`, the callback will immediately be called with the current
+     * state of every peer matching the modified Subscription.
+     * @param __namedParameters
+     * @param components - The new User Data components to which to subscribe.
+     * @param providedUserID - The new provided user ID associated with the Subscription. Pass `null` to receive data about all users.
+     * @returns `true` if the Subscription was modified; `false` if it had already been removed.
+     */
+    update({ components, providedUserID }: { components?: Array<AvailableUserDataSubscriptionComponents>, providedUserID?: string }): boolean {
+        if (!this.isActive()) {
+            return false;
+        }
+        if (components !== undefined) {
+            this.subscription.components = components;
+        }
+        if (providedUserID !== undefined) {
+            this.subscription.providedUserID = providedUserID;
+        }
+        this._onUpdate(this.subscription);
+        return true;
+    }
+
+    /**
+     * @returns `true` if the Subscription has not been removed.
+     */
+    isActive(): boolean {
+        return this._isActive();
     }
 }
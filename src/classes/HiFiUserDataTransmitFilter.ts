@@ -0,0 +1,263 @@
+/**
+ * This Module contains the dead-bands and per-category rate limits that the {@link HiFiCommunicator} applies to the user data
+ * it transmits to the server. See {@link UserDataTransmitConfig}.
+ * @packageDocumentation
+ */
+
+import { HiFiAudioAPIData, Point3D, Quaternion } from "./HiFiAudioAPIData";
+
+/**
+ * Configures which changes to the user's data are transmitted to the server. Pass this as `userDataTransmitConfig` to {@link HiFiCommunicator.constructor}.
+ *
+ * Position and orientation sources such as VR headsets and physics engines are noisy, so without dead-bands almost every update is transmitted,
+ * up to once every `transmitRateLimitTimeoutMS`. Changes that are suppressed by a dead-band are dropped; changes that are suppressed by a rate limit
+ * are transmitted once the rate limit allows.
+ *
+ * The user data is always transmitted in full when the communicator connects, regardless of these settings.
+ */
+export interface UserDataTransmitConfig {
+    /**
+     * Position changes smaller than this distance, in meters, from the last transmitted position are not transmitted. Defaults to `0`.
+     */
+    positionDeadbandMeters?: number;
+    /**
+     * Orientation changes smaller than this angle, in degrees, from the last transmitted orientation are not transmitted. Defaults to `0`.
+     */
+    orientationDeadbandDegrees?: number;
+    /**
+     * Position changes are transmitted at most once every this many milliseconds. Defaults to `0`, meaning that only `transmitRateLimitTimeoutMS` applies.
+     */
+    positionMinIntervalMS?: number;
+    /**
+     * Orientation changes are transmitted at most once every this many milliseconds. Defaults to `0`.
+     */
+    orientationMinIntervalMS?: number;
+    /**
+     * Changes to `volumeThreshold`, `hiFiGain`, `userAttenuation` and `userRolloff` are transmitted at most once every this many milliseconds. Defaults to `0`.
+     */
+    parametersMinIntervalMS?: number;
+}
+
+/**
+ * The number of changes to one category of user data that were transmitted and suppressed.
+ */
+export interface UserDataTransmitCounts {
+    /**
+     * The number of transmissions that included a change to this category.
+     */
+    sent: number;
+    /**
+     * The number of times that a change to this category was held back by a dead-band or a rate limit.
+     */
+    suppressed: number;
+}
+
+/**
+ * Counters describing how effective the dead-bands and rate limits are. Returned by {@link HiFiCommunicator.getUserDataTransmitStats}.
+ */
+export interface UserDataTransmitStats {
+    position: UserDataTransmitCounts;
+    orientation: UserDataTransmitCounts;
+    /**
+     * `volumeThreshold`, `hiFiGain`, `userAttenuation` and `userRolloff`.
+     */
+    parameters: UserDataTransmitCounts;
+}
+
+/**
+ * The result of {@link HiFiUserDataTransmitFilter.filter}.
+ */
+export interface UserDataTransmitDecision {
+    /**
+     * The subset of the current user data that should be transmitted. Categories that are unchanged or suppressed are left unset.
+     */
+    dataToTransmit: HiFiAudioAPIData;
+    /**
+     * If a change was suppressed by a rate limit, the number of milliseconds after which it may be transmitted. Otherwise `undefined`.
+     */
+    retryAfterMS: number;
+    sendPosition: boolean;
+    sendOrientation: boolean;
+    sendParameters: boolean;
+}
+
+type UserDataTransmitCategory = "position" | "orientation" | "parameters";
+
+/**
+ * Decides which changes to the user's data to transmit to the server, applying the dead-bands and rate limits of a {@link UserDataTransmitConfig},
+ * and counts the changes that were transmitted and suppressed.
+ */
+export class HiFiUserDataTransmitFilter {
+    positionDeadbandMeters: number;
+    orientationDeadbandDegrees: number;
+    positionMinIntervalMS: number;
+    orientationMinIntervalMS: number;
+    parametersMinIntervalMS: number;
+
+    private _lastSentMS: { [category in UserDataTransmitCategory]: number };
+    private _stats: UserDataTransmitStats;
+
+    constructor({ positionDeadbandMeters = 0, orientationDeadbandDegrees = 0, positionMinIntervalMS = 0, orientationMinIntervalMS = 0, parametersMinIntervalMS = 0 }: UserDataTransmitConfig = {}) {
+        this.positionDeadbandMeters = Math.max(0, positionDeadbandMeters);
+        this.orientationDeadbandDegrees = Math.max(0, orientationDeadbandDegrees);
+        this.positionMinIntervalMS = Math.max(0, positionMinIntervalMS);
+        this.orientationMinIntervalMS = Math.max(0, orientationMinIntervalMS);
+        this.parametersMinIntervalMS = Math.max(0, parametersMinIntervalMS);
+        this._lastSentMS = { position: undefined, orientation: undefined, parameters: undefined };
+        this.resetStats();
+    }
+
+    /**
+     * @param currentData The user data that we want the server to have.
+     * @param lastTransmittedData The user data that the server already has.
+     * @param nowMS The current time. Defaults to `Date.now()`.
+     * @returns Which parts of `currentData` to transmit. Call {@link recordTransmitted} with the result once it has been transmitted.
+     */
+    filter(currentData: HiFiAudioAPIData, lastTransmittedData: HiFiAudioAPIData, nowMS: number = Date.now()): UserDataTransmitDecision {
+        let retryAfterMS: number = undefined;
+        let decide = (category: UserDataTransmitCategory, changed: boolean, neverTransmitted: boolean, withinDeadband: boolean, minIntervalMS: number): boolean => {
+            if (!changed) {
+                return false;
+            }
+            // The first value is always transmitted, so that the server has something to work with.
+            if (neverTransmitted) {
+                return true;
+            }
+            if (withinDeadband) {
+                this._stats[category].suppressed++;
+                return false;
+            }
+            let lastSentMS = this._lastSentMS[category];
+            if (lastSentMS !== undefined && nowMS - lastSentMS < minIntervalMS) {
+                this._stats[category].suppressed++;
+                let waitMS = minIntervalMS - (nowMS - lastSentMS);
+                retryAfterMS = retryAfterMS === undefined ? waitMS : Math.min(retryAfterMS, waitMS);
+                return false;
+            }
+            return true;
+        };
+
+        let position = HiFiUserDataTransmitFilter._isValidPosition(currentData.position) ? currentData.position : null;
+        let lastPosition = lastTransmittedData && HiFiUserDataTransmitFilter._isValidPosition(lastTransmittedData.position) ? lastTransmittedData.position : null;
+        let sendPosition = decide("position",
+            !!position && !(lastPosition && position.x === lastPosition.x && position.y === lastPosition.y && position.z === lastPosition.z),
+            !lastPosition,
+            !!position && !!lastPosition && HiFiUserDataTransmitFilter._distance(position, lastPosition) < this.positionDeadbandMeters,
+            this.positionMinIntervalMS);
+
+        let orientation = HiFiUserDataTransmitFilter._isValidOrientation(currentData.orientation) ? currentData.orientation : null;
+        let lastOrientation = lastTransmittedData && HiFiUserDataTransmitFilter._isValidOrientation(lastTransmittedData.orientation) ? lastTransmittedData.orientation : null;
+        let sendOrientation = decide("orientation",
+            !!orientation && !(lastOrientation && orientation.w === lastOrientation.w && orientation.x === lastOrientation.x && orientation.y === lastOrientation.y && orientation.z === lastOrientation.z),
+            !lastOrientation,
+            !!orientation && !!lastOrientation && HiFiUserDataTransmitFilter._angleDegrees(orientation, lastOrientation) < this.orientationDeadbandDegrees,
+            this.orientationMinIntervalMS);
+
+        let parametersChanged = false;
+        let parametersNeverTransmitted = true;
+        for (const key of ["volumeThreshold", "hiFiGain", "userAttenuation", "userRolloff"] as const) {
+            let value = currentData[key];
+            let lastValue = lastTransmittedData ? lastTransmittedData[key] : undefined;
+            // `null` means "unset", and `NaN` is a meaningful value, so compare with `Object.is()`.
+            if ((typeof (value) === "number" || (key === "volumeThreshold" && value === null)) && !Object.is(value, lastValue)) {
+                parametersChanged = true;
+            }
+            if (typeof (lastValue) === "number") {
+                parametersNeverTransmitted = false;
+            }
+        }
+        // Parameters have no dead-band: every change to them is deliberate.
+        let sendParameters = decide("parameters", parametersChanged, parametersNeverTransmitted, false, this.parametersMinIntervalMS);
+
+        let dataToTransmit = new HiFiAudioAPIData();
+        if (sendPosition) {
+            dataToTransmit.position = position;
+        }
+        if (sendOrientation) {
+            dataToTransmit.orientation = orientation;
+        }
+        // A `volumeThreshold` of `null` is transmitted (it resets the threshold to the Space's default), so parameters that
+        // aren't being transmitted must be `undefined` rather than the constructor's `null`.
+        dataToTransmit.volumeThreshold = sendParameters ? currentData.volumeThreshold : undefined;
+        dataToTransmit.hiFiGain = sendParameters ? currentData.hiFiGain : undefined;
+        dataToTransmit.userAttenuation = sendParameters ? currentData.userAttenuation : undefined;
+        dataToTransmit.userRolloff = sendParameters ? currentData.userRolloff : undefined;
+        dataToTransmit._otherUserGainQueue = currentData._otherUserGainQueue;
+
+        return {
+            dataToTransmit: dataToTransmit,
+            retryAfterMS: retryAfterMS,
+            sendPosition: sendPosition,
+            sendOrientation: sendOrientation,
+            sendParameters: sendParameters
+        };
+    }
+
+    /**
+     * Records that the data chosen by {@link filter} was transmitted, for the rate limits and the stats.
+     * @param decision The result of {@link filter}.
+     * @param nowMS The time of the transmission. Defaults to `Date.now()`.
+     */
+    recordTransmitted(decision: UserDataTransmitDecision, nowMS: number = Date.now()): void {
+        if (decision.sendPosition) {
+            this._lastSentMS.position = nowMS;
+            this._stats.position.sent++;
+        }
+        if (decision.sendOrientation) {
+            this._lastSentMS.orientation = nowMS;
+            this._stats.orientation.sent++;
+        }
+        if (decision.sendParameters) {
+            this._lastSentMS.parameters = nowMS;
+            this._stats.parameters.sent++;
+        }
+    }
+
+    /**
+     * @returns A copy of the counters of transmitted and suppressed changes.
+     */
+    getStats(): UserDataTransmitStats {
+        return {
+            position: { sent: this._stats.position.sent, suppressed: this._stats.position.suppressed },
+            orientation: { sent: this._stats.orientation.sent, suppressed: this._stats.orientation.suppressed },
+            parameters: { sent: this._stats.parameters.sent, suppressed: this._stats.parameters.suppressed }
+        };
+    }
+
+    /**
+     * Sets every counter back to `0`.
+     */
+    resetStats(): void {
+        this._stats = {
+            position: { sent: 0, suppressed: 0 },
+            orientation: { sent: 0, suppressed: 0 },
+            parameters: { sent: 0, suppressed: 0 }
+        };
+    }
+
+    private static _isValidPosition(position: Point3D): boolean {
+        return !!position && typeof (position.x) === "number" && typeof (position.y) === "number" && typeof (position.z) === "number";
+    }
+
+    private static _isValidOrientation(orientation: Quaternion): boolean {
+        return !!orientation && typeof (orientation.w) === "number" && typeof (orientation.x) === "number" &&
+            typeof (orientation.y) === "number" && typeof (orientation.z) === "number";
+    }
+
+    private static _distance(a: Point3D, b: Point3D): number {
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let dz = a.z - b.z;
+        return Math.sqrt(dx * dx + dy * dy + dz * dz);
+    }
+
+    private static _angleDegrees(a: Quaternion, b: Quaternion): number {
+        let lengths = Math.sqrt((a.w * a.w + a.x * a.x + a.y * a.y + a.z * a.z) * (b.w * b.w + b.x * b.x + b.y * b.y + b.z * b.z));
+        if (lengths === 0) {
+            return 0;
+        }
+        // `q` and `-q` represent the same rotation, hence the absolute value.
+        let dot = Math.min(1, Math.abs(a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z) / lengths);
+        return 2 * Math.acos(dot) * 180 / Math.PI;
+    }
+}
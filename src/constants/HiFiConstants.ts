@@ -36,7 +36,8 @@ export class HiFiConstants {
         autoRetryOnDisconnect: false,
         maxSecondsToSpendRetryingOnDisconnect: 60,
         pauseBetweenRetriesMS: 500,
-        timeoutPerConnectionAttemptMS: 5000
+        timeoutPerConnectionAttemptMS: 5000,
+        iceRestartTimeoutMS: 5000
     };
     /**
      * Defines the minimum amount of time that we must wait before
@@ -44,6 +45,11 @@ export class HiFiConstants {
      * completely slamming the servers.)
      */
     static MIN_PAUSE_BETWEEN_RETRIES: number = 100;
+    /**
+     * The default number of seconds before a connection's JWT expires at which the `tokenExpiring` event is emitted
+     * (and, if a `tokenProvider` was passed to the {@link HiFiCommunicator}, a new JWT is requested).
+     */
+    static DEFAULT_TOKEN_EXPIRING_LEAD_TIME_SECONDS: number = 60;
 
     constructor() {}
 };
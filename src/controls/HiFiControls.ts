@@ -48,8 +48,18 @@ export class HiFiControls {
     onMoveBackwardKeyUp: Function;
     onStrafeLeftKeyUp: Function;
     onStrafeRightKeyUp: Function;
-
-    constructor({ mainAppElement }: { mainAppElement: any }) {
+    private _pushToTalkKeyCode: string;
+    onPushToTalkKeyDown: Function;
+    onPushToTalkKeyUp: Function;
+
+    /**
+     * @param __namedParameters
+     * @param mainAppElement - The element whose mouse, touch, and keyboard events are handled.
+     * @param pushToTalkKeyCode - Optional. The `KeyboardEvent.code` of the key to use for push-to-talk, for example `"Space"`.
+     * Pressing and releasing this key calls `onPushToTalkKeyDown` and `onPushToTalkKeyUp`, which can call {@link HiFiCommunicator.startTalking}
+     * and {@link HiFiCommunicator.stopTalking}. The push-to-talk key doesn't interrupt movement keys that are held at the same time.
+     */
+    constructor({ mainAppElement, pushToTalkKeyCode }: { mainAppElement: any, pushToTalkKeyCode?: string }) {
         // START Mouse Event Code
         this._mouseEventCache = [];
         this._leftClickStartPositionPX = { x: 0.0, y: 0.0 };
@@ -111,6 +121,10 @@ export class HiFiControls {
         this.onMoveBackwardKeyUp = () => { };
         this.onStrafeLeftKeyUp = () => { };
         this.onStrafeRightKeyUp = () => { };
+
+        this._pushToTalkKeyCode = pushToTalkKeyCode;
+        this.onPushToTalkKeyDown = () => { };
+        this.onPushToTalkKeyUp = () => { };
         // END Keyboard Event Code
     }
 
@@ -363,6 +377,15 @@ export class HiFiControls {
     }
 
     private _onUserKeyDown(event: any) {
+        if (this._pushToTalkKeyCode && event.code === this._pushToTalkKeyCode) {
+            // Push-to-talk is handled separately from the movement keys so that it doesn't become the most recently pressed key.
+            // Ignore auto-repeated `keydown` events while the key is held.
+            if (!event.repeat) {
+                this.onPushToTalkKeyDown();
+            }
+            return;
+        }
+
         let shouldAddKeyEvent = true;
         for (let i = 0; i < this._keyboardEventCache.length; i++) {
             if (this._keyboardEventCache[i].code === event.code) {
@@ -401,6 +424,11 @@ export class HiFiControls {
     }
 
     private _onUserKeyUp(event: any) {
+        if (this._pushToTalkKeyCode && event.code === this._pushToTalkKeyCode) {
+            this.onPushToTalkKeyUp();
+            return;
+        }
+
         for (let i = this._keyboardEventCache.length - 1; i >= 0; i--) {
             if (this._keyboardEventCache[i].code === event.code) {
                 this._keyboardEventCache.splice(i, 1);
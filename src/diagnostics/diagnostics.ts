@@ -1,5 +1,9 @@
 import { HiFiMixerSession } from "../classes/HiFiMixerSession";
-import { RaviSession, STATS_WATCHER_FILTER } from "../libravi/RaviSession";
+import { RaviSession } from "../libravi/RaviSession";
+import { WebRTCStatsFieldSelection, WebRTCStatsSample, WebRTCStatsSubscriptionHandle } from "../libravi/RaviWebRTCStats";
+import { RaviUtils } from "../libravi/RaviUtils";
+import { HiFiRedactor } from "../utilities/HiFiRedactor";
+import { HiFiLogger } from "../utilities/HiFiLogger";
 import { apiVersion } from "../index";
 
 
@@ -26,15 +30,15 @@ const MAX_DIAGNOSTICS_STORAGE_LENGTH = 5000;
 
 const nonOperative = "non-operative";
 
-STATS_WATCHER_FILTER.set('remote-inbound-rtp',
-                         STATS_WATCHER_FILTER.get('remote-inbound-rtp').concat(['packetsLost', 'totalRoundTripTime']));
-STATS_WATCHER_FILTER.set('inbound-rtp',
-                         STATS_WATCHER_FILTER.get('inbound-rtp').concat(['packetsLost', 'packetsReceived', 'jitter']));
-STATS_WATCHER_FILTER.set('outbound-rtp', ['type', 'retransmittedPacketsSent', 'packetsSent']);
-
-STATS_WATCHER_FILTER.set('candidate-pair', ['writable', 'state', 'nominated', 'localCandidateId', 'remoteCandidateId']);
-STATS_WATCHER_FILTER.set('remote-candidate', ['id', 'address', 'ip', 'candidateType', 'protocol']);
-STATS_WATCHER_FILTER.set('local-candidate', ['id', 'address', 'ip', 'candidateType', 'protocol']);
+// The stats fields that each Diagnostics instance collects for its report.
+const STATS_FIELDS: WebRTCStatsFieldSelection = {
+    'remote-inbound-rtp': ['packetsLost', 'roundTripTime', 'totalRoundTripTime', 'jitter'],
+    'inbound-rtp': ['packetsLost', 'packetsReceived', 'jitter'],
+    'outbound-rtp': ['retransmittedPacketsSent', 'packetsSent'],
+    'candidate-pair': ['writable', 'state', 'nominated', 'localCandidateId', 'remoteCandidateId'],
+    'remote-candidate': ['address', 'ip', 'candidateType', 'protocol'],
+    'local-candidate': ['address', 'ip', 'candidateType', 'protocol']
+};
 
 interface CandidateReport {
     ip?: string;
@@ -42,17 +46,190 @@ interface CandidateReport {
     candidateType?: string;
     protocol?: string;
 }
-let nStatsClients = 0;
-let browserStats: CandidateReport = {};
-let remoteStats: CandidateReport = {};
-let reports:any = {
-    'outbound-rtp': {},
-    'inbound-rtp': {},
-    'remote-inbound-rtp': {}
-};
 const useDebugPrefixes = false;
 const directSendLabel = 'directSend';
 
+/**
+ * Describes one end of the ICE candidate pair that a {@link DiagnosticsReport} was collected over.
+ */
+export interface DiagnosticsCandidateInfo {
+    /**
+     * The IP address of the candidate. It is `"[REDACTED IP]"` unless IP address redaction has been turned off in the {@link RedactionConfig}.
+     */
+    ip?: string;
+    /**
+     * The type of the candidate, e.g. `"host"`, `"srflx"` or `"relay"`.
+     */
+    type?: string;
+    /**
+     * The transport protocol of the candidate, e.g. `"udp"` or `"tcp"`.
+     */
+    protocol?: string;
+}
+
+/**
+ * The state of the signaling WebSocket and of the `RTCPeerConnection` when a {@link DiagnosticsReport} was made. Each value is the name of
+ * the error that was thrown if the browser wouldn't report it.
+ */
+export interface DiagnosticsRTCStates {
+    webSocketReadyState: number | string;
+    connectionState: string;
+    signalingState: string;
+    iceConnectionState: string;
+    iceGatheringState: string;
+}
+
+/**
+ * The RTP stats in a {@link DiagnosticsReport}. The packet counts are the changes since the previous stats sample, or the totals so far
+ * if there was no previous sample; `jitter`, `roundTripTime` and `totalRoundTripTime` are as last reported by the browser, in seconds.
+ */
+export interface DiagnosticsRTPStats {
+    outboundRTP: {
+        packetsSent?: number;
+        retransmittedPacketsSent?: number;
+    };
+    inboundRTP: {
+        packetsLost?: number;
+        packetsReceived?: number;
+        jitter?: number;
+    };
+    remoteInboundRTP: {
+        packetsLost?: number;
+        roundTripTime?: number;
+        totalRoundTripTime?: number;
+        jitter?: number;
+    };
+}
+
+/**
+ * The network connection information that the browser makes available through `navigator.connection`, if any.
+ */
+export interface DiagnosticsConnectionInfo {
+    /**
+     * E.g. `"wifi"` or `"cellular"`.
+     */
+    type?: string;
+    /**
+     * E.g. `"4g"`.
+     */
+    effectiveType?: string;
+    /**
+     * The estimated downlink bandwidth, in megabits per second.
+     */
+    downlink?: number;
+    /**
+     * The estimated round-trip time, in milliseconds.
+     */
+    rtt?: number;
+}
+
+/**
+ * A diagnostics report about a connection to the High Fidelity mixer, made when the connection ends or the page is hidden or closed.
+ * Reports are passed to the `sink` in the {@link DiagnosticsConfig}.
+ *
+ * The same report can be delivered more than once: see `persistence`. Use `id` to tell such duplicates apart.
+ * Reports are redacted by {@link HiFiRedactor} when they are made.
+ */
+export interface DiagnosticsReport {
+    /**
+     * Uniquely identifies this report. A report that is delivered more than once always has the same `id`.
+     */
+    id: string;
+    /**
+     * `"ravi"` for reports about the underlying WebRTC session, or `"app"` for reports about the connection state the application sees.
+     */
+    label: string;
+    /**
+     * When the report was made, as an ISO 8601 string.
+     */
+    timestamp: string;
+    /**
+     * The hashed visit ID of the connection. This does not contain any personally identifiable information.
+     */
+    identifier: string;
+    /**
+     * Why the report was made; currently always `"sessionEND"`.
+     */
+    reason: string;
+    /**
+     * The state change or browser event that caused the report to be made, e.g. `"Disconnected"` or `"pagehide"`.
+     */
+    event: string;
+    /**
+     * `"directSend"` if the report is being delivered as soon as it was made. `"preemptive"` if it was saved before being delivered and is
+     * being delivered later, because the page was closed before the first delivery attempt finished; in that case the first attempt may
+     * have succeeded too. `"failed"` if the first delivery attempt failed and the report is being delivered later.
+     */
+    persistence: string;
+    /**
+     * The version of the Spatial Audio API.
+     */
+    version: string;
+    /**
+     * The browser's user agent, or the Node.js version.
+     */
+    userAgent: string;
+    /**
+     * Whether the browser thought it was online.
+     */
+    online: boolean;
+    /**
+     * Whether the application had explicitly disconnected.
+     */
+    explicitlyClosed: boolean;
+    /**
+     * The visibility state of the document, e.g. `"visible"` or `"hidden"`.
+     */
+    visibility: string;
+    /**
+     * The number of users connected to the space, according to the mixer.
+     */
+    concurrency: number;
+    /**
+     * The connection state that the application saw. See {@link HiFiConnectionStates}.
+     */
+    appState: string;
+    /**
+     * The state of the underlying WebRTC session.
+     */
+    raviState: string;
+    rtc: DiagnosticsRTCStates;
+    candidates: {
+        browser: DiagnosticsCandidateInfo;
+        mixer: DiagnosticsCandidateInfo;
+    };
+    rtp: DiagnosticsRTPStats;
+    connectionInfo: DiagnosticsConnectionInfo;
+}
+
+/**
+ * Delivers a {@link DiagnosticsReport}, e.g. to your own logging service. Resolves with `true` if the report was delivered. Reports that
+ * could not be delivered (including when the browser is offline) are saved in `localStorage` and passed to the sink again later.
+ */
+export type DiagnosticsSink = (report: DiagnosticsReport) => Promise<boolean>;
+
+/**
+ * Controls the diagnostics reports that the {@link HiFiCommunicator} makes about its connections to the High Fidelity mixer.
+ * Pass it as `diagnosticsConfig` to the {@link HiFiCommunicator} constructor.
+ */
+export interface DiagnosticsConfig {
+    /**
+     * Set to `false` to disable diagnostics entirely: no stats are collected for them, nothing is saved in `localStorage`, and no reports
+     * are made. Defaults to `true`.
+     */
+    enabled?: boolean;
+    /**
+     * If `true`, no diagnostics are collected, saved or reported until the user has given their consent with
+     * {@link HiFiCommunicator.setDiagnosticsConsent}. Defaults to `false`.
+     */
+    requireConsent?: boolean;
+    /**
+     * Delivers the reports. If not set, reports are sent to High Fidelity's diagnostics service; that transport is currently disabled,
+     * so without a `sink` nothing is collected.
+     */
+    sink?: DiagnosticsSink;
+}
+
 /** 
  * @internal
  * This is not general purpose, but specifically in support of internal HiFidelity connection failures.
@@ -73,24 +250,56 @@ export class Diagnostics {
     fireOn: Array<string>;
     fireListener: Function;
     onlineListener: Function;
+    statsSubscription: WebRTCStatsSubscriptionHandle;
+    browserStats: CandidateReport;
+    remoteStats: CandidateReport;
+    reports: any;
+    enabled: boolean;
+    requireConsent: boolean;
+    consentGranted: boolean;
+    sink: DiagnosticsSink;
+    logger: HiFiLogger;
 
     constructor({url = "https://webrtc-diag.highfidelity.com/api/v1/logs/post_logs",
-                 label, session, ravi, fireOn = []}:{url?:string, label:string, session:HiFiMixerSession, ravi:RaviSession, fireOn?:Array<string>}) {
-        Object.assign(this, {url, label, session, ravi, fireOn});
-        this.checkPersisted();
-        this.reset();
+                 label, session, ravi, fireOn = [], config = {}, logger = HiFiLogger.child({ module: "Diagnostics" })}:{url?:string, label:string, session:HiFiMixerSession, ravi:RaviSession, fireOn?:Array<string>, config?:DiagnosticsConfig, logger?:HiFiLogger}) {
+        Object.assign(this, {url, label, session, ravi, fireOn, logger});
+        this.enabled = config.enabled !== false;
+        this.requireConsent = !!config.requireConsent;
+        this.consentGranted = false;
+        this.sink = typeof (config.sink) === "function" ? config.sink : undefined;
+        this.resetStats();
         this.fireListener = (event:any) => this.fire(event.type);
         this.onlineListener = () => this.checkPersisted();
+        this.checkPersisted();
+        this.reset();
+    }
+    /**
+     * Answer whether we may collect, persist and report anything: diagnostics are enabled, consent has been given if it's required,
+     * and there's somewhere to report to.
+     */
+    isOperative() {
+        return this.enabled && (!this.requireConsent || this.consentGranted) && !!(this.sink || xfetch);
+    }
+    /**
+     * Record whether the user has consented to diagnostics. Withdrawing consent stops any collection in progress and discards anything persisted.
+     */
+    setConsent(granted:boolean) {
+        this.consentGranted = granted;
+        if (!granted) {
+            this.reset();
+            xRemoveEventListener('online', this.onlineListener);
+            if (this.enabled) xStorage.removeItem(this.label);
+        }
     }
     /** 
      * An instance is primed when entering the state we are interested in, until the report is fired.
      */
     prime(identifier:string) { // e.g., hashedVisitID. Do NOT use any personally identifiable information. Data is a liability, not an asset.
-        if (this.isPrimed()) return;
+        if (!this.isOperative() || this.isPrimed()) return;
         this.checkPersisted(); // Because this is a likely time to be successful.
         this.identifier = identifier;
         this.grabRTCInternals();
-        Diagnostics.startStats(this.session);
+        this.startStats();
         this.fireOn.forEach(event => (xDocument as any).addEventListener(event, this.fireListener));
     }
     /**
@@ -98,26 +307,26 @@ export class Diagnostics {
      */
     async fire(eventName:string) {
         if (!this.isPrimed()) return;
-        const reportString = this.toString(eventName);
+        const report = this.createReport(eventName);
         this.reset();
         // When we fire on closing tab or browser, we sometimes don't have enough time to report, or
         // sometimes have enough time to report, but not enough to check the response.
         // So:
         // 1. Persist the report with a label that indicates we have not yet phoned it in.
-        // 2. Report the original report text with no special label.
+        // 2. Report the original report with no special label.
         // 3. IFF we get a chance to execute after the report, then either
-        //      Send a report with a failed label, or
+        //      Replace the persisted report with one with a failed label, or
         //      clean up so that we don't report again.
         // As a result, the following are all possible:
         //   No report can happen if we get stopped during (1), or if stopped during (2) and the user never connects again.
         //   PERISTENCE=premptive if we get through (2) and the user reconnects.
-        //   Two reports, one with premptive and one with directSend, if we get stopped between 2 and 3.
+        //   Two reports with the same id, one with premptive and one with directSend, if we get stopped between 2 and 3.
         //   PERSISTENCE=directSend (or unlikely, fail), if we get through all 3 steps.
-        this.persist(reportString, 'preemptive', false); // Save in case the browser doesn't give us enough time to send.
-        if (! await this.report(reportString)) {
-            this.persist(reportString, 'failed');
+        this.persist(report, 'preemptive', false); // Save in case the browser doesn't give us enough time to send.
+        if (! await this.report(report)) {
+            this.persist(report, 'failed');
         } else { // Successful report. 
-            xStorage.removeItem(this.label);
+            this.unpersist(report);
         }
     }
     noteExplicitApplicationClose() {
@@ -130,7 +339,7 @@ export class Diagnostics {
      * The opposite of prime(). Usually internal to the operations of the Diagnostics, but can be called from outside.
      */
     reset() {
-        Diagnostics.stopStats(this.session);
+        this.stopStats();
         this.identifier = nonOperative;
         this.explicitApplicationClose = false;
         this.webSocket = this.rtc = {};
@@ -140,43 +349,108 @@ export class Diagnostics {
     isPrimed() {
         return this.identifier !== nonOperative;
     }
-    // strings...
-    /**
-     * Answer a single (long) log line to report.
-     */
-    toString(eventName:string) {
-        return `${new Date().toISOString()} ${this.identifier} ` +
-            this.s('logReason', 'sessionEND') +
-            this.connectionStats('browserStats') +
-            this.connectionStats('mixerStats') +
-            this.rtpStats() +
-            this.rtcStates() +
-            this.s('NUM_CONNECTED', this.session.concurrency, '\n') +
-            this.s('APPSTATE', this.session.getCurrentHiFiConnectionState(), '\n') +
-            this.s('RAVISTATE', this.ravi.getState()) +
-            this.s('ONLINE', xNavigator.onLine ? 'yes' : 'no') +
-            this.s('XPLICITCLOSED', this.explicitApplicationClose ? 'yes' : 'no') +
-            this.visibilityInfo() +
-            this.connectionInfo() +
-            this.s('PERSISTENCE', directSendLabel) +
-            this.s('VERSION', apiVersion) +
-            this.s('EVENT', eventName) +
+    // reports...
+    /**
+     * Answer the (redacted) report of everything we know, as though it will be sent directly.
+     */
+    createReport(eventName:string): DiagnosticsReport {
+        const candidate = (report:CandidateReport):DiagnosticsCandidateInfo => ({
+            ip: report.ip || report.address,
+            type: report.candidateType,
+            protocol: report.protocol
+        });
+        return HiFiRedactor.redact({
+            id: RaviUtils.createUUID(),
+            label: this.label,
+            timestamp: new Date().toISOString(),
+            identifier: this.identifier,
+            reason: 'sessionEND',
+            event: eventName,
+            persistence: directSendLabel,
+            version: apiVersion,
+            userAgent: xNavigator.userAgent,
+            online: xNavigator.onLine,
+            explicitlyClosed: this.explicitApplicationClose,
+            visibility: xDocument.visibilityState as string,
+            concurrency: this.session.concurrency,
+            appState: `${this.session.getCurrentHiFiConnectionState()}`,
+            raviState: `${this.ravi.getState()}`,
+            rtc: this.rtcStates(),
+            candidates: {
+                // Either can be missing with bots.
+                browser: candidate(this.browserStats || {}),
+                mixer: candidate(this.remoteStats || {})
+            },
+            rtp: {
+                outboundRTP: {...this.reports['outbound-rtp']},
+                inboundRTP: {...this.reports['inbound-rtp']},
+                remoteInboundRTP: {...this.reports['remote-inbound-rtp']}
+            },
+            connectionInfo: this.connectionInfo()
+        });
+    }
+    /**
+     * Answer a single (long) log line to report, for the High Fidelity diagnostics service.
+     */
+    toString(report:DiagnosticsReport) {
+        return `${report.timestamp} ${report.identifier} ` +
+            this.s('logReason', report.reason) +
+            this.candidateString('browserStats', report.candidates.browser) +
+            this.candidateString('mixerStats', report.candidates.mixer) +
+            this.rtpString(report.rtp) +
+            this.s('WebSocket', report.rtc.webSocketReadyState, '\n') +
+            this.s('RTC', report.rtc.connectionState) +
+            this.s('SIGNALING', report.rtc.signalingState) +
+            this.s('ICE', report.rtc.iceConnectionState) +
+            this.s('GATHERING', report.rtc.iceGatheringState) +
+            this.s('NUM_CONNECTED', report.concurrency, '\n') +
+            this.s('APPSTATE', report.appState, '\n') +
+            this.s('RAVISTATE', report.raviState) +
+            this.s('ONLINE', report.online ? 'yes' : 'no') +
+            this.s('XPLICITCLOSED', report.explicitlyClosed ? 'yes' : 'no') +
+            this.s('VISIBLITY', report.visibility) +
+            this.s('DEVICE', report.connectionInfo.type, '\n') +
+            this.s('RATING', report.connectionInfo.effectiveType) +
+            this.s('DL', report.connectionInfo.downlink) +
+            this.s('RTT', report.connectionInfo.rtt) +
+            this.s('PERSISTENCE', report.persistence) +
+            this.s('VERSION', report.version) +
+            this.s('EVENT', report.event) +
             (useDebugPrefixes ? '\n' : '') +
-            ` [${xNavigator.userAgent}]`;
+            ` [${report.userAgent}]`;
     }
     s(name:string, value:any, debugPrefix = '') {
         let separator = isNaN(value) ? '_' : ':';
         return `${useDebugPrefixes ? debugPrefix : ''} ${this.label}${name}${separator}${value}`;
     }
-    connectionInfo() {
-        const info:any = (xNavigator as any).connection || (xNavigator as any).mozConnection || (xNavigator as any).webkitConnection || {};
-        return this.s('DEVICE', info.type, '\n') +
-            this.s('RATING', info.effectiveType) +
-            this.s('DL', info.downlink) +
-            this.s('RTT', info.rtt);
+    candidateString(kind:string, candidate:DiagnosticsCandidateInfo) {
+        if (!candidate.ip && !candidate.type && !candidate.protocol) return ''; // Can happen with bots.
+        return this.s(kind+'IP', candidate.ip, '\n') +
+            this.s(kind+'TYPE', candidate.type) +
+            this.s(kind+'PROTOCOL', candidate.protocol);
     }
-    visibilityInfo() {
-        return this.s('VISIBLITY', xDocument.visibilityState);
+    rtpString(rtp:DiagnosticsRTPStats) {
+        let s:string = '';
+        const note = (reportName:string, report:any) => {
+            let first = true;
+            Object.keys(report).forEach(propertyName => {
+                s += this.s(`${reportName}_${propertyName}`, report[propertyName], first ? '\n' : '');
+                first = false;
+            });
+        };
+        note('outbound-rtp', rtp.outboundRTP);
+        note('inbound-rtp', rtp.inboundRTP);
+        note('remote-inbound-rtp', rtp.remoteInboundRTP);
+        return s;
+    }
+    connectionInfo():DiagnosticsConnectionInfo {
+        const info:any = (xNavigator as any).connection || (xNavigator as any).mozConnection || (xNavigator as any).webkitConnection || {};
+        return {
+            type: info.type,
+            effectiveType: info.effectiveType,
+            downlink: info.downlink,
+            rtt: info.rtt
+        };
     }
     /**
      * When we fire, I'd like to directly ask the RTCPeerConnection and our signaling WebSocket some questions, as a sanity check
@@ -190,7 +464,7 @@ export class Diagnostics {
         this.webSocket = signaling._webSocket;
         this.rtc = raviRTC._rtcConnection;
     }
-    rtcStates() {
+    rtcStates():DiagnosticsRTCStates {
         // This bizarre pattern is to get as much info as possible, even from browsers such as Firefox that
         // throw errors for some properties.
         let collector:any = {},
@@ -203,40 +477,32 @@ export class Diagnostics {
             };
         safelyGet('readyState', this.webSocket);
         ['connectionState', 'signalingState', 'iceConnectionState','iceGatheringState'].forEach(p => safelyGet(p));
-        return this.s('WebSocket', collector.readyState, '\n') +
-            this.s('RTC', collector.connectionState) +
-            this.s('SIGNALING', collector.signalingState) +
-            this.s('ICE', collector.iceConnectionState) +
-            this.s('GATHERING', collector.iceGatheringState);
-    }
-    connectionStats(kind:string) {
-        let report = kind === 'browserStats' ?  browserStats : remoteStats;
-        if (!report) return ''; // Can happen with bots.
-        return this.s(kind+'IP', report.ip || report.address, '\n') +
-            this.s(kind+'TYPE', report.candidateType) +
-            this.s(kind+'PROTOCOL', report.protocol);
-    }
-    rtpStats() {
-        let s:string = '';
-        Object.keys(reports).forEach(reportName => {
-            let report = reports[reportName],
-                first = true;
-            Object.keys(report).forEach(propertyName => {
-                s += this.s(`${reportName}_${propertyName}`, report[propertyName], first ? '\n' : '');
-                first = false;
-            });
-        });
-        return s;
+        return {
+            webSocketReadyState: collector.readyState,
+            connectionState: collector.connectionState,
+            signalingState: collector.signalingState,
+            iceConnectionState: collector.iceConnectionState,
+            iceGatheringState: collector.iceGatheringState
+        };
     }
     
     // Phoning home...
     /**
-     * Return success, or a promise for success.
+     * Return a promise for success.
      */
-    report(reportString:string) {
+    async report(report:DiagnosticsReport):Promise<boolean> {
         if (!xNavigator.onLine) return false;
+        if (this.sink) {
+            try {
+                return !!(await this.sink(report));
+            } catch (err) {
+                this.logger.warn(`Could not send diagnostics report for ${this.label} to the diagnostics sink: ${err}`);
+                return false;
+            }
+        }
         if (!xfetch) return false;
-        console.log(reportString);
+        const reportString = this.toString(report);
+        this.logger.debug(reportString);
         // This will return true if the beacon is successfully queued, not sent.
         // Ultimately, we would need a verification (e.g., next session) to see if the previous identifier was logged.
         // A failure gets logged to console in some browsers, but they don't actually emit an error event.
@@ -247,77 +513,110 @@ export class Diagnostics {
             headers: { 'Content-Type': 'text/plain' },
             body: reportString
         }).then((response:Response) => response.ok)
-          .catch((err: any) => { console.log(`Could not send diagnostics report for ${this.label} to ${this.url}: ${err}`); return false; });
+          .catch((err: any) => { this.logger.warn(`Could not send diagnostics report for ${this.label} to ${this.url}: ${err}`); return false; });
     }
     /**
-     * Add reportString to the set of data being saved for later reporting.
-     */
-    persist(reportString:string, reason:string, addListener = true) {
-        let existing = xStorage.getItem(this.label) || "";
-        // By construction existing is expected to be empty or one line. It could have multiple lines if
-        // there is a bug, or if the application site limits the connect-src (or default-src)
-        // in its Content-Security-Policy header without allowing this.url.
-        // If it is more than a line, we are accumulating stuff and really ought to phone home through the mixer when connected.
-        if (existing) {
-            if (existing.length > MAX_DIAGNOSTICS_STORAGE_LENGTH) {
-                // If it is many lines, we may be in a web context where we cannot send diagnostics lines, and are better off discarding them to conserve web storage
-                console.log(`Diagnostics for ${this.label} truncated`);
-                existing = "";
-            }
-            existing += "\n";
+     * Answer the reports being saved for later reporting.
+     */
+    getPersisted():Array<DiagnosticsReport> {
+        let existing = xStorage.getItem(this.label);
+        if (!existing) return [];
+        try {
+            let parsed = JSON.parse(existing);
+            if (Array.isArray(parsed)) return parsed;
+        } catch (e) {
+            ; // E.g., log lines persisted by an older version, which we can no longer report.
+        }
+        return [];
+    }
+    setPersisted(reports:Array<DiagnosticsReport>) {
+        if (reports.length) {
+            xStorage.setItem(this.label, JSON.stringify(reports));
+        } else {
+            xStorage.removeItem(this.label);
         }
-        // The reportString is generated as through it will be sent directly. Here we replace that label with a reason why we're persisting.
-        reportString = reportString.replace(directSendLabel, reason);
-        xStorage.setItem(this.label, existing + reportString);
+    }
+    /**
+     * Add report to the set of data being saved for later reporting, replacing any earlier copy of it.
+     */
+    persist(report:DiagnosticsReport, reason:string, addListener = true) {
+        let existing = this.getPersisted().filter(persisted => persisted.id !== report.id);
+        // By construction existing is expected to be empty or one report. It could have more if
+        // there is a bug, or if the sink keeps failing (e.g., the application site limits the connect-src (or default-src)
+        // in its Content-Security-Policy header without allowing the service that the sink reports to).
+        if (JSON.stringify(existing).length > MAX_DIAGNOSTICS_STORAGE_LENGTH) {
+            // If it is many reports, we may be in a web context where we cannot send diagnostics, and are better off discarding them to conserve web storage
+            this.logger.warn(`Diagnostics for ${this.label} truncated`);
+            existing = [];
+        }
+        // The report is generated as though it will be sent directly. Here we replace that label with a reason why we're persisting.
+        existing.push({...report, persistence: reason});
+        this.setPersisted(existing);
         // An optimization to get caught up on data quicker in the case where network is lost and returns while tab is still up.
         if (addListener) xAddEventListener('online', this.onlineListener);
     }
     /**
-     * If there's anything persisted, try to report it. If successful, clear persistence.
+     * Remove report from the set of data being saved for later reporting.
+     */
+    unpersist(report:DiagnosticsReport) {
+        this.setPersisted(this.getPersisted().filter(persisted => persisted.id !== report.id));
+    }
+    /**
+     * If there's anything persisted, try to report it. Clear persistence of whatever was successfully reported.
      */
     async checkPersisted() {
         xRemoveEventListener('online', this.onlineListener);
-        let existing = xStorage.getItem(this.label);
-        if (!existing) return;
-        if (! await this.report(existing)) return;
-        xStorage.removeItem(this.label);
+        if (!this.isOperative()) return;
+        let existing = this.getPersisted();
+        if (!existing.length) return;
+        let reported:Array<string> = [];
+        for (const report of existing) {
+            if (await this.report(report)) reported.push(report.id);
+        }
+        // Re-read, as the set may have changed while we were reporting.
+        this.setPersisted(this.getPersisted().filter(persisted => !reported.includes(persisted.id)));
     }
     // RTC stats...
-    // Ravi only allows one stats collection function at a time, so we'll have to share
-    // among all the diagnostics.
-    static startStats(session:HiFiMixerSession) { // Results not defined if called with different session.
-        if (nStatsClients++ > 0) return; // Someone primed before this call (and since the final reset).
-        session.startCollectingWebRTCStats((next:any, previous:any) => {
-            let selected = next.find((report:any) => report.writable || report.nominated);
-            if (!selected) return; // Can happen on bots.
-            let localReport = next.find((report:any) => report.id === selected.localCandidateId),
-                remoteReport = next.find((report:any) => report.id === selected.remoteCandidateId);
-            if (localReport)  browserStats = localReport;
-            if (remoteReport) remoteStats = remoteReport;
-            function note(type:string, deltaProperties:Array<string>, absoluteProperties:Array<string> = []) {
-                function findReport(list:any) {
-                    return list.find((report:any) => {
-                        return report.type == type;
-                    });
-                }
-                let previousReport = findReport(previous),
-                    nextReport = findReport(next);
-                deltaProperties.forEach(property => reports[type][property] =
-                                        nextReport && (nextReport[property] - (previousReport ? previousReport[property] : 0)));
-                absoluteProperties.forEach(property => reports[type][property] =
-                                           nextReport && nextReport[property]);
-            }
-            note('outbound-rtp', ['retransmittedPacketsSent', 'packetsSent']);
-            note('inbound-rtp', ['packetsLost', 'packetsReceived'], ['jitter']);
-            note('remote-inbound-rtp', ['packetsLost'], ['roundTripTime', 'totalRoundTripTime', 'jitter']);
-        });
+    // Each instance has its own stats subscription.
+    startStats() {
+        if (this.statsSubscription) return;
+        this.statsSubscription = this.session.subscribeToWebRTCStats((sample:WebRTCStatsSample) => this.noteStats(sample), {fields: STATS_FIELDS});
+    }
+    stopStats() {
+        if (this.statsSubscription) {
+            this.statsSubscription.unsubscribe();
+            this.statsSubscription = undefined;
+        }
+        this.resetStats();
+    }
+    resetStats() {
+        this.browserStats = this.remoteStats = {};
+        this.reports = {
+            'outbound-rtp': {},
+            'inbound-rtp': {},
+            'remote-inbound-rtp': {}
+        };
     }
-    static stopStats(session:HiFiMixerSession) {
-        if (!nStatsClients) return;
-        if (--nStatsClients > 0) return;   // Someone is still primed.     
-        session.stopCollectingWebRTCStats();
-        browserStats = remoteStats = {};
-        for (let key in reports) { reports[key] = {}; }
+    noteStats(sample:WebRTCStatsSample) {
+        let next = sample.reports;
+        let selected = sample.candidatePairs.find((report:any) => report.writable || report.nominated);
+        if (!selected) return; // Can happen on bots.
+        let localReport:any = next.find((report:any) => report.id === selected.localCandidateId),
+            remoteReport:any = next.find((report:any) => report.id === selected.remoteCandidateId);
+        if (localReport)  this.browserStats = localReport;
+        if (remoteReport) this.remoteStats = remoteReport;
+        const note = (type:string, deltaProperties:Array<string>, absoluteProperties:Array<string> = []) => {
+            let nextReport = next.find((report:any) => report.type == type),
+                deltas = nextReport && sample.deltas[nextReport.id];
+            // Before there's a previous report, the delta is the total so far.
+            deltaProperties.forEach(property => this.reports[type][property] =
+                                    nextReport && (deltas ? deltas[property] : nextReport[property]));
+            absoluteProperties.forEach(property => this.reports[type][property] =
+                                       nextReport && nextReport[property]);
+        };
+        note('outbound-rtp', ['retransmittedPacketsSent', 'packetsSent']);
+        note('inbound-rtp', ['packetsLost', 'packetsReceived'], ['jitter']);
+        note('remote-inbound-rtp', ['packetsLost'], ['roundTripTime', 'totalRoundTripTime', 'jitter']);
     }
 }
 
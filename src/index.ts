@@ -20,11 +20,25 @@ export { apiVersion };
 // so we also offer shorter synonyms for every Library entry point.
 // Scroll down to check out those shorter synonyms.
 export { HiFiAudioAPIData, ReceivedHiFiAudioAPIData, Point3D, Quaternion } from "./classes/HiFiAudioAPIData";
-export { HiFiCommunicator, HiFiConnectionStates, HiFiUserDataStreamingScopes } from "./classes/HiFiCommunicator";
-export { SetOtherUserGainForThisConnectionResponse, SetOtherUserGainsForThisConnectionResponse, MuteReason, MuteChangedEvent, OnMuteChangedCallback } from "./classes/HiFiMixerSession";
+export { Pose, EulerOrder } from "./utilities/HiFiMath";
+export { HiFiCommunicator, HiFiConnectionStates, HiFiUserDataStreamingScopes, HiFiCommunicatorEvents, StateRestoredEvent, UserDataTransmitResult, HiFiUserDataTransmitError, HiFiTokenProvider, TokenExpiringEvent, ConnectionRetryAndTimeoutConfig, RetryScheduledEvent } from "./classes/HiFiCommunicator";
+export { SetOtherUserGainForThisConnectionResponse, SetOtherUserGainsForThisConnectionResponse, MuteReason, MuteChangedEvent, OnMuteChangedCallback, OnPeerChangedCallback, OnServerInstructionCallback } from "./classes/HiFiMixerSession";
 export { WebRTCSessionParams } from "./libravi/RaviSession";
-export { AvailableUserDataSubscriptionComponents, UserDataSubscription } from "./classes/HiFiUserDataSubscription";
-export { HiFiLogLevel, HiFiLogger } from "./utilities/HiFiLogger";
+export { WebRTCStatsReport, InboundRTPStatsReport, OutboundRTPStatsReport, RemoteInboundRTPStatsReport, CandidatePairStatsReport, CandidateStatsReport, WebRTCStatsFieldSelection, WebRTCStatsSubscriptionConfig, WebRTCStatsSample, WebRTCStatsCallback, WebRTCStatsSubscriptionHandle, DEFAULT_WEBRTC_STATS_FIELDS, WEBRTC_STATS_COUNTER_FIELDS } from "./libravi/RaviWebRTCStats";
+export { AvailableUserDataSubscriptionComponents, UserDataSubscription, UserDataSubscriptionHandle } from "./classes/HiFiUserDataSubscription";
+export { SpeakingDetectionConfig, ActiveSpeaker, OnSpeakingChangedCallback } from "./classes/HiFiSpeakingDetector";
+export { HiFiConnectionQualityMonitor, HiFiConnectionQualityLevels, ConnectionQualityConfig, ConnectionQuality, ConnectionQualityChangedEvent, OnConnectionQualityChangedCallback } from "./classes/HiFiConnectionQualityMonitor";
+export { HiFiInputModes, InputModeConfig } from "./classes/HiFiInputModeController";
+export { OtherUserGainStorage, OtherUserGainSetting } from "./classes/HiFiOtherUserGainStore";
+export { UserDataTransmitConfig, UserDataTransmitStats, UserDataTransmitCounts } from "./classes/HiFiUserDataTransmitFilter";
+export { HiFiRetryPolicyTypes, RetryPolicy } from "./classes/HiFiRetryPolicy";
+export { DiagnosticsConfig, DiagnosticsSink, DiagnosticsReport, DiagnosticsCandidateInfo, DiagnosticsRTCStates, DiagnosticsRTPStats, DiagnosticsConnectionInfo } from "./diagnostics/diagnostics";
+export { HiFiLogLevel, HiFiLogger, HiFiLogContext, HiFiLogRecord, HiFiLogSink, HiFiLogRingBuffer } from "./utilities/HiFiLogger";
+export { HiFiRedactor, RedactionConfig } from "./utilities/HiFiRedactor";
+export { DiagnosticsHistoryConfig, DiagnosticsBundle, DiagnosticsStateTransition, DiagnosticsRetry, DiagnosticsMuteEvent, DiagnosticsStatsSample, DiagnosticsEnvironment } from "./utilities/HiFiDiagnosticsHistory";
+export { HiFiJWTUtilities, HiFiJWTClaims } from "./utilities/HiFiJWTUtilities";
+export { PeerMotionInterpolationConfig, PeerPose } from "./utilities/HiFiPeerMotionInterpolator";
+export { HiFiProtocolTraceRecorder, HiFiProtocolTraceReplayer, HiFiProtocolTraceEntryTypes, ProtocolTraceEntry, ProtocolTraceDirection, ProtocolTraceHeader } from "./utilities/HiFiProtocolTrace";
 export { HiFiConstants } from "./constants/HiFiConstants";
 export { HiFiHandedness, WorldFrameConfiguration } from "./classes/HiFiAxisConfiguration";
 
@@ -39,7 +53,14 @@ export { preciseInterval };
 // in your application.
 export { HiFiCommunicator as Communicator, HiFiConnectionStates as ConnectionStates, HiFiUserDataStreamingScopes as UserDataStreamingScopes } from "./classes/HiFiCommunicator";
 export { ReceivedHiFiAudioAPIData as ReceivedAudioAPIData, HiFiAudioAPIData as AudioAPIData } from "./classes/HiFiAudioAPIData";
-export { HiFiLogger as Logger, HiFiLogLevel as LogLevel } from "./utilities/HiFiLogger";
+export { HiFiLogger as Logger, HiFiLogLevel as LogLevel, HiFiLogRingBuffer as LogRingBuffer } from "./utilities/HiFiLogger";
+export { HiFiRedactor as Redactor } from "./utilities/HiFiRedactor";
 export { HiFiUtilities as Utilities } from "./utilities/HiFiUtilities";
+export { HiFiJWTUtilities as JWTUtilities } from "./utilities/HiFiJWTUtilities";
+export { HiFiTokenProvider as TokenProvider } from "./classes/HiFiCommunicator";
 export { HiFiConstants as Constants } from "./constants/HiFiConstants";
 export { HiFiHandedness as Handedness } from "./classes/HiFiAxisConfiguration";
+export { HiFiInputModes as InputModes } from "./classes/HiFiInputModeController";
+export { HiFiRetryPolicyTypes as RetryPolicyTypes } from "./classes/HiFiRetryPolicy";
+export { HiFiConnectionQualityMonitor as ConnectionQualityMonitor, HiFiConnectionQualityLevels as ConnectionQualityLevels } from "./classes/HiFiConnectionQualityMonitor";
+export { HiFiProtocolTraceRecorder as ProtocolTraceRecorder, HiFiProtocolTraceReplayer as ProtocolTraceReplayer } from "./utilities/HiFiProtocolTrace";
@@ -151,6 +151,8 @@ export class RaviCommandController {
   _inputDataChannel: RTCDataChannel;
   _commandDataChannel: RTCDataChannel;
 
+  _logContext: any;
+
   /**
    * "Class" variables to be aware of:
    *
@@ -165,6 +167,8 @@ export class RaviCommandController {
    * this._inputDataChannel;
    * this._inputTarget;
    * this._keyboardTarget;
+   *
+   * this._logContext;  // Passed along with everything this controller logs; see RaviUtils.setLogHandler()
    */
   
   /**
@@ -172,10 +176,12 @@ export class RaviCommandController {
    * Defaults the commandQueueInterval to 1 second
    * and initializes variables.
    *
+   * @param {any} logContext The log context of the owning RaviSession
    * @constructor
    */
-  constructor() {
-    RaviUtils.log("constructor", "RaviCommandController");
+  constructor(logContext: any = undefined) {
+    this._logContext = logContext;
+    RaviUtils.log("constructor", "RaviCommandController", this._logContext);
     
     this._commandQueueMap = new Map();
     this._numQueuedCommands = 0;
@@ -268,15 +274,15 @@ export class RaviCommandController {
       // For now, all handlers associated with actual sent commands
       // are not "sticky" (i.e. they only execute once, when the command returns)
       // and they DO have a "matching sent command"
-      handlerInstance = new RaviCommandHandlerInstance(handler, false, true);
+      handlerInstance = new RaviCommandHandlerInstance(handler, false, true, this._logContext);
     }
-    commandQueue.toSend.push( new RaviCommandInstance(command, param, handlerInstance) );
+    commandQueue.toSend.push( new RaviCommandInstance(command, param, handlerInstance, this._logContext) );
 
     // Keep track of the number of waiting commands separately so we don't have
     // to keep calculating it when we check for queued commands
     this._numQueuedCommands++;
     
-    RaviUtils.log("Added command " + command, "RaviCommandController");
+    RaviUtils.log("Added command " + command, "RaviCommandController", this._logContext);
   }
 
   /**
@@ -308,13 +314,13 @@ export class RaviCommandController {
       this._commandQueueMap.set(command, commandQueue);
     }
 
-    commandQueue.toSend.push( new RaviCommandInstance(message, null, null) );
+    commandQueue.toSend.push( new RaviCommandInstance(message, null, null, this._logContext) );
 
     // Keep track of the number of waiting commands separately so we don't have
     // to keep calculating it when we check for queued commands
     this._numQueuedCommands++;
     
-    RaviUtils.log("Added binary command", "RaviCommandController");
+    RaviUtils.log("Added binary command", "RaviCommandController", this._logContext);
   }
 
   
@@ -343,7 +349,7 @@ export class RaviCommandController {
     
     // We don't actually want to put anything in its "toSend" array, but
     // we do want to add a listener.
-    var handlerInstance = new RaviCommandHandlerInstance(handler, isSticky, false);
+    var handlerInstance = new RaviCommandHandlerInstance(handler, isSticky, false, this._logContext);
     messageEntry.listener.push(handlerInstance); 
 
   }
@@ -398,7 +404,7 @@ export class RaviCommandController {
     if (this._inputDataChannel && this._inputDataChannel.readyState === 'open') {
       // This gets just WAY too noisy too quickly,
       // but uncomment if needed:
-      // RaviUtils.log("Sending input:" + JSON.stringify(inputEvent), "RaviCommandController");
+      // RaviUtils.log("Sending input:" + JSON.stringify(inputEvent), "RaviCommandController", this._logContext);
       this._inputDataChannel.send(inputEvent);
     }
   }
@@ -415,7 +421,7 @@ export class RaviCommandController {
    * process.
    */
   monitorQueues() {
-    RaviUtils.log("Begin monitoring for queued commands", "RaviCommandController");
+    RaviUtils.log("Begin monitoring for queued commands", "RaviCommandController", this._logContext);
     this._commandPumpTimer = setInterval(this._processSendingQueuedCommands.bind(this), this._commandQueueInterval);  
   }
   
@@ -426,7 +432,7 @@ export class RaviCommandController {
    * externally to halt command processing if needed.
    */
   stopMonitoringQueues() {
-    RaviUtils.log("Stop monitoring for queued commands", "RaviCommandController");
+    RaviUtils.log("Stop monitoring for queued commands", "RaviCommandController", this._logContext);
     clearInterval(this._commandPumpTimer);
     this._commandPumpTimer = null;
   }
@@ -460,7 +466,7 @@ export class RaviCommandController {
         if ( this._sendCommandInstance(commandInstance) ) {
           this._numQueuedCommands--;
         } else {
-          RaviUtils.log("Send failed. CommandDataChannel may have been disconnected. Will not retry.", "RaviCommandController");
+          RaviUtils.log("Send failed. CommandDataChannel may have been disconnected. Will not retry.", "RaviCommandController", this._logContext);
           // If we did want to retry, though:
           //value.toSend.push(commandInstance);
         }
@@ -497,7 +503,7 @@ export class RaviCommandController {
     try {
       commandMessage = JSON.parse(message);
     } catch (e) {
-      RaviUtils.err(`Couldn't parse command message! Error:\n${e}\n Full message contents:\n${message}`, "RaviCommandController");
+      RaviUtils.err(`Couldn't parse command message! Error:\n${e}\n Full message contents:\n${message}`, "RaviCommandController", this._logContext);
       return;
     }
 
@@ -507,7 +513,7 @@ export class RaviCommandController {
     if (commandMessage && commandMessage.c && commandMessage.p) {
       return {'command': commandMessage.c, 'payload': commandMessage.p };
     }
-    RaviUtils.err("Message cannot be unserialized into a CommandMessage: " + message, "RaviCommandController");
+    RaviUtils.err("Message cannot be unserialized into a CommandMessage: " + message, "RaviCommandController", this._logContext);
 
     return null;
   }
@@ -529,15 +535,15 @@ export class RaviCommandController {
       let message = commandInstance._command;
       if (typeof message === "string") {
         message = this._serializeJsonCommandMessageToSend(commandInstance._command, commandInstance._param);
-        RaviUtils.log("Sending command " + message, "RaviCommandController");
+        RaviUtils.log("Sending command " + message, "RaviCommandController", this._logContext);
       } else {
-        RaviUtils.log("Sending binary command", "RaviCommandController");
+        RaviUtils.log("Sending binary command", "RaviCommandController", this._logContext);
       }
       this._commandDataChannel.send(message);
       // we don't get anything back, so just assume it sent if it didn't throw an error...
       return true;
     } catch (err) {
-      RaviUtils.err("Received error while sending: " + err.message, "RaviCommandController");
+      RaviUtils.err("Received error while sending: " + err.message, "RaviCommandController", this._logContext);
       return false;
     }
   }
@@ -589,7 +595,7 @@ export class RaviCommandController {
 
   _continueProcessingListeningCommand(commandMessage: any) {
     if (!commandMessage) {
-      RaviUtils.err("Received invalid command message, ignoring: " + JSON.stringify(commandMessage), "RaviCommandController");
+      RaviUtils.err("Received invalid command message, ignoring: " + JSON.stringify(commandMessage), "RaviCommandController", this._logContext);
       return;
     }
 
@@ -631,7 +637,7 @@ export class RaviCommandController {
             commandInstance._handler(commandMessage.payload);
             return; // success, end of the (first) listener
           } else {
-            RaviUtils.err("Undefined command handler: " + commandMessage, "RaviCommandController");
+            RaviUtils.err("Undefined command handler: " + commandMessage, "RaviCommandController", this._logContext);
           }
 
         } else {
@@ -642,7 +648,7 @@ export class RaviCommandController {
               // attempt to execute the handler
               listener._handler(commandMessage.payload);
             } else {
-              RaviUtils.err("Undefined message handler: " + commandMessage, "RaviCommandController");
+              RaviUtils.err("Undefined message handler: " + commandMessage, "RaviCommandController", this._logContext);
             }
             // If it's sticky, add it to the "new" list
             if (listener && listener._isSticky) {
@@ -669,18 +675,18 @@ export class RaviCommandController {
    */
   _setInputDataChannel(inputDataChannel: RTCDataChannel) {
     this._inputDataChannel = inputDataChannel;
-    RaviUtils.log("Received new input data channel with id " + this._inputDataChannel.id, "RaviCommandController");
+    RaviUtils.log("Received new input data channel with id " + this._inputDataChannel.id, "RaviCommandController", this._logContext);
 
     this._inputDataChannel.onopen = function () {
-      RaviUtils.log("_inputDataChannel onopen, state is " + this._inputDataChannel.readyState, "RaviCommandController");
+      RaviUtils.log("_inputDataChannel onopen, state is " + this._inputDataChannel.readyState, "RaviCommandController", this._logContext);
     }.bind(this);
 
     this._inputDataChannel.onclose = function () {
-      RaviUtils.log("_inputDataChannel onclose, state is " + this._inputDataChannel.readyState, "RaviCommandController");
+      RaviUtils.log("_inputDataChannel onclose, state is " + this._inputDataChannel.readyState, "RaviCommandController", this._logContext);
     }.bind(this);
 
     this._inputDataChannel.onmessage = function (message: any) {
-      RaviUtils.log("_inputDataChannel got message: " + (message.data), "RaviCommandController");
+      RaviUtils.log("_inputDataChannel got message: " + (message.data), "RaviCommandController", this._logContext);
     }.bind(this);
   }
 
@@ -696,16 +702,16 @@ export class RaviCommandController {
    */
   _setCommandDataChannel(commandDataChannel: RTCDataChannel) {
     this._commandDataChannel = commandDataChannel;
-    RaviUtils.log("Received new data channel with id " + this._commandDataChannel.id, "RaviCommandController");
+    RaviUtils.log("Received new data channel with id " + this._commandDataChannel.id, "RaviCommandController", this._logContext);
   
     this._commandDataChannel.onopen = function () {
-      RaviUtils.log("_commandDataChannel ononpen, state is " + this._commandDataChannel.readyState, "RaviCommandController");
+      RaviUtils.log("_commandDataChannel ononpen, state is " + this._commandDataChannel.readyState, "RaviCommandController", this._logContext);
       // Kick off the monitoring of the command queues in the command controller.
       this.monitorQueues();
     }.bind(this);
 
     this._commandDataChannel.onclose = function () {
-      RaviUtils.log("_commandDataChannel onclose, state is " + this._commandDataChannel.readyState, "RaviCommandController");
+      RaviUtils.log("_commandDataChannel onclose, state is " + this._commandDataChannel.readyState, "RaviCommandController", this._logContext);
       // Stop monitoring the command queue
       this.stopMonitoringQueues();
     }.bind(this);
@@ -897,8 +903,8 @@ class RaviCommandInstance {
   /** 
    * @private 
    */
-  constructor(command: any, param: any, handler: any) {
-    RaviUtils.log("constructor", "RaviCommandInstance");
+  constructor(command: any, param: any, handler: any, logContext: any = undefined) {
+    RaviUtils.log("constructor", "RaviCommandInstance", logContext);
     this._command = command;
     this._param = param;
     this._handler = handler;
@@ -941,8 +947,8 @@ class RaviCommandHandlerInstance {
   /** 
    * @private 
    */
-  constructor(handler: any, isSticky: boolean, hasMatchingSentCommand: boolean) {
-    RaviUtils.log("constructor", "RaviCommandHandlerInstance");
+  constructor(handler: any, isSticky: boolean, hasMatchingSentCommand: boolean, logContext: any = undefined) {
+    RaviUtils.log("constructor", "RaviCommandHandlerInstance", logContext);
     this._handler = handler;
     this._isSticky = isSticky;
     this._hasMatchingSentCommand = hasMatchingSentCommand;
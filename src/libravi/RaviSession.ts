@@ -3,6 +3,7 @@ import { RaviSignalingConnection, RaviSignalingStates } from './RaviSignalingCon
 import { RaviStreamController } from './RaviStreamController';
 import { RaviUtils } from './RaviUtils';
 import { RaviCommandController } from './RaviCommandController';
+import { RaviWebRTCStatsWatcher, WebRTCStatsCallback, WebRTCStatsSubscriptionConfig, WebRTCStatsSubscriptionHandle } from './RaviWebRTCStats';
 
 export interface WebRTCSessionParams {
   /**
@@ -98,9 +99,17 @@ export class RaviSession {
    *
    * _resolveOpen, _rejectOpen, _resolveClose, and _rejectClose: Used for resolving the Promises
    *     made by the open and close functions, which get handled outside of those functions themselves
+   *
+   * this._iceRestartTimeoutMS   // How long an ICE restart may take before the session fails; 0 disables ICE restarts
+   * this._iceRestartTimeout     // Only set while an ICE restart is in progress
+   * this._hasConnected          // Whether the current session has connected; ICE restarts only make sense after it has
+   * this._iceRestartSupported   // Whether the server of the current session supports ICE restarts; see setIceRestartSupported()
+   *
+   * this._logContext            // Passed along with everything this session and its controllers log; see RaviUtils.setLogHandler()
    */
   _stateChangeHandlers: Set<Function>;
   _uuid: string;
+  _logContext: any;
 
   _commandController: RaviCommandController;
   _streamController: RaviStreamController;
@@ -114,24 +123,41 @@ export class RaviSession {
   
   _openingTimeout: ReturnType<typeof setTimeout>;
 
+  _iceRestartTimeoutMS: number;
+  _iceRestartTimeout: ReturnType<typeof setTimeout>;
+  _hasConnected: boolean;
+  _iceRestartSupported: boolean;
+  _networkOnlineHandler: (event: any) => void;
+
   /**
    * Create a new RaviSession.
    * Defaults to using new RaviCommandController and RaviStreamControllers
    * and initializes the state to RaviSessionStates.CLOSED.
    *
+   * @param {any} logContext Passed to the log handler along with everything
+   * this session logs (see RaviUtils.setLogHandler()), e.g. to tell the
+   * messages of several sessions apart
    * @constructor
    */
-  constructor() {
+  constructor(logContext: any = undefined) {
     // Initialize the list of handlers and the UUID
     this._stateChangeHandlers = new Set();
     this._uuid = RaviUtils.createUUID();
+    this._logContext = logContext;
     
     // And the command controller and stream controller
-    this._commandController = new RaviCommandController();
-    this._streamController = new RaviStreamController(this._commandController);
+    this._commandController = new RaviCommandController(logContext);
+    this._streamController = new RaviStreamController(this._commandController, logContext);
     
     // Initialize the state
     this._state = RaviSessionStates.CLOSED;
+
+    // ICE restarts are disabled until a timeout is passed to openRAVISession()
+    this._iceRestartTimeoutMS = 0;
+    this._iceRestartTimeout = null;
+    this._hasConnected = false;
+    this._iceRestartSupported = false;
+    this._networkOnlineHandler = this._handleNetworkOnline.bind(this);
     
     // If we wanted to use a different connection implementation,
     // we would new() it here. (TODO: Make this configurable in some
@@ -185,7 +211,7 @@ export class RaviSession {
       return true;
     } catch (err) {
       RaviUtils.err("Error adding a state change handler: " +
-        err.message, "RaviSession");
+        err.message, "RaviSession", this._logContext);
       return false;
     }
     return false;
@@ -205,7 +231,7 @@ export class RaviSession {
       return true;
     } catch (err) {
       RaviUtils.err("Error removing a state change handler: " +
-        err.message, "RaviSession");
+        err.message, "RaviSession", this._logContext);
       return false;
     }
     return false;
@@ -240,10 +266,14 @@ export class RaviSession {
    * @param timeout A timout in ms after which to timeout the attempt to connect. Defaults to 5000 (5 seconds).
    * @param params An optional configuration object applied to the server side of the session. The default value is null,
    * meaning that we'll rely on the default values as defined on the server.
+   * @param iceRestartTimeoutMS If greater than 0, when the ICE connection of the open session is interrupted (or the
+   * network comes back online), an ICE restart is attempted over the signaling connection before the session is reported
+   * as failed, provided that the server supports it (see setIceRestartSupported()). The session fails if it hasn't
+   * reconnected after this many ms. Defaults to 0 (no ICE restarts).
    *            
    * @returns {Promise}
    */
-  openRAVISession({signalingConnection, timeout = 5000, params = null, customStunAndTurn = null}: { signalingConnection: RaviSignalingConnection, timeout?: number, params?: WebRTCSessionParams, customStunAndTurn?: CustomSTUNandTURNConfig}) {
+  openRAVISession({signalingConnection, timeout = 5000, params = null, customStunAndTurn = null, iceRestartTimeoutMS = 0}: { signalingConnection: RaviSignalingConnection, timeout?: number, params?: WebRTCSessionParams, customStunAndTurn?: CustomSTUNandTURNConfig, iceRestartTimeoutMS?: number}) {
 
     if (this._state === RaviSessionStates.CONNECTED || this._state === RaviSessionStates.COMPLETED) {
         // Ref. iceconnectionstates at https://developer.mozilla.org/en-US/docs/Web/API/RTCPeerConnection/iceConnectionState
@@ -258,10 +288,18 @@ export class RaviSession {
     // the connection.
     this._raviImplementation._assignSignalingConnection(signalingConnection);
 
+    // Get ready to recover the connection if the network changes once we're connected
+    this._iceRestartTimeoutMS = iceRestartTimeoutMS;
+    this._hasConnected = false;
+    this._iceRestartSupported = false;
+    if (typeof self !== 'undefined' && typeof self.addEventListener === 'function') {
+      self.addEventListener('online', this._networkOnlineHandler);
+    }
+
     // Set a timeout in case the session gets hung up somewhere
     this._openingTimeout = setTimeout(() => {
         let errorMessage = "RaviSession.open timed out after " + timeout + " ms";
-        RaviUtils.log(errorMessage, "RaviSession");
+        RaviUtils.log(errorMessage, "RaviSession", this._logContext);
         raviSession._fulfillPromises({ message: errorMessage }, RaviSessionStates.FAILED);
         // Close the session to clean up objects. We've already rejected the promise above.
         raviSession.closeRAVISession();
@@ -272,7 +310,7 @@ export class RaviSession {
       raviSession._rejectOpen = reject;
 
       // Start the "opening" process
-      RaviUtils.log("Opening RAVI session", "RaviSession");
+      RaviUtils.log("Opening RAVI session", "RaviSession", this._logContext);
       this._state = RaviSessionStates.NEW;
       raviSession._raviImplementation._open(params, customStunAndTurn);
     });
@@ -302,7 +340,7 @@ export class RaviSession {
       raviSession._resolveClose = resolve;
       raviSession._rejectClose = reject;
 
-      RaviUtils.log("Closing RAVI session", "RaviSession");
+      RaviUtils.log("Closing RAVI session", "RaviSession", this._logContext);
       raviSession._raviImplementation._close();
     });
   }
@@ -331,7 +369,7 @@ export class RaviSession {
         // NOTE: Per https://developer.mozilla.org/en-US/docs/Web/API/RTCPeerConnection#RTCIceConnectionState_enum
         // "disconnected" is a potentially transient state, so in this case we will simply wait until we
         // get to connected, complete, or failed.
-        RaviUtils.log("_fulfillPromises: Possible transitory state DISCONNECTED; leaving promises pending", "RaviSession");
+        RaviUtils.log("_fulfillPromises: Possible transitory state DISCONNECTED; leaving promises pending", "RaviSession", this._logContext);
         break;
       case RaviSessionStates.FAILED:
         if (this._openingTimeout) {
@@ -361,7 +399,7 @@ export class RaviSession {
         break;
       default:
         // Do nothing for the "in progress" states, like "NEW" or "CONNECTING"
-        RaviUtils.log("_fulfillPromises: Skipping in-progress state " + state, "RaviSession");
+        RaviUtils.log("_fulfillPromises: Skipping in-progress state " + state, "RaviSession", this._logContext);
     }
   }
   
@@ -376,17 +414,17 @@ export class RaviSession {
   _doOntrack(event: any) {
     // TODO: This code is working if we have only one media track (video OR audio), not sure it works with more
     // Need to make it more robust with different branches based on the event info
-    RaviUtils.log("Received new track: ", "RaviSession");
-    RaviUtils.log(event, "RaviSession");
+    RaviUtils.log("Received new track: ", "RaviSession", this._logContext);
+    RaviUtils.log(event, "RaviSession", this._logContext);
 
     if (event && event.track && event.track.kind === "video") { 
-      RaviUtils.log("Adding remote video track to stream controller", "RaviSession");
+      RaviUtils.log("Adding remote video track to stream controller", "RaviSession", this._logContext);
       this._streamController._setVideoStream(event.streams[0]);
       this._streamController._onVideoStreamStateChanged("ready");
     }
     
     if (event && event.track && event.track.kind === "audio") {
-      RaviUtils.log("Adding remote audio track to stream controller", "RaviSession");
+      RaviUtils.log("Adding remote audio track to stream controller", "RaviSession", this._logContext);
       this._streamController._setAudioStream(event.streams[0]);
     }
   }
@@ -397,8 +435,8 @@ export class RaviSession {
    * @private
    */
   _doOndatachannel(event: any) {
-    RaviUtils.log("Received new channel: ", "RaviSession");
-    RaviUtils.log(event, "RaviSession");
+    RaviUtils.log("Received new channel: ", "RaviSession", this._logContext);
+    RaviUtils.log(event, "RaviSession", this._logContext);
     
     switch (event.channel.label) {
       case "ravi.input":
@@ -408,8 +446,123 @@ export class RaviSession {
         this._commandController._setCommandDataChannel(event.channel);
         break;
       default:
-        RaviUtils.log("Received unknown data channel named " + event.channel.label, "RaviSession");
+        RaviUtils.log("Received unknown data channel named " + event.channel.label, "RaviSession", this._logContext);
+        break;
+    }
+  }
+
+  /**
+   * Called by the implementation whenever the state of its ICE connection changes. If the ICE connection of a session
+   * that has already connected is interrupted, this tries an ICE restart first, and only reports the interruption
+   * if the restart can't be made or times out. (See restartIce().)
+   * @private
+   */
+  _handleIceConnectionStateChange(event: any = {}, state: RaviSessionStates) {
+    switch(state) {
+      case RaviSessionStates.CONNECTED:
+      case RaviSessionStates.COMPLETED:
+        this._hasConnected = true;
+        if (this._iceRestartTimeout) {
+          RaviUtils.log("ICE restart succeeded", "RaviSession", this._logContext);
+          clearTimeout(this._iceRestartTimeout);
+          this._iceRestartTimeout = null;
+        }
+        break;
+      case RaviSessionStates.DISCONNECTED:
+      case RaviSessionStates.FAILED:
+        if (this.restartIce("ICE connection state is " + state)) {
+          // Don't tell anyone about the interruption unless the ICE restart doesn't work out
+          return;
+        }
+        break;
+      case RaviSessionStates.CLOSED:
         break;
+      default:
+        if (this._iceRestartTimeout) {
+          // This is the "checking" state of the ICE restart itself
+          RaviUtils.log("ICE restart in progress; ICE connection state is " + state, "RaviSession", this._logContext);
+          return;
+        }
+    }
+    this._handleStateChange(event, state);
+  }
+
+  /**
+   * Try to recover the ICE connection of an open session -- for example, after the network has changed -- without
+   * closing the session, by asking the server for an ICE restart over the signaling connection (which must still be open).
+   * The server must support the `iceRestart` flag of the `renegotiate` message (see setIceRestartSupported()).
+   * If the ICE connection hasn't recovered after the `iceRestartTimeoutMS` passed to openRAVISession(), the session
+   * fails just as it would have without the ICE restart.
+   *
+   * @param {string} reason Why an ICE restart is needed; only used for logging.
+   * @returns {boolean} `true` if an ICE restart was started, or is already in progress; `false` if ICE restarts
+   * are disabled or not supported by the server, if the session hasn't connected, or if the signaling connection isn't open.
+   */
+  restartIce(reason: string = "requested") {
+    if (this._iceRestartTimeout) {
+      return true;
+    }
+    if (!(this._iceRestartTimeoutMS > 0) || !this._iceRestartSupported || !this._hasConnected ||
+        this._state === RaviSessionStates.CLOSED || this._state === RaviSessionStates.FAILED) {
+      return false;
+    }
+    if (!this._raviImplementation._requestIceRestart()) {
+      RaviUtils.log("Can't restart ICE (" + reason + "); the signaling connection isn't open", "RaviSession", this._logContext);
+      return false;
+    }
+
+    RaviUtils.log("Restarting ICE (" + reason + ")", "RaviSession", this._logContext);
+    const raviSession = this;
+    this._iceRestartTimeout = setTimeout(() => {
+      raviSession._iceRestartTimeout = null;
+      // If the ICE connection was never really interrupted (e.g. the "online" event fired while
+      // we were still connected) and the server didn't restart ICE, there's nothing to recover from.
+      const iceConnectionState = raviSession._raviImplementation._getIceConnectionState();
+      if (iceConnectionState === RaviSessionStates.CONNECTED || iceConnectionState === RaviSessionStates.COMPLETED) {
+        RaviUtils.log("ICE restart timed out, but the ICE connection is " + iceConnectionState, "RaviSession", this._logContext);
+        return;
+      }
+      let errorMessage = "ICE restart timed out after " + raviSession._iceRestartTimeoutMS + " ms";
+      RaviUtils.log(errorMessage, "RaviSession", this._logContext);
+      raviSession._handleStateChange({ reason: errorMessage }, RaviSessionStates.FAILED);
+    }, this._iceRestartTimeoutMS);
+    return true;
+  }
+
+  /**
+   * Tell the session whether its server supports ICE restarts, i.e. whether it answers a `renegotiate`
+   * signaling message with the `iceRestart` flag with an ICE restart offer. Servers that don't support
+   * them ignore the flag, so restartIce() does nothing until this is called with `true`; each
+   * openRAVISession() starts out assuming that they aren't supported.
+   *
+   * @param {boolean} supported Whether the server supports ICE restarts
+   */
+  setIceRestartSupported(supported: boolean) {
+    this._iceRestartSupported = supported;
+  }
+
+  /**
+   * Called when the browser reports that the network is back online, which usually means that
+   * the network has changed and that the current ICE candidate pair won't work for much longer.
+   * @private
+   */
+  _handleNetworkOnline(event: any) {
+    if (this._state === RaviSessionStates.CONNECTED || this._state === RaviSessionStates.COMPLETED) {
+      this.restartIce("the network came back online");
+    }
+  }
+
+  /**
+   * Stop any ICE restart in progress, and stop listening for network changes.
+   * @private
+   */
+  _stopIceRestarts() {
+    if (this._iceRestartTimeout) {
+      clearTimeout(this._iceRestartTimeout);
+      this._iceRestartTimeout = null;
+    }
+    if (typeof self !== 'undefined' && typeof self.removeEventListener === 'function') {
+      self.removeEventListener('online', this._networkOnlineHandler);
     }
   }
 
@@ -420,6 +573,10 @@ export class RaviSession {
   _handleStateChange(event: any = {}, state: RaviSessionStates) {
     event["state"] = state;
 
+    if (state === RaviSessionStates.CLOSED || state === RaviSessionStates.FAILED) {
+      this._stopIceRestarts();
+    }
+
     // Always try to fulfill any open promises, even if the state hasn't changed
     this._fulfillPromises(event, state);
 
@@ -427,7 +584,7 @@ export class RaviSession {
     if (state !== this._state) {
         this._state = state;
         event["state"] = state;
-        RaviUtils.log("_handleStateChange: " + RaviUtils.safelyPrintable(event), "RaviSession");
+        RaviUtils.log("_handleStateChange: " + RaviUtils.safelyPrintable(event), "RaviSession", this._logContext);
         this._stateChangeHandlers.forEach(function(handler) {
           if (handler) {
             handler(event);
@@ -439,13 +596,14 @@ export class RaviSession {
    /**
    * Callback for listening to stats
    * @callback RaviSession~statsObserverCallback
-   * @param {Object} stats An object that will contain information
-   * about the stats recorded
+   * @param {Array} stats The reports of the new sample, filtered with STATS_WATCHER_FILTER
+   * @param {Array} prevStats The reports of the previous sample
    */
   /**
-   * Add a handler that will be used to listen for new stats generated.
+   * Add a handler that will be used to listen for new stats generated, once per second.
    * These are stored in a Set of Functions; therefore, a given function
    * can only exist once in this Set.
+   * (See subscribeToStats() for typed stats with a configurable interval and fields.)
    * 
    * @param {RaviSession~statsObserverCallback} handler A callback handler that should handle a state change event
    * @returns {boolean} Whether or not the add succeeded
@@ -464,170 +622,35 @@ export class RaviSession {
   removeStatsObserver(observer: Function) {
     return this._raviImplementation._removeStatsObserver(observer);
   }
+
+  /**
+   * Start collecting WebRTC stats for a new, independent subscriber. Stats are collected while
+   * the session is connected; the subscription survives reconnections until it's stopped.
+   *
+   * @param {WebRTCStatsCallback} callback Called with each WebRTCStatsSample
+   * @param {WebRTCStatsSubscriptionConfig} config The sampling interval and the fields to collect
+   * @returns {WebRTCStatsSubscriptionHandle} A handle that stops the subscription
+   */
+  subscribeToStats(callback: WebRTCStatsCallback, config: WebRTCStatsSubscriptionConfig = {}): WebRTCStatsSubscriptionHandle {
+    return this._raviImplementation._subscribeToStats(callback, config);
+  }
   
 } // End of the RaviSession class
 
 /*************************************************************************** */
- /**
-  * @internal
- * Constants used as the default filter for the stats collected in the RaviStatsWatcher
- */
-export const STATS_WATCHER_FILTER = new Map([
-  ["remote-inbound-rtp", ["id", "type", "timestamp", "roundTripTime", "jitter"] ],
-  ["inbound-rtp", ["id", "type", "timestamp", "jitterBufferDelay", "jitterBufferEmittedCount", "bytesReceived"]]
-]);
-
 /**
  * @internal
- * StatsWatcher is the object responsible for calling getStats from the
- * RTCPeerConnection at regular intervals.
- * The captured metrics are filtered and passed on to the statsObserver(s).
- * The filter is a dictionary of the report type and fields.
- * Current default value is defined in STATS_WATCHER_FILTER.
- * StatsObserver is a callback function that receives 2 parameters, the current record and the previous record.
- * Several StatsObserver callbacks can be added/removed by user code through the corresponding methods of the object.
- * these methods are exposed publically on the RaviSession.
- * @private
+ * The fields collected for the observers added with addStatsObserver(), keyed by report type.
+ * (Subscribers added with subscribeToStats() select their own fields.)
  */
-class RaviWebRTCStatsWatcher {
-  _raviImplementation: RaviWebRTCImplementation;
-  _observers: Set<Function>;
-  _filter: Map<string, Array<any>>;
-  _interval: number;
-  _prevStats: Array<any>;
-
-  
-  /**
-   * "Class" variables to be aware of:
-   * this._observers is the set of observer callbacks registered by user code
-   * this._interval is the interval ticking the getStats call
-   */
-
-  /**
-   * Create a new RaviStatsWatcher
-   * @param {RaviWebRTCImplementation} webRTCImplementation The RaviWebRTCImplementation being watched
-   * @constructor
-   */
-  constructor(webRTCImplementation: RaviWebRTCImplementation) {
-    RaviUtils.log("constructor", "RaviStatsWatcher");
-    this._raviImplementation = webRTCImplementation;
-    this._observers = new Set();
-    this._filter = STATS_WATCHER_FILTER;
-    this._interval = 0;
-    this._prevStats = []; 
-  }
-
-  /**
-   * Stops the watcher
-   */
-  stop() {
-    if (this._interval) {
-      clearInterval(this._interval);
-      this._interval = 0;
-    }
-  }
-
-  /**
-   * Add an observer that will be used to listen for new stats generated.
-   * These are stored in a Set of Functions; therefore, a given function
-   * can only exist once in this Set.
-   * 
-   * statsObserverCallback function receives 2 parameters, the current record and the previous record.
-   * function(newStats, prevStats)
-   * the Stats parameter is an Array of objects, a filtered down version of the dictionnaries returned by 
-   * RTCPeerConnection.getStats
-   * 
-   * @param {RaviStatsWatcher~statsObserverCallback} observer A callback which will receive the stats samples
-   * @returns {boolean} Whether or not the add succeeded
-   */
-  addObserver(observer: Function) {
-    try {
-      this._observers.add(observer);
-      this._onObserverChange();
-      return true;
-    } catch (err) {
-      RaviUtils.err("Error adding a stats observer: " +
-        err.message, "RaviStatsWatcher");
-      return false;
-    }
-    return false;
-  }
-
-  /**
-   * Remove an observer so that it stops listening for stats updates.
-   * 
-   * @param {RaviSession~statsObserverCallback} observer A callback to be removed from the set
-   * @returns {boolean} Whether or not the removal was successful (i.e. did not throw an error -- note that this does
-   * NOT indicate whether or not the handler was in the set in the first place)
-   */
-  removeObserver(observer: Function) {
-    try {
-      this._observers.delete(observer);
-      this._onObserverChange();
-      return true;
-    } catch (err) {
-      RaviUtils.err("Error removing a stats observer handler: " +
-        err.message, "RaviSession");
-      return false;
-    }
-    return false;
-  }
-
-  
-  // Whenever observer(s) are added or remove,
-  // let's make sure the watcher is running if there is any observer.
-  // and let's turn off the collection of stats if the set of observers is empty.
-  _onObserverChange() {
-    const INTERVAL = 1000;
-
-    this._prevStats = [];
-    // some observers, then make sure we run
-    if (this._observers.size > 0) {
-      if (!this._interval) {
-        setInterval(async (handler: any, timeout: any) => {
-          const stats = await this._raviImplementation._getStats();
-          
-          let filteredStats:any = [];
-          if (stats) {
-            stats.forEach((report: any) => {
-              // Filter on the report type
-              if (this._filter.has(report.type)) {
-                // selected fields must be a valid array of fields:
-                let selectedFields = this._filter.get(report.type);
-                
-                // Then within the report type, pick on the wanted fields
-                let filteredReport: any = {};
-                selectedFields.forEach(key => {
-                    filteredReport[key] = report[key];
-                });
-
-                // Add the filtered report found in the result selection
-                filteredStats.push(filteredReport);
-              }
-            });
-          }
-          
-          // Stats have been collected, now let's broadcast
-          if (filteredStats.length) {
-            this._observers.forEach ((observer)=>{
-              observer(filteredStats, this._prevStats);
-            });
-          }
-
-          // record the produced stats as the most recent one
-          this._prevStats = filteredStats;
-        }, INTERVAL );
-      }
-    } else {
-      // no observers, make sure we are stopped
-      if (this._interval) {
-        clearInterval(this._interval);
-        this._interval = 0;
-      }
-    }
-  }
-
-}
+export const STATS_WATCHER_FILTER = new Map([
+  ["remote-inbound-rtp", ["id", "type", "timestamp", "roundTripTime", "jitter", "fractionLost", "packetsLost", "totalRoundTripTime"] ],
+  ["inbound-rtp", ["id", "type", "timestamp", "jitterBufferDelay", "jitterBufferEmittedCount", "bytesReceived", "packetsLost", "packetsReceived", "jitter"]],
+  ["outbound-rtp", ["id", "type", "timestamp", "retransmittedPacketsSent", "packetsSent"]],
+  ["candidate-pair", ["id", "type", "writable", "state", "nominated", "localCandidateId", "remoteCandidateId"]],
+  ["remote-candidate", ["id", "type", "address", "ip", "candidateType", "protocol"]],
+  ["local-candidate", ["id", "type", "address", "ip", "candidateType", "protocol"]]
+]);
 
 /*************************************************************************** */
 
@@ -692,8 +715,11 @@ let peerConnectionConfig = {
  */
 class RaviWebRTCImplementation {
   _raviSession: RaviSession;
+  _logContext: any;
   _negotiator: any;
   _statsWatcher: RaviWebRTCStatsWatcher;
+  // The subscriptions that deliver stats to the observers added with _addStatsObserver()
+  _statsObservers: Map<Function, WebRTCStatsSubscriptionHandle>;
   _rtcConnection: typeof crossPlatformRTCPeerConnection;
   _raviAudioSenders: any;
   _raviVideoSenders: any;
@@ -705,6 +731,9 @@ class RaviWebRTCImplementation {
   _audioInputStream: MediaStream;
   _videoInputStream: MediaStream;
   _shortCircuitHandler: Function;
+  // Remote ICE candidates can arrive before we have an RTC connection with
+  // a remote description to add them to; keep them until we do.
+  _pendingRemoteIceCandidates: Array<any>;
 
   /**
    * "Class" variables to be aware of:
@@ -720,12 +749,15 @@ class RaviWebRTCImplementation {
    * @constructor
    */
   constructor(raviSession: RaviSession) {
-    RaviUtils.log("constructor", "RaviWebRTCImplementation");
+    this._logContext = raviSession._logContext;
+    RaviUtils.log("constructor", "RaviWebRTCImplementation", this._logContext);
     this._raviSession = raviSession;
     this._negotiator = this._setupConnection.bind(this);
-    this._statsWatcher = new RaviWebRTCStatsWatcher(this);
+    this._statsWatcher = new RaviWebRTCStatsWatcher(() => this._getStats(), this._logContext);
+    this._statsObservers = new Map();
     this._raviAudioSenders = [];
     this._raviVideoSenders = [];
+    this._pendingRemoteIceCandidates = [];
   }
   
   /**
@@ -761,10 +793,10 @@ class RaviWebRTCImplementation {
     // to see why we're listening on iceconnectionstatechange instead of peerconnectionstatechange
     rtcConnection.addEventListener('iceconnectionstatechange', function(event: any) { 
       if (rtcConnection.iceConnectionState === "connected" || rtcConnection.iceConnectionState == "completed") {
-        RaviUtils.log("Session has fully connected; removing short-circuit handler", "RaviWebRTCImplementation");
+        RaviUtils.log("Session has fully connected; removing short-circuit handler", "RaviWebRTCImplementation", sessionImplementation._logContext);
         sessionImplementation._signalingConnection.removeStateChangeHandler(sessionImplementation._shortCircuitHandler);
       }
-      raviSession._handleStateChange(event, rtcConnection.iceConnectionState); 
+      raviSession._handleIceConnectionStateChange(event, rtcConnection.iceConnectionState); 
     });
 
     // Similiarly, listen at the RaviSession level for track and data channel events
@@ -810,7 +842,7 @@ class RaviWebRTCImplementation {
     if (stream) {
       this._audioInputStream = stream;
       if (! rtcConnection) {
-        RaviUtils.log("Setting audio input stream without available RTC connection; will store it until ready", "RaviWebRTCImplementation");
+        RaviUtils.log("Setting audio input stream without available RTC connection; will store it until ready", "RaviWebRTCImplementation", this._logContext);
         return true;
       }
 
@@ -832,12 +864,12 @@ class RaviWebRTCImplementation {
         // but on the plus side, does not trigger a renegotiation. The latency
         // tends to dissipate over time.)
         if (i < numNewTracks) {
-          RaviUtils.log("Replacing audio track #" + i + "  in rtcConnection", "RaviWebRTCImplementation");
+          RaviUtils.log("Replacing audio track #" + i + "  in rtcConnection", "RaviWebRTCImplementation", this._logContext);
           currentSenders[i].replaceTrack(newAudioTracks[i]);
         } else {
           // If there are more tracks in the old stream than
           // in the new one, set the extras to null 
-          RaviUtils.log("Setting audio sender #" + i + " to null", "RaviWebRTCImplementation");
+          RaviUtils.log("Setting audio sender #" + i + " to null", "RaviWebRTCImplementation", this._logContext);
           currentSenders[i].replaceTrack(null);
         }
       }
@@ -845,7 +877,7 @@ class RaviWebRTCImplementation {
       // If there are more tracks in the new stream then
       // in the old, add them
       for (i; i < numNewTracks; i++) {
-        RaviUtils.log("Adding local audio track #" + i + " to rtcConnection", "RaviWebRTCImplementation");
+        RaviUtils.log("Adding local audio track #" + i + " to rtcConnection", "RaviWebRTCImplementation", this._logContext);
         currentSenders.push(rtcConnection.addTrack(newAudioTracks[i], stream));
         // We expect the 'negotiationneeded' event to fire
       }
@@ -856,7 +888,7 @@ class RaviWebRTCImplementation {
         // simply set all the existing senders to null track.
         let i=0;
         for (i; i < currentSenders.length; i++) {
-          RaviUtils.log("Setting audio sender #" + i + " to null", "RaviWebRTCImplementation");
+          RaviUtils.log("Setting audio sender #" + i + " to null", "RaviWebRTCImplementation", this._logContext);
           currentSenders[i].replaceTrack(null);
         }
     }
@@ -871,7 +903,7 @@ class RaviWebRTCImplementation {
     if (stream) {
       this._videoInputStream = stream;
       if (! rtcConnection) {
-        RaviUtils.log("Setting video input stream without available RTC connection; will store it until ready", "RaviWebRTCImplementation");
+        RaviUtils.log("Setting video input stream without available RTC connection; will store it until ready", "RaviWebRTCImplementation", this._logContext);
         return true;
       }
 
@@ -889,17 +921,17 @@ class RaviWebRTCImplementation {
       if (numNewTracks > 0) {
         // If current video sender exists already, just replace track
         if (currentSenders.length > 0) {
-          RaviUtils.log("Replacing video track #0 in rtcConnection", "RaviWebRTCImplementation");
+          RaviUtils.log("Replacing video track #0 in rtcConnection", "RaviWebRTCImplementation", this._logContext);
           currentSenders[0].replaceTrack(newVideoTracks[0]);
         } else {
           // else just add the new track to the PeerConnection.
-          RaviUtils.log("Adding video track #0 to rtcConnection", "RaviWebRTCImplementation");
+          RaviUtils.log("Adding video track #0 to rtcConnection", "RaviWebRTCImplementation", this._logContext);
           currentSenders.push(rtcConnection.addTrack(newVideoTracks[0]));
           // We expect the 'negotiationneeded' event to fire
         }
         retval = true;
       } else {
-        RaviUtils.log("Assigned video stream doesn't contain vidoe track", "RaviWebRTCImplementation");
+        RaviUtils.log("Assigned video stream doesn't contain vidoe track", "RaviWebRTCImplementation", this._logContext);
       }             
     } else {
       // the stream assigned is null meaning we want to kill any input video stream
@@ -908,7 +940,7 @@ class RaviWebRTCImplementation {
       // simply set all the existing senders to null track.
       let i=0;
       for (i; i < currentSenders.length; i++) {
-        RaviUtils.log("Setting video sender #" + i + " to null", "RaviWebRTCImplementation");
+        RaviUtils.log("Setting video sender #" + i + " to null", "RaviWebRTCImplementation", this._logContext);
         currentSenders[i].replaceTrack(null);
       }
     }
@@ -924,13 +956,13 @@ class RaviWebRTCImplementation {
    * @protected
    */
   _open(params: WebRTCSessionParams, customStunAndTurn: CustomSTUNandTURNConfig) {
-    RaviUtils.log("Attempting to open connection...", "RaviWebRTCImplementation");
+    RaviUtils.log("Attempting to open connection...", "RaviWebRTCImplementation", this._logContext);
     this._customStunAndTurn = customStunAndTurn;
     if (this._rtcConnection
         && (this._rtcConnection.connectionState == 'connecting'
             || this._rtcConnection.connectionState == 'connected'))
     {
-      RaviUtils.log("We already have a connection in progress. Will not attempt a new one.", "RaviWebRTCImplementation");
+      RaviUtils.log("We already have a connection in progress. Will not attempt a new one.", "RaviWebRTCImplementation", this._logContext);
       // Trigger state change handler on the owning session to finalize any 
       // residual Promises
       this._raviSession._handleStateChange({"state":this._rtcConnection.connectionState}, this._rtcConnection.connectionState); 
@@ -982,23 +1014,23 @@ class RaviWebRTCImplementation {
     const raviSession = this._raviSession;
     switch(state) {
       case RaviSignalingStates.CLOSED:
-        RaviUtils.log("Signaling state closed before session was established; closing RaviSession", "RaviWebRTCImplementation");
+        RaviUtils.log("Signaling state closed before session was established; closing RaviSession", "RaviWebRTCImplementation", this._logContext);
         raviSession._handleStateChange(event, RaviSessionStates.CLOSED);
         // Call _close to clean up after ourselves
         this._close();
         break;
       case RaviSignalingStates.ERROR:
-        RaviUtils.log("Signaling state errored out before session was established; closing RaviSession", "RaviWebRTCImplementation");
+        RaviUtils.log("Signaling state errored out before session was established; closing RaviSession", "RaviWebRTCImplementation", this._logContext);
         raviSession._handleStateChange(event, RaviSessionStates.FAILED);
         this._close();
         break;
       case RaviSignalingStates.UNAVAILABLE:
-        RaviUtils.log("Signaling state reached 'unavailable' before session was established; closing RaviSession", "RaviWebRTCImplementation");
+        RaviUtils.log("Signaling state reached 'unavailable' before session was established; closing RaviSession", "RaviWebRTCImplementation", this._logContext);
         raviSession._handleStateChange(event, RaviSessionStates.FAILED);
         this._close();
         break;
       default:
-        RaviUtils.log("Signaling state has changed during opening of RAVI session, but is an OK change. New state: " + state, "RaviWebRTCImplementation");
+        RaviUtils.log("Signaling state has changed during opening of RAVI session, but is an OK change. New state: " + state, "RaviWebRTCImplementation", this._logContext);
     }
   }
   
@@ -1015,9 +1047,10 @@ class RaviWebRTCImplementation {
    * @protected
    */
   _close() {
-    this._statsWatcher.stop();
+    // Stats subscriptions outlive the connection, but deltas shouldn't span connections
+    this._statsWatcher.reset();
     const raviSession = this._raviSession;
-    RaviUtils.log("closing", "RaviWebRTCImplementation");
+    RaviUtils.log("closing", "RaviWebRTCImplementation", this._logContext);
 
     if (this._rtcConnection) {
       this._rtcConnection.close();    
@@ -1034,6 +1067,7 @@ class RaviWebRTCImplementation {
     // _rtcConnection will be reinitialized if/when it's needed again, next time
     // a connect is attemped and an sdp offer arrives.
     this._rtcConnection = null;
+    this._pendingRemoteIceCandidates = [];
 
     // Make absolutely sure the owning session knows we've closed
     raviSession._handleStateChange({}, RaviSessionStates.CLOSED);
@@ -1046,20 +1080,81 @@ class RaviWebRTCImplementation {
    */
   _doOnicecandidate(event: any) {
     if (event.candidate && event.candidate != "") {
-      RaviUtils.log("Sending local ICE candidate: " + JSON.stringify(event.candidate), "RaviWebRTCImplementation");
+      RaviUtils.log("Sending local ICE candidate: " + JSON.stringify(event.candidate), "RaviWebRTCImplementation", this._logContext);
       this._signalingConnection.send(JSON.stringify({'ice': event.candidate, 'uuid': this._raviSession.getUUID()}));
     } else {
-      RaviUtils.log("End of local ICE candidates", "RaviSession");
+      RaviUtils.log("End of local ICE candidates", "RaviSession", this._logContext);
     }
   }
   
+  /**
+   * Ask the server to restart ICE. In RAVI, the webrtc negotiation is always initiated from the
+   * server side, so the server restarts ICE by sending a new offer with new ICE credentials,
+   * which _setupConnection() answers as usual.
+   *
+   * This method is called by the owning RaviSession.
+   * @protected
+   * @returns {boolean} `false` if there's no RTC connection, or if the signaling connection isn't open
+   */
+  _requestIceRestart() {
+    if (!this._rtcConnection || !this._signalingConnection || this._signalingConnection.getState() !== RaviSignalingStates.OPEN) {
+      return false;
+    }
+    const msg = {
+      renegotiate: "please",
+      iceRestart: true,
+      uuid: this._raviSession.getUUID()
+    };
+    this._signalingConnection.send(JSON.stringify(msg));
+    return true;
+  }
+
+  /**
+   * @protected
+   * @returns {string} The ICE connection state of the RTC connection, or "closed" if there isn't one
+   */
+  _getIceConnectionState() {
+    return this._rtcConnection ? this._rtcConnection.iceConnectionState : RaviSessionStates.CLOSED;
+  }
+
+  /**
+   * Add a remote ICE candidate to the RTC connection.
+   *
+   * @private
+   */
+  _addRemoteIceCandidate(candidate: any) {
+    this._rtcConnection.addIceCandidate(candidate)
+    .then(() => {
+      RaviUtils.log("Added remote candidate", "RaviWebRTCImplementation", this._logContext);
+    })
+    .catch((e: any) => {
+      RaviUtils.err("Error attempting to add remote ICE candidate: " + e.message, "RaviWebRTCImplementation", this._logContext);
+    });
+  }
+
+  /**
+   * Add the remote ICE candidates that arrived before the remote description was set.
+   *
+   * @private
+   */
+  _addPendingRemoteIceCandidates() {
+    const pendingCandidates = this._pendingRemoteIceCandidates;
+    this._pendingRemoteIceCandidates = [];
+    if (pendingCandidates.length > 0) {
+      RaviUtils.log("Adding " + pendingCandidates.length + " buffered remote ICE candidate(s)", "RaviWebRTCImplementation", this._logContext);
+    }
+    pendingCandidates.forEach((candidate: any) => {
+      this._addRemoteIceCandidate(candidate);
+    });
+  }
+
   /**
    * Handle renegotiation when needed.
    * 
    * @private
    */
   _doOnnegotiationneeded(event: any) {
-    RaviUtils.log("need renegotiation please", "RaviWebRTCImplementation");
+    RaviUtils.log("need renegotiation please", "RaviWebRTCImplementation", this._logContext);
     const msg = {
       renegotiate: "please",
       uuid: this._raviSession.getUUID()
@@ -1080,7 +1175,7 @@ class RaviWebRTCImplementation {
   _doOnsignalingstatechanged(event: any) {
     if (this._rtcConnection) {
       // simple logging for now
-      RaviUtils.log("SignalingState changed: " + this._rtcConnection.signalingState, "RaviWebRTCImplementation");
+      RaviUtils.log("SignalingState changed: " + this._rtcConnection.signalingState, "RaviWebRTCImplementation", this._logContext);
     }
   }
 
@@ -1124,16 +1219,16 @@ class RaviWebRTCImplementation {
     
     // Just in case, make sure we have everything we need
     if (!raviSession || !signalingConnection) {
-      RaviUtils.err("Missing one of raviSession or signalingConnection! Can't set up connection.", "RaviWebRTCImplementation");
+      RaviUtils.err("Missing one of raviSession or signalingConnection! Can't set up connection.", "RaviWebRTCImplementation", this._logContext);
       return;
     }
     
     // Make sure we have a message, and that it's for this particular RAVI session
     if (event && event.data) {
-      RaviUtils.log('Message from server: ' + event.data, "RaviWebRTCImplementation");
+      RaviUtils.log('Message from server: ' + event.data, "RaviWebRTCImplementation", this._logContext);
       fullMessage = JSON.parse(event.data);
     } else {
-      RaviUtils.log('No message received by onMessage handler', "RaviWebRTCImplementation");
+      RaviUtils.log('No message received by onMessage handler', "RaviWebRTCImplementation", this._logContext);
       return; // No message
     }
     signal = fullMessage[raviSession.getUUID()];
@@ -1141,7 +1236,7 @@ class RaviWebRTCImplementation {
 
     // We have a signal; check first to see if it's an SDP
     if (signal.sdp) {
-      RaviUtils.log("Received sdp type=" + signal.type, "RaviWebRTCImplementation");
+      RaviUtils.log("Received sdp type=" + signal.type, "RaviWebRTCImplementation", this._logContext);
 
       // use user-specified TURN config if found
       if (sessionImplementation._customStunAndTurn) {
@@ -1200,14 +1295,16 @@ class RaviWebRTCImplementation {
       // Set the description on the RTC connection, and send and handle the various SDPs
       rtcConnection.setRemoteDescription(desc)
       .then(function() {
+        // Now that there's a remote description, the candidates that arrived early can be added
+        sessionImplementation._addPendingRemoteIceCandidates();
         // Create an answer
        return rtcConnection.createAnswer();
       })
       .then(function(answer: any) {
         // Force stereo on the downstream stream by munging the SDP
         answer.sdp = sessionImplementation._forceStereoDown(answer.sdp); 
-        RaviUtils.log("Answer:", "RaviWebRTCImplementation");
-        RaviUtils.log(answer, "RaviWebRTCImplementation");
+        RaviUtils.log("Answer:", "RaviWebRTCImplementation", sessionImplementation._logContext);
+        RaviUtils.log(answer, "RaviWebRTCImplementation", sessionImplementation._logContext);
         // set local description
         return rtcConnection.setLocalDescription(answer);
       })
@@ -1218,28 +1315,23 @@ class RaviWebRTCImplementation {
           uuid: raviSession.getUUID()
         };
         const desc = JSON.stringify(msg);
-        RaviUtils.log("Sending answer to server", "RaviWebRTCImplementation");
+        RaviUtils.log("Sending answer to server", "RaviWebRTCImplementation", sessionImplementation._logContext);
         // Send the final result back to the server
         signalingConnection.send(desc);
       });
 
     } else if (signal.ice) {
-      RaviUtils.log("Received remote ICE candidate: " + JSON.stringify(signal.ice), "RaviWebRTCImplementation");
-      if (this._rtcConnection) {
-        this._rtcConnection.addIceCandidate(signal.ice)
-        .then(function() {
-          RaviUtils.log("Added remote candidate", "RaviWebRTCImplementation");
-        })
-        .catch(function(e: any) {
-          RaviUtils.err("Error attempting to add remote ICE candidate: " + e.message, "RaviWebRTCImplementation");
-        });
+      RaviUtils.log("Received remote ICE candidate: " + JSON.stringify(signal.ice), "RaviWebRTCImplementation", this._logContext);
+      if (this._rtcConnection && this._rtcConnection.remoteDescription) {
+        this._addRemoteIceCandidate(signal.ice);
       } else {
-        // TODO: Keep track of ice candidates until we have an rtcConnection
-        RaviUtils.log("Ignore ice candidate until we have an rtcConnection, ice='" + JSON.stringify(signal) + "'", "RaviWebRTCImplementation");
+        // Candidates can't be added until the offer has been set as the remote description
+        RaviUtils.log("Buffering ice candidate until we have an rtcConnection with a remote description", "RaviWebRTCImplementation", this._logContext);
+        this._pendingRemoteIceCandidates.push(signal.ice);
       }
     } else {
       // Some other handler's problem
-      RaviUtils.log("Unknown message " + JSON.stringify(signal), "RaviWebRTCImplementation");
+      RaviUtils.log("Unknown message " + JSON.stringify(signal), "RaviWebRTCImplementation", this._logContext);
     }
   }
   
@@ -1253,7 +1345,23 @@ class RaviWebRTCImplementation {
    * @returns {boolean} Whether or not the add succeeded
    */
   _addStatsObserver(observer: Function) {
-    return this._statsWatcher.addObserver(observer);
+    if (this._statsObservers.has(observer)) {
+      return true;
+    }
+    try {
+      let fields: { [reportType: string]: Array<string> } = {};
+      STATS_WATCHER_FILTER.forEach((selectedFields, reportType) => {
+        fields[reportType] = selectedFields;
+      });
+      const handle = this._statsWatcher.subscribe((sample) => {
+        observer(sample.reports, sample.previousReports);
+      }, { fields });
+      this._statsObservers.set(observer, handle);
+      return true;
+    } catch (err) {
+      RaviUtils.err("Error adding a stats observer: " + err.message, "RaviWebRTCImplementation", this._logContext);
+      return false;
+    }
   }
 
   /**
@@ -1265,7 +1373,24 @@ class RaviWebRTCImplementation {
    * NOT indicate whether or not the handler was in the set in the first place)
    */
   _removeStatsObserver(observer: Function) {
-    return this._statsWatcher.removeObserver(observer);
+    const handle = this._statsObservers.get(observer);
+    if (handle) {
+      handle.unsubscribe();
+      this._statsObservers.delete(observer);
+    }
+    return true;
+  }
+
+  /**
+   * Add an independent stats subscriber.
+   *
+   * @private
+   * @param {WebRTCStatsCallback} callback Called with each WebRTCStatsSample
+   * @param {WebRTCStatsSubscriptionConfig} config The sampling interval and the fields to collect
+   * @returns {WebRTCStatsSubscriptionHandle} A handle that stops the subscription
+   */
+  _subscribeToStats(callback: WebRTCStatsCallback, config: WebRTCStatsSubscriptionConfig) {
+    return this._statsWatcher.subscribe(callback, config);
   }
 
   /**
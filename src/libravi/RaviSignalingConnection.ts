@@ -36,6 +36,7 @@ export class RaviSignalingConnection {
    *
    * this._statechangeHandlers   // A list of handlers to call when the connection state changes
    * this._messageHandlers       // A list of handlers to call when a message is received
+   * this._outgoingMessageHandlers // A list of handlers to call when a message is sent
    *
    * this._signalingImplementation   // The implementation of signaling to use
    *
@@ -43,11 +44,15 @@ export class RaviSignalingConnection {
    *
    * _resolveOpen, _rejectOpen, _resolveClose, and _rejectClose: Used for resolving the Promises
    *     made by the open and close functions, which get handled outside of those functions themselves
+   *
+   * this._logContext            // Passed along with everything this connection logs; see RaviUtils.setLogHandler()
    */
   _stateChangeHandlers: Set<Function>;
   _messageHandlers: Set<Function>;
+  _outgoingMessageHandlers: Set<Function>;
   _state: RaviSignalingStates;
   _signalingImplementation: RaviSignalingWebSocketImplementation;
+  _logContext: any;
 
   _resolveOpen: Function; _rejectOpen: Function;
   _resolveClose: Function; _rejectClose: Function;
@@ -57,14 +62,19 @@ export class RaviSignalingConnection {
    * Defaults the handlers
    * and initializes the state to RaviSignalingStates.CLOSED.
    *
+   * @param {any} logContext Passed to the log handler along with everything
+   * this connection logs (see RaviUtils.setLogHandler()), e.g. to tell the
+   * messages of several connections apart
    * @constructor
    */
-  constructor() {
-    RaviUtils.log("Constructor", "RaviSignalingConnection");
+  constructor(logContext: any = undefined) {
+    this._logContext = logContext;
+    RaviUtils.log("Constructor", "RaviSignalingConnection", this._logContext);
     
     // Initialize the list of handlers
     this._stateChangeHandlers = new Set();
     this._messageHandlers = new Set();
+    this._outgoingMessageHandlers = new Set();
     
     // Initialize the state
     this._state = RaviSignalingStates.CLOSED;
@@ -109,7 +119,7 @@ export class RaviSignalingConnection {
       return true;
     } catch (err) {
       RaviUtils.err("Error adding a state change handler: " +
-        err.message, "RaviSignalingConnection");
+        err.message, "RaviSignalingConnection", this._logContext);
       return false;
     }
     return false;
@@ -128,7 +138,7 @@ export class RaviSignalingConnection {
       return true;
     } catch (err) {
       RaviUtils.err("Error removing a state change handler: " +
-        err.message, "RaviSignalingConnection");
+        err.message, "RaviSignalingConnection", this._logContext);
       return false;
     }
     return false;
@@ -155,7 +165,7 @@ export class RaviSignalingConnection {
       return true;
     } catch (err) {
       RaviUtils.err("Error adding a message handler: " +
-        err.message, "RaviSignalingConnection");
+        err.message, "RaviSignalingConnection", this._logContext);
       return false;
     }
     return false;
@@ -174,12 +184,48 @@ export class RaviSignalingConnection {
       return true;
     } catch (err) {
       RaviUtils.err("Error removing a state change handler: " +
-        err.message, "RaviSignalingConnection");
+        err.message, "RaviSignalingConnection", this._logContext);
       return false;
     }
     return false;
   }
 
+  /**
+   * Add a handler to the set of outgoing message handlers.
+   * All handlers in this set will be triggered with a copy of each
+   * message just before it is sent to the server.
+   *
+   * @param {RaviSignalingConnection~messageCallback} handler A callback handler that should handle a message sent event
+   * @returns {boolean} Whether or not the add succeeded
+   */
+  addOutgoingMessageHandler(messageHandler: Function) {
+    try {
+      this._outgoingMessageHandlers.add(messageHandler);
+      return true;
+    } catch (err) {
+      RaviUtils.err("Error adding an outgoing message handler: " +
+        err.message, "RaviSignalingConnection", this._logContext);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a handler from the set of outgoing message handlers.
+   *
+   * @param {RaviSignalingConnection~messageCallback} handler A callback handler that has been handling a message sent event
+   * @returns {boolean} Whether or not the removal was successful
+   */
+  removeOutgoingMessageHandler(messageHandler: Function) {
+    try {
+      this._outgoingMessageHandlers.delete(messageHandler);
+      return true;
+    } catch (err) {
+      RaviUtils.err("Error removing an outgoing message handler: " +
+        err.message, "RaviSignalingConnection", this._logContext);
+      return false;
+    }
+  }
+
   /**
    * Open a signaling connection to a particular URL. Returns a Promise
    * that will resolve once the RaviSignalingConnection is connected.
@@ -197,7 +243,7 @@ export class RaviSignalingConnection {
       signalingConnection._resolveOpen = resolve;
       signalingConnection._rejectOpen = reject;
       // Start the "opening" process
-      RaviUtils.log("Opening signaling connection to " + URL, "RaviSignalingController");
+      RaviUtils.log("Opening signaling connection to " + URL, "RaviSignalingController", this._logContext);
       let event = {"state":RaviSignalingStates.CONNECTING};
       this._handleStateChange(event, RaviSignalingStates.CONNECTING); 
 
@@ -212,6 +258,11 @@ export class RaviSignalingConnection {
    * @param {string} message The message to send
    */
   send(message: string) {
+    this._outgoingMessageHandlers.forEach(function(handler) {
+      if (handler) {
+        handler(message);
+      }
+    });
     this._signalingImplementation._send(message);
   }
   
@@ -231,7 +282,7 @@ export class RaviSignalingConnection {
       signalingConnection._resolveClose = resolve;
       signalingConnection._rejectClose = reject;
       // Start the "closing" process
-      RaviUtils.log("Closing signaling connection", "RaviSignalingController");
+      RaviUtils.log("Closing signaling connection", "RaviSignalingController", this._logContext);
       let event = {"state":RaviSignalingStates.CLOSING};
       this._handleStateChange(event, RaviSignalingStates.CLOSING); 
 
@@ -253,7 +304,7 @@ export class RaviSignalingConnection {
     if (state !== this._state) {
         this._state = state;
         event["state"] = state;
-        RaviUtils.log("_handleStateChange: " + RaviUtils.safelyPrintable(event), "RaviSignalingConnection");
+        RaviUtils.log("_handleStateChange: " + RaviUtils.safelyPrintable(event), "RaviSignalingConnection", this._logContext);
         this._stateChangeHandlers.forEach(function(handler) {
           if (handler) {
             handler(event);
@@ -271,7 +322,7 @@ export class RaviSignalingConnection {
    */
   _fulfillPromises(event: any = {}, state: RaviSignalingStates) {
     let errorMessage = event.reason || event.message || state;
-    RaviUtils.log("_fulfillPromises: Handling state " + state, "RaviSignalingConnection");
+    RaviUtils.log("_fulfillPromises: Handling state " + state, "RaviSignalingConnection", this._logContext);
     switch(state) {
       case RaviSignalingStates.OPEN:
         if (this._resolveOpen) this._resolveOpen();
@@ -291,7 +342,7 @@ export class RaviSignalingConnection {
         break;
       default:
         // Do nothing for the "in progress" states, like "OPENING" or "CLOSING"
-        RaviUtils.log("_fulfillPromises: Skipping in-progress state " + state, "RaviSignalingConnection");
+        RaviUtils.log("_fulfillPromises: Skipping in-progress state " + state, "RaviSignalingConnection", this._logContext);
     }
   }
   
@@ -299,7 +350,7 @@ export class RaviSignalingConnection {
    * @private
    */
   _handleMessage(message: any) {
-    RaviUtils.log("_doOnmessage: " + RaviUtils.safelyPrintable(message), "RaviSignalingConnection");
+    RaviUtils.log("_doOnmessage: " + RaviUtils.safelyPrintable(message), "RaviSignalingConnection", this._logContext);
     // This is a special case for when the server side is in an "unavailable" state -- it will
     // send back a special JSON packet marking itself as "service-unavailable". Handle this situation
     // explicitly as a custom state. (This is kind of a lot of code for a rare occurrence, but we
@@ -360,6 +411,7 @@ if (typeof self === 'undefined') {
 class RaviSignalingWebSocketImplementation {
   _raviSignalingConnection: RaviSignalingConnection;
   _webSocket: any;
+  _logContext: any;
   
   /**
    * "Class" variables to be aware of:
@@ -373,7 +425,8 @@ class RaviSignalingWebSocketImplementation {
    * @constructor
    */
   constructor(raviSignalingConnection: RaviSignalingConnection) {
-    RaviUtils.log("constructor", "RaviSignalingWebSocketImplementation");
+    this._logContext = raviSignalingConnection._logContext;
+    RaviUtils.log("constructor", "RaviSignalingWebSocketImplementation", this._logContext);
     this._raviSignalingConnection = raviSignalingConnection;
   }
   
@@ -428,7 +481,7 @@ class RaviSignalingWebSocketImplementation {
     if (event && event.code && event.code > 4000) {
       // This "close" event is really an error, because we're
       // returning one of our custom error codes. Treat it as such.
-      RaviUtils.err("_handleStateChange: signaling error code " + event.code + ":  " + event.reason, "RaviSignalingConnection");
+      RaviUtils.err("_handleStateChange: signaling error code " + event.code + ":  " + event.reason, "RaviSignalingConnection", this._logContext);
       this._raviSignalingConnection._handleStateChange(event, RaviSignalingStates.ERROR);
     } else {
       this._raviSignalingConnection._handleStateChange(event, RaviSignalingStates.CLOSED);
@@ -440,7 +493,7 @@ class RaviSignalingWebSocketImplementation {
    */
   _send(message: any) {
     if (this._webSocket && this._webSocket.readyState === crossPlatformWebSocket.OPEN) {
-        RaviUtils.log("Sending message to server: " + message, "RaviSignalingWebSocketImplementation");
+        RaviUtils.log("Sending message to server: " + message, "RaviSignalingWebSocketImplementation", this._logContext);
         this._webSocket.send(message);
     }
   }
@@ -26,14 +26,17 @@ export class RaviStreamController {
   _inputAudioStream: MediaStream;
   _isStereo: boolean;
   _inputVideoStream: MediaStream;
+  _logContext: any;
 
   /**
    * Create a new RAVI stream controller. 
    * Needs access to a RaviCommandController so it can send video-related commands.
+   * @param {any} logContext The log context of the owning RaviSession; see RaviUtils.setLogHandler()
    * @constructor
    */
-  constructor(raviCommandController: RaviCommandController) {
-    RaviUtils.log("constructor", "RaviStreamController");
+  constructor(raviCommandController: RaviCommandController, logContext: any = undefined) {
+    this._logContext = logContext;
+    RaviUtils.log("constructor", "RaviStreamController", this._logContext);
     this._commandController = raviCommandController;
     
     // The audio stream and video stream get set by the RaviSession when the
@@ -42,7 +45,7 @@ export class RaviStreamController {
     this._videoStream = null;
     
     // Default for the video stream state change handler
-    this._onVideoStreamStateChanged = function (state: any) { RaviUtils.log("onvideostreamstatechanged " + state, "RaviStreamController");}
+    this._onVideoStreamStateChanged = (state: any) => { RaviUtils.log("onvideostreamstatechanged " + state, "RaviStreamController", this._logContext);}
     // Default for the input audio stream change handler
     this._onInputAudioChanged = null;
     this._onInputVideoChanged = null;
@@ -239,7 +242,7 @@ export class RaviStreamController {
    * @private
    */
   _stop() {
-    RaviUtils.log("stopping streams", "RaviStreamController");
+    RaviUtils.log("stopping streams", "RaviStreamController", this._logContext);
 
     if (this._videoContainer && this._videoContainer.srcObject) {
       let srcObject = <MediaStream> this._videoContainer.srcObject;
@@ -7,6 +7,11 @@ var DEBUG = true;
  */
 export class RaviUtils {
 
+  /**
+   * If set, log() and err() pass their messages here instead of to
+   * the console. See setLogHandler().
+   */
+  private static _logHandler: (level: string, message: string, classname: string, logContext: any) => string;
 
   /**
    * Simple UUID implementation.
@@ -33,10 +38,14 @@ export class RaviUtils {
    * dispatch this event regardless of whether or not it's in DEBUG mode,
    * because presumably if you're listening for the event it's because you
    * want to get messages.
+   * `logContext` is passed to the log handler as it is; see setLogHandler().
    */
-  static log(message: string, classname: string) {
+  static log(message: string, classname: string, logContext?: any) {
+    if (RaviUtils._logHandler) {
+      message = RaviUtils._logHandler('log', message, classname, logContext) || message;
+    }
     if (typeof classname !== 'undefined') message = classname + ": " + message;
-    if (DEBUG) {
+    if (DEBUG && !RaviUtils._logHandler) {
       console.log(message);
     }
     if (typeof document !== 'undefined' && DEBUG) {
@@ -55,15 +64,38 @@ export class RaviUtils {
    * that message will be in red.
    * This method dispatches an "errlogger" event on the document in case
    * you want to do something else with the message.
+   * `logContext` is passed to the log handler as it is; see setLogHandler().
    */
-  static err(message: string, classname: string) {
+  static err(message: string, classname: string, logContext?: any) {
+    if (RaviUtils._logHandler) {
+      message = RaviUtils._logHandler('err', message, classname, logContext) || message;
+    }
     if (typeof classname !== 'undefined') message = classname + ": " + message;
-    console.log('%c %s', 'color: #FB0A1C', message);
+    if (!RaviUtils._logHandler) {
+      console.log('%c %s', 'color: #FB0A1C', message);
+    }
     if (typeof document !== 'undefined') {
       document.dispatchEvent(new CustomEvent('errlogger', {detail: message}));
     }
   }
 
+  /**
+   * Sends the messages of log() and err() to `handler` instead of
+   * to the console; `level` is "log" or "err". The "logger" and
+   * "errlogger" events are still dispatched. The High Fidelity Audio
+   * Client API sets this so that these messages go through its own
+   * logger. Pass `undefined` to log to the console again.
+   * `logContext` is the context that was passed to the constructor of
+   * the RaviSession or RaviSignalingConnection that the message is
+   * about, so that the messages of several sessions can be told apart;
+   * it is `undefined` for messages that aren't about a session.
+   * If the handler returns a string, that is the message that the events
+   * are dispatched with instead, e.g. with secrets removed.
+   */
+  static setLogHandler(handler: (level: string, message: string, classname: string, logContext: any) => string) {
+    RaviUtils._logHandler = handler;
+  }
+
   /**
    * // Return JSON.stringify(item) if possible, else item
    */
@@ -91,7 +123,8 @@ export class RaviUtils {
   
   /**
    * Toggle the "debug" mode. In debug mode, most everything gets
-   * printed to the JS console. (See also RaviUtils.js)
+   * printed to the JS console, unless a log handler has been set,
+   * in which case the handler decides. (See also RaviUtils.js)
    * connects to the specified WebSocket address.
    * @param {boolean} debug Whether or not to put the logger into debug mode.
    * @static
@@ -0,0 +1,410 @@
+import { RaviUtils } from './RaviUtils';
+
+/**
+ * The fields that every WebRTC stats report has. See https://www.w3.org/TR/webrtc-stats/ for the meaning
+ * of the fields of each report type; only the fields that were selected for a subscription are present.
+ */
+export interface WebRTCStatsReport {
+  id: string;
+  type: string;
+  /**
+   * When the report was generated, in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
+  [field: string]: any;
+}
+
+/**
+ * Stats about the audio received from the server.
+ */
+export interface InboundRTPStatsReport extends WebRTCStatsReport {
+  type: "inbound-rtp";
+  kind?: string;
+  packetsReceived?: number;
+  packetsLost?: number;
+  bytesReceived?: number;
+  /**
+   * In seconds.
+   */
+  jitter?: number;
+  /**
+   * In seconds, summed over `jitterBufferEmittedCount` samples.
+   */
+  jitterBufferDelay?: number;
+  jitterBufferEmittedCount?: number;
+  totalSamplesReceived?: number;
+  concealedSamples?: number;
+  audioLevel?: number;
+}
+
+/**
+ * Stats about the audio sent to the server.
+ */
+export interface OutboundRTPStatsReport extends WebRTCStatsReport {
+  type: "outbound-rtp";
+  kind?: string;
+  packetsSent?: number;
+  bytesSent?: number;
+  retransmittedPacketsSent?: number;
+  retransmittedBytesSent?: number;
+}
+
+/**
+ * Stats about the audio sent to the server, as reported back by the server.
+ */
+export interface RemoteInboundRTPStatsReport extends WebRTCStatsReport {
+  type: "remote-inbound-rtp";
+  kind?: string;
+  packetsLost?: number;
+  /**
+   * The fraction of packets lost since the server's previous report, from 0 to 1.
+   */
+  fractionLost?: number;
+  /**
+   * In seconds.
+   */
+  jitter?: number;
+  /**
+   * In seconds.
+   */
+  roundTripTime?: number;
+  /**
+   * In seconds, summed over `roundTripTimeMeasurements` measurements.
+   */
+  totalRoundTripTime?: number;
+  roundTripTimeMeasurements?: number;
+}
+
+/**
+ * Stats about a pair of local and remote ICE candidates. The pair that is in use is `nominated`.
+ */
+export interface CandidatePairStatsReport extends WebRTCStatsReport {
+  type: "candidate-pair";
+  state?: string;
+  nominated?: boolean;
+  writable?: boolean;
+  localCandidateId?: string;
+  remoteCandidateId?: string;
+  /**
+   * In seconds.
+   */
+  currentRoundTripTime?: number;
+  /**
+   * In seconds, summed over `responsesReceived` responses.
+   */
+  totalRoundTripTime?: number;
+  availableOutgoingBitrate?: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+  requestsSent?: number;
+  responsesReceived?: number;
+}
+
+/**
+ * Stats about a local or remote ICE candidate.
+ */
+export interface CandidateStatsReport extends WebRTCStatsReport {
+  type: "local-candidate" | "remote-candidate";
+  address?: string;
+  ip?: string;
+  port?: number;
+  protocol?: string;
+  candidateType?: string;
+}
+
+/**
+ * The fields to collect, keyed by report type (for example `"inbound-rtp"`). Use `true` to collect every field of a report type.
+ * Reports of types that aren't listed are left out. The `id`, `type` and `timestamp` fields are always collected.
+ */
+export type WebRTCStatsFieldSelection = { [reportType: string]: Array<string> | true };
+
+/**
+ * The fields that are collected when a subscription doesn't select any: every field of the report types that have typed interfaces.
+ */
+export const DEFAULT_WEBRTC_STATS_FIELDS: WebRTCStatsFieldSelection = {
+  "inbound-rtp": true,
+  "outbound-rtp": true,
+  "remote-inbound-rtp": true,
+  "candidate-pair": true
+};
+
+/**
+ * The fields that are totals since the start of the connection, and which are therefore included in {@link WebRTCStatsSample.deltas}.
+ */
+export const WEBRTC_STATS_COUNTER_FIELDS = [
+  "packetsReceived", "packetsLost", "packetsSent", "bytesReceived", "bytesSent",
+  "retransmittedPacketsSent", "retransmittedBytesSent", "jitterBufferDelay", "jitterBufferEmittedCount",
+  "totalSamplesReceived", "concealedSamples", "totalRoundTripTime", "roundTripTimeMeasurements",
+  "requestsSent", "responsesReceived"
+];
+
+/**
+ * Configures a subscription to WebRTC stats.
+ */
+export interface WebRTCStatsSubscriptionConfig {
+  /**
+   * How often to collect stats, in milliseconds. Defaults to 1000 ms; can't be less than 100 ms.
+   */
+  intervalMS?: number;
+  /**
+   * Which fields to collect. Defaults to {@link DEFAULT_WEBRTC_STATS_FIELDS}.
+   */
+  fields?: WebRTCStatsFieldSelection;
+}
+
+/**
+ * The WebRTC stats collected for a subscription at one time.
+ */
+export interface WebRTCStatsSample {
+  /**
+   * When the sample was collected, in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
+  /**
+   * The milliseconds since the previous sample of this subscription, or `undefined` for the first sample.
+   */
+  elapsedMS: number;
+  /**
+   * Every selected report.
+   */
+  reports: Array<WebRTCStatsReport>;
+  /**
+   * The reports of the previous sample of this subscription; empty for the first sample.
+   */
+  previousReports: Array<WebRTCStatsReport>;
+  inboundRTP: Array<InboundRTPStatsReport>;
+  outboundRTP: Array<OutboundRTPStatsReport>;
+  remoteInboundRTP: Array<RemoteInboundRTPStatsReport>;
+  candidatePairs: Array<CandidatePairStatsReport>;
+  /**
+   * For each report that was also in the previous sample, keyed by report `id`: how much each of its selected
+   * counter fields (see {@link WEBRTC_STATS_COUNTER_FIELDS}) has increased since the previous sample.
+   */
+  deltas: { [reportID: string]: { [field: string]: number } };
+}
+
+export type WebRTCStatsCallback = (sample: WebRTCStatsSample) => void;
+
+/**
+ * Returned when subscribing to WebRTC stats.
+ */
+export interface WebRTCStatsSubscriptionHandle {
+  /**
+   * Stops the subscription.
+   * @returns `true` if the subscription was active.
+   */
+  unsubscribe(): boolean;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+const MIN_INTERVAL_MS = 100;
+
+interface WebRTCStatsSubscription {
+  callback: WebRTCStatsCallback;
+  intervalMS: number;
+  fields: WebRTCStatsFieldSelection;
+  interval: ReturnType<typeof setInterval>;
+  previousReports: Array<WebRTCStatsReport>;
+  previousTimestamp: number;
+}
+
+/**
+ * @internal
+ * The RaviWebRTCStatsWatcher calls getStats() on the RTCPeerConnection at regular intervals on behalf
+ * of any number of independent subscribers. Each subscription has its own sampling interval and field
+ * selection, and receives typed samples with the deltas of the counter fields since its previous sample.
+ * Samples are only delivered while getStats() returns some selected reports (i.e. while connected).
+ */
+export class RaviWebRTCStatsWatcher {
+  _getStats: () => Promise<any>;
+  _subscriptions: Set<WebRTCStatsSubscription>;
+  _pendingStats: Promise<any>;
+  _logContext: any;
+
+  /**
+   * Create a new RaviWebRTCStatsWatcher
+   * @param {Function} getStats Returns a Promise for the stats of the RTCPeerConnection being watched
+   * (an RTCStatsReport, or an empty Array if there is no connection)
+   * @param {any} logContext The log context of the owning RaviSession; see RaviUtils.setLogHandler()
+   * @constructor
+   */
+  constructor(getStats: () => Promise<any>, logContext: any = undefined) {
+    this._logContext = logContext;
+    RaviUtils.log("constructor", "RaviWebRTCStatsWatcher", this._logContext);
+    this._getStats = getStats;
+    this._subscriptions = new Set();
+    this._pendingStats = null;
+  }
+
+  /**
+   * Start collecting stats for a new subscriber.
+   *
+   * @param {Function} callback Called with a WebRTCStatsSample every `intervalMS`
+   * @param {WebRTCStatsSubscriptionConfig} config The sampling interval and fields for this subscriber
+   * @returns {WebRTCStatsSubscriptionHandle} A handle that stops the subscription
+   */
+  subscribe(callback: WebRTCStatsCallback, config: WebRTCStatsSubscriptionConfig = {}): WebRTCStatsSubscriptionHandle {
+    let intervalMS = typeof config.intervalMS === "number" ? config.intervalMS : DEFAULT_INTERVAL_MS;
+    if (!(intervalMS >= MIN_INTERVAL_MS)) {
+      RaviUtils.log("Stats interval must be at least " + MIN_INTERVAL_MS + " ms; using " + MIN_INTERVAL_MS + " ms", "RaviWebRTCStatsWatcher", this._logContext);
+      intervalMS = MIN_INTERVAL_MS;
+    }
+    const subscription: WebRTCStatsSubscription = {
+      callback,
+      intervalMS,
+      fields: config.fields || DEFAULT_WEBRTC_STATS_FIELDS,
+      interval: null,
+      previousReports: [],
+      previousTimestamp: undefined
+    };
+    subscription.interval = setInterval(() => {
+      this._sample(subscription);
+    }, intervalMS);
+    this._subscriptions.add(subscription);
+
+    return {
+      unsubscribe: () => {
+        return this._unsubscribe(subscription);
+      }
+    };
+  }
+
+  /**
+   * Forgets the previous sample of every subscription, so that deltas aren't computed
+   * across connections. The subscriptions stay active.
+   */
+  reset() {
+    this._subscriptions.forEach((subscription) => {
+      subscription.previousReports = [];
+      subscription.previousTimestamp = undefined;
+    });
+  }
+
+  /**
+   * Stops every subscription
+   */
+  stop() {
+    this._subscriptions.forEach((subscription) => {
+      this._unsubscribe(subscription);
+    });
+  }
+
+  /**
+   * Picks the selected reports and fields out of the stats returned by getStats().
+   *
+   * @param stats An RTCStatsReport (or anything else with a forEach() over the reports)
+   * @param fields The fields to keep
+   * @returns {Array} The selected reports
+   */
+  static selectReports(stats: any, fields: WebRTCStatsFieldSelection): Array<WebRTCStatsReport> {
+    let selectedReports: Array<WebRTCStatsReport> = [];
+    if (!stats) {
+      return selectedReports;
+    }
+    stats.forEach((report: any) => {
+      if (!report || !fields.hasOwnProperty(report.type)) {
+        return;
+      }
+      const selectedFields = fields[report.type];
+      let selectedReport: WebRTCStatsReport;
+      if (selectedFields === true) {
+        selectedReport = Object.assign({}, report);
+      } else {
+        selectedReport = { id: report.id, type: report.type, timestamp: report.timestamp };
+        selectedFields.forEach((field) => {
+          selectedReport[field] = report[field];
+        });
+      }
+      selectedReports.push(selectedReport);
+    });
+    return selectedReports;
+  }
+
+  /**
+   * Builds a sample from the selected reports and those of the previous sample.
+   */
+  static createSample(reports: Array<WebRTCStatsReport>, previousReports: Array<WebRTCStatsReport>,
+                      timestamp: number, previousTimestamp: number): WebRTCStatsSample {
+    let deltas: { [reportID: string]: { [field: string]: number } } = {};
+    reports.forEach((report) => {
+      const previousReport = previousReports.find((previous) => previous.id === report.id);
+      if (!previousReport) {
+        return;
+      }
+      let reportDeltas: { [field: string]: number } = {};
+      WEBRTC_STATS_COUNTER_FIELDS.forEach((field) => {
+        if (typeof report[field] === "number" && typeof previousReport[field] === "number") {
+          reportDeltas[field] = report[field] - previousReport[field];
+        }
+      });
+      deltas[report.id] = reportDeltas;
+    });
+
+    const ofType = (type: string): Array<any> => reports.filter((report) => report.type === type);
+    return {
+      timestamp,
+      elapsedMS: previousTimestamp === undefined ? undefined : timestamp - previousTimestamp,
+      reports,
+      previousReports,
+      inboundRTP: ofType("inbound-rtp"),
+      outboundRTP: ofType("outbound-rtp"),
+      remoteInboundRTP: ofType("remote-inbound-rtp"),
+      candidatePairs: ofType("candidate-pair"),
+      deltas
+    };
+  }
+
+  _unsubscribe(subscription: WebRTCStatsSubscription) {
+    if (!this._subscriptions.has(subscription)) {
+      return false;
+    }
+    clearInterval(subscription.interval);
+    subscription.interval = null;
+    this._subscriptions.delete(subscription);
+    return true;
+  }
+
+  // Subscriptions whose intervals fire while a call to getStats() is in progress share its result.
+  _getSharedStats() {
+    if (!this._pendingStats) {
+      const pendingStats = Promise.resolve(this._getStats());
+      this._pendingStats = pendingStats;
+      const clearPendingStats = () => {
+        if (this._pendingStats === pendingStats) {
+          this._pendingStats = null;
+        }
+      };
+      pendingStats.then(clearPendingStats, clearPendingStats);
+    }
+    return this._pendingStats;
+  }
+
+  async _sample(subscription: WebRTCStatsSubscription) {
+    let stats: any;
+    try {
+      stats = await this._getSharedStats();
+    } catch (err) {
+      RaviUtils.err("Error getting stats: " + err.message, "RaviWebRTCStatsWatcher", this._logContext);
+      return;
+    }
+    if (!this._subscriptions.has(subscription)) {
+      // Unsubscribed while we were waiting for the stats
+      return;
+    }
+
+    const reports = RaviWebRTCStatsWatcher.selectReports(stats, subscription.fields);
+    if (!reports.length) {
+      return;
+    }
+    const timestamp = Date.now();
+    const sample = RaviWebRTCStatsWatcher.createSample(reports, subscription.previousReports, timestamp, subscription.previousTimestamp);
+    subscription.previousReports = reports;
+    subscription.previousTimestamp = timestamp;
+
+    try {
+      subscription.callback(sample);
+    } catch (err) {
+      RaviUtils.err("Error in a stats subscriber: " + err.message, "RaviWebRTCStatsWatcher", this._logContext);
+    }
+  }
+}
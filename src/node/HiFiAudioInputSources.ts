@@ -0,0 +1,638 @@
+/**
+ * This Module contains programmatic audio input sources for NodeJS clients, such as bots: playback of WAV and raw PCM files, tones and sweeps,
+ * white and pink noise, and silence. Each source produces a `MediaStream` that can be passed to {@link HiFiCommunicator.setInputAudioMediaStream}.
+ *
+ * This Module is NodeJS-only; it depends on `fs` and `@koush/wrtc`, and is not part of the Web bundle.
+ *
+ * Example usage:
+ * ```typescript
+ * let source = new HiFiFileAudioInputSource({ filePath: "./speech.wav", loop: true });
+ * await communicator.setInputAudioMediaStream(source.getMediaStream(), source.isStereo());
+ * source.start();
+ * ...
+ * source.close();
+ * ```
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+import { HiFiUtilities } from "../utilities/HiFiUtilities";
+
+const fs = require('fs');
+
+// `RTCAudioSource` must be given exactly 10ms of audio at a time.
+const FRAME_DURATION_MS = 10;
+const MAX_INT16 = 32767;
+
+/**
+ * Options shared by every {@link HiFiAudioInputSource}.
+ */
+export interface AudioInputSourceConfig {
+    /**
+     * `1` for mono or `2` for stereo. Defaults to `1`, except for {@link HiFiFileAudioInputSource}, which defaults to the channel count of the file.
+     */
+    channelCount?: 1 | 2;
+    /**
+     * The sample rate of the produced audio, in Hz. Defaults to `48000`, the sample rate used by the High Fidelity Audio API Server.
+     */
+    sampleRate?: number;
+    /**
+     * A linear gain applied to the produced audio. Defaults to `1.0`. See {@link HiFiAudioInputSource.setGain}.
+     */
+    gain?: number;
+    /**
+     * Called when the source runs out of audio. Only a {@link HiFiFileAudioInputSource} that doesn't loop ever runs out.
+     */
+    onEnded?: () => void;
+}
+
+/**
+ * The base class of every audio input source. A source produces audio in 10ms frames while it is started, and delivers it to the
+ * audio track of its `MediaStream`.
+ */
+export abstract class HiFiAudioInputSource {
+    readonly channelCount: 1 | 2;
+    readonly sampleRate: number;
+
+    private _gain: number;
+    private _onEnded: () => void;
+    private _rtcAudioSource: any;
+    private _mediaStream: MediaStream;
+    private _pumpInterval: any;
+    private _isEnded: boolean;
+    // Reused for every frame, to avoid allocating 100 buffers per second.
+    private _renderBuffer: Float32Array;
+
+    /**
+     * @param config See {@link AudioInputSourceConfig}.
+     */
+    constructor({ channelCount = 1, sampleRate = 48000, gain = 1.0, onEnded }: AudioInputSourceConfig) {
+        if (channelCount !== 1 && channelCount !== 2) {
+            throw new Error(`\`channelCount\` must be 1 or 2.`);
+        }
+        // `RTCAudioSource` needs a whole number of samples in every 10ms frame.
+        if (!(sampleRate > 0) || sampleRate % (1000 / FRAME_DURATION_MS) !== 0) {
+            throw new Error(`\`sampleRate\` must be a positive multiple of ${1000 / FRAME_DURATION_MS}.`);
+        }
+        this.channelCount = channelCount;
+        this.sampleRate = sampleRate;
+        this._onEnded = onEnded;
+        this._isEnded = false;
+        this._renderBuffer = new Float32Array(0);
+        this.setGain(gain);
+    }
+
+    /**
+     * @returns The `MediaStream` that carries this source's audio, creating it the first time this is called; or `null` if `@koush/wrtc` isn't available.
+     */
+    getMediaStream(): MediaStream {
+        if (this._mediaStream) {
+            return this._mediaStream;
+        }
+        try {
+            const wrtc = require('@koush/wrtc');
+            this._rtcAudioSource = new wrtc.nonstandard.RTCAudioSource();
+            this._mediaStream = new wrtc.MediaStream([this._rtcAudioSource.createTrack()]);
+        } catch (e) {
+            HiFiLogger.error(`Couldn't create the MediaStream of an audio input source; \`@koush/wrtc\` isn't available:\n${e}`);
+            this._rtcAudioSource = undefined;
+            return null;
+        }
+        return this._mediaStream;
+    }
+
+    /**
+     * @returns `true` if this source produces stereo audio. Pass this as `isStereo` to {@link HiFiCommunicator.setInputAudioMediaStream}.
+     */
+    isStereo(): boolean {
+        return this.channelCount === 2;
+    }
+
+    /**
+     * Starts, or resumes, delivering audio to the `MediaStream`.
+     * @returns `true` if the source is now playing.
+     */
+    start(): boolean {
+        if (this._pumpInterval) {
+            return true;
+        }
+        if (this._isEnded) {
+            HiFiLogger.warn(`The audio input source has ended; it can't be started again.`);
+            return false;
+        }
+        if (!this.getMediaStream()) {
+            return false;
+        }
+        let numberOfFrames = this.sampleRate * FRAME_DURATION_MS / 1000;
+        this._pumpInterval = HiFiUtilities.preciseInterval(() => {
+            let samples = this.readSamples(numberOfFrames);
+            this._rtcAudioSource.onData({
+                samples: samples,
+                sampleRate: this.sampleRate,
+                bitsPerSample: 16,
+                channelCount: this.channelCount,
+                numberOfFrames: numberOfFrames
+            });
+        }, FRAME_DURATION_MS);
+        return true;
+    }
+
+    /**
+     * Pauses delivering audio to the `MediaStream`. {@link start} resumes from where the source stopped.
+     */
+    stop(): void {
+        if (!this._pumpInterval) {
+            return;
+        }
+        if (this._pumpInterval.clear) {
+            this._pumpInterval.clear();
+        } else {
+            clearInterval(this._pumpInterval);
+        }
+        this._pumpInterval = undefined;
+    }
+
+    /**
+     * @returns `true` if the source is delivering audio to the `MediaStream`.
+     */
+    isPlaying(): boolean {
+        return !!this._pumpInterval;
+    }
+
+    /**
+     * @param gain A linear gain, greater than or equal to `0.0`, applied to the produced audio. Samples are clipped if the gain makes them too loud.
+     */
+    setGain(gain: number): void {
+        if (!(gain >= 0)) {
+            HiFiLogger.warn(`The gain of an audio input source must be greater than or equal to 0. Setting it to 0...`);
+            gain = 0;
+        }
+        this._gain = gain;
+    }
+
+    /**
+     * @returns The gain set with {@link setGain}.
+     */
+    getGain(): number {
+        return this._gain;
+    }
+
+    /**
+     * Stops the source and ends its audio track. The source can't be used after this.
+     */
+    close(): void {
+        this.stop();
+        this._isEnded = true;
+        if (this._mediaStream) {
+            this._mediaStream.getTracks().forEach((track) => { track.stop(); });
+        }
+    }
+
+    /**
+     * Produces the source's next audio. While the source is started, this is called every 10ms; it can also be called directly,
+     * for example to render a source offline.
+     * @param numberOfFrames The number of frames to produce.
+     * @returns `numberOfFrames` interleaved 16-bit frames. Once the source has ended, the frames are silent.
+     */
+    readSamples(numberOfFrames: number): Int16Array {
+        let sampleCount = numberOfFrames * this.channelCount;
+        if (this._renderBuffer.length !== sampleCount) {
+            this._renderBuffer = new Float32Array(sampleCount);
+        } else {
+            this._renderBuffer.fill(0);
+        }
+
+        let renderedFrameCount = this._isEnded ? 0 : this._render(this._renderBuffer, numberOfFrames);
+
+        let samples = new Int16Array(sampleCount);
+        for (let i = 0; i < renderedFrameCount * this.channelCount; i++) {
+            samples[i] = Math.round(HiFiUtilities.clamp(this._renderBuffer[i] * this._gain, -1, 1) * MAX_INT16);
+        }
+
+        if (renderedFrameCount < numberOfFrames && !this._isEnded) {
+            this._isEnded = true;
+            // Stop from outside of the interval's callback, which is the most likely caller.
+            setTimeout(() => { this.stop(); }, 0);
+            if (this._onEnded) {
+                try {
+                    this._onEnded();
+                } catch (e) {
+                    HiFiLogger.error(`The \`onEnded\` callback of an audio input source threw an error:\n${e}`);
+                }
+            }
+        }
+        return samples;
+    }
+
+    /**
+     * Writes the source's next audio to `output` as interleaved samples between `-1.0` and `1.0`, before the gain is applied.
+     * @param output Zeroed interleaved samples, `numberOfFrames * channelCount` long.
+     * @param numberOfFrames The number of frames to write.
+     * @returns The number of frames written. Returning fewer than `numberOfFrames` ends the source.
+     */
+    protected abstract _render(output: Float32Array, numberOfFrames: number): number;
+}
+
+/**
+ * Options for a {@link HiFiToneAudioInputSource}.
+ */
+export interface ToneAudioInputSourceConfig extends AudioInputSourceConfig {
+    /**
+     * The frequency of the tone, or the frequency at which a sweep starts, in Hz. Defaults to `440`.
+     */
+    frequencyHz?: number;
+    /**
+     * If set, the tone sweeps logarithmically from `frequencyHz` to this frequency, in Hz, and then starts again.
+     */
+    sweepToFrequencyHz?: number;
+    /**
+     * The duration of one sweep, in seconds. Defaults to `5`.
+     */
+    sweepDurationSeconds?: number;
+    /**
+     * The peak amplitude of the tone, between `0.0` and `1.0`. Defaults to `0.5`.
+     */
+    amplitude?: number;
+}
+
+/**
+ * Produces a sine tone, or a repeating logarithmic sine sweep.
+ */
+export class HiFiToneAudioInputSource extends HiFiAudioInputSource {
+    amplitude: number;
+
+    private _frequencyHz: number;
+    private _sweepToFrequencyHz: number;
+    private _sweepDurationSeconds: number;
+    private _phase: number;
+    private _sweepElapsedSeconds: number;
+
+    /**
+     * @param config See {@link ToneAudioInputSourceConfig}.
+     */
+    constructor(config: ToneAudioInputSourceConfig = {}) {
+        super(config);
+        let { frequencyHz = 440, sweepToFrequencyHz, sweepDurationSeconds = 5, amplitude = 0.5 } = config;
+        if (!(frequencyHz > 0) || (sweepToFrequencyHz !== undefined && !(sweepToFrequencyHz > 0))) {
+            throw new Error(`Tone frequencies must be greater than 0.`);
+        }
+        if (!(sweepDurationSeconds > 0)) {
+            throw new Error(`\`sweepDurationSeconds\` must be greater than 0.`);
+        }
+        this._frequencyHz = frequencyHz;
+        this._sweepToFrequencyHz = sweepToFrequencyHz;
+        this._sweepDurationSeconds = sweepDurationSeconds;
+        this.amplitude = HiFiUtilities.clamp(amplitude, 0, 1);
+        this._phase = 0;
+        this._sweepElapsedSeconds = 0;
+    }
+
+    /**
+     * Changes the frequency of the tone, or the frequency at which a sweep starts, without a discontinuity.
+     * @param frequencyHz The new frequency, in Hz.
+     */
+    setFrequency(frequencyHz: number): void {
+        if (!(frequencyHz > 0)) {
+            HiFiLogger.warn(`Tone frequencies must be greater than 0.`);
+            return;
+        }
+        this._frequencyHz = frequencyHz;
+    }
+
+    protected _render(output: Float32Array, numberOfFrames: number): number {
+        for (let frame = 0; frame < numberOfFrames; frame++) {
+            let frequencyHz = this._frequencyHz;
+            if (this._sweepToFrequencyHz !== undefined) {
+                let progress = this._sweepElapsedSeconds / this._sweepDurationSeconds;
+                frequencyHz = this._frequencyHz * Math.pow(this._sweepToFrequencyHz / this._frequencyHz, progress);
+                this._sweepElapsedSeconds = (this._sweepElapsedSeconds + 1 / this.sampleRate) % this._sweepDurationSeconds;
+            }
+            let value = Math.sin(this._phase) * this.amplitude;
+            // Accumulating the phase keeps the waveform continuous when the frequency changes.
+            this._phase = (this._phase + 2 * Math.PI * frequencyHz / this.sampleRate) % (2 * Math.PI);
+            for (let channel = 0; channel < this.channelCount; channel++) {
+                output[frame * this.channelCount + channel] = value;
+            }
+        }
+        return numberOfFrames;
+    }
+}
+
+/**
+ * The colors of noise that a {@link HiFiNoiseAudioInputSource} can produce.
+ */
+export enum HiFiNoiseColors {
+    /**
+     * Equal power at every frequency.
+     */
+    White = "white",
+    /**
+     * Equal power in every octave, which sounds more natural than white noise.
+     */
+    Pink = "pink"
+}
+
+/**
+ * Options for a {@link HiFiNoiseAudioInputSource}.
+ */
+export interface NoiseAudioInputSourceConfig extends AudioInputSourceConfig {
+    /**
+     * Defaults to {@link HiFiNoiseColors.White}.
+     */
+    color?: HiFiNoiseColors;
+    /**
+     * The approximate peak amplitude of the noise, between `0.0` and `1.0`. Defaults to `0.25`.
+     */
+    amplitude?: number;
+    /**
+     * If set, the noise is generated from this seed, so that it is the same every time. Otherwise, `Math.random()` is used.
+     */
+    seed?: number;
+}
+
+/**
+ * Produces white or pink noise. Every channel carries the same noise.
+ */
+export class HiFiNoiseAudioInputSource extends HiFiAudioInputSource {
+    color: HiFiNoiseColors;
+    amplitude: number;
+
+    private _random: () => number;
+    // The state of the pink noise filter.
+    private _pinkState: Array<number>;
+
+    /**
+     * @param config See {@link NoiseAudioInputSourceConfig}.
+     */
+    constructor(config: NoiseAudioInputSourceConfig = {}) {
+        super(config);
+        let { color = HiFiNoiseColors.White, amplitude = 0.25, seed } = config;
+        if (color !== HiFiNoiseColors.White && color !== HiFiNoiseColors.Pink) {
+            throw new Error(`\`color\` must be one of: ${Object.values(HiFiNoiseColors).join(", ")}.`);
+        }
+        this.color = color;
+        this.amplitude = HiFiUtilities.clamp(amplitude, 0, 1);
+        this._random = seed === undefined ? Math.random : HiFiNoiseAudioInputSource._createSeededRandom(seed);
+        this._pinkState = [0, 0, 0, 0, 0, 0, 0];
+    }
+
+    protected _render(output: Float32Array, numberOfFrames: number): number {
+        for (let frame = 0; frame < numberOfFrames; frame++) {
+            let white = this._random() * 2 - 1;
+            let value = white;
+            if (this.color === HiFiNoiseColors.Pink) {
+                // Paul Kellet's refined pink noise filter; the final scale brings its peaks to about `1.0`.
+                let b = this._pinkState;
+                b[0] = 0.99886 * b[0] + white * 0.0555179;
+                b[1] = 0.99332 * b[1] + white * 0.0750759;
+                b[2] = 0.96900 * b[2] + white * 0.1538520;
+                b[3] = 0.86650 * b[3] + white * 0.3104856;
+                b[4] = 0.55000 * b[4] + white * 0.5329522;
+                b[5] = -0.7616 * b[5] - white * 0.0168980;
+                value = (b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362) * 0.11;
+                b[6] = white * 0.115926;
+            }
+            value *= this.amplitude;
+            for (let channel = 0; channel < this.channelCount; channel++) {
+                output[frame * this.channelCount + channel] = value;
+            }
+        }
+        return numberOfFrames;
+    }
+
+    // Mulberry32, a small and fast PRNG that is good enough for noise.
+    private static _createSeededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+}
+
+/**
+ * Produces silence. Useful for bots that must transmit an input stream without making any sound.
+ */
+export class HiFiSilenceAudioInputSource extends HiFiAudioInputSource {
+    /**
+     * @param config See {@link AudioInputSourceConfig}.
+     */
+    constructor(config: AudioInputSourceConfig = {}) {
+        super(config);
+    }
+
+    protected _render(output: Float32Array, numberOfFrames: number): number {
+        return numberOfFrames;
+    }
+}
+
+/**
+ * Describes the format of a raw PCM file. Raw files contain interleaved 16-bit little-endian samples and no header.
+ */
+export interface RawPCMFormat {
+    sampleRate: number;
+    channelCount: number;
+}
+
+/**
+ * Options for a {@link HiFiFileAudioInputSource}.
+ */
+export interface FileAudioInputSourceConfig extends AudioInputSourceConfig {
+    /**
+     * The WAV or raw PCM file to play. WAV files may contain 8-, 16-, 24- or 32-bit integer samples, or 32-bit floating-point samples.
+     */
+    filePath: string;
+    /**
+     * If set, the file is read as raw PCM in this format. Otherwise, the file must be a WAV file.
+     */
+    rawFormat?: RawPCMFormat;
+    /**
+     * If `true`, playback starts again from the beginning of the file when it reaches the end. Defaults to `false`.
+     */
+    loop?: boolean;
+}
+
+/**
+ * Plays a WAV or raw PCM file, converting it to the source's sample rate and channel count.
+ * The file is read into memory when the source is constructed.
+ */
+export class HiFiFileAudioInputSource extends HiFiAudioInputSource {
+    filePath: string;
+    loop: boolean;
+    /**
+     * The sample rate of the file, in Hz.
+     */
+    readonly fileSampleRate: number;
+    /**
+     * The number of channels in the file.
+     */
+    readonly fileChannelCount: number;
+
+    // The file's samples, interleaved and between `-1.0` and `1.0`.
+    private _fileSamples: Float32Array;
+    private _fileFrameCount: number;
+    // The current playback position, in (fractional) frames of the file.
+    private _position: number;
+
+    /**
+     * @param config See {@link FileAudioInputSourceConfig}.
+     */
+    constructor(config: FileAudioInputSourceConfig) {
+        let decoded = HiFiFileAudioInputSource._decodeFile(config.filePath, config.rawFormat);
+        super({ ...config, channelCount: config.channelCount || (decoded.channelCount >= 2 ? 2 : 1) });
+        this.filePath = config.filePath;
+        this.loop = !!config.loop;
+        this.fileSampleRate = decoded.sampleRate;
+        this.fileChannelCount = decoded.channelCount;
+        this._fileSamples = decoded.samples;
+        this._fileFrameCount = decoded.samples.length / decoded.channelCount;
+        this._position = 0;
+        if (this._fileFrameCount === 0) {
+            HiFiLogger.warn(`\`${this.filePath}\` contains no audio.`);
+        }
+    }
+
+    /**
+     * @returns The duration of the file, in seconds.
+     */
+    getDurationSeconds(): number {
+        return this._fileFrameCount / this.fileSampleRate;
+    }
+
+    /**
+     * @returns The current playback position, in seconds from the beginning of the file.
+     */
+    getPositionSeconds(): number {
+        return this._position / this.fileSampleRate;
+    }
+
+    /**
+     * Moves the playback position.
+     * @param positionSeconds The new position, in seconds from the beginning of the file.
+     */
+    seek(positionSeconds: number): void {
+        this._position = HiFiUtilities.clamp(positionSeconds * this.fileSampleRate, 0, this._fileFrameCount);
+    }
+
+    protected _render(output: Float32Array, numberOfFrames: number): number {
+        if (this._fileFrameCount === 0) {
+            return 0;
+        }
+        let step = this.fileSampleRate / this.sampleRate;
+        for (let frame = 0; frame < numberOfFrames; frame++) {
+            if (this._position >= this._fileFrameCount) {
+                if (!this.loop) {
+                    return frame;
+                }
+                this._position -= this._fileFrameCount;
+            }
+            // Linear interpolation between adjacent frames is good enough for speech and test signals.
+            let index = Math.floor(this._position);
+            let fraction = this._position - index;
+            let nextIndex = index + 1 < this._fileFrameCount ? index + 1 : (this.loop ? 0 : index);
+            for (let channel = 0; channel < this.channelCount; channel++) {
+                let value: number;
+                if (this.channelCount === 1 && this.fileChannelCount > 1) {
+                    // Mix the file's first two channels down to mono.
+                    value = (this._getFileSample(index, 0, fraction, nextIndex) + this._getFileSample(index, 1, fraction, nextIndex)) / 2;
+                } else {
+                    value = this._getFileSample(index, Math.min(channel, this.fileChannelCount - 1), fraction, nextIndex);
+                }
+                output[frame * this.channelCount + channel] = value;
+            }
+            this._position += step;
+        }
+        return numberOfFrames;
+    }
+
+    private _getFileSample(index: number, channel: number, fraction: number, nextIndex: number): number {
+        let current = this._fileSamples[index * this.fileChannelCount + channel];
+        let next = this._fileSamples[nextIndex * this.fileChannelCount + channel];
+        return current + (next - current) * fraction;
+    }
+
+    private static _decodeFile(filePath: string, rawFormat?: RawPCMFormat): { samples: Float32Array, sampleRate: number, channelCount: number } {
+        if (!filePath) {
+            throw new Error(`\`filePath\` must be specified.`);
+        }
+        let file: Buffer;
+        try {
+            file = fs.readFileSync(filePath);
+        } catch (e) {
+            throw new Error(`Couldn't read \`${filePath}\`:\n${e}`);
+        }
+
+        if (rawFormat) {
+            if (!(rawFormat.sampleRate > 0) || !(rawFormat.channelCount >= 1)) {
+                throw new Error(`\`rawFormat\` must have a positive \`sampleRate\` and \`channelCount\`.`);
+            }
+            let frameCount = Math.floor(file.length / (2 * rawFormat.channelCount));
+            let samples = new Float32Array(frameCount * rawFormat.channelCount);
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = file.readInt16LE(i * 2) / 32768;
+            }
+            return { samples, sampleRate: rawFormat.sampleRate, channelCount: rawFormat.channelCount };
+        }
+
+        if (file.length < 12 || file.toString("ascii", 0, 4) !== "RIFF" || file.toString("ascii", 8, 12) !== "WAVE") {
+            throw new Error(`\`${filePath}\` isn't a WAV file. Pass \`rawFormat\` to play raw PCM.`);
+        }
+        let audioFormat: number, channelCount: number, sampleRate: number, bitsPerSample: number;
+        let dataOffset: number, dataSize: number;
+        let offset = 12;
+        while (offset + 8 <= file.length) {
+            let chunkID = file.toString("ascii", offset, offset + 4);
+            let chunkSize = file.readUInt32LE(offset + 4);
+            let chunkStart = offset + 8;
+            if (chunkID === "fmt ") {
+                audioFormat = file.readUInt16LE(chunkStart);
+                channelCount = file.readUInt16LE(chunkStart + 2);
+                sampleRate = file.readUInt32LE(chunkStart + 4);
+                bitsPerSample = file.readUInt16LE(chunkStart + 14);
+                // `WAVE_FORMAT_EXTENSIBLE` stores the real format in the first two bytes of its sub-format GUID.
+                if (audioFormat === 0xFFFE && chunkSize >= 26) {
+                    audioFormat = file.readUInt16LE(chunkStart + 24);
+                }
+            } else if (chunkID === "data") {
+                dataOffset = chunkStart;
+                // Recorders that were interrupted may leave the size at 0 or larger than the file.
+                dataSize = chunkSize === 0 ? file.length - chunkStart : Math.min(chunkSize, file.length - chunkStart);
+                break;
+            }
+            // Chunks are padded to an even size.
+            offset = chunkStart + chunkSize + (chunkSize % 2);
+        }
+        if (audioFormat === undefined || dataOffset === undefined) {
+            throw new Error(`\`${filePath}\` is missing its \`fmt \` or \`data\` chunk.`);
+        }
+        if (!(channelCount >= 1) || !(sampleRate > 0)) {
+            throw new Error(`\`${filePath}\` has an invalid channel count or sample rate.`);
+        }
+
+        let bytesPerSample = bitsPerSample / 8;
+        let readSample: (position: number) => number;
+        if (audioFormat === 1 && bitsPerSample === 8) {
+            readSample = (position) => { return (file.readUInt8(position) - 128) / 128; };
+        } else if (audioFormat === 1 && bitsPerSample === 16) {
+            readSample = (position) => { return file.readInt16LE(position) / 32768; };
+        } else if (audioFormat === 1 && bitsPerSample === 24) {
+            readSample = (position) => { return file.readIntLE(position, 3) / 8388608; };
+        } else if (audioFormat === 1 && bitsPerSample === 32) {
+            readSample = (position) => { return file.readInt32LE(position) / 2147483648; };
+        } else if (audioFormat === 3 && bitsPerSample === 32) {
+            readSample = (position) => { return file.readFloatLE(position); };
+        } else {
+            throw new Error(`\`${filePath}\` has an unsupported sample format (format ${audioFormat}, ${bitsPerSample} bits per sample).`);
+        }
+
+        let frameCount = Math.floor(dataSize / (bytesPerSample * channelCount));
+        let samples = new Float32Array(frameCount * channelCount);
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = readSample(dataOffset + i * bytesPerSample);
+        }
+        return { samples, sampleRate, channelCount };
+    }
+}
@@ -0,0 +1,334 @@
+/**
+ * This Module contains a recorder that writes the audio that a NodeJS client hears to 16-bit PCM WAV files, so that bots can archive
+ * what they heard and recordings can be compared across server releases.
+ *
+ * This Module is NodeJS-only; it depends on `fs` and `@koush/wrtc`, and is not part of the Web bundle.
+ *
+ * Example usage:
+ * ```typescript
+ * let communicator = new HiFiCommunicator();
+ * await communicator.connectToHiFiAudioAPIServer(hifiAuthJWT);
+ * let recorder = new HiFiAudioRecorder({ filePath: "./recordings/bot.wav", maxDurationSeconds: 60 * 60 });
+ * recorder.start(communicator.getOutputAudioMediaStream());
+ * ...
+ * let files = recorder.stop();
+ * ```
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+
+const fs = require('fs');
+const path = require('path');
+
+const WAV_HEADER_SIZE_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+// The size fields of a WAV header are unsigned 32-bit integers.
+const MAX_WAV_DATA_SIZE_BYTES = 0xFFFFFFFF - WAV_HEADER_SIZE_BYTES;
+
+/**
+ * Describes a WAV file written by a {@link HiFiAudioRecorder}.
+ */
+export interface AudioRecordingFile {
+    filePath: string;
+    sampleRate: number;
+    channelCount: number;
+    /**
+     * The duration of the audio in the file, in seconds.
+     */
+    durationSeconds: number;
+    /**
+     * The size of the file, including its header, in bytes.
+     */
+    sizeBytes: number;
+}
+
+/**
+ * Configures a {@link HiFiAudioRecorder}.
+ */
+export interface AudioRecorderConfig {
+    /**
+     * Where to write the recording. If a maximum size or duration is set, a sequence number is inserted before the extension;
+     * for example, `bot.wav` becomes `bot-0001.wav`, `bot-0002.wav`, and so on. Otherwise, the first file is written to `filePath`, and
+     * any later files, started when the sample rate changes or when recording is restarted, are numbered from `bot-0002.wav` on, so that
+     * no file overwrites another. Missing directories are created.
+     */
+    filePath: string;
+    /**
+     * `1` to mix the audio down to mono, or `2` to record in stereo. Defaults to `2`, which matches the output of the High Fidelity Audio API Server.
+     */
+    channelCount?: 1 | 2;
+    /**
+     * Once a file reaches this size, including its header, a new file is started. Defaults to the largest size that a WAV file can have, about 4 GB.
+     */
+    maxFileSizeBytes?: number;
+    /**
+     * Once a file contains this many seconds of audio, a new file is started. Defaults to no limit.
+     */
+    maxDurationSeconds?: number;
+    /**
+     * Called with the details of each file once it is complete.
+     */
+    onFileFinished?: (file: AudioRecordingFile) => void;
+}
+
+/**
+ * Records audio to 16-bit PCM WAV files. Use {@link start} to record the output of a {@link HiFiCommunicator}, or {@link writeSamples}
+ * to record audio from any other source.
+ */
+export class HiFiAudioRecorder {
+    filePath: string;
+    channelCount: 1 | 2;
+    maxFileSizeBytes: number;
+    maxDurationSeconds: number;
+
+    private _onFileFinished: (file: AudioRecordingFile) => void;
+    private _rotates: boolean;
+    private _nextFileNumber: number;
+    private _finishedFiles: Array<AudioRecordingFile>;
+    private _audioSink: any;
+
+    // The file that is currently being written, if any.
+    private _fileDescriptor: number;
+    private _currentFilePath: string;
+    private _currentSampleRate: number;
+    private _currentDataSizeBytes: number;
+
+    /**
+     * @param config See {@link AudioRecorderConfig}.
+     */
+    constructor({ filePath, channelCount = 2, maxFileSizeBytes = MAX_WAV_DATA_SIZE_BYTES + WAV_HEADER_SIZE_BYTES, maxDurationSeconds = Infinity, onFileFinished }: AudioRecorderConfig) {
+        if (!filePath) {
+            throw new Error(`\`filePath\` must be specified.`);
+        }
+        if (channelCount !== 1 && channelCount !== 2) {
+            throw new Error(`\`channelCount\` must be 1 or 2.`);
+        }
+        this.filePath = filePath;
+        this.channelCount = channelCount;
+        this.maxFileSizeBytes = Math.min(maxFileSizeBytes, MAX_WAV_DATA_SIZE_BYTES + WAV_HEADER_SIZE_BYTES);
+        this.maxDurationSeconds = maxDurationSeconds > 0 ? maxDurationSeconds : Infinity;
+        this._onFileFinished = onFileFinished;
+        this._rotates = maxFileSizeBytes < MAX_WAV_DATA_SIZE_BYTES + WAV_HEADER_SIZE_BYTES || this.maxDurationSeconds !== Infinity;
+        this._nextFileNumber = 1;
+        this._finishedFiles = [];
+        this._audioSink = undefined;
+        this._fileDescriptor = undefined;
+    }
+
+    /**
+     * Starts recording the first audio track of a MediaStream, usually the one returned by {@link HiFiCommunicator.getOutputAudioMediaStream}.
+     * Call this once the HiFiCommunicator is connected; until then, its output stream has no audio track.
+     * @param mediaStream The stream to record.
+     * @returns `true` if recording started.
+     */
+    start(mediaStream: MediaStream): boolean {
+        if (this._audioSink) {
+            HiFiLogger.warn(`The recorder is already recording.`);
+            return false;
+        }
+        let audioTracks = mediaStream ? mediaStream.getAudioTracks() : [];
+        if (audioTracks.length === 0) {
+            HiFiLogger.error(`Can't start recording: the MediaStream has no audio track. Is the HiFiCommunicator connected?`);
+            return false;
+        }
+
+        let RTCAudioSink: any;
+        try {
+            RTCAudioSink = require('@koush/wrtc').nonstandard.RTCAudioSink;
+        } catch (e) {
+            HiFiLogger.error(`Can't start recording: \`@koush/wrtc\` isn't available:\n${e}`);
+            return false;
+        }
+
+        this._audioSink = new RTCAudioSink(audioTracks[0]);
+        this._audioSink.ondata = (data: { samples: Int16Array, sampleRate: number, bitsPerSample: number, channelCount: number }) => {
+            if (data.bitsPerSample !== 16) {
+                HiFiLogger.warn(`Ignoring audio with ${data.bitsPerSample} bits per sample.`);
+                return;
+            }
+            this.writeSamples(data.samples, data.sampleRate, data.channelCount);
+        };
+        HiFiLogger.log(`Started recording to \`${this.filePath}\`.`);
+        return true;
+    }
+
+    /**
+     * @returns `true` if the recorder is recording a MediaStream.
+     */
+    isRecording(): boolean {
+        return !!this._audioSink;
+    }
+
+    /**
+     * Appends audio to the recording, starting a new file if the current one is full or if the sample rate has changed.
+     * @param samples Interleaved 16-bit samples.
+     * @param sampleRate The sample rate of `samples`, in Hz.
+     * @param channelCount The number of channels in `samples`. The audio is mixed or duplicated to the recorder's `channelCount`.
+     */
+    writeSamples(samples: Int16Array, sampleRate: number, channelCount: number): void {
+        if (!(sampleRate > 0) || !(channelCount > 0) || samples.length % channelCount !== 0) {
+            HiFiLogger.warn(`Ignoring audio with an invalid format.`);
+            return;
+        }
+
+        let frames = HiFiAudioRecorder._convertChannels(samples, channelCount, this.channelCount);
+        let bytesPerFrame = BYTES_PER_SAMPLE * this.channelCount;
+        let frameCount = frames.length / this.channelCount;
+        let writtenFrameCount = 0;
+        while (writtenFrameCount < frameCount) {
+            if (this._fileDescriptor !== undefined && this._currentSampleRate !== sampleRate) {
+                this._finishFile();
+            }
+            if (this._fileDescriptor === undefined && !this._startFile(sampleRate)) {
+                return;
+            }
+
+            // Every file holds at least one frame, so that tiny limits can't stall the recording.
+            let maxDataSizeBytes = Math.max(bytesPerFrame, Math.min(this.maxFileSizeBytes - WAV_HEADER_SIZE_BYTES, Math.floor(this.maxDurationSeconds * sampleRate) * bytesPerFrame));
+            let framesThatFit = Math.floor((maxDataSizeBytes - this._currentDataSizeBytes) / bytesPerFrame);
+            if (framesThatFit <= 0) {
+                this._finishFile();
+                continue;
+            }
+
+            let framesToWrite = Math.min(framesThatFit, frameCount - writtenFrameCount);
+            let chunk = frames.subarray(writtenFrameCount * this.channelCount, (writtenFrameCount + framesToWrite) * this.channelCount);
+            try {
+                fs.writeSync(this._fileDescriptor, HiFiAudioRecorder._toLittleEndianBuffer(chunk));
+            } catch (e) {
+                HiFiLogger.error(`Couldn't write to \`${this._currentFilePath}\`:\n${e}`);
+                this._finishFile();
+                return;
+            }
+            this._currentDataSizeBytes += framesToWrite * bytesPerFrame;
+            writtenFrameCount += framesToWrite;
+        }
+    }
+
+    /**
+     * Stops recording and completes the current file.
+     * @returns Every file written by this recorder.
+     */
+    stop(): Array<AudioRecordingFile> {
+        if (this._audioSink) {
+            this._audioSink.stop();
+            this._audioSink = undefined;
+        }
+        if (this._fileDescriptor !== undefined) {
+            this._finishFile();
+        }
+        return this.getFiles();
+    }
+
+    /**
+     * @returns Every file that has been completed so far.
+     */
+    getFiles(): Array<AudioRecordingFile> {
+        return this._finishedFiles.map((file) => { return Object.assign({}, file); });
+    }
+
+    private _getNextFilePath(): string {
+        let fileNumber = this._nextFileNumber++;
+        if (!this._rotates && fileNumber === 1) {
+            return this.filePath;
+        }
+        let parsedPath = path.parse(this.filePath);
+        return path.join(parsedPath.dir, `${parsedPath.name}-${String(fileNumber).padStart(4, "0")}${parsedPath.ext || ".wav"}`);
+    }
+
+    private _startFile(sampleRate: number): boolean {
+        let filePath = this._getNextFilePath();
+        try {
+            let directory = path.dirname(filePath);
+            if (!fs.existsSync(directory)) {
+                fs.mkdirSync(directory, { recursive: true });
+            }
+            this._fileDescriptor = fs.openSync(filePath, "w");
+            // The header is rewritten with the real sizes once the file is complete.
+            fs.writeSync(this._fileDescriptor, HiFiAudioRecorder._createWavHeader(sampleRate, this.channelCount, 0));
+        } catch (e) {
+            HiFiLogger.error(`Couldn't create \`${filePath}\`:\n${e}`);
+            this._fileDescriptor = undefined;
+            return false;
+        }
+        this._currentFilePath = filePath;
+        this._currentSampleRate = sampleRate;
+        this._currentDataSizeBytes = 0;
+        return true;
+    }
+
+    private _finishFile(): void {
+        let file: AudioRecordingFile = {
+            filePath: this._currentFilePath,
+            sampleRate: this._currentSampleRate,
+            channelCount: this.channelCount,
+            durationSeconds: this._currentDataSizeBytes / (BYTES_PER_SAMPLE * this.channelCount) / this._currentSampleRate,
+            sizeBytes: WAV_HEADER_SIZE_BYTES + this._currentDataSizeBytes
+        };
+        try {
+            fs.writeSync(this._fileDescriptor, HiFiAudioRecorder._createWavHeader(this._currentSampleRate, this.channelCount, this._currentDataSizeBytes), 0, WAV_HEADER_SIZE_BYTES, 0);
+            fs.closeSync(this._fileDescriptor);
+        } catch (e) {
+            HiFiLogger.error(`Couldn't complete \`${this._currentFilePath}\`:\n${e}`);
+        }
+        this._fileDescriptor = undefined;
+        this._finishedFiles.push(file);
+
+        if (this._onFileFinished) {
+            try {
+                this._onFileFinished(Object.assign({}, file));
+            } catch (e) {
+                HiFiLogger.error(`The \`onFileFinished\` callback threw an error:\n${e}`);
+            }
+        }
+    }
+
+    private static _createWavHeader(sampleRate: number, channelCount: number, dataSizeBytes: number): Buffer {
+        let header = Buffer.alloc(WAV_HEADER_SIZE_BYTES);
+        header.write("RIFF", 0, "ascii");
+        header.writeUInt32LE(WAV_HEADER_SIZE_BYTES - 8 + dataSizeBytes, 4);
+        header.write("WAVE", 8, "ascii");
+        header.write("fmt ", 12, "ascii");
+        header.writeUInt32LE(16, 16); // The size of the rest of the `fmt ` chunk.
+        header.writeUInt16LE(1, 20); // PCM
+        header.writeUInt16LE(channelCount, 22);
+        header.writeUInt32LE(sampleRate, 24);
+        header.writeUInt32LE(sampleRate * channelCount * BYTES_PER_SAMPLE, 28); // Byte rate
+        header.writeUInt16LE(channelCount * BYTES_PER_SAMPLE, 32); // Block align
+        header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34); // Bits per sample
+        header.write("data", 36, "ascii");
+        header.writeUInt32LE(dataSizeBytes, 40);
+        return header;
+    }
+
+    private static _convertChannels(samples: Int16Array, fromChannelCount: number, toChannelCount: number): Int16Array {
+        if (fromChannelCount === toChannelCount) {
+            return samples;
+        }
+        let frameCount = samples.length / fromChannelCount;
+        let converted = new Int16Array(frameCount * toChannelCount);
+        for (let frame = 0; frame < frameCount; frame++) {
+            if (toChannelCount === 1) {
+                let sum = 0;
+                for (let channel = 0; channel < fromChannelCount; channel++) {
+                    sum += samples[frame * fromChannelCount + channel];
+                }
+                converted[frame] = Math.round(sum / fromChannelCount);
+            } else {
+                // Mono is duplicated to both channels; otherwise, the first two channels are kept.
+                converted[frame * 2] = samples[frame * fromChannelCount];
+                converted[frame * 2 + 1] = samples[frame * fromChannelCount + (fromChannelCount > 1 ? 1 : 0)];
+            }
+        }
+        return converted;
+    }
+
+    private static _toLittleEndianBuffer(samples: Int16Array): Buffer {
+        let buffer = Buffer.alloc(samples.length * BYTES_PER_SAMPLE);
+        for (let i = 0; i < samples.length; i++) {
+            buffer.writeInt16LE(samples[i], i * BYTES_PER_SAMPLE);
+        }
+        return buffer;
+    }
+}
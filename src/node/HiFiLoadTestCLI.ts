@@ -0,0 +1,340 @@
+/**
+ * This Module implements the `hifi-loadtest` command, which connects many bots to a Space according to a scenario file and reports how the
+ * Space behaved. See {@link LoadTestScenario} for the format of a scenario file, and {@link LoadTestReport} for the format of the report.
+ *
+ * Usage:
+ * ```
+ * hifi-loadtest <scenario.json> [--output <report.json>] [--workers <count>]
+ * ```
+ *
+ * Bots are spread across `workers` NodeJS processes, each of which runs many {@link HiFiCommunicator}s. If the scenario sets `mockMixer`,
+ * a local {@link HiFiMockMixer} is started in the main process and every bot connects to it.
+ *
+ * This Module is NodeJS-only; it depends on `child_process`, `ws` and `@koush/wrtc`, and is not part of the Web bundle.
+ * @packageDocumentation
+ */
+
+import { HiFiCommunicator, HiFiConnectionStates, HiFiConnectionAttemptResult } from "../classes/HiFiCommunicator";
+import { HiFiAudioAPIData, Point3D, Quaternion } from "../classes/HiFiAudioAPIData";
+import { HiFiLogger, HiFiLogLevel } from "../utilities/HiFiLogger";
+import { HiFiMockMixer } from "../testing/HiFiMockMixer";
+import { WebRTCStatsReport } from "../libravi/RaviWebRTCStats";
+import { HiFiAudioInputSource, HiFiFileAudioInputSource, HiFiNoiseAudioInputSource, HiFiNoiseColors, HiFiSilenceAudioInputSource, HiFiToneAudioInputSource } from "./HiFiAudioInputSources";
+import {
+    LoadTestScenario, LoadTestBotResult, LoadTestMovementPatterns, LoadTestReport, LoadTestAudioConfig, LoadTestMovementConfig,
+    validateLoadTestScenario, getLoadTestBotConfig, createLoadTestBotJWT, getLoadTestBotPose, createLoadTestReport
+} from "./HiFiLoadTestScenario";
+
+const fs = require('fs');
+const path = require('path');
+const childProcess = require('child_process');
+
+const USAGE = `Usage: hifi-loadtest <scenario.json> [--output <report.json>] [--workers <count>]`;
+
+/**
+ * The work that the main process gives to a worker process.
+ */
+interface LoadTestWorkerJob {
+    scenario: LoadTestScenario;
+    botIndices: Array<number>;
+    signalingHostURL?: string;
+    signalingPort?: number;
+}
+
+/**
+ * Connects one bot, moves it and transmits its audio for the scenario's duration, then disconnects it.
+ */
+async function runLoadTestBot(job: LoadTestWorkerJob, botIndex: number): Promise<LoadTestBotResult> {
+    let { scenario } = job;
+    let result: LoadTestBotResult = {
+        botIndex: botIndex,
+        connectTimeMS: undefined,
+        connectionStateCounts: {},
+        reconnectCount: 0,
+        errors: [],
+        connectedSeconds: 0,
+        peerUpdateCount: 0,
+        roundTripTimeMS: [],
+        jitterMS: [],
+        jitterBufferDelayMS: []
+    };
+
+    let movement: LoadTestMovementConfig = getLoadTestBotConfig(scenario.movement, botIndex);
+    let startedAt = Date.now();
+    let getUserData = () => {
+        let pose = getLoadTestBotPose(movement, botIndex, scenario.bots, (Date.now() - startedAt) / 1000);
+        return {
+            position: new Point3D({ x: pose.x, y: pose.y, z: pose.z }),
+            orientation: Quaternion.fromEulerAngles({ yawDegrees: pose.yawDegrees })
+        };
+    };
+
+    let communicator = new HiFiCommunicator({ initialHiFiAudioAPIData: new HiFiAudioAPIData(getUserData()) });
+    let connectedSince: number = undefined;
+    communicator.on("connectionStateChanged", (state: HiFiConnectionStates, stateResult: HiFiConnectionAttemptResult) => {
+        result.connectionStateCounts[state] = (result.connectionStateCounts[state] || 0) + 1;
+        if (state === HiFiConnectionStates.Reconnecting) {
+            result.reconnectCount++;
+        }
+        if (state === HiFiConnectionStates.Connected && connectedSince === undefined) {
+            connectedSince = Date.now();
+        } else if (state !== HiFiConnectionStates.Connected && connectedSince !== undefined) {
+            result.connectedSeconds += (Date.now() - connectedSince) / 1000;
+            connectedSince = undefined;
+        }
+        if (stateResult && stateResult.error && state !== HiFiConnectionStates.Connected) {
+            result.errors.push(String(stateResult.error));
+        }
+    });
+    communicator.on("peerUpdated", () => { result.peerUpdateCount++; });
+    communicator.on("stats", (stats: Array<WebRTCStatsReport>, prevStats: Array<WebRTCStatsReport>) => {
+        for (const report of stats) {
+            if (report.type === "remote-inbound-rtp") {
+                if (typeof (report.roundTripTime) === "number") {
+                    result.roundTripTimeMS.push(report.roundTripTime * 1000);
+                }
+                if (typeof (report.jitter) === "number") {
+                    result.jitterMS.push(report.jitter * 1000);
+                }
+            } else if (report.type === "inbound-rtp") {
+                // `jitterBufferDelay` is cumulative, so the average delay over the last interval comes from the difference between samples.
+                let prevReport = prevStats.find((candidate) => { return candidate.id === report.id; });
+                if (prevReport && report.jitterBufferEmittedCount > prevReport.jitterBufferEmittedCount) {
+                    result.jitterBufferDelayMS.push(1000 * (report.jitterBufferDelay - prevReport.jitterBufferDelay) / (report.jitterBufferEmittedCount - prevReport.jitterBufferEmittedCount));
+                }
+            }
+        }
+    });
+
+    let audioSource = createLoadTestAudioSource(getLoadTestBotConfig(scenario.audio, botIndex), botIndex);
+    let movementInterval: any;
+    try {
+        let mediaStream = audioSource.getMediaStream();
+        if (mediaStream) {
+            await communicator.setInputAudioMediaStream(mediaStream, audioSource.isStereo());
+            audioSource.start();
+        }
+
+        let connectStartedAt = Date.now();
+        try {
+            await communicator.connectToHiFiAudioAPIServer(createLoadTestBotJWT(scenario.jwt, botIndex), job.signalingHostURL, job.signalingPort);
+            result.connectTimeMS = Date.now() - connectStartedAt;
+        } catch (e) {
+            // The same error is usually reported by the `connectionStateChanged` event, too.
+            let error = e && e.error ? String(e.error) : String(e);
+            if (!result.errors.includes(error)) {
+                result.errors.push(error);
+            }
+        }
+
+        if (movement.pattern !== LoadTestMovementPatterns.Static) {
+            movementInterval = setInterval(() => {
+                communicator.updateUserDataAndTransmit(getUserData());
+            }, movement.updateIntervalMS || 100);
+        }
+
+        let remainingMS = scenario.durationSeconds * 1000 - (Date.now() - startedAt);
+        if (remainingMS > 0) {
+            await new Promise((resolve) => { setTimeout(resolve, remainingMS); });
+        }
+    } catch (e) {
+        result.errors.push(`The bot failed: ${e}`);
+    } finally {
+        if (movementInterval) {
+            clearInterval(movementInterval);
+        }
+        try {
+            await communicator.disconnectFromHiFiAudioAPIServer();
+        } catch (e) {
+            HiFiLogger.warn(`Bot ${botIndex} couldn't disconnect cleanly:\n${e}`);
+        }
+        audioSource.close();
+        if (connectedSince !== undefined) {
+            result.connectedSeconds += (Date.now() - connectedSince) / 1000;
+        }
+    }
+    return result;
+}
+
+function createLoadTestAudioSource(config: LoadTestAudioConfig, botIndex: number): HiFiAudioInputSource {
+    let gain = config.gain === undefined ? 1.0 : config.gain;
+    switch (config.source) {
+        case "tone":
+            // A different note of a two-octave scale for each bot.
+            return new HiFiToneAudioInputSource({ frequencyHz: config.frequencyHz || 220 * Math.pow(2, (botIndex % 24) / 12), gain });
+        case "noise":
+            return new HiFiNoiseAudioInputSource({ color: config.color === "white" ? HiFiNoiseColors.White : HiFiNoiseColors.Pink, seed: botIndex, gain });
+        case "file":
+            return new HiFiFileAudioInputSource({ filePath: config.filePath, loop: true, gain });
+        default:
+            return new HiFiSilenceAudioInputSource({ gain });
+    }
+}
+
+/**
+ * Starts the bots of one worker, each after its turn in the scenario's spawn schedule, and waits for all of them to finish.
+ */
+async function runLoadTestWorker(job: LoadTestWorkerJob): Promise<Array<LoadTestBotResult>> {
+    return Promise.all(job.botIndices.map(async (botIndex) => {
+        // The schedule is global, so that the spawn rate is the same regardless of the number of workers.
+        await new Promise((resolve) => { setTimeout(resolve, 1000 * botIndex / job.scenario.spawnRatePerSecond); });
+        return runLoadTestBot(job, botIndex);
+    }));
+}
+
+/**
+ * @returns A result for each of the job's bots, reporting that it failed with `error`.
+ */
+function createFailedLoadTestBotResults(job: LoadTestWorkerJob, error: string): Array<LoadTestBotResult> {
+    return job.botIndices.map((botIndex) => {
+        return {
+            botIndex: botIndex, connectTimeMS: undefined, connectionStateCounts: {}, reconnectCount: 0,
+            errors: [error],
+            connectedSeconds: 0, peerUpdateCount: 0, roundTripTimeMS: [], jitterMS: [], jitterBufferDelayMS: []
+        };
+    });
+}
+
+/**
+ * Runs a job in a new worker process.
+ * @param cliScriptPath The script that runs {@link runLoadTestCLI}, which is started again with `--worker`.
+ */
+function runLoadTestWorkerProcess(job: LoadTestWorkerJob, cliScriptPath: string): Promise<Array<LoadTestBotResult>> {
+    return new Promise((resolve) => {
+        let results: Array<LoadTestBotResult>;
+        let worker = childProcess.fork(cliScriptPath, ["--worker"]);
+        worker.on("message", (message: any) => {
+            if (message && message.results) {
+                results = message.results;
+            }
+        });
+        worker.on("exit", (code: number) => {
+            if (results) {
+                return resolve(results);
+            }
+            // Report the worker's bots as having failed, rather than losing them from the report.
+            resolve(createFailedLoadTestBotResults(job, `The worker process exited with code ${code} before reporting.`));
+        });
+        worker.send(job);
+    });
+}
+
+function printLoadTestReport(report: LoadTestReport): void {
+    let format = (value: number) => { return value === undefined ? "-" : value.toFixed(1); };
+    let row = (label: string, percentiles: { count: number, p50?: number, p90?: number, p99?: number, max?: number }) => {
+        return `  ${label.padEnd(24)} n=${String(percentiles.count).padEnd(7)} p50=${format(percentiles.p50).padEnd(9)} p90=${format(percentiles.p90).padEnd(9)} p99=${format(percentiles.p99).padEnd(9)} max=${format(percentiles.max)}`;
+    };
+    console.log(`\nLoad test "${report.scenarioName}": ${report.botCount} bots across ${report.workerCount} worker(s), ${report.elapsedSeconds.toFixed(1)}s`);
+    console.log(`  Connected: ${report.connectedBotCount}, never connected: ${report.neverConnectedBotCount}, reconnects: ${report.reconnectCount}`);
+    console.log(`  Connection states: ${Object.entries(report.connectionStateCounts).map(([state, count]) => { return `${state}=${count}`; }).join(", ") || "none"}`);
+    console.log(row("Connect time (ms)", report.connectTimeMS));
+    console.log(row("Peer updates / second", report.peerUpdatesPerSecond));
+    console.log(row("Round trip time (ms)", report.roundTripTimeMS));
+    console.log(row("Jitter (ms)", report.jitterMS));
+    console.log(row("Jitter buffer delay (ms)", report.jitterBufferDelayMS));
+    for (const [error, count] of Object.entries(report.errorCounts)) {
+        console.log(`  Error (${count}x): ${error}`);
+    }
+}
+
+/**
+ * Runs the `hifi-loadtest` command.
+ * @param args The command-line arguments, without the `node` executable and the script.
+ * @param cliScriptPath The script that calls this function; it is started again to create worker processes.
+ * @returns The process exit code: `0` if the load test ran, even if some bots failed, or `1` if it couldn't run.
+ */
+export async function runLoadTestCLI(args: Array<string>, cliScriptPath: string): Promise<number> {
+    // Bots log a lot; only errors are interesting when hundreds of them run at once.
+    HiFiLogger.setHiFiLogLevel(HiFiLogLevel.Error);
+
+    if (args[0] === "--worker") {
+        return new Promise((resolve) => {
+            process.once("message", async (job: LoadTestWorkerJob) => {
+                let results: Array<LoadTestBotResult>;
+                try {
+                    results = await runLoadTestWorker(job);
+                } catch (e) {
+                    // Report the worker's bots as having failed, rather than leaving the main process waiting for the worker to exit.
+                    results = createFailedLoadTestBotResults(job, `The worker failed: ${e && e.message || e}`);
+                }
+                process.send({ results: results }, () => { resolve(0); });
+            });
+        });
+    }
+
+    let scenarioPath: string;
+    let outputPath: string;
+    let workersOverride: number;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--help" || args[i] === "-h") {
+            console.log(USAGE);
+            return 0;
+        } else if (args[i] === "--output") {
+            outputPath = args[++i];
+        } else if (args[i] === "--workers") {
+            workersOverride = Number(args[++i]);
+        } else if (!scenarioPath) {
+            scenarioPath = args[i];
+        } else {
+            console.error(`Unexpected argument \`${args[i]}\`.\n${USAGE}`);
+            return 1;
+        }
+    }
+    if (!scenarioPath) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    let scenario: LoadTestScenario;
+    try {
+        let parsedScenario = JSON.parse(fs.readFileSync(scenarioPath, "utf8"));
+        if (workersOverride !== undefined) {
+            parsedScenario.workers = workersOverride;
+        }
+        scenario = validateLoadTestScenario(parsedScenario, path.basename(scenarioPath, path.extname(scenarioPath)));
+    } catch (e) {
+        console.error(`Invalid scenario \`${scenarioPath}\`: ${e.message || e}`);
+        return 1;
+    }
+
+    let mockMixer: HiFiMockMixer;
+    let signalingHostURL = scenario.signalingHostURL;
+    let signalingPort = scenario.signalingPort;
+    if (scenario.mockMixer) {
+        mockMixer = new HiFiMockMixer();
+        await mockMixer.start();
+        signalingHostURL = mockMixer.signalingURL;
+        signalingPort = undefined;
+    }
+
+    let jobs: Array<LoadTestWorkerJob> = [];
+    for (let worker = 0; worker < scenario.workers; worker++) {
+        jobs.push({ scenario, botIndices: [], signalingHostURL, signalingPort });
+    }
+    for (let botIndex = 0; botIndex < scenario.bots; botIndex++) {
+        jobs[botIndex % scenario.workers].botIndices.push(botIndex);
+    }
+
+    console.log(`Starting ${scenario.bots} bots at ${scenario.spawnRatePerSecond}/s for ${scenario.durationSeconds}s each...`);
+    let startedAt = Date.now();
+    let workerResults: Array<Array<LoadTestBotResult>>;
+    try {
+        // A single worker runs in this process, which keeps simple scenarios easy to debug.
+        workerResults = await Promise.all(jobs.map((job) => {
+            return scenario.workers === 1 ? runLoadTestWorker(job) : runLoadTestWorkerProcess(job, cliScriptPath);
+        }));
+    } finally {
+        if (mockMixer) {
+            await mockMixer.stop();
+        }
+    }
+
+    let botResults = workerResults.reduce((all, results) => { return all.concat(results); }, []).sort((a, b) => { return a.botIndex - b.botIndex; });
+    let report = createLoadTestReport({ scenario, botResults, startedAt, elapsedSeconds: (Date.now() - startedAt) / 1000 });
+    printLoadTestReport(report);
+    if (outputPath) {
+        fs.writeFileSync(outputPath, JSON.stringify({ ...report, bots: botResults }, null, 4));
+        console.log(`\nThe report has been written to \`${outputPath}\`.`);
+    }
+    return 0;
+}
@@ -0,0 +1,503 @@
+/**
+ * This Module contains the scenario format, movement patterns, JWT sources and report aggregation used by the `hifi-loadtest` command.
+ * See {@link LoadTestScenario} for the format of a scenario file, and {@link LoadTestReport} for the format of the report.
+ *
+ * This Module is NodeJS-only; it depends on `fs` and `crypto`, and is not part of the Web bundle.
+ * @packageDocumentation
+ */
+
+const fs = require('fs');
+const crypto = require('crypto');
+
+/**
+ * How bots obtain their JWTs. Exactly one of `tokens`, `tokenFile`, `appSecret` or `unsigned` must be used.
+ */
+export interface LoadTestJWTSource {
+    /**
+     * JWTs to use, assigned to bots in turn.
+     */
+    tokens?: Array<string>;
+    /**
+     * A file containing one JWT per line, assigned to bots in turn. The file is read once, by {@link validateLoadTestScenario},
+     * which replaces it with the `tokens` that it contains.
+     */
+    tokenFile?: string;
+    /**
+     * With `appSecret`, a JWT is signed for each bot with `user_id` set to `loadtest-bot-<bot index>`.
+     */
+    appID?: string;
+    spaceID?: string;
+    /**
+     * The App Secret used to sign JWTs. If set to `"env"`, it is read from the `HIFI_APP_SECRET` environment variable,
+     * so that it doesn't need to be stored in the scenario file.
+     */
+    appSecret?: string;
+    /**
+     * If `true`, unsigned JWTs are created for each bot. Only the local mock mixer accepts these.
+     */
+    unsigned?: boolean;
+}
+
+/**
+ * The ways in which bots can move around the space.
+ */
+export enum LoadTestMovementPatterns {
+    /**
+     * Bots stand still, spread across a grid.
+     */
+    Static = "static",
+    /**
+     * Bots walk around a circle centered on the origin, spread evenly around it.
+     */
+    Circle = "circle",
+    /**
+     * Bots walk back and forth along a line through their starting point.
+     */
+    Line = "line",
+    /**
+     * Bots wander randomly within a square centered on the origin.
+     */
+    RandomWalk = "randomWalk"
+}
+
+/**
+ * How a bot moves. All distances are in meters, in the HiFi coordinate frame (the Y-axis points up).
+ */
+export interface LoadTestMovementConfig {
+    pattern: LoadTestMovementPatterns;
+    /**
+     * The radius of the circle, half the length of the line, or half the width of the random walk's square. Defaults to `5`.
+     */
+    radiusMeters?: number;
+    /**
+     * Defaults to `1`.
+     */
+    speedMetersPerSecond?: number;
+    /**
+     * How often the bot transmits its position and orientation. Defaults to `100`.
+     */
+    updateIntervalMS?: number;
+}
+
+/**
+ * The audio that a bot transmits.
+ */
+export interface LoadTestAudioConfig {
+    source: "silence" | "tone" | "noise" | "file";
+    /**
+     * For `"tone"`. Defaults to a different frequency for each bot, so that bots can be told apart by ear.
+     */
+    frequencyHz?: number;
+    /**
+     * For `"noise"`: `"white"` or `"pink"`. Defaults to `"pink"`.
+     */
+    color?: string;
+    /**
+     * For `"file"`: the WAV file to loop.
+     */
+    filePath?: string;
+    /**
+     * A linear gain applied to the audio. Defaults to `1.0`.
+     */
+    gain?: number;
+}
+
+/**
+ * The contents of a scenario file, in JSON.
+ *
+ * `movement` and `audio` may each be a single configuration, used by every bot, or an Array of configurations assigned to bots in turn.
+ */
+export interface LoadTestScenario {
+    /**
+     * Used in the report. Defaults to the scenario file's name.
+     */
+    name?: string;
+    /**
+     * If `true`, a local mock mixer is started and the bots connect to it, ignoring `signalingHostURL` and `signalingPort`. Unsigned JWTs are used
+     * unless a `jwt` source is set.
+     */
+    mockMixer?: boolean;
+    /**
+     * See {@link HiFiCommunicator.connectToHiFiAudioAPIServer}.
+     */
+    signalingHostURL?: string;
+    signalingPort?: number;
+    jwt?: LoadTestJWTSource;
+    /**
+     * The number of bots.
+     */
+    bots: number;
+    /**
+     * How many bots are started per second. Defaults to `5`.
+     */
+    spawnRatePerSecond?: number;
+    /**
+     * How long each bot stays connected after it starts, in seconds.
+     */
+    durationSeconds: number;
+    /**
+     * The number of worker processes across which the bots are spread. Defaults to `1`.
+     */
+    workers?: number;
+    /**
+     * Defaults to `{ pattern: "static" }`.
+     */
+    movement?: LoadTestMovementConfig | Array<LoadTestMovementConfig>;
+    /**
+     * Defaults to `{ source: "silence" }`.
+     */
+    audio?: LoadTestAudioConfig | Array<LoadTestAudioConfig>;
+}
+
+/**
+ * What one bot measured during a load test.
+ */
+export interface LoadTestBotResult {
+    botIndex: number;
+    /**
+     * The number of milliseconds that the first connection took, or `undefined` if the bot never connected.
+     */
+    connectTimeMS?: number;
+    /**
+     * The number of times that the bot's connection went to each of the {@link HiFiConnectionStates}.
+     */
+    connectionStateCounts: { [state: string]: number };
+    /**
+     * The number of times that the bot started reconnecting after losing its connection.
+     */
+    reconnectCount: number;
+    /**
+     * The errors reported by connection attempts.
+     */
+    errors: Array<string>;
+    /**
+     * The number of seconds that the bot was connected.
+     */
+    connectedSeconds: number;
+    /**
+     * The number of `peerUpdated` events that the bot received.
+     */
+    peerUpdateCount: number;
+    /**
+     * WebRTC stats samples, one per second while connected.
+     */
+    roundTripTimeMS: Array<number>;
+    jitterMS: Array<number>;
+    jitterBufferDelayMS: Array<number>;
+}
+
+/**
+ * Describes the distribution of a metric across bots or samples.
+ */
+export interface LoadTestPercentiles {
+    count: number;
+    min?: number;
+    mean?: number;
+    p50?: number;
+    p90?: number;
+    p99?: number;
+    max?: number;
+}
+
+/**
+ * The report produced by `hifi-loadtest`.
+ */
+export interface LoadTestReport {
+    scenarioName: string;
+    /**
+     * The time at which the load test started, as an ISO 8601 string.
+     */
+    startedAt: string;
+    /**
+     * The number of seconds between the start of the first bot and the end of the last bot.
+     */
+    elapsedSeconds: number;
+    botCount: number;
+    workerCount: number;
+    /**
+     * The number of bots that connected at least once.
+     */
+    connectedBotCount: number;
+    /**
+     * The number of bots that never connected.
+     */
+    neverConnectedBotCount: number;
+    /**
+     * The total number of times that bots started reconnecting.
+     */
+    reconnectCount: number;
+    /**
+     * The total number of times that bots' connections went to each of the {@link HiFiConnectionStates}.
+     */
+    connectionStateCounts: { [state: string]: number };
+    /**
+     * Distinct connection errors and the number of times that each occurred.
+     */
+    errorCounts: { [error: string]: number };
+    connectTimeMS: LoadTestPercentiles;
+    /**
+     * The rate at which each bot received `peerUpdated` events while it was connected.
+     */
+    peerUpdatesPerSecond: LoadTestPercentiles;
+    roundTripTimeMS: LoadTestPercentiles;
+    jitterMS: LoadTestPercentiles;
+    jitterBufferDelayMS: LoadTestPercentiles;
+}
+
+/**
+ * Checks a scenario and fills in its defaults.
+ * @param scenario The parsed contents of a scenario file.
+ * @param defaultName The name to use if the scenario doesn't have one.
+ * @returns The scenario with every default filled in.
+ * @throws An `Error` describing the first problem with the scenario.
+ */
+export function validateLoadTestScenario(scenario: any, defaultName: string = "loadtest"): LoadTestScenario {
+    if (!scenario || typeof (scenario) !== "object") {
+        throw new Error(`The scenario must be a JSON object.`);
+    }
+    if (!Number.isInteger(scenario.bots) || scenario.bots < 1) {
+        throw new Error(`\`bots\` must be a positive integer.`);
+    }
+    if (!(scenario.durationSeconds > 0)) {
+        throw new Error(`\`durationSeconds\` must be greater than 0.`);
+    }
+    let spawnRatePerSecond = scenario.spawnRatePerSecond === undefined ? 5 : scenario.spawnRatePerSecond;
+    if (!(spawnRatePerSecond > 0)) {
+        throw new Error(`\`spawnRatePerSecond\` must be greater than 0.`);
+    }
+    let workers = scenario.workers === undefined ? 1 : scenario.workers;
+    if (!Number.isInteger(workers) || workers < 1) {
+        throw new Error(`\`workers\` must be a positive integer.`);
+    }
+
+    let jwt: LoadTestJWTSource = scenario.jwt || (scenario.mockMixer ? { unsigned: true } : undefined);
+    if (!jwt) {
+        throw new Error(`\`jwt\` must be set unless \`mockMixer\` is \`true\`.`);
+    }
+    let jwtSourceCount = [jwt.tokens, jwt.tokenFile, jwt.appSecret, jwt.unsigned].filter((value) => { return !!value; }).length;
+    if (jwtSourceCount !== 1) {
+        throw new Error(`\`jwt\` must have exactly one of \`tokens\`, \`tokenFile\`, \`appSecret\` or \`unsigned\`.`);
+    }
+    if (jwt.tokens && (!Array.isArray(jwt.tokens) || jwt.tokens.length === 0)) {
+        throw new Error(`\`jwt.tokens\` must be a non-empty Array.`);
+    }
+    if (jwt.appSecret && (!jwt.appID || !jwt.spaceID)) {
+        throw new Error(`\`jwt.appID\` and \`jwt.spaceID\` must be set with \`jwt.appSecret\`.`);
+    }
+    if (jwt.tokenFile) {
+        // Read the file once, rather than once for every bot in every worker.
+        let tokens = fs.readFileSync(jwt.tokenFile, "utf8").split(/\r?\n/).map((line: string) => { return line.trim(); }).filter((line: string) => { return !!line; });
+        if (tokens.length === 0) {
+            throw new Error(`\`${jwt.tokenFile}\` contains no JWTs.`);
+        }
+        jwt = { tokens: tokens };
+    }
+
+    let movement = scenario.movement === undefined ? { pattern: LoadTestMovementPatterns.Static } : scenario.movement;
+    for (const movementConfig of Array.isArray(movement) ? movement : [movement]) {
+        if (!movementConfig || !Object.values(LoadTestMovementPatterns).includes(movementConfig.pattern)) {
+            throw new Error(`Every \`movement.pattern\` must be one of: ${Object.values(LoadTestMovementPatterns).join(", ")}.`);
+        }
+    }
+    let audio = scenario.audio === undefined ? { source: "silence" } : scenario.audio;
+    for (const audioConfig of Array.isArray(audio) ? audio : [audio]) {
+        if (!audioConfig || !["silence", "tone", "noise", "file"].includes(audioConfig.source)) {
+            throw new Error(`Every \`audio.source\` must be one of: silence, tone, noise, file.`);
+        }
+        if (audioConfig.source === "file" && !audioConfig.filePath) {
+            throw new Error(`\`audio.filePath\` must be set for the \`file\` source.`);
+        }
+    }
+    if ((Array.isArray(movement) && movement.length === 0) || (Array.isArray(audio) && audio.length === 0)) {
+        throw new Error(`\`movement\` and \`audio\` must not be empty Arrays.`);
+    }
+
+    return {
+        ...scenario,
+        name: scenario.name || defaultName,
+        jwt: jwt,
+        spawnRatePerSecond: spawnRatePerSecond,
+        workers: Math.min(workers, scenario.bots),
+        movement: movement,
+        audio: audio
+    };
+}
+
+/**
+ * @param configs A single configuration, or an Array of configurations assigned to bots in turn.
+ * @param botIndex The index of the bot.
+ * @returns The configuration for the bot.
+ */
+export function getLoadTestBotConfig<T>(configs: T | Array<T>, botIndex: number): T {
+    return Array.isArray(configs) ? configs[botIndex % configs.length] : configs;
+}
+
+/**
+ * Creates the JWT with which a bot connects.
+ * @param source See {@link LoadTestJWTSource}. It must come from a scenario returned by {@link validateLoadTestScenario}.
+ * @param botIndex The index of the bot.
+ * @returns The JWT.
+ */
+export function createLoadTestBotJWT(source: LoadTestJWTSource, botIndex: number): string {
+    let userID = `loadtest-bot-${botIndex}`;
+    let base64URL = (value: any) => { return Buffer.from(JSON.stringify(value)).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_"); };
+
+    if (source.tokens) {
+        return source.tokens[botIndex % source.tokens.length];
+    } else if (source.tokenFile) {
+        throw new Error(`\`jwt.tokenFile\` is only read by \`validateLoadTestScenario()\`.`);
+    } else if (source.unsigned) {
+        return `${base64URL({ alg: "none", typ: "JWT" })}.${base64URL({ user_id: userID })}.`;
+    }
+
+    let appSecret = source.appSecret === "env" ? process.env.HIFI_APP_SECRET : source.appSecret;
+    if (!appSecret) {
+        throw new Error(`The \`HIFI_APP_SECRET\` environment variable must be set.`);
+    }
+    let headerAndPayload = `${base64URL({ alg: "HS256", typ: "JWT" })}.${base64URL({ user_id: userID, app_id: source.appID, space_id: source.spaceID })}`;
+    let signature = crypto.createHmac("sha256", appSecret).update(headerAndPayload).digest("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+    return `${headerAndPayload}.${signature}`;
+}
+
+/**
+ * A bot's position, in meters, and its yaw, in degrees, in the HiFi coordinate frame.
+ */
+export interface LoadTestBotPose {
+    x: number;
+    y: number;
+    z: number;
+    yawDegrees: number;
+}
+
+/**
+ * Computes where a bot is at a given time. Every pattern is deterministic, so that runs of the same scenario can be compared.
+ * @param movement The bot's movement configuration.
+ * @param botIndex The index of the bot.
+ * @param botCount The number of bots in the scenario.
+ * @param elapsedSeconds The number of seconds since the bot started.
+ * @returns The bot's pose.
+ */
+export function getLoadTestBotPose(movement: LoadTestMovementConfig, botIndex: number, botCount: number, elapsedSeconds: number): LoadTestBotPose {
+    let radius = movement.radiusMeters === undefined ? 5 : movement.radiusMeters;
+    let speed = movement.speedMetersPerSecond === undefined ? 1 : movement.speedMetersPerSecond;
+    let distance = speed * elapsedSeconds;
+    // Bots are spread across a grid that is about `2 * radius` wide, centered on the origin.
+    let gridSize = Math.ceil(Math.sqrt(botCount));
+    let spacing = gridSize > 1 ? 2 * radius / (gridSize - 1) : 0;
+    let gridX = (botIndex % gridSize) * spacing - radius * (gridSize > 1 ? 1 : 0);
+    let gridZ = Math.floor(botIndex / gridSize) * spacing - radius * (gridSize > 1 ? 1 : 0);
+
+    switch (movement.pattern) {
+        case LoadTestMovementPatterns.Circle: {
+            let startAngle = 2 * Math.PI * botIndex / botCount;
+            let angle = startAngle + (radius > 0 ? distance / radius : 0);
+            // Facing along the direction of travel, which is perpendicular to the radius.
+            return { x: radius * Math.cos(angle), y: 0, z: radius * Math.sin(angle), yawDegrees: (-angle * 180 / Math.PI) % 360 };
+        }
+        case LoadTestMovementPatterns.Line: {
+            // A triangle wave that goes from `-radius` to `radius` and back.
+            let period = 4 * radius;
+            let phase = period > 0 ? (distance + radius) % period : 0;
+            let offset = phase < 2 * radius ? phase - radius : 3 * radius - phase;
+            return { x: gridX + offset, y: 0, z: gridZ, yawDegrees: phase < 2 * radius ? -90 : 90 };
+        }
+        case LoadTestMovementPatterns.RandomWalk: {
+            // Change direction every second, along a pseudo-random heading derived from the bot and the second.
+            let x = gridX;
+            let z = gridZ;
+            let heading = 0;
+            for (let second = 0; second < elapsedSeconds; second++) {
+                heading = 2 * Math.PI * HiFiLoadTestRandom.hash(botIndex, second);
+                let step = speed * Math.min(1, elapsedSeconds - second);
+                x = Math.max(-radius, Math.min(radius, x + step * Math.sin(heading)));
+                z = Math.max(-radius, Math.min(radius, z - step * Math.cos(heading)));
+            }
+            return { x: x, y: 0, z: z, yawDegrees: heading * 180 / Math.PI };
+        }
+        default:
+            return { x: gridX, y: 0, z: gridZ, yawDegrees: 0 };
+    }
+}
+
+class HiFiLoadTestRandom {
+    /**
+     * @returns A number between `0` and `1` that depends only on `a` and `b`.
+     */
+    static hash(a: number, b: number): number {
+        let t = (Math.imul(a + 1, 0x9E3779B1) ^ Math.imul(b + 1, 0x85EBCA77)) >>> 0;
+        t = Math.imul(t ^ (t >>> 16), 0x7FEB352D) >>> 0;
+        t = Math.imul(t ^ (t >>> 15), 0x846CA68B) >>> 0;
+        return ((t ^ (t >>> 16)) >>> 0) / 4294967296;
+    }
+}
+
+/**
+ * @param values The values of a metric.
+ * @returns The distribution of the values. Values that aren't finite numbers are ignored.
+ */
+export function computeLoadTestPercentiles(values: Array<number>): LoadTestPercentiles {
+    let sorted = values.filter((value) => { return Number.isFinite(value); }).sort((a, b) => { return a - b; });
+    if (sorted.length === 0) {
+        return { count: 0 };
+    }
+    // The nearest-rank method.
+    let percentile = (p: number) => { return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)]; };
+    return {
+        count: sorted.length,
+        min: sorted[0],
+        mean: sorted.reduce((sum, value) => { return sum + value; }, 0) / sorted.length,
+        p50: percentile(50),
+        p90: percentile(90),
+        p99: percentile(99),
+        max: sorted[sorted.length - 1]
+    };
+}
+
+/**
+ * Combines the results of every bot into a report.
+ * @param __namedParameters
+ * @param scenario The validated scenario.
+ * @param botResults The results from every worker.
+ * @param startedAt The time at which the load test started, in milliseconds since the Unix epoch.
+ * @param elapsedSeconds The duration of the load test.
+ * @returns The report.
+ */
+export function createLoadTestReport({ scenario, botResults, startedAt, elapsedSeconds }: { scenario: LoadTestScenario, botResults: Array<LoadTestBotResult>, startedAt: number, elapsedSeconds: number }): LoadTestReport {
+    let connectionStateCounts: { [state: string]: number } = {};
+    let reconnectCount = 0;
+    let errorCounts: { [error: string]: number } = {};
+    let concat = (key: "roundTripTimeMS" | "jitterMS" | "jitterBufferDelayMS") => {
+        return botResults.reduce((all, result) => { return all.concat(result[key]); }, [] as Array<number>);
+    };
+
+    for (const result of botResults) {
+        for (const [state, count] of Object.entries(result.connectionStateCounts)) {
+            connectionStateCounts[state] = (connectionStateCounts[state] || 0) + count;
+        }
+        reconnectCount += result.reconnectCount;
+        for (const error of result.errors) {
+            errorCounts[error] = (errorCounts[error] || 0) + 1;
+        }
+    }
+
+    let connectedResults = botResults.filter((result) => { return result.connectTimeMS !== undefined; });
+    return {
+        scenarioName: scenario.name,
+        startedAt: new Date(startedAt).toISOString(),
+        elapsedSeconds: elapsedSeconds,
+        botCount: botResults.length,
+        workerCount: scenario.workers,
+        connectedBotCount: connectedResults.length,
+        neverConnectedBotCount: botResults.length - connectedResults.length,
+        reconnectCount: reconnectCount,
+        connectionStateCounts: connectionStateCounts,
+        errorCounts: errorCounts,
+        connectTimeMS: computeLoadTestPercentiles(connectedResults.map((result) => { return result.connectTimeMS; })),
+        peerUpdatesPerSecond: computeLoadTestPercentiles(botResults
+            .filter((result) => { return result.connectedSeconds > 0; })
+            .map((result) => { return result.peerUpdateCount / result.connectedSeconds; })),
+        roundTripTimeMS: computeLoadTestPercentiles(concat("roundTripTimeMS")),
+        jitterMS: computeLoadTestPercentiles(concat("jitterMS")),
+        jitterBufferDelayMS: computeLoadTestPercentiles(concat("jitterBufferDelayMS"))
+    };
+}
@@ -0,0 +1,638 @@
+/**
+ * This Module contains a local, in-process stand-in for a High Fidelity Spatial Audio mixer and its WebRTC signaling endpoint.
+ * It speaks the same signaling and data channel protocol as the real servers, which allows a {@link HiFiCommunicator} to be
+ * exercised end-to-end (connecting, reconnecting, being kicked, being muted by an admin, receiving peer updates)
+ * without network access or High Fidelity credentials.
+ *
+ * This Module is NodeJS-only; it depends on `ws` and `@koush/wrtc`, and is not part of the Web bundle.
+ *
+ * Example usage:
+ * ```typescript
+ * let mockMixer = new HiFiMockMixer();
+ * await mockMixer.start();
+ * let communicator = new HiFiCommunicator();
+ * await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+ * ...
+ * mockMixer.muteClient(mockMixer.getClients()[0], true);
+ * ...
+ * await mockMixer.stop();
+ * ```
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "../utilities/HiFiLogger";
+import pako from 'pako'
+
+const WebSocketServer = require('ws').Server;
+const wrtc = require('@koush/wrtc');
+const crypto = require('crypto');
+
+/**
+ * The shape of a single gzipped frame that the mixer sends to a client over the `ravi.command` data channel.
+ * See `HiFiMixerSession.handleRAVISessionBinaryData()` for how the client interprets each of these keys.
+ */
+export interface HiFiMockMixerFrame {
+    /**
+     * Peer data keyed by the mixer's "peer key". Each value uses the mixer's wire format:
+     * `J` is the provided user ID, `e` is the hashed visit ID, `x`/`y`/`z` are the position in millimeters,
+     * `W`/`X`/`Y`/`Z` are the orientation quaternion components multiplied by 1000, `v` is the volume in decibels,
+     * and `s` indicates whether or not the peer's input is stereo.
+     */
+    peers?: { [peerKey: string]: any };
+    /**
+     * Hashed visit IDs of peers who have disconnected.
+     */
+    deleted_visit_ids?: Array<string>;
+    /**
+     * Instructions to the client, such as `["mute", true]` or `["terminate"]`.
+     */
+    instructions?: Array<Array<any>>;
+}
+
+/**
+ * The build information that the mock mixer returns in its response to `audionet.init`.
+ */
+export interface HiFiMockMixerBuildInfo {
+    build_number: string;
+    build_type: string;
+    build_version: string;
+}
+
+/**
+ * One client connection to a {@link HiFiMockMixer}. Instances of this class are created by the mock mixer
+ * when a client opens a signaling connection; test code should obtain them via {@link HiFiMockMixer.getClients}
+ * or the {@link HiFiMockMixer.onClientInitialized} callback.
+ */
+export class HiFiMockMixerClient {
+    /**
+     * The JWT that the client passed in its signaling URL.
+     */
+    token: string;
+    /**
+     * The decoded payload of {@link token}, or `{}` if the token couldn't be decoded.
+     */
+    tokenPayload: any;
+    /**
+     * The RAVI session UUID that the client sent as part of its signaling `request`.
+     */
+    sessionUUID: string;
+    /**
+     * The `visit_id` the client sent in its `audionet.init` command.
+     */
+    visitID: string;
+    /**
+     * The hashed version of {@link visitID}, as returned in the `audionet.init` response and as sent to other clients as `e`.
+     */
+    visitIDHash: string;
+    /**
+     * The full argument that the client sent with its most recent `audionet.init` command.
+     */
+    initData: any;
+    /**
+     * The client's most recent state, built up by merging every input message (`x`, `y`, `z`, `W`, `X`, `Y`, `Z`, `T`, `g`, `a`, `r`) the client has sent.
+     */
+    currentState: any;
+    /**
+     * Every parsed input message the client has sent, in the order that they were received.
+     */
+    inputHistory: Array<any>;
+    /**
+     * The per-peer gains (`V`) this client has requested, keyed by hashed visit ID.
+     */
+    otherUserGains: { [hashedVisitID: string]: number };
+    /**
+     * `true` once the `ravi.command` and `ravi.input` data channels are open.
+     */
+    dataChannelsOpen: boolean;
+    /**
+     * The number of times the client has asked for an ICE restart, and been sent a new offer with new ICE credentials.
+     */
+    iceRestartCount: number;
+
+    /** @internal */
+    _webSocket: any;
+    /** @internal */
+    _peerConnection: any;
+    /** @internal */
+    _commandDataChannel: any;
+    /** @internal */
+    _inputDataChannel: any;
+
+    constructor({ webSocket, token }: { webSocket: any, token: string }) {
+        this._webSocket = webSocket;
+        this.token = token;
+        this.tokenPayload = HiFiMockMixer.decodeJWTPayload(token);
+        this.sessionUUID = undefined;
+        this.visitID = undefined;
+        this.visitIDHash = undefined;
+        this.initData = undefined;
+        this.currentState = {};
+        this.inputHistory = [];
+        this.otherUserGains = {};
+        this.dataChannelsOpen = false;
+        this.iceRestartCount = 0;
+        this._peerConnection = undefined;
+        this._commandDataChannel = undefined;
+        this._inputDataChannel = undefined;
+    }
+
+    /**
+     * @returns The `user_id` from the client's JWT, which the mixer reports to other clients as the "provided user ID".
+     */
+    get providedUserID(): string {
+        return this.tokenPayload.user_id;
+    }
+
+    /**
+     * @returns `true` if the client has run `audionet.init` and its data channels are still usable.
+     */
+    isInitialized(): boolean {
+        return !!this.visitIDHash && this.dataChannelsOpen;
+    }
+
+    /**
+     * Gzips the supplied frame and sends it to the client over the `ravi.command` data channel.
+     * @param frame The frame to send.
+     * @returns `true` if the frame was handed off to the data channel; `false` otherwise.
+     */
+    sendFrame(frame: HiFiMockMixerFrame): boolean {
+        if (!this._commandDataChannel || this._commandDataChannel.readyState !== "open") {
+            HiFiLogger.warn(`HiFiMockMixer: Couldn't send frame to client \`${this.visitIDHash}\`: command data channel isn't open!`);
+            return false;
+        }
+        let gzippedFrame = pako.gzip(JSON.stringify(frame));
+        this._commandDataChannel.send(gzippedFrame.buffer.slice(gzippedFrame.byteOffset, gzippedFrame.byteOffset + gzippedFrame.byteLength));
+        return true;
+    }
+
+    /**
+     * @returns The client's current state in the mixer's "peer" wire format, suitable for inclusion in a {@link HiFiMockMixerFrame}.
+     */
+    getPeerData(): any {
+        let peerData: any = {
+            "e": this.visitIDHash,
+            "J": this.providedUserID,
+            "s": !!(this.initData && this.initData.is_input_stream_stereo)
+        };
+        for (const key of ["x", "y", "z", "W", "X", "Y", "Z"]) {
+            if (this.currentState[key] !== undefined) {
+                peerData[key] = this.currentState[key];
+            }
+        }
+        return peerData;
+    }
+
+    /**
+     * Sends a "mute" instruction to the client, exactly as an admin mute from the real mixer would.
+     * @param muted `true` to mute the client and prevent it from unmuting; `false` to allow it to unmute again.
+     */
+    mute(muted: boolean): boolean {
+        return this.sendFrame({ instructions: [["mute", muted]] });
+    }
+
+    /**
+     * Sends a "terminate" instruction to the client, exactly as a kick from the real mixer would.
+     * The client is expected to disconnect and to not attempt to reconnect.
+     */
+    terminate(): boolean {
+        return this.sendFrame({ instructions: [["terminate"]] });
+    }
+
+    /**
+     * Abruptly closes the client's peer connection and signaling connection, without sending any instructions.
+     * Use this to simulate a mixer crash or network failure (and therefore to exercise the client's reconnection logic).
+     */
+    drop(): void {
+        if (this._peerConnection) {
+            try {
+                this._peerConnection.close();
+            } catch (e) {
+                HiFiLogger.warn(`HiFiMockMixer: Error closing peer connection:\n${e}`);
+            }
+            this._peerConnection = undefined;
+        }
+        this.dataChannelsOpen = false;
+        if (this._webSocket) {
+            this._webSocket.terminate();
+        }
+    }
+}
+
+/**
+ * A local mock of a High Fidelity Spatial Audio mixer and its signaling server.
+ *
+ * The mock mixer:
+ * - Accepts WebSocket signaling connections of the form `ws://<host>:<port>/?token=<JWT>`, and performs the SDP offer/answer
+ * and ICE candidate exchange that `RaviWebRTCImplementation._setupConnection()` expects.
+ * - Opens the `ravi.command` and `ravi.input` data channels, and offers a single (silent) audio transceiver.
+ * - Answers `audionet.init` with build information, the client's hashed visit ID and its {@link HiFiMockMixer.capabilities}.
+ * - Answers `renegotiate` signaling messages that have the `iceRestart` flag with an ICE restart offer.
+ * - Records every input message each client sends, merging them into {@link HiFiMockMixerClient.currentState}.
+ * - By default, relays every client's state to every connected client as gzipped `peers` frames, and sends
+ * `deleted_visit_ids` frames when clients disconnect.
+ *
+ * Test code can also push arbitrary frames to clients, for example to simulate peers that don't really exist,
+ * and can admin-mute or kick clients via {@link HiFiMockMixerClient.mute} and {@link HiFiMockMixerClient.terminate}.
+ */
+export class HiFiMockMixer {
+    /**
+     * The host the mock mixer listens on.
+     */
+    host: string;
+    /**
+     * The port the mock mixer listens on. If `0` was supplied to the constructor, this will be updated with the
+     * port chosen by the operating system once {@link start} resolves.
+     */
+    port: number;
+    /**
+     * When `true`, each client's state is sent to all initialized clients as a `peers` frame every time it changes,
+     * and disconnections are sent as `deleted_visit_ids` frames.
+     */
+    relayPeerUpdates: boolean;
+    /**
+     * When `true`, new signaling connections are answered with the `service-unavailable` error that a mixer at capacity sends.
+     */
+    unavailable: boolean;
+    /**
+     * The build information returned in `audionet.init` responses.
+     */
+    buildInfo: HiFiMockMixerBuildInfo;
+    /**
+     * The `capabilities` returned in `audionet.init` responses. Defaults to `["ice_restart"]`, which tells clients that they may
+     * request ICE restarts. Remove it to test clients against a server that doesn't support them.
+     */
+    capabilities: Array<string>;
+    /**
+     * Called whenever a client successfully runs `audionet.init`.
+     */
+    onClientInitialized: (client: HiFiMockMixerClient) => void;
+    /**
+     * Called whenever a client sends an input message. `input` is the parsed message.
+     */
+    onClientInput: (client: HiFiMockMixerClient, input: any) => void;
+    /**
+     * Called whenever a client's signaling connection closes, including when the mixer drops its clients because it's stopping.
+     */
+    onClientDisconnected: (client: HiFiMockMixerClient) => void;
+
+    private _webSocketServer: any;
+    private _clients: Set<HiFiMockMixerClient>;
+
+    /**
+     * @param __namedParameters
+     * @param host - The host on which to listen. Defaults to `127.0.0.1`.
+     * @param port - The port on which to listen. Defaults to `0`, which will choose a free port.
+     * @param relayPeerUpdates - See {@link HiFiMockMixer.relayPeerUpdates}. Defaults to `true`.
+     * @param buildInfo - See {@link HiFiMockMixer.buildInfo}.
+     */
+    constructor({ host = "127.0.0.1", port = 0, relayPeerUpdates = true, buildInfo = { build_number: "0", build_type: "mock", build_version: "mock" } }: { host?: string, port?: number, relayPeerUpdates?: boolean, buildInfo?: HiFiMockMixerBuildInfo } = {}) {
+        this.host = host;
+        this.port = port;
+        this.relayPeerUpdates = relayPeerUpdates;
+        this.unavailable = false;
+        this.buildInfo = buildInfo;
+        this.capabilities = ["ice_restart"];
+        this.onClientInitialized = undefined;
+        this.onClientInput = undefined;
+        this.onClientDisconnected = undefined;
+        this._webSocketServer = undefined;
+        this._clients = new Set();
+    }
+
+    /**
+     * The URL to pass as the `signalingHostURL` argument to {@link HiFiCommunicator.connectToHiFiAudioAPIServer}.
+     */
+    get signalingURL(): string {
+        return `ws://${this.host}:${this.port}`;
+    }
+
+    /**
+     * Start listening for signaling connections.
+     * @returns A Promise that resolves with the port on which the mock mixer is listening.
+     */
+    start(): Promise<number> {
+        if (this._webSocketServer) {
+            return Promise.resolve(this.port);
+        }
+        return new Promise((resolve, reject) => {
+            this._webSocketServer = new WebSocketServer({ host: this.host, port: this.port });
+            this._webSocketServer.on('listening', () => {
+                this.port = this._webSocketServer.address().port;
+                HiFiLogger.log(`HiFiMockMixer: Listening on ${this.signalingURL}`);
+                resolve(this.port);
+            });
+            this._webSocketServer.on('error', (error: any) => {
+                reject(error);
+            });
+            this._webSocketServer.on('connection', (webSocket: any, request: any) => {
+                this._handleSignalingConnection(webSocket, request);
+            });
+        });
+    }
+
+    /**
+     * Drop all clients and stop listening for signaling connections. {@link onClientDisconnected} is called for each client.
+     */
+    stop(): Promise<void> {
+        // Drop every client first, so that the remaining clients aren't sent the departures of the others.
+        let clients = Array.from(this._clients);
+        clients.forEach((client) => {
+            client.drop();
+        });
+        clients.forEach((client) => {
+            this._handleClientDisconnected(client);
+        });
+        if (!this._webSocketServer) {
+            return Promise.resolve();
+        }
+        let webSocketServer = this._webSocketServer;
+        this._webSocketServer = undefined;
+        return new Promise((resolve) => {
+            webSocketServer.close(() => {
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * @returns All clients whose signaling connections are currently open, in the order they connected.
+     */
+    getClients(): Array<HiFiMockMixerClient> {
+        return Array.from(this._clients);
+    }
+
+    /**
+     * @returns The client whose `audionet.init` produced the supplied hashed visit ID, or `undefined` if there is no such client.
+     */
+    getClientByVisitIDHash(visitIDHash: string): HiFiMockMixerClient {
+        return this.getClients().find((client) => { return client.visitIDHash === visitIDHash; });
+    }
+
+    /**
+     * Sends a frame to every initialized client.
+     * @param frame The frame to send.
+     */
+    broadcastFrame(frame: HiFiMockMixerFrame): void {
+        this._clients.forEach((client) => {
+            if (client.isInitialized()) {
+                client.sendFrame(frame);
+            }
+        });
+    }
+
+    /**
+     * Sends a "mute" instruction to the supplied client. See {@link HiFiMockMixerClient.mute}.
+     */
+    muteClient(client: HiFiMockMixerClient, muted: boolean): boolean {
+        return client.mute(muted);
+    }
+
+    /**
+     * Sends a "terminate" instruction to the supplied client. See {@link HiFiMockMixerClient.terminate}.
+     */
+    terminateClient(client: HiFiMockMixerClient): boolean {
+        return client.terminate();
+    }
+
+    /**
+     * Decodes the payload of a JWT without verifying its signature.
+     * @returns The decoded payload, or `{}` if the token is malformed.
+     */
+    static decodeJWTPayload(token: string): any {
+        try {
+            return JSON.parse(Buffer.from(token.split(".")[1], "base64").toString("utf8"));
+        } catch (e) {
+            return {};
+        }
+    }
+
+    /**
+     * Creates an unsigned JWT with the supplied payload. The mock mixer doesn't verify signatures, so this is
+     * a convenient way to create tokens for tests.
+     */
+    static createUnsignedJWT(payload: any): string {
+        let encode = (obj: any) => { return Buffer.from(JSON.stringify(obj), "utf8").toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_"); };
+        return `${encode({ alg: "none", typ: "JWT" })}.${encode(payload)}.`;
+    }
+
+    private _handleSignalingConnection(webSocket: any, request: any): void {
+        if (this.unavailable) {
+            webSocket.send(JSON.stringify({ error: "service-unavailable" }));
+            webSocket.close();
+            return;
+        }
+
+        let token = "";
+        try {
+            token = new URL(request.url, this.signalingURL).searchParams.get("token") || "";
+        } catch (e) {
+            HiFiLogger.warn(`HiFiMockMixer: Couldn't parse signaling request URL \`${request.url}\``);
+        }
+        let client = new HiFiMockMixerClient({ webSocket, token });
+        this._clients.add(client);
+
+        webSocket.on('message', (message: any) => {
+            let parsedMessage: any;
+            try {
+                parsedMessage = JSON.parse(message.toString());
+            } catch (e) {
+                HiFiLogger.warn(`HiFiMockMixer: Couldn't parse signaling message:\n${message}`);
+                return;
+            }
+            this._handleSignalingMessage(client, parsedMessage);
+        });
+
+        webSocket.on('close', () => {
+            this._handleClientDisconnected(client);
+        });
+    }
+
+    private _handleSignalingMessage(client: HiFiMockMixerClient, message: any): void {
+        if (message.request) {
+            client.sessionUUID = typeof (message.request) === "string" ? message.request : message.request.sessionID;
+            this._createPeerConnection(client);
+            this._sendOffer(client);
+        } else if (message.renegotiate) {
+            if (message.iceRestart) {
+                client.iceRestartCount++;
+            }
+            this._sendOffer(client, !!message.iceRestart);
+        } else if (message.type === "answer" && client._peerConnection) {
+            client._peerConnection.setRemoteDescription(new wrtc.RTCSessionDescription(message.sdp))
+            .catch((e: any) => {
+                HiFiLogger.error(`HiFiMockMixer: Couldn't set remote description:\n${e}`);
+            });
+        } else if (message.ice && client._peerConnection) {
+            client._peerConnection.addIceCandidate(message.ice)
+            .catch((e: any) => {
+                HiFiLogger.warn(`HiFiMockMixer: Couldn't add remote ICE candidate:\n${e}`);
+            });
+        }
+    }
+
+    private _sendSignal(client: HiFiMockMixerClient, signal: any): void {
+        if (client._webSocket.readyState === client._webSocket.OPEN) {
+            client._webSocket.send(JSON.stringify({ [client.sessionUUID]: signal }));
+        }
+    }
+
+    private _createPeerConnection(client: HiFiMockMixerClient): void {
+        // No ICE servers; everything the mock mixer does is local.
+        let peerConnection = new wrtc.RTCPeerConnection({ iceServers: [] });
+        client._peerConnection = peerConnection;
+
+        peerConnection.addEventListener('icecandidate', (event: any) => {
+            if (event.candidate) {
+                this._sendSignal(client, { ice: event.candidate });
+            }
+        });
+
+        // The client expects to receive audio from the mixer.
+        peerConnection.addTransceiver('audio', { direction: 'sendrecv' });
+
+        let commandDataChannel = peerConnection.createDataChannel("ravi.command");
+        let inputDataChannel = peerConnection.createDataChannel("ravi.input");
+        client._commandDataChannel = commandDataChannel;
+        client._inputDataChannel = inputDataChannel;
+
+        let onDataChannelOpen = () => {
+            client.dataChannelsOpen = commandDataChannel.readyState === "open" && inputDataChannel.readyState === "open";
+        };
+        commandDataChannel.addEventListener('open', onDataChannelOpen);
+        inputDataChannel.addEventListener('open', onDataChannelOpen);
+        commandDataChannel.addEventListener('close', () => { client.dataChannelsOpen = false; });
+        inputDataChannel.addEventListener('close', () => { client.dataChannelsOpen = false; });
+
+        commandDataChannel.addEventListener('message', (event: any) => {
+            this._handleCommand(client, event.data);
+        });
+        inputDataChannel.addEventListener('message', (event: any) => {
+            this._handleInput(client, event.data);
+        });
+    }
+
+    private _sendOffer(client: HiFiMockMixerClient, iceRestart: boolean = false): void {
+        let peerConnection = client._peerConnection;
+        if (!peerConnection) {
+            return;
+        }
+        peerConnection.createOffer({ iceRestart })
+        .then((offer: any) => {
+            return peerConnection.setLocalDescription(offer);
+        })
+        .then(() => {
+            this._sendSignal(client, { type: "offer", sdp: peerConnection.localDescription.sdp });
+        })
+        .catch((e: any) => {
+            HiFiLogger.error(`HiFiMockMixer: Couldn't create offer:\n${e}`);
+        });
+    }
+
+    private _handleCommand(client: HiFiMockMixerClient, data: any): void {
+        if (typeof (data) !== "string") {
+            HiFiLogger.warn(`HiFiMockMixer: Ignoring binary command from client \`${client.visitIDHash}\``);
+            return;
+        }
+        let command: any;
+        try {
+            command = JSON.parse(data);
+        } catch (e) {
+            HiFiLogger.warn(`HiFiMockMixer: Couldn't parse command:\n${data}`);
+            return;
+        }
+
+        if (command.c === "audionet.init") {
+            let isFirstInit = !client.visitIDHash;
+            client.initData = command.p;
+            client.visitID = command.p.visit_id;
+            client.visitIDHash = crypto.createHash("sha256").update(client.visitID).digest("base64");
+            this._mergeInput(client, command.p);
+
+            let response = { ...this.buildInfo, visit_id_hash: client.visitIDHash, capabilities: this.capabilities };
+            client._commandDataChannel.send(JSON.stringify({ "c": "audionet.init", "p": JSON.stringify(response) }));
+            // `isInitialized()` also depends on the data channels being open, and they're open by the time the client can send commands.
+            client.dataChannelsOpen = true;
+
+            if (this.relayPeerUpdates) {
+                let peers: { [peerKey: string]: any } = {};
+                this._clients.forEach((otherClient) => {
+                    if (otherClient.isInitialized()) {
+                        peers[otherClient.visitIDHash] = otherClient.getPeerData();
+                    }
+                });
+                client.sendFrame({ peers });
+                this._relayClientState(client, client);
+            }
+
+            if (isFirstInit && this.onClientInitialized) {
+                this.onClientInitialized(client);
+            }
+        } else {
+            HiFiLogger.log(`HiFiMockMixer: Ignoring unknown command \`${command.c}\``);
+        }
+    }
+
+    private _handleInput(client: HiFiMockMixerClient, data: any): void {
+        if (typeof (data) !== "string") {
+            HiFiLogger.warn(`HiFiMockMixer: Ignoring binary input from client \`${client.visitIDHash}\``);
+            return;
+        }
+        let input: any;
+        try {
+            input = JSON.parse(data);
+        } catch (e) {
+            HiFiLogger.warn(`HiFiMockMixer: Couldn't parse input:\n${data}`);
+            return;
+        }
+        client.inputHistory.push(input);
+        this._mergeInput(client, input);
+
+        if (this.onClientInput) {
+            this.onClientInput(client, input);
+        }
+
+        if (this.relayPeerUpdates && client.isInitialized()) {
+            this._relayClientState(client);
+        }
+    }
+
+    private _mergeInput(client: HiFiMockMixerClient, input: any): void {
+        for (const key of ["x", "y", "z", "W", "X", "Y", "Z", "T", "g", "a", "r"]) {
+            if (input[key] !== undefined) {
+                client.currentState[key] = input[key];
+            }
+        }
+        if (input.V) {
+            client.otherUserGains = { ...client.otherUserGains, ...input.V };
+        }
+    }
+
+    private _relayClientState(client: HiFiMockMixerClient, excludedClient?: HiFiMockMixerClient): void {
+        let frame: HiFiMockMixerFrame = { peers: { [client.visitIDHash]: client.getPeerData() } };
+        this._clients.forEach((otherClient) => {
+            if (otherClient !== excludedClient && otherClient.isInitialized()) {
+                otherClient.sendFrame(frame);
+            }
+        });
+    }
+
+    private _handleClientDisconnected(client: HiFiMockMixerClient): void {
+        if (!this._clients.has(client)) {
+            return;
+        }
+        this._clients.delete(client);
+        if (client._peerConnection) {
+            client._peerConnection.close();
+            client._peerConnection = undefined;
+        }
+        client.dataChannelsOpen = false;
+
+        if (this.relayPeerUpdates && client.visitIDHash) {
+            this.broadcastFrame({ deleted_visit_ids: [client.visitIDHash] });
+        }
+
+        if (this.onClientDisconnected) {
+            this.onClientDisconnected(client);
+        }
+    }
+}
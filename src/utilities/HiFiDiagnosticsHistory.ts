@@ -0,0 +1,425 @@
+/**
+ * This Module contains the history of connection events and WebRTC stats that the {@link HiFiCommunicator} keeps so that
+ * {@link HiFiCommunicator.exportDiagnostics} can describe what happened to a connection, e.g. for a support ticket.
+ * @packageDocumentation
+ */
+
+declare var HIFI_API_VERSION: string;
+
+import { HiFiConnectionStates, HiFiConnectionAttemptResult, RetryScheduledEvent } from "../classes/HiFiCommunicator";
+import { MuteChangedEvent } from "../classes/HiFiMixerSession";
+import { WebRTCStatsFieldSelection, WebRTCStatsSample } from "../libravi/RaviWebRTCStats";
+import { HiFiLogger, HiFiLogRecord } from "./HiFiLogger";
+import { HiFiRedactor } from "./HiFiRedactor";
+
+/**
+ * Configures the history that the {@link HiFiCommunicator} keeps for {@link HiFiCommunicator.exportDiagnostics}.
+ * Pass this as `diagnosticsHistoryConfig` to {@link HiFiCommunicator.constructor}.
+ */
+export interface DiagnosticsHistoryConfig {
+    /**
+     * Set to `false` to keep no history. {@link HiFiCommunicator.exportDiagnostics} then only describes the current state, the environment
+     * and the recent log lines. Defaults to `true`.
+     */
+    enabled?: boolean;
+    /**
+     * The number of connection state transitions, retries and mute events that are kept, each. Defaults to 100.
+     */
+    maxEvents?: number;
+    /**
+     * How often, in milliseconds, a WebRTC stats sample is added to the history while connected. Defaults to 5000.
+     */
+    statsIntervalMS?: number;
+    /**
+     * The number of WebRTC stats samples that are kept. Defaults to 120, i.e. the last 10 minutes at the default `statsIntervalMS`.
+     */
+    maxStatsSamples?: number;
+    /**
+     * The number of log lines included in the bundle. Defaults to 200.
+     */
+    maxLogLines?: number;
+}
+
+/**
+ * A change of the {@link HiFiCommunicator}'s connection state.
+ */
+export interface DiagnosticsStateTransition {
+    /**
+     * When the state changed, in milliseconds since the epoch.
+     */
+    timestamp: number;
+    previousState: HiFiConnectionStates;
+    state: HiFiConnectionStates;
+    /**
+     * The result that was passed to `connectionStateChanged` listeners, without its `audionetInitResponse`.
+     */
+    result?: HiFiConnectionAttemptResult;
+}
+
+/**
+ * A retry that the {@link HiFiCommunicator} scheduled. See {@link RetryScheduledEvent}.
+ */
+export interface DiagnosticsRetry extends RetryScheduledEvent {
+    /**
+     * When the retry was scheduled, in milliseconds since the epoch.
+     */
+    timestamp: number;
+}
+
+/**
+ * A change of the client's mute state. See {@link MuteChangedEvent}.
+ */
+export interface DiagnosticsMuteEvent {
+    /**
+     * When the mute state changed, in milliseconds since the epoch.
+     */
+    timestamp: number;
+    success: boolean;
+    targetInputAudioMutedValue: boolean;
+    currentInputAudioMutedValue: boolean;
+    adminPreventsInputAudioUnmuting: boolean;
+    muteReason: string;
+}
+
+/**
+ * A summary of one WebRTC stats sample. The packet counts are the changes since the previous sample, so they're `undefined`
+ * for the first sample of each connection. Metrics that the browser doesn't report are `undefined`.
+ */
+export interface DiagnosticsStatsSample {
+    /**
+     * When the sample was taken, in milliseconds since the epoch.
+     */
+    timestamp: number;
+    /**
+     * The number of milliseconds since the previous sample.
+     */
+    elapsedMS: number;
+    packetsReceived: number;
+    packetsLost: number;
+    packetsSent: number;
+    /**
+     * The jitter of the audio received from the server, in milliseconds.
+     */
+    jitterMS: number;
+    /**
+     * The round-trip time to the server, in milliseconds.
+     */
+    roundTripTimeMS: number;
+}
+
+/**
+ * What the client knows about the browser (or Node.js) it is running in. Capabilities are `true` if the API exists.
+ */
+export interface DiagnosticsEnvironment {
+    isBrowser: boolean;
+    userAgent: string;
+    platform: string;
+    language: string;
+    online: boolean;
+    hardwareConcurrency: number;
+    capabilities: {
+        RTCPeerConnection: boolean;
+        getUserMedia: boolean;
+        AudioContext: boolean;
+        AudioWorklet: boolean;
+        setSinkId: boolean;
+        localStorage: boolean;
+    };
+}
+
+/**
+ * A self-contained description of a {@link HiFiCommunicator} and what has happened to its connections, returned by
+ * {@link HiFiCommunicator.exportDiagnostics}. It can be serialized with `JSON.stringify()` and attached to a support ticket.
+ * It has been redacted by {@link HiFiRedactor}, and the current JWT is always masked, whatever the {@link RedactionConfig}.
+ */
+export interface DiagnosticsBundle {
+    /**
+     * The version of this format. Incremented when fields are removed or change meaning.
+     */
+    formatVersion: number;
+    /**
+     * When the bundle was created, as an ISO 8601 string.
+     */
+    createdAt: string;
+    /**
+     * The version of the Spatial Audio API.
+     */
+    apiVersion: string;
+    environment: DiagnosticsEnvironment;
+    /**
+     * The connection state when the bundle was created.
+     */
+    connectionState: HiFiConnectionStates;
+    /**
+     * Information about the mixer that the client is or was last connected to, including its build version.
+     */
+    mixerInfo: any;
+    stateTransitions: Array<DiagnosticsStateTransition>;
+    retries: Array<DiagnosticsRetry>;
+    muteEvents: Array<DiagnosticsMuteEvent>;
+    stats: Array<DiagnosticsStatsSample>;
+    /**
+     * The most recent log records of this {@link HiFiCommunicator} and of the rest of the library (including the WebRTC layer), oldest first,
+     * whatever the current log levels. Records of other {@link HiFiCommunicator}s are left out. Any `data` that can't be serialized is
+     * replaced by its string form.
+     */
+    logs: Array<HiFiLogRecord>;
+}
+
+/**
+ * Keeps a bounded history of the connection state transitions, retries, mute events and WebRTC stats of a {@link HiFiCommunicator},
+ * and creates {@link DiagnosticsBundle}s from it. The {@link HiFiCommunicator} owns an instance of this class.
+ * The stats must include the fields in {@link HiFiDiagnosticsHistory.STATS_FIELDS}.
+ */
+export class HiFiDiagnosticsHistory {
+    /**
+     * The WebRTC stats fields that {@link handleStats} needs.
+     */
+    static STATS_FIELDS: WebRTCStatsFieldSelection = {
+        'inbound-rtp': ['packetsReceived', 'packetsLost', 'jitter'],
+        'outbound-rtp': ['packetsSent'],
+        'remote-inbound-rtp': ['roundTripTime']
+    };
+
+    enabled: boolean;
+    maxEvents: number;
+    statsIntervalMS: number;
+    maxStatsSamples: number;
+    maxLogLines: number;
+
+    private _stateTransitions: Array<DiagnosticsStateTransition>;
+    private _retries: Array<DiagnosticsRetry>;
+    private _muteEvents: Array<DiagnosticsMuteEvent>;
+    private _stats: Array<DiagnosticsStatsSample>;
+    private _lastState: HiFiConnectionStates;
+
+    /**
+     * @param __namedParameters
+     * @param config - See {@link DiagnosticsHistoryConfig}.
+     * @param initialState - The connection state before the first recorded transition.
+     */
+    constructor({
+        config = {},
+        initialState
+    }: {
+        config?: DiagnosticsHistoryConfig,
+        initialState?: HiFiConnectionStates
+    } = {}) {
+        this.enabled = config.enabled !== false;
+        this.maxEvents = config.maxEvents > 0 ? Math.floor(config.maxEvents) : 100;
+        this.statsIntervalMS = config.statsIntervalMS > 0 ? config.statsIntervalMS : 5000;
+        this.maxStatsSamples = config.maxStatsSamples > 0 ? Math.floor(config.maxStatsSamples) : 120;
+        this.maxLogLines = config.maxLogLines >= 0 ? Math.floor(config.maxLogLines) : 200;
+
+        this._stateTransitions = [];
+        this._retries = [];
+        this._muteEvents = [];
+        this._stats = [];
+        this._lastState = initialState;
+    }
+
+    /**
+     * Records a change of the connection state.
+     * @param state - The new state.
+     * @param result - The result passed to `connectionStateChanged` listeners, if any.
+     * @param timestamp - When the state changed. Defaults to now.
+     */
+    recordStateTransition(state: HiFiConnectionStates, result?: HiFiConnectionAttemptResult, timestamp: number = Date.now()): void {
+        let previousState = this._lastState;
+        this._lastState = state;
+        if (!this.enabled) {
+            return;
+        }
+        let transition: DiagnosticsStateTransition = { timestamp, previousState, state };
+        if (result) {
+            // The `audionetInitResponse` is large, and the parts that matter are in the `mixerInfo`.
+            let { audionetInitResponse, ...resultWithoutResponse } = result;
+            transition.result = resultWithoutResponse;
+        }
+        this._push(this._stateTransitions, transition, this.maxEvents);
+    }
+
+    /**
+     * Records a retry that was scheduled.
+     * @param retryScheduledEvent - The event that was passed to `retryScheduled` listeners.
+     * @param timestamp - When the retry was scheduled. Defaults to now.
+     */
+    recordRetry(retryScheduledEvent: RetryScheduledEvent, timestamp: number = Date.now()): void {
+        if (!this.enabled) {
+            return;
+        }
+        this._push(this._retries, { timestamp, ...retryScheduledEvent }, this.maxEvents);
+    }
+
+    /**
+     * Records a change of the client's mute state.
+     * @param muteChangedEvent - The event that was passed to `muteChanged` listeners.
+     * @param timestamp - When the mute state changed. Defaults to now.
+     */
+    recordMuteEvent(muteChangedEvent: MuteChangedEvent, timestamp: number = Date.now()): void {
+        if (!this.enabled) {
+            return;
+        }
+        this._push(this._muteEvents, {
+            timestamp,
+            success: muteChangedEvent.success,
+            targetInputAudioMutedValue: muteChangedEvent.targetInputAudioMutedValue,
+            currentInputAudioMutedValue: muteChangedEvent.currentInputAudioMutedValue,
+            adminPreventsInputAudioUnmuting: muteChangedEvent.adminPreventsInputAudioUnmuting,
+            muteReason: muteChangedEvent.muteReason
+        }, this.maxEvents);
+    }
+
+    /**
+     * Adds a summary of a WebRTC stats sample to the history.
+     * @param sample - A sample with (at least) the fields in {@link STATS_FIELDS}, from a subscription with an interval of `statsIntervalMS`.
+     * @returns The summary that was added, or `undefined` if the sample contains none of the stats the history needs.
+     */
+    handleStats(sample: WebRTCStatsSample): DiagnosticsStatsSample {
+        if (!this.enabled) {
+            return undefined;
+        }
+        let inbound = sample.inboundRTP[0];
+        let outbound = sample.outboundRTP[0];
+        let remoteInbound = sample.remoteInboundRTP[0];
+        if (!inbound && !outbound && !remoteInbound) {
+            return undefined;
+        }
+
+        let delta = (report: { id: string }, field: string): number => {
+            let deltas = report && sample.deltas[report.id];
+            return deltas ? deltas[field] : undefined;
+        };
+        let summary: DiagnosticsStatsSample = {
+            timestamp: sample.timestamp,
+            elapsedMS: sample.elapsedMS,
+            packetsReceived: delta(inbound, "packetsReceived"),
+            packetsLost: delta(inbound, "packetsLost"),
+            packetsSent: delta(outbound, "packetsSent"),
+            jitterMS: inbound && typeof (inbound.jitter) === "number" ? inbound.jitter * 1000 : undefined,
+            roundTripTimeMS: remoteInbound && typeof (remoteInbound.roundTripTime) === "number" ? remoteInbound.roundTripTime * 1000 : undefined
+        };
+        this._push(this._stats, summary, this.maxStatsSamples);
+        return summary;
+    }
+
+    /**
+     * Forgets everything except the current connection state.
+     */
+    clear(): void {
+        this._stateTransitions = [];
+        this._retries = [];
+        this._muteEvents = [];
+        this._stats = [];
+    }
+
+    /**
+     * Creates a bundle from the history, the recent log lines and the environment.
+     * @param __namedParameters
+     * @param connectionState - The current connection state.
+     * @param mixerInfo - Information about the current or last mixer.
+     * @param communicatorID - The ID of the {@link HiFiCommunicator} whose log records to include, along with the records that have no `communicatorID`.
+     * @param secrets - Strings that must not appear in the bundle, e.g. the current JWT. Everything else that {@link HiFiRedactor} masks
+     * is redacted whether or not it's listed here.
+     * @returns A bundle that is safe to serialize with `JSON.stringify()`.
+     */
+    createBundle({
+        connectionState,
+        mixerInfo,
+        communicatorID,
+        secrets = []
+    }: {
+        connectionState: HiFiConnectionStates,
+        mixerInfo?: any,
+        communicatorID?: string,
+        secrets?: Array<string>
+    }): DiagnosticsBundle {
+        let bundle: DiagnosticsBundle = {
+            formatVersion: 1,
+            createdAt: new Date().toISOString(),
+            apiVersion: typeof (HIFI_API_VERSION) === "string" ? HIFI_API_VERSION : "unknown",
+            environment: HiFiDiagnosticsHistory.getEnvironment(),
+            connectionState,
+            mixerInfo: mixerInfo || {},
+            stateTransitions: this._stateTransitions.slice(),
+            retries: this._retries.slice(),
+            muteEvents: this._muteEvents.slice(),
+            stats: this._stats.slice(),
+            logs: this._getRecentLogRecords(communicatorID)
+        };
+        return HiFiDiagnosticsHistory.redact(bundle, secrets);
+    }
+
+    /**
+     * @returns A copy of `value`, redacted by {@link HiFiRedactor.redact}, in which every occurrence of each of the `secrets` is masked.
+     * `value` must be serializable with `JSON.stringify()`.
+     */
+    static redact<T>(value: T, secrets: Array<string> = []): T {
+        let json = JSON.stringify(value);
+        if (json === undefined) {
+            return value;
+        }
+        return HiFiRedactor.redact(JSON.parse(json), secrets);
+    }
+
+    /**
+     * @returns What the client knows about the browser (or Node.js) it is running in.
+     */
+    static getEnvironment(): DiagnosticsEnvironment {
+        let isBrowser = typeof (self) !== "undefined" && typeof (navigator) !== "undefined";
+        let nav: any = isBrowser ? navigator : {};
+        let globalScope: any = typeof (self) !== "undefined" ? self : global;
+        let localStorageAvailable = false;
+        try {
+            localStorageAvailable = !!globalScope.localStorage;
+        } catch (e) {
+            // Accessing `localStorage` throws when storage is blocked.
+        }
+        return {
+            isBrowser,
+            userAgent: isBrowser ? nav.userAgent : `NodeJS ${typeof (process) !== "undefined" ? process.version : "unknown"}`,
+            platform: isBrowser ? nav.platform : (typeof (process) !== "undefined" ? process.platform : undefined),
+            language: nav.language,
+            online: isBrowser ? nav.onLine : true,
+            hardwareConcurrency: nav.hardwareConcurrency,
+            capabilities: {
+                RTCPeerConnection: typeof (globalScope.RTCPeerConnection) === "function",
+                getUserMedia: !!(nav.mediaDevices && typeof (nav.mediaDevices.getUserMedia) === "function"),
+                AudioContext: typeof (globalScope.AudioContext) === "function" || typeof (globalScope.webkitAudioContext) === "function",
+                AudioWorklet: typeof (globalScope.AudioWorkletNode) === "function",
+                setSinkId: typeof (globalScope.HTMLMediaElement) === "function" && "setSinkId" in globalScope.HTMLMediaElement.prototype,
+                localStorage: localStorageAvailable
+            }
+        };
+    }
+
+    /**
+     * The most recent log records that have no `communicatorID` or the given one, with their `data` made serializable.
+     */
+    private _getRecentLogRecords(communicatorID: string): Array<HiFiLogRecord> {
+        if (this.maxLogLines === 0) {
+            return [];
+        }
+        return HiFiLogger.getRecentLogLines().filter((record) => {
+            return !record.communicatorID || record.communicatorID === communicatorID;
+        }).slice(-this.maxLogLines).map((record) => {
+            if (record.data === undefined) {
+                return record;
+            }
+            let data: any;
+            try {
+                data = JSON.parse(JSON.stringify(record.data));
+            } catch (e) {
+                data = String(record.data);
+            }
+            return Object.assign({}, record, { data });
+        });
+    }
+
+    private _push<T>(list: Array<T>, entry: T, maxLength: number): void {
+        list.push(entry);
+        if (list.length > maxLength) {
+            list.splice(0, list.length - maxLength);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * This utility Module contains a small, typed event emitter used by classes such as {@link HiFiCommunicator}
+ * to let any number of listeners subscribe to their events.
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "./HiFiLogger";
+
+/**
+ * An event map is an interface whose keys are event names and whose values are the signatures of the listeners for those events.
+ * For example, `{ connectionStateChanged: (state: HiFiConnectionStates) => void }`.
+ */
+export type HiFiEventMap<T> = { [K in keyof T]: (...args: any[]) => void };
+
+/**
+ * A typed event emitter. Listeners are called synchronously, in the order in which they were added.
+ * An exception thrown by one listener is logged and does not prevent the remaining listeners from being called.
+ */
+export class HiFiEventEmitter<T extends HiFiEventMap<T>> {
+    private _listeners: Map<keyof T, Array<{ listener: T[keyof T], once: boolean }>>;
+
+    constructor() {
+        this._listeners = new Map();
+    }
+
+    /**
+     * Adds a listener for an event. Adding the same listener more than once will cause it to be called more than once.
+     * @param eventName The name of the event.
+     * @param listener The function to call when the event is emitted.
+     * @returns The emitter, so that calls can be chained.
+     */
+    on<K extends keyof T>(eventName: K, listener: T[K]): this {
+        return this._addListener(eventName, listener, false);
+    }
+
+    /**
+     * Adds a listener for an event that will be removed after the first time it is called.
+     * @param eventName The name of the event.
+     * @param listener The function to call the next time the event is emitted.
+     * @returns The emitter, so that calls can be chained.
+     */
+    once<K extends keyof T>(eventName: K, listener: T[K]): this {
+        return this._addListener(eventName, listener, true);
+    }
+
+    /**
+     * Removes a listener for an event. If the listener was added more than once, only the most recently added instance is removed.
+     * @param eventName The name of the event.
+     * @param listener The listener to remove. If omitted, all listeners for the event are removed.
+     * @returns The emitter, so that calls can be chained.
+     */
+    off<K extends keyof T>(eventName: K, listener?: T[K]): this {
+        if (!listener) {
+            this._listeners.delete(eventName);
+            return this;
+        }
+        let listeners = this._listeners.get(eventName);
+        if (!listeners) {
+            return this;
+        }
+        for (let i = listeners.length - 1; i >= 0; i--) {
+            if (listeners[i].listener === listener) {
+                listeners.splice(i, 1);
+                break;
+            }
+        }
+        if (listeners.length === 0) {
+            this._listeners.delete(eventName);
+        }
+        return this;
+    }
+
+    /**
+     * Calls every listener for an event with the supplied arguments.
+     * @param eventName The name of the event.
+     * @param args The arguments to pass to each listener.
+     * @returns `true` if the event had listeners; `false` otherwise.
+     */
+    emit<K extends keyof T>(eventName: K, ...args: Parameters<T[K]>): boolean {
+        let listeners = this._listeners.get(eventName);
+        if (!listeners || listeners.length === 0) {
+            return false;
+        }
+        // Iterate over a copy, so that listeners may add or remove listeners.
+        for (const entry of listeners.slice()) {
+            if (entry.once) {
+                let index = listeners.indexOf(entry);
+                if (index > -1) {
+                    listeners.splice(index, 1);
+                }
+            }
+            try {
+                entry.listener(...args);
+            } catch (e) {
+                HiFiLogger.error(`A listener for the \`${String(eventName)}\` event threw an error:\n${e}`);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @param eventName The name of the event.
+     * @returns The number of listeners currently added for the event.
+     */
+    listenerCount<K extends keyof T>(eventName: K): number {
+        let listeners = this._listeners.get(eventName);
+        return listeners ? listeners.length : 0;
+    }
+
+    private _addListener<K extends keyof T>(eventName: K, listener: T[K], once: boolean): this {
+        if (typeof (listener) !== "function") {
+            HiFiLogger.error(`Couldn't add a listener for the \`${String(eventName)}\` event: the listener isn't a function!`);
+            return this;
+        }
+        let listeners = this._listeners.get(eventName);
+        if (!listeners) {
+            listeners = [];
+            this._listeners.set(eventName, listeners);
+        }
+        listeners.push({ listener, once });
+        return this;
+    }
+}
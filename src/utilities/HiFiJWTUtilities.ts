@@ -0,0 +1,114 @@
+/**
+ * This Module contains helpers for reading the claims of the JSON Web Tokens (JWTs) used to connect to the High Fidelity Audio API Server.
+ * The {@link HiFiCommunicator} uses them to find out when its JWT expires; see {@link HiFiCommunicator.getHiFiAuthJWTExpiration}.
+ * @packageDocumentation
+ */
+
+/**
+ * The claims in the payload of a JWT. Only the claims that the High Fidelity Audio API Server knows about are listed;
+ * any other claims are also present.
+ */
+export interface HiFiJWTClaims {
+    /**
+     * The Provided User ID of the user that the JWT was issued to.
+     */
+    user_id?: string;
+    /**
+     * The App ID from the High Fidelity Audio API Developer Console.
+     */
+    app_id?: string;
+    /**
+     * The Space ID from the High Fidelity Audio API Developer Console.
+     */
+    space_id?: string;
+    /**
+     * The time at which the JWT expires, in seconds since the Unix epoch. JWTs without this claim never expire.
+     */
+    exp?: number;
+    /**
+     * The time at which the JWT was issued, in seconds since the Unix epoch.
+     */
+    iat?: number;
+    [claim: string]: any;
+}
+
+export class HiFiJWTUtilities {
+    constructor() { }
+
+    /**
+     * Decodes the payload of a JWT.
+     *
+     * **The signature of the JWT is not verified**; that's up to the server. The claims should only be used for
+     * informational purposes, such as deciding when to fetch a new JWT.
+     *
+     * @param hifiAuthJWT The JWT to decode.
+     * @returns The claims in the JWT's payload, or `undefined` if the JWT is malformed.
+     */
+    static decodeClaims(hifiAuthJWT: string): HiFiJWTClaims {
+        if (typeof hifiAuthJWT !== "string") {
+            return undefined;
+        }
+        let segments = hifiAuthJWT.split(".");
+        if (segments.length !== 3) {
+            return undefined;
+        }
+
+        try {
+            let claims = JSON.parse(HiFiJWTUtilities._decodeBase64URL(segments[1]));
+            if (!claims || typeof (claims) !== "object" || Array.isArray(claims)) {
+                return undefined;
+            }
+            return claims;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * @param hifiAuthJWT The JWT to inspect.
+     * @returns The time at which the JWT expires, in milliseconds since the Unix epoch (i.e. comparable to `Date.now()`),
+     * or `undefined` if the JWT doesn't have a valid `exp` claim or is malformed.
+     */
+    static getExpirationTimeMS(hifiAuthJWT: string): number {
+        let claims = HiFiJWTUtilities.decodeClaims(hifiAuthJWT);
+        if (!claims || typeof (claims.exp) !== "number" || !isFinite(claims.exp)) {
+            return undefined;
+        }
+        return claims.exp * 1000;
+    }
+
+    /**
+     * @param hifiAuthJWT The JWT to inspect.
+     * @param nowMS The current time, in milliseconds since the Unix epoch. Defaults to `Date.now()`.
+     * @returns `true` if the JWT has an `exp` claim and that time has passed. JWTs without an `exp` claim never expire.
+     */
+    static isExpired(hifiAuthJWT: string, nowMS: number = Date.now()): boolean {
+        let expirationTimeMS = HiFiJWTUtilities.getExpirationTimeMS(hifiAuthJWT);
+        return expirationTimeMS !== undefined && expirationTimeMS <= nowMS;
+    }
+
+    /**
+     * Decodes a base64url string (as used in JWTs) into a UTF-8 string.
+     */
+    private static _decodeBase64URL(base64URL: string): string {
+        let base64 = base64URL.replace(/-/g, "+").replace(/_/g, "/");
+        while (base64.length % 4 !== 0) {
+            base64 += "=";
+        }
+
+        let binary: string;
+        if (typeof atob === "function") {
+            binary = atob(base64);
+        } else {
+            // Older versions of NodeJS don't have `atob()`.
+            binary = Buffer.from(base64, "base64").toString("binary");
+        }
+
+        // `atob()` returns one character per byte; turn the bytes back into UTF-8 characters.
+        let percentEncoded = "";
+        for (let i = 0; i < binary.length; i++) {
+            percentEncoded += "%" + ("00" + binary.charCodeAt(i).toString(16)).slice(-2);
+        }
+        return decodeURIComponent(percentEncoded);
+    }
+}
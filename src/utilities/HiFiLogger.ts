@@ -1,10 +1,18 @@
 /**
  * This utility Module contains code related to logging from within API functions.
+ *
+ * Every message is turned into a {@link HiFiLogRecord} and passed to the sinks that have been added with {@link HiFiLogger.addSink}.
+ * By default, the only sink is {@link HiFiLogger.consoleSink}, which writes to `console.*()`.
+ * Messages from the WebRTC layer ("RAVI") go through the same logger, in the `"RAVI"` module.
+ * Every record is redacted by {@link HiFiRedactor} before it reaches any sink.
  * @packageDocumentation
  */
 
+import { RaviUtils } from "../libravi/RaviUtils";
+import { HiFiRedactor } from "./HiFiRedactor";
+
 /**
- * Used for determining what data the High Fidelity Audio Client API should print to the console. 
+ * Used for determining what data the High Fidelity Audio Client API should print to the console.
  */
 export enum HiFiLogLevel {
     None = "None",
@@ -13,17 +21,179 @@ export enum HiFiLogLevel {
     Debug = "Debug",
 }
 
+// The higher the number, the more verbose the level.
+const LOG_LEVEL_VERBOSITY: { [level: string]: number } = {
+    [HiFiLogLevel.None]: 0,
+    [HiFiLogLevel.Error]: 1,
+    [HiFiLogLevel.Warn]: 2,
+    [HiFiLogLevel.Debug]: 3
+};
+
+// Messages should be strings, but the WebRTC layer also logs objects, such as SDP answers. They are logged as JSON, so that they can be redacted.
+function messageToString(message: any): string {
+    if (typeof (message) === "string") {
+        return message;
+    }
+    try {
+        let json = JSON.stringify(message);
+        if (typeof (json) === "string") {
+            return json;
+        }
+    } catch (e) {
+        // E.g. circular objects.
+    }
+    return String(message);
+}
+
+/**
+ * Where a message was logged from. Passed to {@link HiFiLogger.child}.
+ */
+export interface HiFiLogContext {
+    /**
+     * The part of the library that logged the message, e.g. `"HiFiCommunicator"`, or `"RAVI.RaviSession"` for the WebRTC layer.
+     * Levels can be set for each module with {@link HiFiLogger.setModuleLogLevel}.
+     */
+    module?: string;
+    /**
+     * Identifies the {@link HiFiCommunicator} that logged the message, if any. See {@link HiFiCommunicator.getCommunicatorID}.
+     */
+    communicatorID?: string;
+}
+
+/**
+ * A message that was passed to the {@link HiFiLogger}, as passed to each {@link HiFiLogSink}.
+ */
+export interface HiFiLogRecord {
+    /**
+     * When the message was logged, in milliseconds since the epoch.
+     */
+    timestamp: number;
+    /**
+     * `Debug` for {@link HiFiLogger.log} and {@link HiFiLogger.debug}, `Warn` for {@link HiFiLogger.warn} and `Error` for {@link HiFiLogger.error}.
+     */
+    level: HiFiLogLevel;
+    /**
+     * See {@link HiFiLogContext.module}. `"HiFi"` if the message wasn't logged from a specific module.
+     */
+    module: string;
+    /**
+     * See {@link HiFiLogContext.communicatorID}.
+     */
+    communicatorID?: string;
+    message: string;
+    /**
+     * Any data that was logged along with the message.
+     */
+    data?: any;
+}
+
+/**
+ * A function that receives log records, e.g. to send them to your own logging service. Add it with {@link HiFiLogger.addSink}.
+ * A sink must not throw, and must not log through the {@link HiFiLogger}.
+ */
+export type HiFiLogSink = (record: HiFiLogRecord) => void;
+
+/**
+ * A sink that keeps the most recent log records in memory. Add its {@link sink} with {@link HiFiLogger.addSink}.
+ */
+export class HiFiLogRingBuffer {
+    /**
+     * The maximum number of records that are kept.
+     */
+    capacity: number;
+    /**
+     * The sink to add with {@link HiFiLogger.addSink}.
+     */
+    sink: HiFiLogSink;
+
+    private _records: Array<HiFiLogRecord>;
+
+    /**
+     * @param capacity - The maximum number of records that are kept. Defaults to 200.
+     */
+    constructor(capacity: number = 200) {
+        this.capacity = capacity;
+        this._records = [];
+        this.sink = (record: HiFiLogRecord) => {
+            this._records.push(record);
+            if (this._records.length > this.capacity) {
+                this._records.splice(0, this._records.length - this.capacity);
+            }
+        };
+    }
+
+    /**
+     * @returns The records, oldest first.
+     */
+    getRecords(): Array<HiFiLogRecord> {
+        return this._records.slice(-this.capacity);
+    }
+
+    /**
+     * Forgets all the records.
+     */
+    clear(): void {
+        this._records = [];
+    }
+}
+
 /**
  * A wrapper for API-internal `console.*()` calls, gated by the user's current log level.
+ *
+ * The static methods log without a context. Instances, created with {@link HiFiLogger.child}, log with their {@link HiFiLogContext}, so that,
+ * for example, the messages of several {@link HiFiCommunicator}s can be told apart.
  */
 export class HiFiLogger {
+    /**
+     * The level of the modules that have no level of their own. See {@link setHiFiLogLevel} and {@link setModuleLogLevel}.
+     */
     static logLevel: HiFiLogLevel = HiFiLogLevel.Error;
+    /**
+     * Writes each record to `console.log()`, `console.warn()` or `console.error()`, prefixed with its `communicatorID` (if any),
+     * followed by its `data` (if any). Added by default; remove it with {@link removeSink} to stop logging to the console.
+     */
+    static consoleSink: HiFiLogSink = (record: HiFiLogRecord) => {
+        let message = record.communicatorID ? `[${record.communicatorID}] ${record.message}` : record.message;
+        let args: Array<any> = record.data === undefined ? [message] : [message, record.data];
+        switch (record.level) {
+            case HiFiLogLevel.Error:
+                console.error(...args);
+                break;
+            case HiFiLogLevel.Warn:
+                console.warn(...args);
+                break;
+            default:
+                console.log(...args);
+                break;
+        }
+    };
+    /**
+     * Keeps the most recent records, whatever the log level, for {@link HiFiCommunicator.exportDiagnostics}. See {@link getRecentLogLines}.
+     * The records of the WebRTC layer (the `"RAVI"` module) are only kept at its log level (see {@link setModuleLogLevel}), because its
+     * debug messages would soon push out everything else.
+     */
+    static recentRecords: HiFiLogRingBuffer = new HiFiLogRingBuffer();
+
+    private static _moduleLogLevels: { [module: string]: HiFiLogLevel } = {
+        // The WebRTC layer only used to log its errors.
+        "RAVI": HiFiLogLevel.Error
+    };
+    private static _sinks: Array<{ sink: HiFiLogSink, level: HiFiLogLevel }> = [
+        { sink: HiFiLogger.consoleSink, level: undefined },
+        { sink: HiFiLogger._recentRecordsSink, level: HiFiLogLevel.Debug }
+    ];
+
+    /**
+     * The context that this logger's messages are logged with.
+     */
+    context: HiFiLogContext;
 
     /**
-     * @param logLevel The initial Log Level for our Logger.
+     * Use {@link HiFiLogger.child} to create loggers.
+     * @param context - The context that this logger's messages are logged with. (Older versions took a log level here, which was ignored.)
      */
-    constructor(logLevel?: HiFiLogLevel) {
-        logLevel = logLevel ? logLevel : HiFiLogLevel.Debug;
+    constructor(context: HiFiLogContext | HiFiLogLevel = {}) {
+        this.context = typeof (context) === "object" && context !== null ? Object.assign({}, context) : {};
     }
 
     /**
@@ -35,53 +205,221 @@ export class HiFiLogger {
     }
 
     /**
-     * If the Logger's log level is `Debug`, will print a debug log to the logs.
-     * @param message The message to log.
-     * @returns `true` if the message was output to the console; `false` otherwise.
+     * Sets the log level of a module and of its sub-modules, overriding the level set with {@link setHiFiLogLevel}.
+     * For example, `HiFiLogger.setModuleLogLevel("RAVI", HiFiLogLevel.Debug)` logs everything the WebRTC layer does.
+     * The `"RAVI"` module's level is `Error` by default.
+     * @param module - E.g. `"HiFiCommunicator"`, `"HiFiMixerSession"`, `"RAVI"` or `"RAVI.RaviSession"`.
+     * @param newLogLevel - The new level, or `undefined` to use the level of the parent module (or of {@link setHiFiLogLevel}) again.
      */
-    static log(message: string): boolean {
-        if (HiFiLogger.logLevel === HiFiLogLevel.Debug) {
-            console.log(message);
-            return true;
+    static setModuleLogLevel(module: string, newLogLevel: HiFiLogLevel): void {
+        if (newLogLevel === undefined || newLogLevel === null) {
+            delete HiFiLogger._moduleLogLevels[module];
         } else {
-            return false;
+            HiFiLogger._moduleLogLevels[module] = newLogLevel;
         }
     }
 
+    /**
+     * @param module - See {@link setModuleLogLevel}.
+     * @returns The level that applies to the module: its own level, or else the level of its closest parent module (`"RAVI"` is the parent of
+     * `"RAVI.RaviSession"`) that has one, or else {@link logLevel}.
+     */
+    static getModuleLogLevel(module: string): HiFiLogLevel {
+        let name = module;
+        while (name) {
+            if (HiFiLogger._moduleLogLevels.hasOwnProperty(name)) {
+                return HiFiLogger._moduleLogLevels[name];
+            }
+            let lastDot = name.lastIndexOf(".");
+            name = lastDot === -1 ? "" : name.slice(0, lastDot);
+        }
+        return HiFiLogger.logLevel;
+    }
+
+    /**
+     * Adds a sink that receives log records.
+     * @param sink - The sink. See {@link HiFiLogSink}.
+     * @param level - If set, the sink receives every record at this level or a more severe one, whatever the levels set with {@link setHiFiLogLevel}
+     * and {@link setModuleLogLevel}. If not set, the sink receives the same records as the console.
+     */
+    static addSink(sink: HiFiLogSink, level?: HiFiLogLevel): void {
+        if (typeof (sink) !== "function") {
+            HiFiLogger.error(`A log sink must be a function; it was not added.`);
+            return;
+        }
+        HiFiLogger.removeSink(sink);
+        HiFiLogger._sinks.push({ sink, level });
+    }
+
+    /**
+     * Removes a sink added with {@link addSink}, or the default {@link consoleSink}.
+     * @param sink - The sink to remove.
+     * @returns `true` if the sink was removed; `false` if it hadn't been added.
+     */
+    static removeSink(sink: HiFiLogSink): boolean {
+        let count = HiFiLogger._sinks.length;
+        HiFiLogger._sinks = HiFiLogger._sinks.filter((entry) => { return entry.sink !== sink; });
+        return HiFiLogger._sinks.length < count;
+    }
+
+    /**
+     * Creates a logger whose messages are logged with the given context.
+     * @param context - See {@link HiFiLogContext}.
+     * @returns The logger.
+     */
+    static child(context: HiFiLogContext): HiFiLogger {
+        return new HiFiLogger(context);
+    }
+
+    /**
+     * Creates a record, redacts it (see {@link HiFiRedactor}) and passes it to the sinks that want it.
+     * @param level - The level of the message; `Debug`, `Warn` or `Error`.
+     * @param message - The message to log. Anything else than a string is logged as JSON.
+     * @param data - Any data to log along with the message.
+     * @param context - Where the message was logged from.
+     * @returns `true` if the message was at or above the log level of its module; `false` otherwise.
+     */
+    static write(level: HiFiLogLevel, message: string, data?: any, context: HiFiLogContext = {}): boolean {
+        let record: HiFiLogRecord = {
+            timestamp: Date.now(),
+            level,
+            module: context.module || "HiFi",
+            message: HiFiRedactor.redactString(messageToString(message))
+        };
+        if (context.communicatorID) {
+            record.communicatorID = context.communicatorID;
+        }
+        if (data !== undefined) {
+            record.data = HiFiRedactor.redact(data);
+        }
+
+        let verbosity = LOG_LEVEL_VERBOSITY[level];
+        let isEnabled = verbosity <= LOG_LEVEL_VERBOSITY[HiFiLogger.getModuleLogLevel(record.module)];
+        HiFiLogger._sinks.forEach((entry) => {
+            let wantsRecord = entry.level === undefined ? isEnabled : verbosity <= LOG_LEVEL_VERBOSITY[entry.level];
+            if (!wantsRecord) {
+                return;
+            }
+            try {
+                entry.sink(record);
+            } catch (e) {
+                // There's nowhere safe to report this.
+            }
+        });
+        return isEnabled;
+    }
+
+    /**
+     * If the Logger's log level is `Debug`, will print a debug log to the logs.
+     * @param message The message to log.
+     * @param data Any data to log along with the message.
+     * @param context Where the message was logged from.
+     * @returns `true` if the message was at or above the log level; `false` otherwise.
+     */
+    static log(message: string, data?: any, context?: HiFiLogContext): boolean {
+        return HiFiLogger.write(HiFiLogLevel.Debug, message, data, context);
+    }
+
     /**
      * Does the same thing as {@link log}.
      * @param message
-     * @returns `true` if the message was output to the console; `false` otherwise.
+     * @param data
+     * @param context
+     * @returns `true` if the message was at or above the log level; `false` otherwise.
      */
-    static debug(message: string): boolean {
-        return this.log(message);
+    static debug(message: string, data?: any, context?: HiFiLogContext): boolean {
+        return this.log(message, data, context);
     }
 
     /**
      * If the Logger's log level is `Debug` or `Warn`, will print a warning log to the logs.
      * @param message The message to log.
-     * @returns `true` if the message was output to the console; `false` otherwise.
+     * @param data Any data to log along with the message.
+     * @param context Where the message was logged from.
+     * @returns `true` if the message was at or above the log level; `false` otherwise.
      */
-    static warn(message: string): boolean {
-        if (HiFiLogger.logLevel === HiFiLogLevel.Debug || HiFiLogger.logLevel === HiFiLogLevel.Warn) {
-            console.warn(message);
-            return true;
-        } else {
-            return false;
-        }
+    static warn(message: string, data?: any, context?: HiFiLogContext): boolean {
+        return HiFiLogger.write(HiFiLogLevel.Warn, message, data, context);
     }
 
     /**
      * If the Logger's log level is `Debug` or `Warn` or `Error`, will print an error log to the logs.
      * @param message The message to log.
-     * @returns `true` if the message was output to the console; `false` otherwise.
+     * @param data Any data to log along with the message.
+     * @param context Where the message was logged from.
+     * @returns `true` if the message was at or above the log level; `false` otherwise.
      */
-    static error(message: string): boolean {
-        if (HiFiLogger.logLevel === HiFiLogLevel.Debug || HiFiLogger.logLevel === HiFiLogLevel.Warn || HiFiLogger.logLevel === HiFiLogLevel.Error) {
-            console.error(message);
-            return true;
-        } else {
-            return false;
+    static error(message: string, data?: any, context?: HiFiLogContext): boolean {
+        return HiFiLogger.write(HiFiLogLevel.Error, message, data, context);
+    }
+
+    /**
+     * The most recent messages passed to the Logger, oldest first, whatever the current log level. Included in {@link HiFiCommunicator.exportDiagnostics}.
+     * @returns Up to `recentRecords.capacity` records. See {@link recentRecords}.
+     */
+    static getRecentLogLines(): Array<HiFiLogRecord> {
+        return HiFiLogger.recentRecords.getRecords();
+    }
+
+    /**
+     * Forgets the messages returned by {@link getRecentLogLines}.
+     */
+    static clearRecentLogLines(): void {
+        HiFiLogger.recentRecords.clear();
+    }
+
+    private static _recentRecordsSink(record: HiFiLogRecord): void {
+        let isRAVIRecord = record.module === "RAVI" || record.module.startsWith("RAVI.");
+        if (isRAVIRecord && LOG_LEVEL_VERBOSITY[record.level] > LOG_LEVEL_VERBOSITY[HiFiLogger.getModuleLogLevel(record.module)]) {
+            return;
         }
+        HiFiLogger.recentRecords.sink(record);
+    }
+
+    /**
+     * Logs a debug message with this logger's context. See {@link HiFiLogger.log}.
+     */
+    log(message: string, data?: any): boolean {
+        return HiFiLogger.log(message, data, this.context);
+    }
+
+    /**
+     * Does the same thing as {@link log}.
+     */
+    debug(message: string, data?: any): boolean {
+        return HiFiLogger.debug(message, data, this.context);
+    }
+
+    /**
+     * Logs a warning with this logger's context. See {@link HiFiLogger.warn}.
+     */
+    warn(message: string, data?: any): boolean {
+        return HiFiLogger.warn(message, data, this.context);
+    }
+
+    /**
+     * Logs an error with this logger's context. See {@link HiFiLogger.error}.
+     */
+    error(message: string, data?: any): boolean {
+        return HiFiLogger.error(message, data, this.context);
+    }
+
+    /**
+     * Creates a logger with this logger's context, extended with `context`.
+     * For example, `communicatorLogger.child({ module: "HiFiMixerSession" })` keeps the `communicatorID`.
+     * @param context - The context to add or override.
+     * @returns The logger.
+     */
+    child(context: HiFiLogContext): HiFiLogger {
+        return new HiFiLogger(Object.assign({}, this.context, context));
     }
 }
+
+// The WebRTC layer logs through RaviUtils, which can't depend on the rest of the library. Its sessions are created with the context of the
+// logger of their `HiFiMixerSession`, so that their messages have its `communicatorID`. The redacted message is returned, so that the
+// `logger` and `errlogger` events that RaviUtils dispatches on the document don't leak secrets either.
+RaviUtils.setLogHandler((level: string, message: string, classname: string, logContext: HiFiLogContext) => {
+    HiFiLogger.write(level === "err" ? HiFiLogLevel.Error : HiFiLogLevel.Debug, message, undefined,
+        Object.assign({}, logContext, { module: classname ? `RAVI.${classname}` : "RAVI" }));
+    return HiFiRedactor.redactString(messageToString(message));
+});
@@ -1,5 +1,5 @@
 /**
- * This Module contains a minimal set of 3D math utilities.
+ * This Module contains a set of 3D math utilities for working with points, rotations, and rigid transforms.
  * @packageDocumentation
  */
 
@@ -8,6 +8,7 @@ import { HiFiUtilities } from "./HiFiUtilities";
 const MIN_NORMALIZABLE_SQUARE_LENGTH = 1.0e-15;
 const RADIANS_TO_DEGREES = 180.0 / Math.PI;
 const DEGREES_TO_RADIANS = Math.PI / 180.0;
+const DEFAULT_EPSILON = 1.0e-6;
 
 /**
  * A point in 3D space.
@@ -37,12 +38,71 @@ export class Vector3 {
         return this.x * this.x + this.y * this.y + this.z * this.z;
     }
 
+    /**
+     * Normalize this Vector3 to have unitary length.
+     * A Vector3 that is too short to normalize is left unchanged.
+     */
+    normalize() {
+        let L2 = this.length2();
+        if (L2 > MIN_NORMALIZABLE_SQUARE_LENGTH) {
+            let inv_L = 1.0 / Math.sqrt(L2);
+            this.x *= inv_L;
+            this.y *= inv_L;
+            this.z *= inv_L;
+        }
+    }
+
+    /**
+     * @returns a copy of this Vector3
+     */
+    clone(): Vector3 {
+        return new Vector3({x: this.x, y: this.y, z: this.z});
+    }
+
+    // The instance arithmetic methods below do not modify this Vector3; they return a new one, so they can be chained:
+    // e.g. a.subtract(b).scale(0.5)
+
+    /**
+     * @returns this + v
+     */
+    add(v: Vector3): Vector3 {
+        return Vector3.add(this, v);
+    }
+
+    /**
+     * @returns this - v
+     */
+    subtract(v: Vector3): Vector3 {
+        return Vector3.subtract(this, v);
+    }
+
+    /**
+     * @returns this scaled by s
+     */
+    scale(s: number): Vector3 {
+        return Vector3.scale(s, this);
+    }
+
+    /**
+     * @returns the dot product of this and v
+     */
+    dot(v: Vector3): number {
+        return Vector3.dot(this, v);
+    }
+
+    /**
+     * @returns the cross product of this and v
+     */
+    cross(v: Vector3): Vector3 {
+        return Vector3.cross(this, v);
+    }
+
     static add(a: Vector3, b: Vector3) {
         return new Vector3({x: a.x + b.x, y: a.y + b.y, z: a.z + b.z});
     }
 
     static subtract(a: Vector3, b: Vector3) {
-        return new Vector3({x: a.x + b.x, y: a.y + b.y, z: a.z + b.z});
+        return new Vector3({x: a.x - b.x, y: a.y - b.y, z: a.z - b.z});
     }
 
     static scale(s: number, b: Vector3) {
@@ -70,6 +130,62 @@ export class Vector3 {
         let z = b.z - a.z;
         return x*x + y*y + z*z;
     }
+
+    /**
+     * @returns normalized copy of v, or a copy of v if it is too short to normalize
+     */
+    static normalize(v: Vector3): Vector3 {
+        let n = v.clone();
+        n.normalize();
+        return n;
+    }
+
+    /**
+     * Linear interpolation between two points.
+     * Values of `t` outside of `[0, 1]` extrapolate along the line through a and b.
+     * @param a - point at t = 0
+     * @param b - point at t = 1
+     * @param t - interpolation fraction
+     */
+    static lerp(a: Vector3, b: Vector3, t: number): Vector3 {
+        return new Vector3({x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t});
+    }
+
+    /**
+     * @param v - vector to project
+     * @param planeNormal - normal of the plane (does not need to be unitary)
+     * @returns the component of v that lies in the plane through the origin with normal planeNormal
+     */
+    static projectOnPlane(v: Vector3, planeNormal: Vector3): Vector3 {
+        let L2 = planeNormal.length2();
+        if (L2 < MIN_NORMALIZABLE_SQUARE_LENGTH) {
+            return v.clone();
+        }
+        return Vector3.subtract(v, Vector3.scale(Vector3.dot(v, planeNormal) / L2, planeNormal));
+    }
+
+    /**
+     * @returns true if every component of a and b differs by no more than epsilon
+     */
+    static approximatelyEqual(a: Vector3, b: Vector3, epsilon: number = DEFAULT_EPSILON): boolean {
+        return Math.abs(a.x - b.x) <= epsilon && Math.abs(a.y - b.y) <= epsilon && Math.abs(a.z - b.z) <= epsilon;
+    }
+}
+
+/**
+ * The order in which the rotations of an Euler angle decomposition are applied, about successive local axes.
+ * Yaw is about the 'up' axis (Y), pitch is about the 'right' axis (X), and roll is about the 'forward' axis (-Z).
+ *
+ * For example, `YXZ` (the default) applies yaw first, then pitch about the yawed 'right' axis,
+ * then roll about the yawed and pitched 'forward' axis.
+ */
+export enum EulerOrder {
+    XYZ = "XYZ",
+    XZY = "XZY",
+    YXZ = "YXZ",
+    YZX = "YZX",
+    ZXY = "ZXY",
+    ZYX = "ZYX"
 }
 
 /**
@@ -143,13 +259,18 @@ export class Quaternion {
     }
 
     /**
+     * @param order - the order of the decomposition. Defaults to {@link EulerOrder.YXZ}.
      * @returns Euler angle decomposition object: {yaw:, pitch:, roll:}
-     * where:
+     * where, for the default order:
      *   yawDegrees = degrees rotation about 'up' axis
      *   pitchDegrees = degrees rotation about yawed 'right' axis
      *   rollDegrees = degrees rotation about yawed and pitched 'forward' axis
      */
-    getEulerAngles() {
+    getEulerAngles(order: EulerOrder = EulerOrder.YXZ) {
+        if (order !== EulerOrder.YXZ) {
+            return Quaternion._getEulerAnglesForOrder(this, order);
+        }
+
         let forward = new Vector3({x: 0.0, y: 0.0, z: -1.0});
         let rotatedForward = this.rotateVector(forward);
 
@@ -238,8 +359,13 @@ export class Quaternion {
      * @param yawDegrees - angle in degrees rotation about local-up
      * @param pitchDegrees - angle in degrees rotation about local-right
      * @param rollDegrees - angle in degrees rotation about local-forward
+     * @param order - the order in which the rotations are applied. Defaults to {@link EulerOrder.YXZ}: yaw, then pitch, then roll.
      */
-    static fromEulerAngles({yawDegrees = 0, pitchDegrees = 0, rollDegrees= 0 }: { yawDegrees?: number, pitchDegrees?: number, rollDegrees?: number } = {}) {
+    static fromEulerAngles({yawDegrees = 0, pitchDegrees = 0, rollDegrees= 0, order = EulerOrder.YXZ }: { yawDegrees?: number, pitchDegrees?: number, rollDegrees?: number, order?: EulerOrder } = {}) {
+        if (order !== EulerOrder.YXZ) {
+            return Quaternion._fromEulerAnglesForOrder(yawDegrees, pitchDegrees, rollDegrees, order);
+        }
+
         let upAxis = new Vector3({ x: 0.0, y: 1.0, z: 0.0 });
         let rightAxis = new Vector3({ x: 1.0, y: 0.0, z: 0.0 });
         let forwardAxis = new Vector3({ x: 0.0, y: 0.0, z: -1.0 });
@@ -253,6 +379,55 @@ export class Quaternion {
         return Quaternion.multiply(qRoll, Quaternion.multiply(qPitch, qYaw));
     }
 
+    // Rotations about successive local axes compose from the right: for order "ABC", q = qA * qB * qC.
+    // Roll is about 'forward' (-Z), which is the same as a rotation of -roll about +Z.
+    private static _fromEulerAnglesForOrder(yawDegrees: number, pitchDegrees: number, rollDegrees: number, order: EulerOrder): Quaternion {
+        let rotationsByAxis: { [axis: string]: Quaternion } = {
+            "X": Quaternion.fromAngleAxis(pitchDegrees * DEGREES_TO_RADIANS, new Vector3({ x: 1.0 })),
+            "Y": Quaternion.fromAngleAxis(yawDegrees * DEGREES_TO_RADIANS, new Vector3({ y: 1.0 })),
+            "Z": Quaternion.fromAngleAxis(-rollDegrees * DEGREES_TO_RADIANS, new Vector3({ z: 1.0 }))
+        };
+        let q = new Quaternion();
+        for (const axis of order) {
+            q = Quaternion.multiply(q, rotationsByAxis[axis]);
+        }
+        return q;
+    }
+
+    // The inverse of _fromEulerAnglesForOrder(): decompose the rotation matrix R = R_i(a) * R_j(b) * R_k(c)
+    // where i, j, k are the axis indices in the order given.
+    private static _getEulerAnglesForOrder(q: Quaternion, order: EulerOrder) {
+        let m = Matrix3.fromQuaternion(q);
+        let rows = [m.a, m.b, m.c];
+        let components: Array<"x" | "y" | "z"> = ["x", "y", "z"];
+        let R = (row: number, column: number) => { return rows[row][components[column]]; };
+
+        let i = "XYZ".indexOf(order[0]);
+        let j = "XYZ".indexOf(order[1]);
+        let k = "XYZ".indexOf(order[2]);
+        // +1 for the cyclic orders (XYZ, YZX, ZXY), -1 for the others
+        let parity = (j - i + 3) % 3 === 1 ? 1.0 : -1.0;
+
+        let sinB = HiFiUtilities.clamp(parity * R(i, k), -1.0, 1.0);
+        let angles = [0.0, 0.0, 0.0];
+        angles[j] = Math.asin(sinB);
+        if (Math.abs(sinB) < 1.0 - 1.0e-12) {
+            angles[i] = Math.atan2(-parity * R(j, k), R(k, k));
+            angles[k] = Math.atan2(-parity * R(i, j), R(i, i));
+        } else {
+            // gimbal lock: the first and last rotations are about the same axis
+            // so we attribute all of that rotation to the first one
+            angles[i] = Math.atan2(Math.sign(sinB) * R(j, i), R(j, j));
+            angles[k] = 0.0;
+        }
+
+        return {
+            "yawDegrees": angles[1] * RADIANS_TO_DEGREES,
+            "pitchDegrees": angles[0] * RADIANS_TO_DEGREES,
+            "rollDegrees": -angles[2] * RADIANS_TO_DEGREES
+        };
+    }
+
     /**
      * @returns Yaw angle of rotation in degrees, also known as the "azimuth"
      */
@@ -292,6 +467,44 @@ export class Quaternion {
         }
     }
 
+    /**
+     * @returns a copy of this Quaternion
+     */
+    clone(): Quaternion {
+        return new Quaternion({w: this.w, x: this.x, y: this.y, z: this.z});
+    }
+
+    /**
+     * @returns the conjugate of this Quaternion, which is also its inverse when this Quaternion is normalized
+     */
+    conjugate(): Quaternion {
+        return new Quaternion({w: this.w, x: -this.x, y: -this.y, z: -this.z});
+    }
+
+    /**
+     * @returns the inverse of this Quaternion, or the identity if this Quaternion is too short to invert
+     */
+    inverse(): Quaternion {
+        let L2 = Quaternion.dot(this, this);
+        if (L2 < MIN_NORMALIZABLE_SQUARE_LENGTH) {
+            return new Quaternion();
+        }
+        let inv_L2 = 1.0 / L2;
+        return new Quaternion({w: this.w * inv_L2, x: -this.x * inv_L2, y: -this.y * inv_L2, z: -this.z * inv_L2});
+    }
+
+    /**
+     * @returns the angle in radians of the smallest rotation that takes this orientation to q
+     */
+    angleTo(q: Quaternion): number {
+        let L2 = Quaternion.dot(this, this) * Quaternion.dot(q, q);
+        if (L2 < MIN_NORMALIZABLE_SQUARE_LENGTH) {
+            return 0.0;
+        }
+        let cosHalfAngle = Math.min(Math.abs(Quaternion.dot(this, q)) / Math.sqrt(L2), 1.0);
+        return 2.0 * Math.acos(cosHalfAngle);
+    }
+
     /**
      * @returns the rotated vector
      */
@@ -312,6 +525,120 @@ export class Quaternion {
             z: a.w * b.z + a.z * b.w + a.x * b.y - a.y * b.x
         });
     }
+
+    /**
+     * Spherical linear interpolation along the shortest arc between two rotations.
+     * Values of `t` outside of `[0, 1]` extrapolate along the same arc at the same angular speed.
+     * @param a - rotation at t = 0
+     * @param b - rotation at t = 1
+     * @param t - interpolation fraction
+     * @returns normalized Quaternion between a and b
+     */
+    static slerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+        let cosTheta = Quaternion.dot(a, b);
+        // q and -q represent the same rotation: flip b if necessary so that we take the shorter arc
+        let sign = 1.0;
+        if (cosTheta < 0.0) {
+            cosTheta = -cosTheta;
+            sign = -1.0;
+        }
+        let ca = 1.0 - t;
+        let cb = t;
+        if (cosTheta < 1.0 - 1.0e-6) {
+            // the rotations are far enough apart to compute the arc without numerical trouble
+            let theta = Math.acos(Math.min(cosTheta, 1.0));
+            let sinTheta = Math.sin(theta);
+            ca = Math.sin((1.0 - t) * theta) / sinTheta;
+            cb = Math.sin(t * theta) / sinTheta;
+        }
+        cb *= sign;
+        let q = new Quaternion({
+            w: ca * a.w + cb * b.w,
+            x: ca * a.x + cb * b.x,
+            y: ca * a.y + cb * b.y,
+            z: ca * a.z + cb * b.z
+        });
+        q.normalize();
+        return q;
+    }
+
+    /**
+     * Normalized linear interpolation along the shortest arc between two rotations.
+     * Cheaper than {@link slerp}, but the angle does not change at a constant rate.
+     * @param a - rotation at t = 0
+     * @param b - rotation at t = 1
+     * @param t - interpolation fraction
+     * @returns normalized Quaternion between a and b
+     */
+    static nlerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+        let cb = Quaternion.dot(a, b) < 0.0 ? -t : t;
+        let ca = 1.0 - t;
+        let q = new Quaternion({
+            w: ca * a.w + cb * b.w,
+            x: ca * a.x + cb * b.x,
+            y: ca * a.y + cb * b.y,
+            z: ca * a.z + cb * b.z
+        });
+        q.normalize();
+        return q;
+    }
+
+    /**
+     * @param from - direction before rotation (does not need to be unitary)
+     * @param to - direction after rotation (does not need to be unitary)
+     * @returns Quaternion representing the shortest rotation that takes direction from to direction to
+     */
+    static fromTwoVectors(from: Vector3, to: Vector3): Quaternion {
+        let a = Vector3.normalize(from);
+        let b = Vector3.normalize(to);
+        let cosAngle = Vector3.dot(a, b);
+        if (cosAngle < -1.0 + DEFAULT_EPSILON) {
+            // the vectors are opposite: rotate by PI about any axis perpendicular to from
+            let axis = Vector3.cross(new Vector3({x: 1.0}), a);
+            if (axis.length2() < DEFAULT_EPSILON) {
+                axis = Vector3.cross(new Vector3({y: 1.0}), a);
+            }
+            return Quaternion.fromAngleAxis(Math.PI, axis);
+        }
+        let axis = Vector3.cross(a, b);
+        let q = new Quaternion({w: 1.0 + cosAngle, x: axis.x, y: axis.y, z: axis.z});
+        q.normalize();
+        return q;
+    }
+
+    /**
+     * @param forward - the direction in which the rotated 'forward' axis (-Z) should point (does not need to be unitary)
+     * @param up - the direction toward which the rotated 'up' axis (Y) should point. It does not need to be unitary
+     * nor orthogonal to forward. Defaults to Y.
+     * @returns Quaternion representing the rotation that points 'forward' along forward, with 'up' as close to up as possible
+     */
+    static lookRotation(forward: Vector3, up: Vector3 = new Vector3({y: 1.0})): Quaternion {
+        let back = Vector3.normalize(forward);
+        back.negate();
+        let right = Vector3.cross(up, back);
+        if (right.length2() < MIN_NORMALIZABLE_SQUARE_LENGTH) {
+            // up is parallel to forward: any 'up' perpendicular to forward will do
+            right = Vector3.cross(Math.abs(back.x) < 0.9 ? new Vector3({x: 1.0}) : new Vector3({y: 1.0}), back);
+        }
+        right.normalize();
+        let rotatedUp = Vector3.cross(back, right);
+
+        // the columns of the rotation matrix are the rotated axes: right, up, back
+        return Matrix3.toQuaternion(new Matrix3(
+            new Vector3({x: right.x, y: rotatedUp.x, z: back.x}),
+            new Vector3({x: right.y, y: rotatedUp.y, z: back.y}),
+            new Vector3({x: right.z, y: rotatedUp.z, z: back.z})));
+    }
+
+    /**
+     * @returns true if a and b represent the same rotation, to within epsilon per component.
+     * Since q and -q represent the same rotation, they are considered equal.
+     */
+    static approximatelyEqual(a: Quaternion, b: Quaternion, epsilon: number = DEFAULT_EPSILON): boolean {
+        let sameSign = Math.abs(a.w - b.w) <= epsilon && Math.abs(a.x - b.x) <= epsilon && Math.abs(a.y - b.y) <= epsilon && Math.abs(a.z - b.z) <= epsilon;
+        let oppositeSign = Math.abs(a.w + b.w) <= epsilon && Math.abs(a.x + b.x) <= epsilon && Math.abs(a.y + b.y) <= epsilon && Math.abs(a.z + b.z) <= epsilon;
+        return sameSign || oppositeSign;
+    }
 }
 
 export class Matrix3 {
@@ -447,6 +774,69 @@ export class Matrix3 {
     }
 }
 
+/**
+ * A rigid transform: a rotation followed by a translation.
+ * A Pose maps points from a local frame into its parent frame: p' = orientation * p + position.
+ */
+export class Pose {
+    position: Vector3;
+    orientation: Quaternion;
+
+    constructor({ position = new Vector3(), orientation = new Quaternion() }: { position?: Vector3, orientation?: Quaternion } = {}) {
+        this.position = position.clone();
+        this.orientation = orientation.clone();
+    }
+
+    /**
+     * @returns a copy of this Pose
+     */
+    clone(): Pose {
+        return new Pose({position: this.position, orientation: this.orientation});
+    }
+
+    /**
+     * @returns the point p, expressed in the local frame, transformed into the parent frame
+     */
+    transformPoint(p: Vector3): Vector3 {
+        return Vector3.add(this.orientation.rotateVector(p), this.position);
+    }
+
+    /**
+     * @returns the Pose that undoes this Pose: it maps points from the parent frame into the local frame
+     */
+    inverse(): Pose {
+        let inverseOrientation = this.orientation.inverse();
+        let inversePosition = inverseOrientation.rotateVector(this.position);
+        inversePosition.negate();
+        return new Pose({position: inversePosition, orientation: inverseOrientation});
+    }
+
+    /**
+     * @returns Composition of two poses: a * b, which applies b first and then a.
+     * For example, if b is the pose of a hand relative to a body and a is the pose of the body in the world,
+     * then compose(a, b) is the pose of the hand in the world.
+     */
+    static compose(a: Pose, b: Pose): Pose {
+        return new Pose({
+            position: a.transformPoint(b.position),
+            orientation: Quaternion.multiply(a.orientation, b.orientation)
+        });
+    }
+
+    /**
+     * Interpolates position linearly and orientation using {@link Quaternion.slerp}.
+     * @param a - pose at t = 0
+     * @param b - pose at t = 1
+     * @param t - interpolation fraction
+     */
+    static interpolate(a: Pose, b: Pose, t: number): Pose {
+        return new Pose({
+            position: Vector3.lerp(a.position, b.position, t),
+            orientation: Quaternion.slerp(a.orientation, b.orientation, t)
+        });
+    }
+}
+
 // helper function that keeps an angle expressed in degrees in the range ]-360, 360[
 function sanitizeAngleDegrees(v: number): number {
     // in the case v is Infinity or Nan,  let's special case
@@ -0,0 +1,179 @@
+/**
+ * This utility Module contains the client-side peer motion smoothing used by {@link HiFiCommunicator.getInterpolatedPeerPose}.
+ * The server sends peer updates at an irregular rate; rendering peers directly from those updates makes them appear to stutter.
+ * @packageDocumentation
+ */
+
+import { Vector3, Quaternion } from "./HiFiMath";
+
+/**
+ * Configures how peer motion is smoothed. Pass this as `peerMotionInterpolationConfig` to {@link HiFiCommunicator.constructor}.
+ */
+export interface PeerMotionInterpolationConfig {
+    /**
+     * Peers are rendered this many milliseconds in the past, so that there is usually a sample on either side of the render time
+     * to interpolate between. Larger values are smoother but add latency. Defaults to 100 milliseconds.
+     */
+    renderDelayMS?: number;
+    /**
+     * When the render time is past the newest sample for a peer, the peer's motion is extrapolated from its last two samples
+     * for at most this many milliseconds, after which the peer is held in place. Set to `0` to disable extrapolation.
+     * Defaults to 250 milliseconds.
+     */
+    maxExtrapolationMS?: number;
+    /**
+     * The maximum number of samples to keep for each peer. Defaults to 20.
+     */
+    maxSamplesPerPeer?: number;
+}
+
+/**
+ * The smoothed position and orientation of a peer, expressed in the World coordinate frame.
+ * Either member will be `null` if the server has never sent that data for the peer.
+ */
+export interface PeerPose {
+    position: Vector3;
+    orientation: Quaternion;
+}
+
+interface PeerMotionSample {
+    timestampMS: number;
+    position: Vector3;
+    orientation: Quaternion;
+}
+
+/**
+ * Buffers timestamped position and orientation samples for each peer and reconstructs a smooth pose at an arbitrary time,
+ * using linear interpolation for position and spherical linear interpolation (slerp) for orientation.
+ *
+ * Samples are expected to already be in the World coordinate frame, i.e. after any {@link HiFiCoordinateFrameUtil} conversion.
+ */
+export class HiFiPeerMotionInterpolator {
+    renderDelayMS: number;
+    maxExtrapolationMS: number;
+    maxSamplesPerPeer: number;
+
+    // Keys are hashed visit IDs. Samples are sorted by ascending timestamp.
+    private _samplesByPeer: Map<string, Array<PeerMotionSample>>;
+
+    constructor({ renderDelayMS = 100, maxExtrapolationMS = 250, maxSamplesPerPeer = 20 }: PeerMotionInterpolationConfig = {}) {
+        this.renderDelayMS = Math.max(0, renderDelayMS);
+        this.maxExtrapolationMS = Math.max(0, maxExtrapolationMS);
+        this.maxSamplesPerPeer = Math.max(2, maxSamplesPerPeer);
+        this._samplesByPeer = new Map();
+    }
+
+    /**
+     * Records the pose of a peer at a given time.
+     * @param hashedVisitID The hashed visit ID of the peer.
+     * @param pose The World-frame position and orientation of the peer. The values are copied.
+     * @param timestampMS The time at which the pose was received. Defaults to `Date.now()`.
+     * Samples older than the newest sample for the peer are ignored, and a sample with the same timestamp as the newest sample replaces it.
+     */
+    addSample(hashedVisitID: string, { position, orientation }: { position?: Vector3, orientation?: Quaternion }, timestampMS: number = Date.now()): void {
+        let samples = this._samplesByPeer.get(hashedVisitID);
+        if (!samples) {
+            samples = [];
+            this._samplesByPeer.set(hashedVisitID, samples);
+        }
+
+        let sample: PeerMotionSample = {
+            timestampMS: timestampMS,
+            position: position ? position.clone() : null,
+            orientation: orientation ? orientation.clone() : null
+        };
+
+        let newest = samples[samples.length - 1];
+        if (newest && timestampMS < newest.timestampMS) {
+            return;
+        } else if (newest && timestampMS === newest.timestampMS) {
+            samples[samples.length - 1] = sample;
+        } else {
+            samples.push(sample);
+        }
+
+        if (samples.length > this.maxSamplesPerPeer) {
+            samples.splice(0, samples.length - this.maxSamplesPerPeer);
+        }
+    }
+
+    /**
+     * Forgets every sample for a peer. Call this when the peer leaves.
+     * @param hashedVisitID The hashed visit ID of the peer.
+     */
+    removePeer(hashedVisitID: string): void {
+        this._samplesByPeer.delete(hashedVisitID);
+    }
+
+    /**
+     * Forgets every sample for every peer.
+     */
+    clear(): void {
+        this._samplesByPeer.clear();
+    }
+
+    /**
+     * @param hashedVisitID The hashed visit ID of the peer.
+     * @param timeMS The current time. The pose is reconstructed at `timeMS - renderDelayMS`. Defaults to `Date.now()`.
+     * @returns The smoothed World-frame pose of the peer, or `undefined` if there are no samples for the peer.
+     */
+    getInterpolatedPeerPose(hashedVisitID: string, timeMS: number = Date.now()): PeerPose {
+        let samples = this._samplesByPeer.get(hashedVisitID);
+        if (!samples || samples.length === 0) {
+            return undefined;
+        }
+
+        let renderTimeMS = timeMS - this.renderDelayMS;
+        let oldest = samples[0];
+        let newest = samples[samples.length - 1];
+        if (samples.length === 1 || renderTimeMS <= oldest.timestampMS) {
+            return HiFiPeerMotionInterpolator._poseFromSample(oldest);
+        }
+
+        let from: PeerMotionSample;
+        let to: PeerMotionSample;
+        if (renderTimeMS >= newest.timestampMS) {
+            // Dead-reckoning: continue along the most recent motion, but only for a short time.
+            from = samples[samples.length - 2];
+            to = newest;
+            renderTimeMS = Math.min(renderTimeMS, newest.timestampMS + this.maxExtrapolationMS);
+        } else {
+            let i = samples.length - 2;
+            while (i > 0 && samples[i].timestampMS > renderTimeMS) {
+                i--;
+            }
+            from = samples[i];
+            to = samples[i + 1];
+        }
+
+        let t = (renderTimeMS - from.timestampMS) / (to.timestampMS - from.timestampMS);
+        return {
+            position: HiFiPeerMotionInterpolator._interpolatePosition(from.position, to.position, t),
+            orientation: HiFiPeerMotionInterpolator._interpolateOrientation(from.orientation, to.orientation, t)
+        };
+    }
+
+    private static _poseFromSample(sample: PeerMotionSample): PeerPose {
+        return {
+            position: sample.position ? sample.position.clone() : null,
+            orientation: sample.orientation ? sample.orientation.clone() : null
+        };
+    }
+
+    private static _interpolatePosition(a: Vector3, b: Vector3, t: number): Vector3 {
+        if (!a || !b) {
+            // Without two positions there is no motion to interpolate; use whichever position we have.
+            let p = b || a;
+            return p ? p.clone() : null;
+        }
+        return Vector3.lerp(a, b, t);
+    }
+
+    private static _interpolateOrientation(a: Quaternion, b: Quaternion, t: number): Quaternion {
+        if (!a || !b) {
+            let q = b || a;
+            return q ? q.clone() : null;
+        }
+        return Quaternion.slerp(a, b, t);
+    }
+}
@@ -0,0 +1,362 @@
+/**
+ * This Module contains a recorder that captures the protocol traffic between a {@link HiFiCommunicator} and the High Fidelity Audio API Server
+ * into a JSONL trace, and a replayer that feeds the mixer's frames from such a trace back through a `HiFiMixerSession` without WebRTC.
+ * Together, they allow bug reports such as "peers jump around" to be reproduced, debugged and regression-tested offline.
+ *
+ * Example usage:
+ * ```typescript
+ * let recorder = new HiFiProtocolTraceRecorder();
+ * let communicator = new HiFiCommunicator({ protocolTraceRecorder: recorder });
+ * ...
+ * let trace = recorder.toJSONL(); // Attach this to the bug report.
+ *
+ * // Later, offline:
+ * let replayCommunicator = new HiFiCommunicator({ worldFrameConfig: sameConfigAsTheApp });
+ * replayCommunicator.addUserDataSubscription(...);
+ * replayCommunicator.createProtocolTraceReplayer(HiFiProtocolTraceRecorder.parseJSONL(trace)).replayAll();
+ * ```
+ * @packageDocumentation
+ */
+
+import { HiFiLogger } from "./HiFiLogger";
+import { HiFiRedactor } from "./HiFiRedactor";
+import pako from 'pako'
+
+/**
+ * The kinds of protocol traffic that are captured in a protocol trace.
+ */
+export enum HiFiProtocolTraceEntryTypes {
+    /**
+     * A message sent or received over the WebRTC signaling connection (SDP offers and answers, ICE candidates). `data` is the parsed message, or the
+     * raw message if it isn't JSON.
+     */
+    Signaling = "signaling",
+    /**
+     * The argument to the `audionet.init` command that the client sends to the mixer.
+     */
+    AudionetInitRequest = "audionet.init",
+    /**
+     * The mixer's response to `audionet.init`. `data` is the parsed response, or the raw response if it isn't JSON.
+     */
+    AudionetInitResponse = "audionet.init.response",
+    /**
+     * User data that the client sends to the mixer with `sendInput`, in the mixer's wire format.
+     */
+    SendInput = "sendInput",
+    /**
+     * A decompressed frame that the mixer sends to the client, containing `peers`, `deleted_visit_ids` and/or `instructions`.
+     */
+    MixerFrame = "mixerFrame"
+}
+
+/**
+ * Whether a {@link ProtocolTraceEntry} was sent by the client (`"out"`) or received by the client (`"in"`).
+ */
+export type ProtocolTraceDirection = "in" | "out";
+
+/**
+ * One line of a protocol trace.
+ */
+export interface ProtocolTraceEntry {
+    /**
+     * The number of milliseconds between the start of the recording and this entry.
+     */
+    t: number;
+    direction: ProtocolTraceDirection;
+    type: HiFiProtocolTraceEntryTypes;
+    data: any;
+}
+
+/**
+ * The first line of a protocol trace in JSONL format.
+ */
+export interface ProtocolTraceHeader {
+    type: "header";
+    /**
+     * The version of the trace format.
+     */
+    version: number;
+    /**
+     * The time at which the recording started, in milliseconds since the Unix epoch.
+     */
+    startedAt: number;
+}
+
+/**
+ * Anything that the frames of a protocol trace can be fed to. In practice, this is a `HiFiMixerSession`; see {@link HiFiCommunicator.createProtocolTraceReplayer}.
+ */
+export interface ProtocolTraceReplayTarget {
+    handleRAVISessionBinaryData(data: any): void;
+    /**
+     * If present, the `visit_id_hash` from a replayed `audionet.init` response is copied here, so that the client's own peer data is recognized.
+     */
+    mixerInfo?: any;
+}
+
+/**
+ * Captures timestamped protocol traffic into memory. Pass an instance as `protocolTraceRecorder` to {@link HiFiCommunicator.constructor},
+ * or to {@link HiFiCommunicator.setProtocolTraceRecorder} to start capturing on an existing connection.
+ *
+ * Every entry is redacted by {@link HiFiRedactor} as it is captured, so JWTs, TURN credentials and, by default, the network addresses in signaling
+ * messages are masked. Traces should still be handled with the same care as other diagnostics.
+ */
+export class HiFiProtocolTraceRecorder {
+    static readonly TRACE_FORMAT_VERSION = 1;
+
+    /**
+     * The time at which the recording started, in milliseconds since the Unix epoch.
+     */
+    startedAt: number;
+    /**
+     * Once this many entries have been captured, the oldest entries are discarded.
+     */
+    maxEntries: number;
+
+    private _entries: Array<ProtocolTraceEntry>;
+    private _onEntry: (entry: ProtocolTraceEntry) => void;
+    private _includeSignaling: boolean;
+    private _warnedAboutDiscardedEntries: boolean;
+
+    /**
+     * @param __namedParameters
+     * @param maxEntries - Once this many entries have been captured, the oldest entries are discarded. Defaults to `100000`.
+     * @param includeSignaling - If `false`, signaling messages aren't captured. Defaults to `true`.
+     * @param onEntry - Called with every entry as it is captured; for example, to stream the trace to a file in NodeJS.
+     */
+    constructor({ maxEntries = 100000, includeSignaling = true, onEntry }: { maxEntries?: number, includeSignaling?: boolean, onEntry?: (entry: ProtocolTraceEntry) => void } = {}) {
+        this.maxEntries = Math.max(1, maxEntries);
+        this._includeSignaling = includeSignaling;
+        this._onEntry = onEntry;
+        this.clear();
+    }
+
+    /**
+     * Captures one entry. This is called by the `HiFiMixerSession`; applications don't normally need to call it.
+     * @param direction Whether the client sent or received the traffic.
+     * @param type The kind of traffic.
+     * @param data The traffic. It is copied, so that later changes to it aren't reflected in the trace, and redacted.
+     */
+    record(direction: ProtocolTraceDirection, type: HiFiProtocolTraceEntryTypes, data: any): void {
+        if (type === HiFiProtocolTraceEntryTypes.Signaling && !this._includeSignaling) {
+            return;
+        }
+
+        let entry: ProtocolTraceEntry;
+        try {
+            entry = {
+                t: Date.now() - this.startedAt,
+                direction: direction,
+                type: type,
+                data: data === undefined ? null : HiFiRedactor.redact(JSON.parse(JSON.stringify(data)))
+            };
+        } catch (e) {
+            HiFiLogger.warn(`Couldn't capture a \`${type}\` protocol trace entry:\n${e}`);
+            return;
+        }
+
+        if (this._entries.length >= this.maxEntries) {
+            this._entries.shift();
+            if (!this._warnedAboutDiscardedEntries) {
+                HiFiLogger.warn(`The protocol trace has reached ${this.maxEntries} entries; the oldest entries are being discarded.`);
+                this._warnedAboutDiscardedEntries = true;
+            }
+        }
+        this._entries.push(entry);
+
+        if (this._onEntry) {
+            try {
+                this._onEntry(entry);
+            } catch (e) {
+                HiFiLogger.error(`The protocol trace \`onEntry\` callback threw an error:\n${e}`);
+            }
+        }
+    }
+
+    /**
+     * @returns A copy of the captured entries, oldest first.
+     */
+    getEntries(): Array<ProtocolTraceEntry> {
+        return this._entries.slice();
+    }
+
+    /**
+     * Discards every captured entry and restarts the clock.
+     */
+    clear(): void {
+        this._entries = [];
+        this.startedAt = Date.now();
+        this._warnedAboutDiscardedEntries = false;
+    }
+
+    /**
+     * @returns The trace in JSONL format: a {@link ProtocolTraceHeader} line, followed by one line per {@link ProtocolTraceEntry}.
+     */
+    toJSONL(): string {
+        let header: ProtocolTraceHeader = {
+            type: "header",
+            version: HiFiProtocolTraceRecorder.TRACE_FORMAT_VERSION,
+            startedAt: this.startedAt
+        };
+        let lines = [JSON.stringify(header)];
+        for (const entry of this._entries) {
+            lines.push(JSON.stringify(entry));
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * @param jsonl A trace produced by {@link toJSONL}.
+     * @returns The entries of the trace. Blank lines and the header are skipped; lines that can't be parsed are skipped with a warning.
+     */
+    static parseJSONL(jsonl: string): Array<ProtocolTraceEntry> {
+        let entries: Array<ProtocolTraceEntry> = [];
+        let lines = jsonl.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            let line = lines[i].trim();
+            if (!line) {
+                continue;
+            }
+            let parsed: any;
+            try {
+                parsed = JSON.parse(line);
+            } catch (e) {
+                HiFiLogger.warn(`Skipping line ${i + 1} of the protocol trace, which isn't valid JSON:\n${e}`);
+                continue;
+            }
+            if (parsed && parsed.type === "header") {
+                if (parsed.version !== HiFiProtocolTraceRecorder.TRACE_FORMAT_VERSION) {
+                    HiFiLogger.warn(`The protocol trace has version ${parsed.version}, but this version of the API reads version ${HiFiProtocolTraceRecorder.TRACE_FORMAT_VERSION}.`);
+                }
+                continue;
+            }
+            if (!parsed || typeof (parsed.t) !== "number" || (parsed.direction !== "in" && parsed.direction !== "out") || typeof (parsed.type) !== "string") {
+                HiFiLogger.warn(`Skipping line ${i + 1} of the protocol trace, which isn't a trace entry.`);
+                continue;
+            }
+            entries.push(parsed);
+        }
+        return entries;
+    }
+}
+
+/**
+ * Feeds the mixer frames of a protocol trace back through a `HiFiMixerSession`, exactly as if the mixer had sent them,
+ * so that peer data, User Data Subscriptions, coordinate-frame conversion and application logic can be exercised deterministically.
+ * Outgoing entries and signaling messages are skipped. Use {@link HiFiCommunicator.createProtocolTraceReplayer} to create one.
+ */
+export class HiFiProtocolTraceReplayer {
+    private _target: ProtocolTraceReplayTarget;
+    private _entries: Array<ProtocolTraceEntry>;
+    private _nextEntryIndex: number;
+
+    /**
+     * @param __namedParameters
+     * @param target - Where to feed the frames.
+     * @param entries - The trace, for example from {@link HiFiProtocolTraceRecorder.parseJSONL}. Entries are replayed in order of their timestamps.
+     */
+    constructor({ target, entries }: { target: ProtocolTraceReplayTarget, entries: Array<ProtocolTraceEntry> }) {
+        this._target = target;
+        // A stable sort keeps entries that share a timestamp in the order in which they were captured.
+        this._entries = entries.map((entry, index) => { return { entry, index }; })
+            .sort((a, b) => { return a.entry.t - b.entry.t || a.index - b.index; })
+            .map((sorted) => { return sorted.entry; });
+        this._nextEntryIndex = 0;
+    }
+
+    /**
+     * @returns The timestamp of the next entry to be replayed, or `undefined` if the whole trace has been replayed.
+     */
+    getNextTimestamp(): number {
+        return this.isFinished() ? undefined : this._entries[this._nextEntryIndex].t;
+    }
+
+    /**
+     * @returns `true` once every entry has been replayed.
+     */
+    isFinished(): boolean {
+        return this._nextEntryIndex >= this._entries.length;
+    }
+
+    /**
+     * Starts again from the first entry. This doesn't reset the target.
+     */
+    rewind(): void {
+        this._nextEntryIndex = 0;
+    }
+
+    /**
+     * Replays the next entry.
+     * @returns The entry that was replayed, or `undefined` if the whole trace has been replayed.
+     */
+    step(): ProtocolTraceEntry {
+        if (this.isFinished()) {
+            return undefined;
+        }
+        let entry = this._entries[this._nextEntryIndex++];
+        this._replayEntry(entry);
+        return entry;
+    }
+
+    /**
+     * Replays every remaining entry whose timestamp is less than or equal to `t`.
+     * @param t A number of milliseconds since the start of the recording.
+     * @returns The number of entries that were replayed.
+     */
+    replayUntil(t: number): number {
+        let count = 0;
+        while (!this.isFinished() && this._entries[this._nextEntryIndex].t <= t) {
+            this.step();
+            count++;
+        }
+        return count;
+    }
+
+    /**
+     * Replays every remaining entry immediately.
+     * @returns The number of entries that were replayed.
+     */
+    replayAll(): number {
+        return this.replayUntil(Infinity);
+    }
+
+    /**
+     * Replays every remaining entry with the same timing as the recording.
+     * @param speed How much faster than the recording to replay. Defaults to `1`.
+     * @returns A Promise that resolves with the number of entries that were replayed.
+     */
+    async replayInRealTime(speed: number = 1): Promise<number> {
+        if (!(speed > 0)) {
+            HiFiLogger.error(`The replay speed must be greater than 0.`);
+            return 0;
+        }
+        let count = 0;
+        let previousT = this.getNextTimestamp();
+        while (!this.isFinished()) {
+            let nextT = this.getNextTimestamp();
+            let delayMS = (nextT - previousT) / speed;
+            if (delayMS > 0) {
+                await new Promise((resolve) => { setTimeout(resolve, delayMS); });
+            }
+            previousT = nextT;
+            count += this.replayUntil(nextT);
+        }
+        return count;
+    }
+
+    private _replayEntry(entry: ProtocolTraceEntry): void {
+        if (entry.direction !== "in") {
+            return;
+        }
+        if (entry.type === HiFiProtocolTraceEntryTypes.AudionetInitResponse) {
+            if (this._target.mixerInfo && entry.data && typeof (entry.data.visit_id_hash) === "string") {
+                this._target.mixerInfo["visit_id_hash"] = entry.data.visit_id_hash;
+            }
+        } else if (entry.type === HiFiProtocolTraceEntryTypes.MixerFrame) {
+            try {
+                this._target.handleRAVISessionBinaryData(pako.gzip(JSON.stringify(entry.data)));
+            } catch (e) {
+                HiFiLogger.error(`Couldn't replay the mixer frame at ${entry.t}ms:\n${e}`);
+            }
+        }
+    }
+}
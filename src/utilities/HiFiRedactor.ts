@@ -0,0 +1,177 @@
+/**
+ * This utility Module contains the redaction that is applied to every log record, protocol trace entry and diagnostics report and bundle,
+ * so that debug logging can be turned on in production without leaking secrets to third-party log collectors. See {@link HiFiRedactor}.
+ * @packageDocumentation
+ */
+
+/**
+ * Configures what {@link HiFiRedactor} masks. Pass it to {@link HiFiRedactor.setRedactionConfig}.
+ */
+export interface RedactionConfig {
+    /**
+     * Set to `false` to turn off redaction entirely. Secrets that are passed explicitly, such as the JWT in {@link HiFiCommunicator.exportDiagnostics},
+     * are still redacted. Defaults to `true`.
+     */
+    enabled?: boolean;
+    /**
+     * Mask JWTs, and tokens in the `token` and `jwt` query parameters of URLs, such as the WebRTC signaling address. Defaults to `true`.
+     */
+    redactJWTs?: boolean;
+    /**
+     * Mask TURN usernames and credentials (`username`, `credential`, `turnUsername`, `turnCredential` and `password` fields), and the ICE
+     * username fragments and passwords in SDP (`a=ice-ufrag` and `a=ice-pwd`). Defaults to `true`.
+     */
+    redactTURNCredentials?: boolean;
+    /**
+     * Mask the IP addresses of ICE candidates, in SDP and signaling messages, and in the `ip`, `address` and `relatedAddress` fields of
+     * WebRTC stats and diagnostics reports. Candidate types and protocols are kept. Defaults to `true`.
+     */
+    redactIPAddresses?: boolean;
+}
+
+const REDACTED = "[REDACTED]";
+const REDACTED_JWT = "[REDACTED JWT]";
+const REDACTED_IP = "[REDACTED IP]";
+
+const CREDENTIAL_FIELDS = ["credential", "turnCredential", "username", "turnUsername", "password"];
+const IP_ADDRESS_FIELDS = ["ip", "address", "relatedAddress"];
+
+// The header of every JWT we use starts with `{"`, which is `eyJ` in base64url.
+const JWT_REGEX = /eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*/g;
+const TOKEN_QUERY_PARAMETER_REGEX = /([?&](?:token|jwt)=)(?!\[REDACTED)[^&\s"'#\\]+/gi;
+// SDP is often logged inside JSON, where its line breaks are escaped, so values end at a backslash or quote as well as at whitespace.
+const ICE_CREDENTIALS_REGEX = /(a=ice-(?:ufrag|pwd):)[^\s"\\]+/g;
+const CANDIDATE_ADDRESS_REGEX = /(candidate:\S+ \d+ \S+ \d+ )[^\s"\\]+( \d+ typ)/gi;
+const RELATED_ADDRESS_REGEX = /( raddr )[^\s"\\]+/g;
+const SDP_ADDRESS_REGEX = /(\bIN IP[46] )[^\s"\\]+/g;
+
+// Matches `"field": "value"` in JSON, including JSON that has itself been escaped inside a JSON string.
+function makeJSONFieldRegex(fields: Array<string>): RegExp {
+    return new RegExp(`(\\\\*"(?:${fields.join("|")})\\\\*"\\s*:\\s*\\\\*")(.*?)(\\\\*")`, "g");
+}
+const CREDENTIAL_JSON_FIELD_REGEX = makeJSONFieldRegex(CREDENTIAL_FIELDS);
+const IP_ADDRESS_JSON_FIELD_REGEX = makeJSONFieldRegex(IP_ADDRESS_FIELDS);
+
+/**
+ * Masks secrets in strings and in data. The {@link HiFiLogger} redacts every record's message and data, the {@link HiFiProtocolTraceRecorder}
+ * redacts every entry, and diagnostics reports and bundles are redacted before they leave the client. What is masked is configured globally
+ * with {@link setRedactionConfig}.
+ *
+ * Redaction is best-effort: it recognizes the secrets that this library handles, in the formats that it handles them in.
+ */
+export class HiFiRedactor {
+    private static _config: RedactionConfig = {
+        enabled: true,
+        redactJWTs: true,
+        redactTURNCredentials: true,
+        redactIPAddresses: true
+    };
+
+    /**
+     * Changes what is masked. Values that are omitted from `config` are left as they are.
+     * @param config - See {@link RedactionConfig}.
+     */
+    static setRedactionConfig(config: RedactionConfig): void {
+        let keys: Array<keyof RedactionConfig> = ["enabled", "redactJWTs", "redactTURNCredentials", "redactIPAddresses"];
+        keys.forEach((key) => {
+            let value = config ? config[key] : undefined;
+            if (typeof (value) === "boolean") {
+                HiFiRedactor._config[key] = value;
+            }
+        });
+    }
+
+    /**
+     * @returns A copy of the current configuration. See {@link RedactionConfig}.
+     */
+    static getRedactionConfig(): RedactionConfig {
+        return Object.assign({}, HiFiRedactor._config);
+    }
+
+    /**
+     * @param text - The string to redact.
+     * @param secrets - Strings that must not appear in the result, whatever the configuration, e.g. an opaque token.
+     * @returns `text`, with the secrets masked.
+     */
+    static redactString(text: string, secrets: Array<string> = []): string {
+        if (typeof (text) !== "string") {
+            return text;
+        }
+        secrets.forEach((secret) => {
+            if (typeof (secret) === "string" && secret.length > 0) {
+                text = text.split(secret).join(REDACTED);
+            }
+        });
+
+        let config = HiFiRedactor._config;
+        if (!config.enabled) {
+            return text;
+        }
+        if (config.redactJWTs) {
+            text = text.replace(JWT_REGEX, REDACTED_JWT).replace(TOKEN_QUERY_PARAMETER_REGEX, `$1${REDACTED}`);
+        }
+        if (config.redactTURNCredentials) {
+            text = text.replace(CREDENTIAL_JSON_FIELD_REGEX, `$1${REDACTED}$3`).replace(ICE_CREDENTIALS_REGEX, `$1${REDACTED}`);
+        }
+        if (config.redactIPAddresses) {
+            text = text.replace(CANDIDATE_ADDRESS_REGEX, `$1${REDACTED_IP}$2`)
+                .replace(RELATED_ADDRESS_REGEX, `$1${REDACTED_IP}`)
+                .replace(SDP_ADDRESS_REGEX, `$1${REDACTED_IP}`)
+                .replace(IP_ADDRESS_JSON_FIELD_REGEX, `$1${REDACTED_IP}$3`);
+        }
+        return text;
+    }
+
+    /**
+     * Redacts every string in plain objects and arrays, and masks the values of credential and IP address fields (see {@link RedactionConfig}).
+     * Other objects, such as `MediaStream`s, are kept as they are.
+     * @param value - The value to redact. It isn't modified.
+     * @param secrets - See {@link redactString}.
+     * @returns A redacted copy of `value`, or `value` itself if it contains nothing to redact.
+     */
+    static redact<T>(value: T, secrets: Array<string> = []): T {
+        return HiFiRedactor._redactValue(value, secrets, new Set()) as T;
+    }
+
+    private static _redactValue(value: any, secrets: Array<string>, ancestors: Set<any>): any {
+        if (typeof (value) === "string") {
+            return HiFiRedactor.redactString(value, secrets);
+        }
+        if (value === null || typeof (value) !== "object") {
+            return value;
+        }
+        let isArray = Array.isArray(value);
+        let prototype = Object.getPrototypeOf(value);
+        if (!isArray && prototype !== Object.prototype && prototype !== null) {
+            return value;
+        }
+        if (ancestors.has(value)) {
+            return "[Circular]";
+        }
+
+        ancestors.add(value);
+        let config = HiFiRedactor._config;
+        let result: any;
+        if (isArray) {
+            result = value.map((item: any) => { return HiFiRedactor._redactValue(item, secrets, ancestors); });
+        } else {
+            result = {};
+            Object.keys(value).forEach((key) => {
+                let item = value[key];
+                if (config.enabled && typeof (item) === "string" && item.length > 0) {
+                    if (config.redactTURNCredentials && CREDENTIAL_FIELDS.includes(key)) {
+                        result[key] = REDACTED;
+                        return;
+                    }
+                    if (config.redactIPAddresses && IP_ADDRESS_FIELDS.includes(key)) {
+                        result[key] = REDACTED_IP;
+                        return;
+                    }
+                }
+                result[key] = HiFiRedactor._redactValue(item, secrets, ancestors);
+            });
+        }
+        ancestors.delete(value);
+        return result;
+    }
+}
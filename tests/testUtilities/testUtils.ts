@@ -111,6 +111,12 @@ export async function generateJWT(tokenType: { [property: string]: any }, spaceI
     }
 }
 
+// Creates a JWT with an invalid signature, for unit tests that only decode JWTs.
+export function createUnsignedTestJWT(payload: any): string {
+    let encode = (obj: any) => { return Buffer.from(JSON.stringify(obj), "utf8").toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_"); };
+    return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.signature`;
+}
+
 export function generateUUID() {
     return v4();
 }
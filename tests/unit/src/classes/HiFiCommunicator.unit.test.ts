@@ -1,8 +1,387 @@
-import { HiFiCommunicator } from "../../../../src/classes/HiFiCommunicator";
+import { HiFiCommunicator, HiFiConnectionStates, HiFiUserDataTransmitError } from "../../../../src/classes/HiFiCommunicator";
+import { MuteReason } from "../../../../src/classes/HiFiMixerSession";
 import { HiFiConstants } from "../../../../src/constants/HiFiConstants";
+import { ReceivedHiFiAudioAPIData, Point3D } from "../../../../src/classes/HiFiAudioAPIData";
+import { AvailableUserDataSubscriptionComponents, UserDataSubscription } from "../../../../src/classes/HiFiUserDataSubscription";
+import { createUnsignedTestJWT } from "../../../testUtilities/testUtils";
+import pako from "pako";
 
 test(`the default members of a new HiFiCommunicator instantiation`, () => {
     let newHiFiCommunicator = new HiFiCommunicator();
     expect(newHiFiCommunicator.transmitRateLimitTimeoutMS).toBe(HiFiConstants.DEFAULT_TRANSMIT_RATE_LIMIT_TIMEOUT_MS);
     newHiFiCommunicator.disconnectFromHiFiAudioAPIServer();
 });
+
+describe(`User Data Subscription handles`, () => {
+    const aliceData = new ReceivedHiFiAudioAPIData({ providedUserID: "alice", hashedVisitID: "aliceHash", position: new Point3D({ x: 1, y: 2, z: 3 }) });
+
+    test(`removed subscriptions are no longer called`, () => {
+        let communicator = new HiFiCommunicator();
+        let callback = jest.fn();
+        let handle = communicator.addUserDataSubscription(new UserDataSubscription({ components: [AvailableUserDataSubscriptionComponents.Position], callback }));
+        expect(handle.isActive()).toBe(true);
+
+        communicator["_handleUserDataUpdates"]([aliceData]);
+        expect(callback).toHaveBeenCalledTimes(1);
+
+        expect(handle.remove()).toBe(true);
+        expect(handle.remove()).toBe(false);
+        expect(handle.isActive()).toBe(false);
+        communicator["_handleUserDataUpdates"]([aliceData]);
+        expect(callback).toHaveBeenCalledTimes(1);
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`updated subscriptions use their new filters`, () => {
+        let communicator = new HiFiCommunicator();
+        let callback = jest.fn();
+        let handle = communicator.addUserDataSubscription(new UserDataSubscription({ providedUserID: "bob", components: [AvailableUserDataSubscriptionComponents.Position], callback }));
+
+        communicator["_handleUserDataUpdates"]([aliceData]);
+        expect(callback).not.toHaveBeenCalled();
+
+        expect(handle.update({ providedUserID: "alice" })).toBe(true);
+        communicator["_handleUserDataUpdates"]([aliceData]);
+        expect(callback).toHaveBeenCalledTimes(1);
+
+        communicator.removeAllUserDataSubscriptions();
+        expect(handle.isActive()).toBe(false);
+        expect(handle.update({ providedUserID: "bob" })).toBe(false);
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`late subscriptions can receive an initial snapshot of the peer roster`, () => {
+        let communicator = new HiFiCommunicator();
+        communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice", x: 1000, y: 2000, z: 3000, v: -30 } } })));
+
+        let callback = jest.fn();
+        communicator.addUserDataSubscription(new UserDataSubscription({
+            providedUserID: "alice",
+            components: [AvailableUserDataSubscriptionComponents.Position],
+            callback,
+            deliverInitialSnapshot: true
+        }));
+        expect(callback).toHaveBeenCalledTimes(1);
+        let snapshot: Array<ReceivedHiFiAudioAPIData> = callback.mock.calls[0][0];
+        expect(snapshot.length).toBe(1);
+        expect(snapshot[0].position.z).toBeCloseTo(3);
+        expect(snapshot[0].volumeDecibels).toBeUndefined();
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+});
+
+test(`constructor callbacks and event listeners are both called`, () => {
+    let onPeerJoined = jest.fn();
+    let peerJoinedListener = jest.fn();
+    let communicator = new HiFiCommunicator({ onPeerJoined });
+    communicator.on("peerJoined", peerJoinedListener);
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice" } } })));
+    expect(onPeerJoined).toHaveBeenCalledTimes(1);
+    expect(peerJoinedListener).toHaveBeenCalledTimes(1);
+    expect(peerJoinedListener.mock.calls[0][0].providedUserID).toBe("alice");
+
+    communicator.off("peerJoined", peerJoinedListener);
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "2": { e: "bobHash", J: "bob" } } })));
+    expect(onPeerJoined).toHaveBeenCalledTimes(2);
+    expect(peerJoinedListener).toHaveBeenCalledTimes(1);
+    communicator.disconnectFromHiFiAudioAPIServer();
+});
+
+test(`speaking detection emits events from peer volumes`, () => {
+    let speakingStarted = jest.fn();
+    let speakingStopped = jest.fn();
+    let communicator = new HiFiCommunicator({ speakingDetectionConfig: { attackMS: 0, thresholdDecibels: -40 } });
+    communicator.on("speakingStarted", speakingStarted);
+    communicator.on("speakingStopped", speakingStopped);
+
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice", v: -20 } } })));
+    expect(speakingStarted).toHaveBeenCalledTimes(1);
+    expect(speakingStarted.mock.calls[0][0].providedUserID).toBe("alice");
+    expect(communicator.getActiveSpeakers().map((speaker) => { return speaker.hashedVisitID; })).toEqual(["aliceHash"]);
+
+    // a speaking peer who leaves stops speaking
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ deleted_visit_ids: ["aliceHash"] })));
+    expect(speakingStopped).toHaveBeenCalledTimes(1);
+    expect(communicator.getActiveSpeakers()).toEqual([]);
+    communicator.disconnectFromHiFiAudioAPIServer();
+});
+
+test(`gains set by provided user ID are applied when a matching peer joins`, async () => {
+    let storage = new Map<string, string>();
+    let otherUserGainStorage = { getItem: (key: string) => { return storage.has(key) ? storage.get(key) : null; }, setItem: (key: string, value: string) => { storage.set(key, value); } };
+    let communicator = new HiFiCommunicator({ otherUserGainStorage });
+    await communicator.setOtherUserGainByProvidedUserID("alice", 0.5);
+    expect(communicator["_currentHiFiAudioAPIData"]._otherUserGainQueue).toEqual({});
+
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice" } } })));
+    expect(communicator["_currentHiFiAudioAPIData"]._otherUserGainQueue).toEqual({ "aliceHash": 0.5 });
+
+    // the gain is persisted, so a new communicator applies it too
+    let newCommunicator = new HiFiCommunicator({ otherUserGainStorage });
+    expect(newCommunicator.getOtherUserGainsByProvidedUserID()).toEqual({ "alice": { gain: 0.5, muted: false } });
+    communicator.disconnectFromHiFiAudioAPIServer();
+    newCommunicator.disconnectFromHiFiAudioAPIServer();
+});
+
+test(`gains set by provided user ID that fail to send are sent again`, async () => {
+    let communicator = new HiFiCommunicator();
+    let transmitSpy = jest.spyOn(communicator["_mixerSession"], "_transmitHiFiAudioAPIDataToServer").mockReturnValue({ success: false, error: "Not connected." });
+    await communicator.setOtherUserGainByProvidedUserID("alice", 0.5);
+
+    let aliceFrame = pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice" } } }));
+    communicator["_mixerSession"].handleRAVISessionBinaryData(aliceFrame);
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+    expect(communicator["_appliedOtherUserGains"].has("aliceHash")).toBe(false);
+
+    transmitSpy.mockReturnValue({ success: true, stringifiedDataForMixer: "{}" });
+    communicator["_mixerSession"].handleRAVISessionBinaryData(pako.gzip(JSON.stringify({ peers: { "1": { e: "aliceHash", J: "alice", x: 1000 } } })));
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+    expect(communicator["_appliedOtherUserGains"].get("aliceHash")).toBe(0.5);
+    communicator.disconnectFromHiFiAudioAPIServer();
+});
+
+test(`the desired state is replayed after reconnecting`, async () => {
+    let communicator = new HiFiCommunicator();
+    let mixerSession = communicator["_mixerSession"];
+    let transmittedOtherUserGains: Array<any> = [];
+    jest.spyOn(mixerSession, "_transmitHiFiAudioAPIDataToServer").mockImplementation((data) => {
+        transmittedOtherUserGains.push(Object.assign({}, data._otherUserGainQueue));
+        return { success: true, stringifiedDataForMixer: "{}" };
+    });
+    let setRAVIInputAudioSpy = jest.spyOn(mixerSession, "setRAVIInputAudio").mockResolvedValue(true);
+    let setMutedSpy = jest.spyOn(mixerSession, "_setMuted").mockResolvedValue(true);
+    let stateRestored = jest.fn();
+    communicator.on("stateRestored", stateRestored);
+
+    let inputAudioMediaStream: any = {};
+    await communicator.setInputAudioMediaStream(inputAudioMediaStream, true);
+    await communicator.setOtherUserGainsForThisConnection({ "bobHash": 0.5 });
+
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Connected);
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+    // nothing to restore after the first connection
+    expect(stateRestored).not.toHaveBeenCalled();
+    expect(setRAVIInputAudioSpy).toHaveBeenCalledTimes(1);
+
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Reconnecting);
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Connected);
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+    expect(transmittedOtherUserGains[transmittedOtherUserGains.length - 1]).toEqual({ "bobHash": 0.5 });
+    expect(setRAVIInputAudioSpy).toHaveBeenLastCalledWith(inputAudioMediaStream, true);
+    expect(setMutedSpy).toHaveBeenLastCalledWith(false, false, MuteReason.INTERNAL);
+    expect(stateRestored).toHaveBeenCalledTimes(1);
+    expect(stateRestored.mock.calls[0][0]).toEqual({
+        success: true,
+        errors: [],
+        restoredInputAudioMediaStream: true,
+        restoredInputAudioMuted: false,
+        restoredOtherUserGainCount: 1
+    });
+
+    // gains for users who have left aren't replayed
+    communicator["_onUsersDisconnected"]([new ReceivedHiFiAudioAPIData({ hashedVisitID: "bobHash" })]);
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Reconnecting);
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Connected);
+    expect(transmittedOtherUserGains[transmittedOtherUserGains.length - 1]).toEqual({});
+    communicator.disconnectFromHiFiAudioAPIServer();
+});
+
+test(`an admin mute that arrives while the desired state is replayed isn't undone`, async () => {
+    let communicator = new HiFiCommunicator();
+    let mixerSession = communicator["_mixerSession"];
+    let setRAVIInputAudioSpy = jest.spyOn(mixerSession, "setRAVIInputAudio").mockResolvedValue(true);
+    let setMutedSpy = jest.spyOn(mixerSession, "_setMuted").mockResolvedValue(true);
+    let stateRestored = jest.fn();
+    communicator.on("stateRestored", stateRestored);
+
+    await communicator.setInputAudioMediaStream({} as any, false);
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Connected);
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+
+    // The server mutes this client while the input audio stream is being restored.
+    setRAVIInputAudioSpy.mockImplementation(async () => {
+        mixerSession["_adminPreventsInputAudioUnmuting"] = true;
+        return true;
+    });
+    setMutedSpy.mockClear();
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Reconnecting);
+    communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Connected);
+    await new Promise((resolve) => { setTimeout(resolve, 0); });
+
+    expect(setMutedSpy).not.toHaveBeenCalledWith(false, false, MuteReason.INTERNAL);
+    expect(stateRestored).toHaveBeenCalledTimes(1);
+    expect(stateRestored.mock.calls[0][0].restoredInputAudioMuted).toBe(true);
+    communicator.disconnectFromHiFiAudioAPIServer();
+});
+
+describe(`updateUserData`, () => {
+    test(`rate-limited updates resolve when they're flushed`, async () => {
+        let communicator = new HiFiCommunicator();
+        jest.spyOn(communicator["_mixerSession"], "_transmitHiFiAudioAPIDataToServer").mockImplementation((data) => {
+            return { success: true, stringifiedDataForMixer: JSON.stringify({ x: Math.round(data.position.x * 1000) }) };
+        });
+
+        let first = await communicator.updateUserData({ position: new Point3D({ x: 1, y: 0, z: 0 }) });
+        expect(first).toEqual({ success: true, rawDataTransmitted: `{"x":1000}` });
+
+        let secondSettled = jest.fn();
+        let second = communicator.updateUserData({ position: new Point3D({ x: 2 }) }).then(secondSettled);
+        await Promise.resolve();
+        expect(secondSettled).not.toHaveBeenCalled();
+
+        let flushed = await communicator.flush();
+        expect(flushed).toEqual({ success: true, rawDataTransmitted: `{"x":2000}` });
+        await second;
+        expect(secondSettled).toHaveBeenCalledWith(flushed);
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`updates with a change held back by a rate limit resolve once the change is transmitted`, async () => {
+        jest.useFakeTimers("modern");
+        let communicator = new HiFiCommunicator({ userDataTransmitConfig: { positionMinIntervalMS: 1000 } });
+        jest.spyOn(communicator["_mixerSession"], "_transmitHiFiAudioAPIDataToServer").mockImplementation((data) => {
+            return { success: true, stringifiedDataForMixer: data.position ? JSON.stringify({ x: Math.round(data.position.x * 1000) }) : "{}" };
+        });
+
+        await communicator.updateUserData({ position: new Point3D({ x: 1, y: 0, z: 0 }) });
+        jest.advanceTimersByTime(communicator.transmitRateLimitTimeoutMS);
+
+        let settled = jest.fn();
+        let pending = communicator.updateUserData({ position: new Point3D({ x: 2, y: 0, z: 0 }) }).then(settled);
+        await Promise.resolve();
+        expect(settled).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1000);
+        await pending;
+        expect(settled).toHaveBeenCalledWith({ success: true, rawDataTransmitted: `{"x":2000}` });
+        communicator.disconnectFromHiFiAudioAPIServer();
+        jest.useRealTimers();
+    });
+
+    test(`rate-limited updates fail if the connection is lost first`, async () => {
+        let communicator = new HiFiCommunicator();
+        jest.spyOn(communicator["_mixerSession"], "_transmitHiFiAudioAPIDataToServer").mockReturnValue({ success: true, stringifiedDataForMixer: "{}" });
+
+        await communicator.updateUserData({ hiFiGain: 0.5 });
+        let pending = communicator.updateUserData({ hiFiGain: 0.25 });
+        communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Disconnected);
+        await expect(pending).rejects.toBeInstanceOf(HiFiUserDataTransmitError);
+        await expect(pending).rejects.toMatchObject({ result: { success: false } });
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`updates fail when there's no connection`, async () => {
+        let communicator = new HiFiCommunicator();
+        await expect(communicator.updateUserData({ hiFiGain: 0.5 })).rejects.toMatchObject({ result: { success: false } });
+        await expect(communicator.flush()).rejects.toBeInstanceOf(HiFiUserDataTransmitError);
+        communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`held back changes aren't transmitted after the connection is lost`, () => {
+        jest.useFakeTimers("modern");
+        let communicator = new HiFiCommunicator();
+        let transmitSpy = jest.spyOn(communicator["_mixerSession"], "_transmitHiFiAudioAPIDataToServer").mockReturnValue({ success: true, stringifiedDataForMixer: "{}" });
+        communicator["_maybeScheduleDeferredTransmit"](100);
+        communicator["_updateStateAndCallUserStateChangeHandler"](HiFiConnectionStates.Disconnected);
+        jest.advanceTimersByTime(1000);
+        expect(transmitSpy).not.toHaveBeenCalled();
+        communicator.disconnectFromHiFiAudioAPIServer();
+        jest.useRealTimers();
+    });
+});
+
+describe(`JWTs`, () => {
+    test(`the token provider is called for every connection attempt`, async () => {
+        let tokens = [createUnsignedTestJWT({ user_id: "first" }), createUnsignedTestJWT({ user_id: "second" })];
+        let tokenProvider = jest.fn().mockImplementation(() => { return Promise.resolve(tokens.shift()); });
+        let communicator = new HiFiCommunicator({ tokenProvider });
+        let mixerSession = communicator["_mixerSession"];
+        let webRTCAddresses: Array<string> = [];
+        jest.spyOn(mixerSession, "connectToHiFiMixer").mockImplementation(() => { webRTCAddresses.push(mixerSession.webRTCAddress); });
+
+        communicator.connectToHiFiAudioAPIServer(undefined, "ws://127.0.0.1:8889").catch(() => { });
+        await new Promise((resolve) => { setTimeout(resolve, 0); });
+        expect(webRTCAddresses).toEqual([`ws://127.0.0.1:8889/?token=${createUnsignedTestJWT({ user_id: "first" })}`]);
+
+        communicator["_manageConnection"](HiFiConnectionStates.Reconnecting);
+        await new Promise((resolve) => { setTimeout(resolve, 0); });
+        expect(tokenProvider).toHaveBeenCalledTimes(2);
+        expect(webRTCAddresses[1]).toBe(`ws://127.0.0.1:8889/?token=${createUnsignedTestJWT({ user_id: "second" })}`);
+        await communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`a JWT is required unless there's a token provider`, async () => {
+        let communicator = new HiFiCommunicator();
+        await expect(communicator.connectToHiFiAudioAPIServer(undefined)).rejects.toMatchObject({ success: false });
+    });
+
+    test(`the connection attempt fails if the token provider fails`, async () => {
+        let communicator = new HiFiCommunicator({ tokenProvider: () => { return Promise.reject("no network"); } });
+        let connectSpy = jest.spyOn(communicator["_mixerSession"], "connectToHiFiMixer").mockImplementation(() => { });
+        let states: Array<HiFiConnectionStates> = [];
+        communicator.on("connectionStateChanged", (state) => { states.push(state); });
+
+        await expect(communicator.connectToHiFiAudioAPIServer(undefined, "ws://127.0.0.1:8889")).rejects.toMatchObject({ success: false, error: expect.stringContaining("no network") });
+        expect(connectSpy).not.toHaveBeenCalled();
+        expect(states).toEqual([HiFiConnectionStates.Connecting, HiFiConnectionStates.Failed, HiFiConnectionStates.Disconnected]);
+    });
+
+    test(`tokenExpiring is emitted before the JWT expires, and a new JWT is fetched`, async () => {
+        let expiringJWT = createUnsignedTestJWT({ exp: Math.floor(Date.now() / 1000) + 30 });
+        let newExpiration = Math.floor(Date.now() / 1000) + 3600;
+        let tokens = [expiringJWT, createUnsignedTestJWT({ exp: newExpiration })];
+        let tokenProvider = jest.fn().mockImplementation(() => { return Promise.resolve(tokens.shift()); });
+        let communicator = new HiFiCommunicator({ tokenProvider, tokenExpiringLeadTimeSeconds: 60 });
+        jest.spyOn(communicator["_mixerSession"], "connectToHiFiMixer").mockImplementation(() => { });
+        let tokenExpiring = jest.fn();
+        communicator.on("tokenExpiring", tokenExpiring);
+
+        communicator.connectToHiFiAudioAPIServer(undefined, "ws://127.0.0.1:8889").catch(() => { });
+        await new Promise((resolve) => { setTimeout(resolve, 10); });
+        expect(tokenExpiring).toHaveBeenCalledTimes(1);
+        expect(tokenExpiring.mock.calls[0][0].refreshing).toBe(true);
+        expect(tokenExpiring.mock.calls[0][0].secondsRemaining).toBeGreaterThan(25);
+        expect(tokenExpiring.mock.calls[0][0].secondsRemaining).toBeLessThanOrEqual(30);
+        expect(tokenProvider).toHaveBeenCalledTimes(2);
+        expect(communicator.getHiFiAuthJWTExpiration()).toEqual(new Date(newExpiration * 1000));
+        await communicator.disconnectFromHiFiAudioAPIServer();
+    });
+
+    test(`a new JWT that expires within the lead time isn't replaced straight away`, async () => {
+        let tokenProvider = jest.fn().mockImplementation(() => { return Promise.resolve(createUnsignedTestJWT({ exp: Math.floor(Date.now() / 1000) + 30, jti: `${tokenProvider.mock.calls.length}` })); });
+        let communicator = new HiFiCommunicator({ tokenProvider, tokenExpiringLeadTimeSeconds: 60 });
+        jest.spyOn(communicator["_mixerSession"], "connectToHiFiMixer").mockImplementation(() => { });
+        let warnSpy = jest.spyOn(communicator["_logger"], "warn");
+        let tokenExpiring = jest.fn();
+        communicator.on("tokenExpiring", tokenExpiring);
+
+        communicator.connectToHiFiAudioAPIServer(undefined, "ws://127.0.0.1:8889").catch(() => { });
+        await new Promise((resolve) => { setTimeout(resolve, 50); });
+        expect(tokenProvider).toHaveBeenCalledTimes(2);
+        expect(tokenExpiring.mock.calls.map((call) => { return call[0].refreshing; })).toEqual([true, false]);
+        expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("won't be replaced before it expires"));
+        await communicator.disconnectFromHiFiAudioAPIServer();
+    });
+});
+
+test(`the retry policy decides when to retry and when to give up`, async () => {
+    let communicator = new HiFiCommunicator({
+        connectionRetryAndTimeoutConfig: { autoRetryInitialConnection: true, retryPolicy: { baseDelayMS: 100, maxAttempts: 2 } }
+    });
+    let connectSpy = jest.spyOn(communicator["_mixerSession"], "connectToHiFiMixer").mockImplementation(() => {
+        setTimeout(() => {
+            communicator["_manageConnection"](HiFiConnectionStates.Failed, { success: false, error: "timed out" });
+            communicator["_manageConnection"](HiFiConnectionStates.Disconnected, { success: true, error: "Successfully disconnected" });
+        }, 0);
+    });
+    let onRetryScheduled = jest.fn();
+    communicator.onRetryScheduled = onRetryScheduled;
+
+    await expect(communicator.connectToHiFiAudioAPIServer("jwt", "ws://127.0.0.1:8889")).rejects.toMatchObject({ success: false, error: "timed out" });
+    expect(connectSpy).toHaveBeenCalledTimes(3);
+    expect(onRetryScheduled.mock.calls.map((call) => { return call[0]; })).toEqual([
+        { attempt: 1, maxAttempts: 2, delayMS: 100, connectionState: HiFiConnectionStates.Connecting, error: "timed out" },
+        { attempt: 2, maxAttempts: 2, delayMS: 100, connectionState: HiFiConnectionStates.Connecting, error: "timed out" }
+    ]);
+    expect(communicator.getConnectionState()).toBe(HiFiConnectionStates.Disconnected);
+});
@@ -0,0 +1,110 @@
+import { HiFiConnectionQualityMonitor, HiFiConnectionQualityLevels } from "../../../../src/classes/HiFiConnectionQualityMonitor";
+
+// Builds the filtered stats that the RAVI stats watcher would report, with cumulative packet counts.
+function makeStats({ packetsLost = 0, packetsReceived = 0, jitter = 0.005, roundTripTime = 0.05, fractionLost = 0 }: { packetsLost?: number, packetsReceived?: number, jitter?: number, roundTripTime?: number, fractionLost?: number }): Array<any> {
+    return [
+        { id: "IT01A", type: "inbound-rtp", packetsLost, packetsReceived, jitter },
+        { id: "RIA01", type: "remote-inbound-rtp", roundTripTime, jitter, fractionLost }
+    ];
+}
+
+describe("HiFiConnectionQualityMonitor", () => {
+    let onQualityChanged: jest.Mock;
+    let monitor: HiFiConnectionQualityMonitor;
+
+    beforeEach(() => {
+        onQualityChanged = jest.fn();
+        monitor = new HiFiConnectionQualityMonitor({
+            config: { windowSize: 3, historyLength: 4 },
+            onQualityChanged
+        });
+    });
+
+    test(`the MOS gets worse as packet loss, jitter and round-trip time increase`, () => {
+        let perfectMOS = HiFiConnectionQualityMonitor.estimateMOS(0, 0, 0);
+        expect(perfectMOS).toBeGreaterThan(4.3);
+        expect(perfectMOS).toBeLessThanOrEqual(4.5);
+        expect(HiFiConnectionQualityMonitor.estimateMOS(5, 0, 0)).toBeLessThan(perfectMOS);
+        expect(HiFiConnectionQualityMonitor.estimateMOS(0, 50, 0)).toBeLessThan(perfectMOS);
+        expect(HiFiConnectionQualityMonitor.estimateMOS(0, 0, 500)).toBeLessThan(perfectMOS);
+        expect(HiFiConnectionQualityMonitor.estimateMOS(100, 1000, 5000)).toBe(1);
+    });
+
+    test(`calculates rolling packet loss, jitter and round-trip time`, () => {
+        // The first sample has no previous sample, so downstream packet loss is unknown.
+        let quality = monitor.handleStats(makeStats({ packetsLost: 0, packetsReceived: 0 }), [], 1000);
+        expect(quality.downstreamPacketLossPercent).toBeUndefined();
+        expect(quality.jitterMS).toBeCloseTo(5);
+        expect(quality.roundTripTimeMS).toBeCloseTo(50);
+
+        monitor.handleStats(makeStats({ packetsLost: 10, packetsReceived: 40 }), makeStats({ packetsLost: 0, packetsReceived: 0 }), 2000);
+        quality = monitor.handleStats(makeStats({ packetsLost: 10, packetsReceived: 90, jitter: 0.015, roundTripTime: 0.11, fractionLost: 0.03 }),
+            makeStats({ packetsLost: 10, packetsReceived: 40 }), 3000);
+        // 10 of the 100 packets expected over the window were lost.
+        expect(quality.downstreamPacketLossPercent).toBeCloseTo(10);
+        expect(quality.upstreamPacketLossPercent).toBeCloseTo(1);
+        expect(quality.packetLossPercent).toBeCloseTo(10);
+        expect(quality.jitterMS).toBeCloseTo((5 + 5 + 15) / 3);
+        expect(quality.roundTripTimeMS).toBeCloseTo((50 + 50 + 110) / 3);
+        expect(quality.timestamp).toBe(3000);
+    });
+
+    test(`emits qualityChanged only when the level changes`, () => {
+        let prevStats: Array<any> = [];
+        let packetsLost = 0;
+        let packetsReceived = 0;
+        let addSample = (lost: number, received: number) => {
+            packetsLost += lost;
+            packetsReceived += received;
+            let stats = makeStats({ packetsLost, packetsReceived });
+            monitor.handleStats(stats, prevStats);
+            prevStats = stats;
+        };
+
+        addSample(0, 50);
+        expect(onQualityChanged).toHaveBeenCalledTimes(1);
+        expect(onQualityChanged.mock.calls[0][0].previousLevel).toBe(HiFiConnectionQualityLevels.Unknown);
+        expect(onQualityChanged.mock.calls[0][0].quality.level).toBe(HiFiConnectionQualityLevels.Excellent);
+
+        addSample(0, 50);
+        expect(onQualityChanged).toHaveBeenCalledTimes(1);
+
+        addSample(25, 25);
+        expect(onQualityChanged).toHaveBeenCalledTimes(2);
+        expect(onQualityChanged.mock.calls[1][0].previousLevel).toBe(HiFiConnectionQualityLevels.Excellent);
+        expect(onQualityChanged.mock.calls[1][0].quality.level).toBe(HiFiConnectionQualityLevels.Bad);
+        expect(monitor.getQuality().level).toBe(HiFiConnectionQualityLevels.Bad);
+    });
+
+    test(`ignores samples without any of the stats it needs`, () => {
+        expect(monitor.handleStats([{ id: "OT01A", type: "outbound-rtp", packetsSent: 100 }], [])).toBeUndefined();
+        expect(monitor.getQuality().level).toBe(HiFiConnectionQualityLevels.Unknown);
+        expect(monitor.getHistory()).toEqual([]);
+        expect(onQualityChanged).not.toHaveBeenCalled();
+    });
+
+    test(`keeps the most recent qualities in a ring buffer`, () => {
+        for (let i = 1; i <= 6; i++) {
+            monitor.handleStats(makeStats({}), [], i * 1000);
+        }
+        expect(monitor.getHistory().map((quality) => { return quality.timestamp; })).toEqual([3000, 4000, 5000, 6000]);
+
+        monitor.reset();
+        expect(monitor.getHistory()).toEqual([]);
+        expect(monitor.getQuality().level).toBe(HiFiConnectionQualityLevels.Unknown);
+    });
+
+    test(`emits qualityChanged to Unknown when stopped`, () => {
+        monitor.stop();
+        expect(onQualityChanged).not.toHaveBeenCalled();
+
+        monitor.handleStats(makeStats({}), [], 1000);
+        expect(monitor.getQuality().level).toBe(HiFiConnectionQualityLevels.Excellent);
+
+        monitor.stop();
+        expect(onQualityChanged).toHaveBeenCalledTimes(2);
+        expect(onQualityChanged.mock.calls[1][0].previousLevel).toBe(HiFiConnectionQualityLevels.Excellent);
+        expect(onQualityChanged.mock.calls[1][0].quality.level).toBe(HiFiConnectionQualityLevels.Unknown);
+        expect(monitor.getHistory()).toEqual([]);
+    });
+});
@@ -0,0 +1,125 @@
+import { HiFiInputModeController, HiFiInputModes } from "../../../../src/classes/HiFiInputModeController";
+import { HiFiLogger } from "../../../../src/utilities/HiFiLogger";
+
+describe("HiFiInputModeController", () => {
+    let onGateChanged: jest.Mock;
+    let controller: HiFiInputModeController;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        onGateChanged = jest.fn();
+        controller = new HiFiInputModeController({ onGateChanged });
+    });
+
+    afterEach(() => {
+        controller.stop();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    test(`the gate is open in open mic mode, which is the default`, () => {
+        expect(controller.getMode()).toBe(HiFiInputModes.OpenMic);
+        expect(controller.isGateOpen()).toBe(true);
+        expect(onGateChanged).not.toHaveBeenCalled();
+    });
+
+    test(`push-to-talk closes the gate after the release tail`, () => {
+        expect(controller.setMode(HiFiInputModes.PushToTalk, { releaseTailMS: 200 })).toBe(true);
+        expect(controller.isGateOpen()).toBe(false);
+        expect(onGateChanged).toHaveBeenLastCalledWith(false);
+
+        controller.startTalking();
+        expect(controller.isGateOpen()).toBe(true);
+        expect(onGateChanged).toHaveBeenLastCalledWith(true);
+
+        controller.stopTalking();
+        jest.advanceTimersByTime(199);
+        expect(controller.isGateOpen()).toBe(true);
+        jest.advanceTimersByTime(1);
+        expect(controller.isGateOpen()).toBe(false);
+        expect(onGateChanged).toHaveBeenCalledTimes(3);
+    });
+
+    test(`pressing push-to-talk again during the release tail keeps the gate open`, () => {
+        controller.setMode(HiFiInputModes.PushToTalk, { releaseTailMS: 200 });
+        controller.startTalking();
+        controller.stopTalking();
+        jest.advanceTimersByTime(100);
+        controller.startTalking();
+        jest.advanceTimersByTime(1000);
+        expect(controller.isGateOpen()).toBe(true);
+        // Closed by `setMode()`, then opened once.
+        expect(onGateChanged).toHaveBeenCalledTimes(2);
+    });
+
+    test(`toggle-to-talk opens and closes the gate immediately`, () => {
+        controller.setMode(HiFiInputModes.ToggleToTalk, { releaseTailMS: 200 });
+        controller.toggleTalking();
+        expect(controller.isGateOpen()).toBe(true);
+        controller.toggleTalking();
+        expect(controller.isGateOpen()).toBe(false);
+    });
+
+    test(`talking has no effect in open mic mode`, () => {
+        let warnSpy = jest.spyOn(HiFiLogger, "warn").mockImplementation(() => { return true; });
+        controller.stopTalking();
+        controller.toggleTalking();
+        expect(controller.isGateOpen()).toBe(true);
+        expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test(`voice activation isn't available without WebAudio`, () => {
+        let errorSpy = jest.spyOn(HiFiLogger, "error").mockImplementation(() => { return true; });
+        expect(controller.setMode(HiFiInputModes.VoiceActivated)).toBe(false);
+        expect(errorSpy).toHaveBeenCalled();
+        expect(controller.getMode()).toBe(HiFiInputModes.OpenMic);
+        expect(controller.isGateOpen()).toBe(true);
+    });
+
+    test(`voice activation follows the input level, with a release tail`, () => {
+        (global as any).self = { AudioContext: function () { } };
+        try {
+            controller.setMode(HiFiInputModes.VoiceActivated, { voiceActivationThresholdDecibels: -40, releaseTailMS: 300 });
+        } finally {
+            delete (global as any).self;
+        }
+        expect(controller.isGateOpen()).toBe(false);
+
+        controller.handleInputLevel(-50);
+        expect(controller.isGateOpen()).toBe(false);
+        controller.handleInputLevel(-30);
+        expect(controller.isGateOpen()).toBe(true);
+
+        controller.handleInputLevel(-50);
+        jest.advanceTimersByTime(200);
+        controller.handleInputLevel(-35);
+        jest.advanceTimersByTime(1000);
+        expect(controller.isGateOpen()).toBe(true);
+
+        controller.handleInputLevel(-50);
+        controller.handleInputLevel(-60);
+        jest.advanceTimersByTime(300);
+        expect(controller.isGateOpen()).toBe(false);
+    });
+
+    test(`a bound element starts and stops talking`, () => {
+        controller.setMode(HiFiInputModes.PushToTalk, { releaseTailMS: 0 });
+        let listeners = new Map<string, Function>();
+        let element: any = {
+            addEventListener: (type: string, listener: Function) => { listeners.set(type, listener); },
+            removeEventListener: (type: string) => { listeners.delete(type); }
+        };
+        let dispatch = (type: string) => { if (listeners.has(type)) { listeners.get(type)({ type, preventDefault: () => { } }); } };
+        let unbind = controller.bindPushToTalkElement(element);
+
+        dispatch("pointerdown");
+        expect(controller.isGateOpen()).toBe(true);
+        dispatch("pointerleave");
+        expect(controller.isGateOpen()).toBe(false);
+
+        unbind();
+        expect(listeners.size).toBe(0);
+        dispatch("pointerdown");
+        expect(controller.isGateOpen()).toBe(false);
+    });
+});
@@ -1,6 +1,10 @@
 import { HiFiMixerSession } from "../../../../src/classes/HiFiMixerSession";
 import { HiFiConnectionStates, HiFiConnectionAttemptResult } from "../../../../src/classes/HiFiCommunicator";
 import { sleep } from '../../../testUtilities/testUtils';
+import pako from "pako";
+import { Point3D } from "../../../../src/classes/HiFiAudioAPIData";
+import { HiFiCoordinateFrameUtil } from "../../../../src/utilities/HiFiCoordinateFrameUtil";
+import { HiFiPeerMotionInterpolator } from "../../../../src/utilities/HiFiPeerMotionInterpolator";
 
 test(`brand new mixer session can't connect`, async () => {
 
@@ -24,3 +28,79 @@ test(`brand new mixer session can't connect`, async () => {
     expect(stateChangeCallback).toHaveBeenCalledWith(HiFiConnectionStates.Failed, failureResult);
     expect(stateChangeCallback).toHaveBeenCalledWith(HiFiConnectionStates.Disconnected, disconnectResult);
 });
+
+describe(`the peer roster`, () => {
+    const gzipFrame = (frame: any) => { return pako.gzip(JSON.stringify(frame)); };
+
+    test(`peers are added, merged, and pruned`, () => {
+        const onPeerJoined = jest.fn();
+        const onPeerUpdated = jest.fn();
+        const onPeerLeft = jest.fn();
+        let mixerSession = new HiFiMixerSession({ onPeerJoined, onPeerUpdated, onPeerLeft });
+        mixerSession.mixerInfo["visit_id_hash"] = "selfHash";
+
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ peers: {
+            "1": { e: "selfHash", J: "me", x: 1000, y: 0, z: 0 },
+            "2": { e: "otherHash", J: "other", x: 0, y: 2000, z: 0, v: -40 }
+        }}));
+        expect(onPeerJoined).toHaveBeenCalledTimes(2);
+        expect(onPeerUpdated).not.toHaveBeenCalled();
+        expect(mixerSession.concurrency).toBe(2);
+        expect(mixerSession.getPeer("selfHash").isSelf).toBe(true);
+        expect(mixerSession.getPeer("otherHash").isSelf).toBe(false);
+
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ peers: { "2": { v: -20 } } }));
+        expect(onPeerUpdated).toHaveBeenCalledTimes(1);
+        let updatedPeer = onPeerUpdated.mock.calls[0][0];
+        expect(updatedPeer.providedUserID).toBe("other");
+        expect(updatedPeer.volumeDecibels).toBe(-20);
+        expect(updatedPeer.position.y).toBeCloseTo(2);
+
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ deleted_visit_ids: ["otherHash"] }));
+        expect(onPeerLeft).toHaveBeenCalledTimes(1);
+        expect(onPeerLeft.mock.calls[0][0].providedUserID).toBe("other");
+        expect(mixerSession.concurrency).toBe(1);
+        expect(mixerSession.getPeer("otherHash")).toBeUndefined();
+        expect(mixerSession.getPeers().map((peer) => { return peer.hashedVisitID; })).toEqual(["selfHash"]);
+    });
+
+    test(`peers returned from the roster are copies`, () => {
+        let mixerSession = new HiFiMixerSession({});
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ peers: { "1": { e: "otherHash", x: 1000, y: 0, z: 0 } } }));
+        mixerSession.getPeer("otherHash").position.x = 5;
+        expect(mixerSession.getPeer("otherHash").position.x).toBeCloseTo(1);
+    });
+
+    test(`peer motion is recorded in the World-frame`, () => {
+        let peerMotionInterpolator = new HiFiPeerMotionInterpolator({ renderDelayMS: 0 });
+        let coordFrameUtil = new HiFiCoordinateFrameUtil(new Point3D({ x: 1, y: 0, z: 0 }), new Point3D({ x: 0, y: 0, z: 1 }), true);
+        let mixerSession = new HiFiMixerSession({ peerMotionInterpolator, coordFrameUtil });
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ peers: { "1": { e: "otherHash", x: 1000, y: 2000, z: 3000 } } }));
+        let pose = peerMotionInterpolator.getInterpolatedPeerPose("otherHash");
+        let worldPosition = mixerSession.getPeer("otherHash").position;
+        expect(pose.position.x).toBeCloseTo(worldPosition.x);
+        expect(pose.position.y).toBeCloseTo(worldPosition.y);
+        expect(pose.position.z).toBeCloseTo(worldPosition.z);
+
+        mixerSession.handleRAVISessionBinaryData(gzipFrame({ deleted_visit_ids: ["otherHash"] }));
+        expect(peerMotionInterpolator.getInterpolatedPeerPose("otherHash")).toBeUndefined();
+    });
+});
+
+test(`ICE restarts are only enabled if the server supports them`, async () => {
+    let mixerSession = new HiFiMixerSession({});
+    let raviSession = mixerSession["_raviSession"];
+    let capabilities: Array<string>;
+    jest.spyOn(raviSession.getCommandController(), "queueCommand").mockImplementation((command: string, param: any, handler: Function) => {
+        handler(JSON.stringify({ build_version: "test", visit_id_hash: "hash", capabilities }));
+    });
+
+    capabilities = ["ice_restart"];
+    await mixerSession.promiseToRunAudioInit();
+    expect(raviSession["_iceRestartSupported"]).toBe(true);
+    expect(mixerSession.mixerInfo["capabilities"]).toEqual(["ice_restart"]);
+
+    capabilities = undefined;
+    await mixerSession.promiseToRunAudioInit();
+    expect(raviSession["_iceRestartSupported"]).toBe(false);
+});
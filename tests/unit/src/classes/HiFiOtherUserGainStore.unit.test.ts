@@ -0,0 +1,79 @@
+import { HiFiOtherUserGainStore, OtherUserGainStorage } from "../../../../src/classes/HiFiOtherUserGainStore";
+import { HiFiLogger } from "../../../../src/utilities/HiFiLogger";
+
+describe("HiFiOtherUserGainStore", () => {
+    let stored: Map<string, string>;
+    let storage: OtherUserGainStorage;
+
+    beforeEach(() => {
+        stored = new Map();
+        storage = {
+            getItem: (key: string) => { return stored.has(key) ? stored.get(key) : null; },
+            setItem: (key: string, value: string) => { stored.set(key, value); }
+        };
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test(`gains and mutes are independent`, () => {
+        let store = new HiFiOtherUserGainStore({ storage });
+        expect(store.getEffectiveGain("alice")).toBeUndefined();
+
+        store.setGain("alice", 0.5);
+        expect(store.getEffectiveGain("alice")).toBe(0.5);
+        store.setMuted("alice", true);
+        expect(store.getEffectiveGain("alice")).toBe(0);
+        store.setGain("alice", 2);
+        expect(store.getEffectiveGain("alice")).toBe(0);
+        store.setMuted("alice", false);
+        expect(store.getEffectiveGain("alice")).toBe(2);
+
+        store.setMuted("bob", true);
+        expect(store.get("bob")).toEqual({ gain: 1, muted: true });
+    });
+
+    test(`settings are persisted and loaded`, () => {
+        let store = new HiFiOtherUserGainStore({ storage, storageKey: "gains" });
+        store.setGain("alice", 0.5);
+        store.setMuted("bob", true);
+        expect(JSON.parse(stored.get("gains"))).toEqual({ "alice": { gain: 0.5, muted: false }, "bob": { gain: 1, muted: true } });
+
+        let loadedStore = new HiFiOtherUserGainStore({ storage, storageKey: "gains" });
+        expect(loadedStore.getAll()).toEqual(store.getAll());
+
+        expect(loadedStore.remove("alice")).toBe(true);
+        expect(loadedStore.remove("alice")).toBe(false);
+        expect(JSON.parse(stored.get("gains"))).toEqual({ "bob": { gain: 1, muted: true } });
+        loadedStore.clear();
+        expect(JSON.parse(stored.get("gains"))).toEqual({});
+    });
+
+    test(`invalid persisted settings are ignored`, () => {
+        let warnSpy = jest.spyOn(HiFiLogger, "warn").mockImplementation(() => { return true; });
+        let errorSpy = jest.spyOn(HiFiLogger, "error").mockImplementation(() => { return true; });
+        stored.set("hifiOtherUserGainsByProvidedUserID", JSON.stringify({ "alice": { gain: -1, muted: false }, "bob": { gain: 0.5, muted: false } }));
+        expect(new HiFiOtherUserGainStore({ storage }).getAll()).toEqual({ "bob": { gain: 0.5, muted: false } });
+        expect(warnSpy).toHaveBeenCalledTimes(1);
+
+        stored.set("hifiOtherUserGainsByProvidedUserID", "not JSON");
+        expect(new HiFiOtherUserGainStore({ storage }).getAll()).toEqual({});
+        expect(errorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test(`without storage, settings are kept in memory`, () => {
+        let store = new HiFiOtherUserGainStore({ storage: null });
+        store.setGain("alice", 0.5);
+        expect(store.getEffectiveGain("alice")).toBe(0.5);
+        expect(new HiFiOtherUserGainStore({ storage: null }).getAll()).toEqual({});
+    });
+
+    test(`copies are returned`, () => {
+        let store = new HiFiOtherUserGainStore({ storage });
+        store.setGain("alice", 0.5);
+        store.get("alice").gain = 2;
+        store.getAll()["alice"].muted = true;
+        expect(store.get("alice")).toEqual({ gain: 0.5, muted: false });
+    });
+});
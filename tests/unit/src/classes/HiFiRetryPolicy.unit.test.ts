@@ -0,0 +1,75 @@
+import { HiFiRetryPolicy, HiFiRetryPolicyTypes } from "../../../../src/classes/HiFiRetryPolicy";
+import { HiFiLogger } from "../../../../src/utilities/HiFiLogger";
+
+function collectDelays(retryPolicy: HiFiRetryPolicy, count: number): Array<number> {
+    let delays = [];
+    for (let i = 0; i < count; i++) {
+        delays.push(retryPolicy.nextDelayMS());
+    }
+    return delays;
+}
+
+describe(`HiFiRetryPolicy`, () => {
+    test(`the default policy waits pauseBetweenRetriesMS forever`, () => {
+        let retryPolicy = new HiFiRetryPolicy({ defaultBaseDelayMS: 500 });
+        expect(retryPolicy.type).toBe(HiFiRetryPolicyTypes.Fixed);
+        expect(collectDelays(retryPolicy, 3)).toEqual([500, 500, 500]);
+        expect(retryPolicy.maxAttempts).toBe(Infinity);
+        expect(retryPolicy.getAttemptCount()).toBe(3);
+    });
+
+    test(`maxAttempts limits each retry cycle`, () => {
+        let retryPolicy = new HiFiRetryPolicy({ retryPolicy: { maxAttempts: 2 }, defaultBaseDelayMS: 500 });
+        expect(collectDelays(retryPolicy, 3)).toEqual([500, 500, undefined]);
+        expect(retryPolicy.getAttemptCount()).toBe(2);
+        retryPolicy.reset();
+        expect(retryPolicy.nextDelayMS()).toBe(500);
+    });
+
+    test(`full jitter is a random fraction of an exponentially growing, capped ceiling`, () => {
+        let retryPolicy = new HiFiRetryPolicy({
+            retryPolicy: { type: HiFiRetryPolicyTypes.ExponentialFullJitter, baseDelayMS: 1000, maxDelayMS: 5000 },
+            defaultBaseDelayMS: 500,
+            minDelayMS: 100,
+            random: () => { return 0.5; }
+        });
+        expect(collectDelays(retryPolicy, 5)).toEqual([500, 1000, 2000, 2500, 2500]);
+
+        let unluckyRetryPolicy = new HiFiRetryPolicy({
+            retryPolicy: { type: HiFiRetryPolicyTypes.ExponentialFullJitter, baseDelayMS: 1000 },
+            defaultBaseDelayMS: 500,
+            minDelayMS: 100,
+            random: () => { return 0; }
+        });
+        // Delays are never shorter than the minimum.
+        expect(unluckyRetryPolicy.nextDelayMS()).toBe(100);
+    });
+
+    test(`decorrelated jitter grows from the previous delay`, () => {
+        let randomValues = [1, 1, 0, 0.5, 1];
+        let retryPolicy = new HiFiRetryPolicy({
+            retryPolicy: { type: HiFiRetryPolicyTypes.ExponentialDecorrelatedJitter, baseDelayMS: 100, maxDelayMS: 2000 },
+            defaultBaseDelayMS: 500,
+            random: () => { return randomValues.shift(); }
+        });
+        expect(retryPolicy.multiplier).toBe(3);
+        expect(collectDelays(retryPolicy, 5)).toEqual([300, 900, 100, 200, 600]);
+    });
+
+    test(`custom policies calculate their own delays and can stop retrying`, () => {
+        let getDelayMS = jest.fn().mockImplementation((attempt: number, previousDelayMS: number) => { return attempt > 2 ? -1 : (previousDelayMS || 0) + 1000; });
+        let retryPolicy = new HiFiRetryPolicy({ retryPolicy: { getDelayMS }, defaultBaseDelayMS: 500 });
+        expect(retryPolicy.type).toBe(HiFiRetryPolicyTypes.Custom);
+        expect(collectDelays(retryPolicy, 3)).toEqual([1000, 2000, undefined]);
+        expect(getDelayMS.mock.calls).toEqual([[1, undefined], [2, 1000], [3, 2000]]);
+    });
+
+    test(`invalid policies fall back to fixed delays`, () => {
+        let warnSpy = jest.spyOn(HiFiLogger, "warn").mockImplementation(() => { return true; });
+        let retryPolicy = new HiFiRetryPolicy({ retryPolicy: { type: HiFiRetryPolicyTypes.Custom, baseDelayMS: 200 }, defaultBaseDelayMS: 500 });
+        expect(retryPolicy.type).toBe(HiFiRetryPolicyTypes.Fixed);
+        expect(retryPolicy.nextDelayMS()).toBe(200);
+        expect(warnSpy).toHaveBeenCalledTimes(1);
+        warnSpy.mockRestore();
+    });
+});
@@ -0,0 +1,86 @@
+import { HiFiSpeakingDetector } from "../../../../src/classes/HiFiSpeakingDetector";
+
+describe("HiFiSpeakingDetector", () => {
+    let onSpeakingStarted: jest.Mock;
+    let onSpeakingStopped: jest.Mock;
+    let detector: HiFiSpeakingDetector;
+
+    beforeEach(() => {
+        onSpeakingStarted = jest.fn();
+        onSpeakingStopped = jest.fn();
+        detector = new HiFiSpeakingDetector({
+            config: { thresholdDecibels: -40, attackMS: 100, releaseMS: 500, minimumSpeakingDurationMS: 1000 },
+            onSpeakingStarted,
+            onSpeakingStopped
+        });
+    });
+
+    test(`starts speaking once the attack time has elapsed`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 1000);
+        expect(onSpeakingStarted).not.toHaveBeenCalled();
+
+        detector.update(1099);
+        expect(onSpeakingStarted).not.toHaveBeenCalled();
+
+        detector.update(1100);
+        expect(onSpeakingStarted).toHaveBeenCalledTimes(1);
+        expect(onSpeakingStarted.mock.calls[0][0]).toEqual({ hashedVisitID: "aliceHash", providedUserID: "alice", volumeDecibels: -30, speakingSinceMS: 1100 });
+    });
+
+    test(`short noises don't start speaking`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 1000);
+        detector.handleVolume("aliceHash", "alice", -60, 1050);
+        detector.update(2000);
+        expect(onSpeakingStarted).not.toHaveBeenCalled();
+    });
+
+    test(`pauses shorter than the release time don't stop speaking`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 0);
+        detector.update(2000);
+        detector.handleVolume("aliceHash", "alice", -60, 2000);
+        detector.handleVolume("aliceHash", "alice", -30, 2400);
+        detector.update(3000);
+        expect(onSpeakingStopped).not.toHaveBeenCalled();
+
+        detector.handleVolume("aliceHash", "alice", -60, 3000);
+        detector.update(3499);
+        expect(onSpeakingStopped).not.toHaveBeenCalled();
+        detector.update(3500);
+        expect(onSpeakingStopped).toHaveBeenCalledTimes(1);
+        expect(onSpeakingStopped.mock.calls[0][0].speakingSinceMS).toBe(100);
+    });
+
+    test(`speaking lasts at least the minimum duration`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 0);
+        detector.update(100);
+        detector.handleVolume("aliceHash", "alice", -60, 200);
+        detector.update(700);
+        expect(onSpeakingStopped).not.toHaveBeenCalled();
+        detector.update(1100);
+        expect(onSpeakingStopped).toHaveBeenCalledTimes(1);
+    });
+
+    test(`active speakers are sorted by loudness`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 0);
+        detector.handleVolume("bobHash", "bob", -10, 0);
+        detector.handleVolume("carolHash", "carol", -50, 0);
+        detector.update(100);
+        expect(detector.getActiveSpeakers().map((speaker) => { return speaker.providedUserID; })).toEqual(["bob", "alice"]);
+
+        detector.handleVolume("aliceHash", "alice", -5, 200);
+        expect(detector.getActiveSpeakers().map((speaker) => { return speaker.providedUserID; })).toEqual(["alice", "bob"]);
+    });
+
+    test(`removing a speaking peer stops speaking`, () => {
+        detector.handleVolume("aliceHash", "alice", -30, 0);
+        detector.handleVolume("bobHash", "bob", -60, 0);
+        detector.update(100);
+        detector.removePeer("bobHash");
+        expect(onSpeakingStopped).not.toHaveBeenCalled();
+
+        detector.clear();
+        expect(onSpeakingStopped).toHaveBeenCalledTimes(1);
+        expect(onSpeakingStopped.mock.calls[0][0].providedUserID).toBe("alice");
+        expect(detector.getActiveSpeakers()).toEqual([]);
+    });
+});
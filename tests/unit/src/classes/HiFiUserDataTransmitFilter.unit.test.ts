@@ -0,0 +1,86 @@
+import { HiFiUserDataTransmitFilter } from "../../../../src/classes/HiFiUserDataTransmitFilter";
+import { HiFiAudioAPIData, Point3D, Quaternion } from "../../../../src/classes/HiFiAudioAPIData";
+
+describe("HiFiUserDataTransmitFilter", () => {
+    const lastTransmitted = new HiFiAudioAPIData({
+        position: new Point3D({ x: 0, y: 0, z: 0 }),
+        orientation: new Quaternion({ w: 1, x: 0, y: 0, z: 0 }),
+        hiFiGain: 1
+    });
+
+    test(`everything is transmitted the first time`, () => {
+        let filter = new HiFiUserDataTransmitFilter({ positionDeadbandMeters: 1, positionMinIntervalMS: 1000 });
+        let decision = filter.filter(new HiFiAudioAPIData({ position: new Point3D({ x: 0.1, y: 0, z: 0 }), hiFiGain: 0.5 }), new HiFiAudioAPIData(), 0);
+        expect(decision.sendPosition).toBe(true);
+        expect(decision.sendParameters).toBe(true);
+        expect(decision.dataToTransmit.position).toEqual(new Point3D({ x: 0.1, y: 0, z: 0 }));
+        expect(decision.dataToTransmit.hiFiGain).toBe(0.5);
+    });
+
+    test(`position changes within the dead-band are suppressed`, () => {
+        let filter = new HiFiUserDataTransmitFilter({ positionDeadbandMeters: 0.05 });
+        let decision = filter.filter(new HiFiAudioAPIData({ position: new Point3D({ x: 0.03, y: 0.03, z: 0 }) }), lastTransmitted, 0);
+        expect(decision.sendPosition).toBe(false);
+        expect(decision.dataToTransmit.position).toBeNull();
+
+        decision = filter.filter(new HiFiAudioAPIData({ position: new Point3D({ x: 0.04, y: 0.04, z: 0 }) }), lastTransmitted, 0);
+        expect(decision.sendPosition).toBe(true);
+        filter.recordTransmitted(decision, 0);
+        expect(filter.getStats().position).toEqual({ sent: 1, suppressed: 1 });
+    });
+
+    test(`orientation changes within the dead-band are suppressed`, () => {
+        let filter = new HiFiUserDataTransmitFilter({ orientationDeadbandDegrees: 5 });
+        let halfAngle = (degrees: number) => { return degrees * Math.PI / 360; };
+        let aboutY = (degrees: number) => { return new Quaternion({ w: Math.cos(halfAngle(degrees)), x: 0, y: Math.sin(halfAngle(degrees)), z: 0 }); };
+        expect(filter.filter(new HiFiAudioAPIData({ orientation: aboutY(4) }), lastTransmitted, 0).sendOrientation).toBe(false);
+        expect(filter.filter(new HiFiAudioAPIData({ orientation: aboutY(6) }), lastTransmitted, 0).sendOrientation).toBe(true);
+        expect(filter.getStats().orientation.suppressed).toBe(1);
+    });
+
+    test(`rate-limited changes are retried once the interval has passed`, () => {
+        let filter = new HiFiUserDataTransmitFilter({ positionMinIntervalMS: 200 });
+        let moved = new HiFiAudioAPIData({ position: new Point3D({ x: 1, y: 0, z: 0 }) });
+        let decision = filter.filter(moved, lastTransmitted, 1000);
+        expect(decision.sendPosition).toBe(true);
+        expect(decision.retryAfterMS).toBeUndefined();
+        filter.recordTransmitted(decision, 1000);
+
+        let movedAgain = new HiFiAudioAPIData({ position: new Point3D({ x: 2, y: 0, z: 0 }) });
+        let previous = new HiFiAudioAPIData({ position: moved.position });
+        decision = filter.filter(movedAgain, previous, 1050);
+        expect(decision.sendPosition).toBe(false);
+        expect(decision.retryAfterMS).toBe(150);
+
+        decision = filter.filter(movedAgain, previous, 1200);
+        expect(decision.sendPosition).toBe(true);
+        expect(filter.getStats().position).toEqual({ sent: 1, suppressed: 1 });
+    });
+
+    test(`unchanged parameters aren't transmitted`, () => {
+        let filter = new HiFiUserDataTransmitFilter();
+        let decision = filter.filter(new HiFiAudioAPIData({ hiFiGain: 1 }), lastTransmitted, 0);
+        expect(decision.sendParameters).toBe(false);
+        // `null` would reset the volume threshold on the server.
+        expect(decision.dataToTransmit.volumeThreshold).toBeUndefined();
+
+        decision = filter.filter(new HiFiAudioAPIData({ hiFiGain: 1, userAttenuation: NaN }), lastTransmitted, 0);
+        expect(decision.sendParameters).toBe(true);
+        expect(decision.dataToTransmit.userAttenuation).toBeNaN();
+    });
+
+    test(`other user gains are always passed through`, () => {
+        let filter = new HiFiUserDataTransmitFilter({ positionDeadbandMeters: 100 });
+        let current = new HiFiAudioAPIData();
+        current._otherUserGainQueue = { "aliceHash": 0.5 };
+        expect(filter.filter(current, lastTransmitted, 0).dataToTransmit._otherUserGainQueue).toEqual({ "aliceHash": 0.5 });
+    });
+
+    test(`stats can be reset`, () => {
+        let filter = new HiFiUserDataTransmitFilter();
+        filter.recordTransmitted(filter.filter(new HiFiAudioAPIData({ position: new Point3D({ x: 1, y: 0, z: 0 }) }), lastTransmitted, 0), 0);
+        expect(filter.getStats().position.sent).toBe(1);
+        filter.resetStats();
+        expect(filter.getStats()).toEqual({ position: { sent: 0, suppressed: 0 }, orientation: { sent: 0, suppressed: 0 }, parameters: { sent: 0, suppressed: 0 } });
+    });
+});
@@ -0,0 +1,115 @@
+import { Diagnostics, DiagnosticsConfig, DiagnosticsReport } from "../../../../src/diagnostics/diagnostics";
+import { WebRTCStatsCallback } from "../../../../src/libravi/RaviWebRTCStats";
+
+describe("Diagnostics", () => {
+    let statsCallback: WebRTCStatsCallback;
+    let session: any;
+    let ravi: any;
+
+    let makeDiagnostics = (config: DiagnosticsConfig) => {
+        return new Diagnostics({ label: "app", session, ravi, config });
+    };
+
+    beforeEach(() => {
+        statsCallback = undefined;
+        session = {
+            concurrency: 3,
+            getCurrentHiFiConnectionState: () => { return "Disconnected"; },
+            subscribeToWebRTCStats: jest.fn((callback: WebRTCStatsCallback) => {
+                statsCallback = callback;
+                return { unsubscribe: () => { return true; } };
+            })
+        };
+        ravi = {
+            getState: () => { return "closed"; },
+            _raviImplementation: {
+                _signalingConnection: { _signalingImplementation: { _webSocket: { readyState: 3 } } },
+                _rtcConnection: { connectionState: "closed", signalingState: "closed", iceConnectionState: "closed", iceGatheringState: "complete" }
+            }
+        };
+    });
+
+    test(`reports are delivered to the sink as typed objects`, async () => {
+        let reports: Array<DiagnosticsReport> = [];
+        let diagnostics = makeDiagnostics({ sink: async (report) => { reports.push(report); return true; } });
+        diagnostics.prime("visitHash");
+        expect(diagnostics.isPrimed()).toBe(true);
+
+        statsCallback({
+            timestamp: 1000,
+            elapsedMS: 1000,
+            reports: [
+                { id: "IT01A", type: "inbound-rtp", timestamp: 1000, packetsLost: 2, packetsReceived: 100, jitter: 0.004 },
+                { id: "CP01", type: "candidate-pair", timestamp: 1000, nominated: true, localCandidateId: "L1", remoteCandidateId: "R1" },
+                { id: "L1", type: "local-candidate", timestamp: 1000, ip: "10.0.0.1", candidateType: "host", protocol: "udp" },
+                { id: "R1", type: "remote-candidate", timestamp: 1000, ip: "192.0.2.1", candidateType: "srflx", protocol: "udp" }
+            ],
+            previousReports: [],
+            inboundRTP: [],
+            outboundRTP: [],
+            remoteInboundRTP: [],
+            candidatePairs: [{ id: "CP01", type: "candidate-pair", timestamp: 1000, nominated: true, localCandidateId: "L1", remoteCandidateId: "R1" }],
+            deltas: { "IT01A": { packetsLost: 1, packetsReceived: 50 } }
+        });
+        diagnostics.noteExplicitApplicationClose();
+        await diagnostics.fire("Disconnected");
+
+        expect(diagnostics.isPrimed()).toBe(false);
+        expect(reports.length).toBe(1);
+        let report = reports[0];
+        expect(report.label).toBe("app");
+        expect(report.identifier).toBe("visitHash");
+        expect(report.event).toBe("Disconnected");
+        expect(report.persistence).toBe("directSend");
+        expect(report.explicitlyClosed).toBe(true);
+        expect(report.concurrency).toBe(3);
+        expect(report.appState).toBe("Disconnected");
+        expect(report.rtc).toEqual({ webSocketReadyState: 3, connectionState: "closed", signalingState: "closed", iceConnectionState: "closed", iceGatheringState: "complete" });
+        // Candidate IP addresses are redacted by default.
+        expect(report.candidates.browser).toEqual({ ip: "[REDACTED IP]", type: "host", protocol: "udp" });
+        expect(report.candidates.mixer).toEqual({ ip: "[REDACTED IP]", type: "srflx", protocol: "udp" });
+        expect(report.rtp.inboundRTP).toEqual({ packetsLost: 1, packetsReceived: 50, jitter: 0.004 });
+        // The same report, as the legacy log line.
+        expect(diagnostics.toString(report)).toContain(" appbrowserStatsTYPE_host ");
+    });
+
+    test(`nothing is collected when diagnostics are disabled`, async () => {
+        let sink = jest.fn(async () => { return true; });
+        let diagnostics = makeDiagnostics({ enabled: false, sink });
+        diagnostics.prime("visitHash");
+        expect(diagnostics.isPrimed()).toBe(false);
+        expect(session.subscribeToWebRTCStats).not.toHaveBeenCalled();
+        await diagnostics.fire("Disconnected");
+        expect(sink).not.toHaveBeenCalled();
+    });
+
+    test(`nothing is collected until consent is given, when consent is required`, async () => {
+        let sink = jest.fn(async () => { return true; });
+        let diagnostics = makeDiagnostics({ requireConsent: true, sink });
+        diagnostics.prime("visitHash");
+        expect(diagnostics.isPrimed()).toBe(false);
+
+        diagnostics.setConsent(true);
+        diagnostics.prime("visitHash");
+        expect(diagnostics.isPrimed()).toBe(true);
+
+        diagnostics.setConsent(false);
+        expect(diagnostics.isPrimed()).toBe(false);
+        await diagnostics.fire("Disconnected");
+        expect(sink).not.toHaveBeenCalled();
+    });
+
+    test(`a sink that throws counts as a failed delivery`, async () => {
+        let diagnostics = makeDiagnostics({ sink: async () => { throw new Error("unreachable"); } });
+        diagnostics.prime("visitHash");
+        let report = diagnostics.createReport("pagehide");
+        expect(await diagnostics.report(report)).toBe(false);
+    });
+
+    test(`nothing is collected without a sink, because the default transport is disabled`, () => {
+        let diagnostics = makeDiagnostics({});
+        expect(diagnostics.isOperative()).toBe(false);
+        diagnostics.prime("visitHash");
+        expect(diagnostics.isPrimed()).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+import { RaviWebRTCStatsWatcher, WebRTCStatsSample } from "../../../../src/libravi/RaviWebRTCStats";
+import { RaviUtils } from "../../../../src/libravi/RaviUtils";
+
+// Lets the Promises returned by `getStats()` resolve after a timer has fired.
+async function flushPromises(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+    }
+}
+
+describe("RaviWebRTCStatsWatcher", () => {
+    let packetsReceived: number;
+    let getStats: jest.Mock;
+    let watcher: RaviWebRTCStatsWatcher;
+
+    beforeEach(() => {
+        // Modern fake timers also mock `Date.now()`, which the watcher uses to time the samples.
+        jest.useFakeTimers("modern");
+        jest.spyOn(RaviUtils, "log").mockImplementation(() => { });
+        packetsReceived = 0;
+        getStats = jest.fn(async () => {
+            packetsReceived += 50;
+            return new Map<string, any>([
+                ["IT01A", { id: "IT01A", type: "inbound-rtp", timestamp: 1000, packetsReceived, packetsLost: 1, jitter: 0.002, bytesReceived: 100 * packetsReceived }],
+                ["OT01A", { id: "OT01A", type: "outbound-rtp", timestamp: 1000, packetsSent: 20 }],
+                ["CP01", { id: "CP01", type: "candidate-pair", timestamp: 1000, nominated: true, localCandidateId: "L1", remoteCandidateId: "R1" }],
+                ["C01", { id: "C01", type: "codec", timestamp: 1000, mimeType: "audio/opus" }]
+            ]);
+        });
+        watcher = new RaviWebRTCStatsWatcher(getStats);
+    });
+
+    afterEach(() => {
+        watcher.stop();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    test(`each subscriber gets its own interval and fields`, async () => {
+        let fastSamples: Array<WebRTCStatsSample> = [];
+        let slowSamples: Array<WebRTCStatsSample> = [];
+        watcher.subscribe((sample) => { fastSamples.push(sample); }, { intervalMS: 250, fields: { "inbound-rtp": ["packetsReceived"] } });
+        watcher.subscribe((sample) => { slowSamples.push(sample); });
+
+        for (let i = 0; i < 4; i++) {
+            jest.advanceTimersByTime(250);
+            await flushPromises();
+        }
+        expect(fastSamples.length).toBe(4);
+        expect(slowSamples.length).toBe(1);
+
+        // Only the selected fields, plus `id`, `type` and `timestamp`.
+        expect(fastSamples[0].reports).toEqual([{ id: "IT01A", type: "inbound-rtp", timestamp: 1000, packetsReceived: 50 }]);
+        expect(fastSamples[0].outboundRTP).toEqual([]);
+        // By default, every field of the typed report types, and nothing else.
+        expect(slowSamples[0].reports.map((report) => { return report.type; })).toEqual(["inbound-rtp", "outbound-rtp", "candidate-pair"]);
+        expect(slowSamples[0].inboundRTP[0].jitter).toBe(0.002);
+        expect(slowSamples[0].candidatePairs[0].nominated).toBe(true);
+    });
+
+    test(`samples include the deltas of the counters since the subscriber's previous sample`, async () => {
+        let samples: Array<WebRTCStatsSample> = [];
+        watcher.subscribe((sample) => { samples.push(sample); }, { intervalMS: 500 });
+
+        jest.advanceTimersByTime(500);
+        await flushPromises();
+        expect(samples[0].deltas).toEqual({});
+        expect(samples[0].previousReports).toEqual([]);
+        expect(samples[0].elapsedMS).toBeUndefined();
+
+        jest.advanceTimersByTime(500);
+        await flushPromises();
+        expect(samples[1].deltas["IT01A"]).toEqual({ packetsReceived: 50, packetsLost: 0, bytesReceived: 5000 });
+        expect(samples[1].deltas["OT01A"]).toEqual({ packetsSent: 0 });
+        expect(samples[1].previousReports).toBe(samples[0].reports);
+        expect(samples[1].elapsedMS).toBe(500);
+
+        // After a reset, deltas start over, but the subscription stays active.
+        watcher.reset();
+        jest.advanceTimersByTime(500);
+        await flushPromises();
+        expect(samples.length).toBe(3);
+        expect(samples[2].deltas).toEqual({});
+    });
+
+    test(`unsubscribing stops the subscriber's interval`, async () => {
+        let callback = jest.fn();
+        let handle = watcher.subscribe(callback, { intervalMS: 100 });
+        jest.advanceTimersByTime(100);
+        await flushPromises();
+        expect(callback).toHaveBeenCalledTimes(1);
+
+        expect(handle.unsubscribe()).toBe(true);
+        expect(handle.unsubscribe()).toBe(false);
+        jest.advanceTimersByTime(1000);
+        await flushPromises();
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(getStats).toHaveBeenCalledTimes(1);
+    });
+
+    test(`no samples are delivered while there are no stats`, async () => {
+        getStats.mockImplementation(async () => { return []; });
+        let callback = jest.fn();
+        watcher.subscribe(callback);
+        jest.advanceTimersByTime(3000);
+        await flushPromises();
+        expect(callback).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,100 @@
+import { HiFiFileAudioInputSource, HiFiNoiseAudioInputSource, HiFiNoiseColors, HiFiSilenceAudioInputSource, HiFiToneAudioInputSource } from "../../../../src/node/HiFiAudioInputSources";
+import { HiFiAudioRecorder } from "../../../../src/node/HiFiAudioRecorder";
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+describe("HiFiAudioInputSources", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "hifiAudioInputSources-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test(`a tone has the requested frequency, amplitude and gain`, () => {
+        let tone = new HiFiToneAudioInputSource({ frequencyHz: 1000, amplitude: 0.5, sampleRate: 8000, channelCount: 2 });
+        expect(tone.isStereo()).toBe(true);
+        let samples = tone.readSamples(8);
+        // A quarter period is 2 frames at 8kHz.
+        expect(samples[0]).toBe(0);
+        expect(samples[4]).toBe(Math.round(0.5 * 32767));
+        expect(samples[5]).toBe(samples[4]);
+        expect(samples[12]).toBeCloseTo(-samples[4], -1);
+
+        tone.setGain(4);
+        // Clipped.
+        expect(tone.readSamples(8)[4]).toBe(32767);
+    });
+
+    test(`a sweep starts at its first frequency and repeats`, () => {
+        let sweep = new HiFiToneAudioInputSource({ frequencyHz: 100, sweepToFrequencyHz: 1000, sweepDurationSeconds: 0.01, sampleRate: 48000 });
+        let first = sweep.readSamples(480);
+        let second = sweep.readSamples(480);
+        let zeroCrossings = (samples: Int16Array) => {
+            let count = 0;
+            for (let i = 1; i < samples.length; i++) {
+                if ((samples[i - 1] < 0) !== (samples[i] < 0)) {
+                    count++;
+                }
+            }
+            return count;
+        };
+        expect(zeroCrossings(first)).toBeGreaterThan(2);
+        expect(zeroCrossings(first)).toBeLessThan(20);
+        expect(Math.abs(zeroCrossings(second) - zeroCrossings(first))).toBeLessThanOrEqual(1);
+    });
+
+    test(`seeded noise is repeatable and stays within its amplitude`, () => {
+        for (const color of [HiFiNoiseColors.White, HiFiNoiseColors.Pink]) {
+            let a = new HiFiNoiseAudioInputSource({ color, seed: 42, amplitude: 0.5 }).readSamples(4800);
+            let b = new HiFiNoiseAudioInputSource({ color, seed: 42, amplitude: 0.5 }).readSamples(4800);
+            expect(a).toEqual(b);
+            expect(a.some((sample) => { return sample !== 0; })).toBe(true);
+            expect(a.every((sample) => { return Math.abs(sample) <= 0.6 * 32767; })).toBe(true);
+        }
+    });
+
+    test(`silence is silent`, () => {
+        let silence = new HiFiSilenceAudioInputSource({ channelCount: 2 });
+        expect(silence.readSamples(480).every((sample) => { return sample === 0; })).toBe(true);
+    });
+
+    test(`a WAV file is resampled and mixed down, and ends unless it loops`, () => {
+        let filePath = path.join(directory, "input.wav");
+        let recorder = new HiFiAudioRecorder({ filePath });
+        recorder.writeSamples(new Int16Array([1000, 3000, 2000, 4000]), 100, 2);
+        recorder.stop();
+
+        let onEnded = jest.fn();
+        let source = new HiFiFileAudioInputSource({ filePath, channelCount: 1, sampleRate: 200, onEnded });
+        expect(source.fileChannelCount).toBe(2);
+        expect(source.getDurationSeconds()).toBe(0.02);
+        // Mixed down to mono, then interpolated to twice the sample rate; the last frame is held.
+        expect(Array.from(source.readSamples(4))).toEqual([2000, 2500, 3000, 3000]);
+        expect(onEnded).not.toHaveBeenCalled();
+        expect(Array.from(source.readSamples(2))).toEqual([0, 0]);
+        expect(onEnded).toHaveBeenCalledTimes(1);
+
+        let loopingSource = new HiFiFileAudioInputSource({ filePath, loop: true, sampleRate: 100 });
+        expect(loopingSource.isStereo()).toBe(true);
+        expect(Array.from(loopingSource.readSamples(3))).toEqual([1000, 3000, 2000, 4000, 1000, 3000]);
+        loopingSource.seek(0.01);
+        expect(Array.from(loopingSource.readSamples(1))).toEqual([2000, 4000]);
+    });
+
+    test(`a raw PCM file can be played`, () => {
+        let filePath = path.join(directory, "input.raw");
+        let raw = Buffer.alloc(4);
+        raw.writeInt16LE(-1000, 0);
+        raw.writeInt16LE(500, 2);
+        fs.writeFileSync(filePath, raw);
+        let source = new HiFiFileAudioInputSource({ filePath, rawFormat: { sampleRate: 100, channelCount: 1 }, sampleRate: 100 });
+        expect(Array.from(source.readSamples(2))).toEqual([-1000, 500]);
+        expect(() => { new HiFiFileAudioInputSource({ filePath }); }).toThrow();
+    });
+});
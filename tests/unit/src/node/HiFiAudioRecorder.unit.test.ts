@@ -0,0 +1,101 @@
+import { HiFiAudioRecorder } from "../../../../src/node/HiFiAudioRecorder";
+import { HiFiLogger } from "../../../../src/utilities/HiFiLogger";
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+describe("HiFiAudioRecorder", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "hifiAudioRecorder-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    test(`stereo audio is written as a valid WAV file`, () => {
+        let filePath = path.join(directory, "recording.wav");
+        let recorder = new HiFiAudioRecorder({ filePath });
+        recorder.writeSamples(new Int16Array([1, -1, 2, -2]), 48000, 2);
+        recorder.writeSamples(new Int16Array([3, -3]), 48000, 2);
+        let files = recorder.stop();
+        expect(files).toEqual([{ filePath, sampleRate: 48000, channelCount: 2, durationSeconds: 3 / 48000, sizeBytes: 44 + 12 }]);
+
+        let wav: Buffer = fs.readFileSync(filePath);
+        expect(wav.length).toBe(56);
+        expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+        expect(wav.readUInt32LE(4)).toBe(48);
+        expect(wav.toString("ascii", 8, 16)).toBe("WAVEfmt ");
+        expect(wav.readUInt16LE(22)).toBe(2);
+        expect(wav.readUInt32LE(24)).toBe(48000);
+        expect(wav.readUInt32LE(28)).toBe(48000 * 4);
+        expect(wav.readUInt16LE(34)).toBe(16);
+        expect(wav.readUInt32LE(40)).toBe(12);
+        expect(wav.readInt16LE(44)).toBe(1);
+        expect(wav.readInt16LE(46)).toBe(-1);
+        expect(wav.readInt16LE(54)).toBe(-3);
+    });
+
+    test(`stereo audio can be mixed down to mono`, () => {
+        let filePath = path.join(directory, "mono.wav");
+        let recorder = new HiFiAudioRecorder({ filePath, channelCount: 1 });
+        recorder.writeSamples(new Int16Array([100, 200, -50, -150]), 24000, 2);
+        recorder.stop();
+        let wav: Buffer = fs.readFileSync(filePath);
+        expect(wav.readUInt16LE(22)).toBe(1);
+        expect(wav.readInt16LE(44)).toBe(150);
+        expect(wav.readInt16LE(46)).toBe(-100);
+    });
+
+    test(`files are rotated by duration, by size and when the sample rate changes`, () => {
+        let onFileFinished = jest.fn();
+        let recorder = new HiFiAudioRecorder({ filePath: path.join(directory, "nested", "bot.wav"), maxDurationSeconds: 1, maxFileSizeBytes: 44 + 4 * 3, onFileFinished });
+        // At 2Hz, the duration limit is reached after 2 frames.
+        recorder.writeSamples(new Int16Array(10), 2, 2);
+        expect(onFileFinished).toHaveBeenCalledTimes(2);
+        // At 4Hz, the size limit is reached after 3 frames.
+        recorder.writeSamples(new Int16Array(8), 4, 2);
+        let files = recorder.stop();
+
+        expect(files.map((file) => { return path.basename(file.filePath); })).toEqual(["bot-0001.wav", "bot-0002.wav", "bot-0003.wav", "bot-0004.wav", "bot-0005.wav"]);
+        expect(files.map((file) => { return file.durationSeconds; })).toEqual([1, 1, 0.5, 0.75, 0.25]);
+        expect(files.map((file) => { return file.sampleRate; })).toEqual([2, 2, 2, 4, 4]);
+        expect(onFileFinished).toHaveBeenCalledTimes(5);
+        for (const file of files) {
+            expect(fs.statSync(file.filePath).size).toBe(file.sizeBytes);
+        }
+    });
+
+    test(`without rotation, later files don't overwrite the first one`, () => {
+        let filePath = path.join(directory, "bot.wav");
+        let recorder = new HiFiAudioRecorder({ filePath });
+        recorder.writeSamples(new Int16Array([1, -1, 2, -2]), 48000, 2);
+        // A sample rate change finishes the file and starts a new one.
+        recorder.writeSamples(new Int16Array([3, -3]), 24000, 2);
+        recorder.stop();
+        // So does writing again after stopping.
+        recorder.writeSamples(new Int16Array([4, -4]), 24000, 2);
+        let files = recorder.stop();
+
+        expect(files.map((file) => { return path.basename(file.filePath); })).toEqual(["bot.wav", "bot-0002.wav", "bot-0003.wav"]);
+        expect(files.map((file) => { return file.durationSeconds; })).toEqual([2 / 48000, 1 / 24000, 1 / 24000]);
+        for (const file of files) {
+            expect(fs.statSync(file.filePath).size).toBe(file.sizeBytes);
+        }
+        expect(fs.readFileSync(filePath).readInt16LE(44)).toBe(1);
+    });
+
+    test(`recording can't start without an audio track`, () => {
+        let errorSpy = jest.spyOn(HiFiLogger, "error").mockImplementation(() => { return true; });
+        let recorder = new HiFiAudioRecorder({ filePath: path.join(directory, "recording.wav") });
+        let mediaStream: any = { getAudioTracks: (): Array<any> => { return []; } };
+        expect(recorder.start(mediaStream)).toBe(false);
+        expect(recorder.isRecording()).toBe(false);
+        expect(errorSpy).toHaveBeenCalledTimes(1);
+        expect(recorder.stop()).toEqual([]);
+    });
+});
@@ -0,0 +1,123 @@
+import {
+    LoadTestBotResult, LoadTestMovementPatterns, validateLoadTestScenario, getLoadTestBotConfig, createLoadTestBotJWT,
+    getLoadTestBotPose, computeLoadTestPercentiles, createLoadTestReport
+} from "../../../../src/node/HiFiLoadTestScenario";
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+describe("HiFiLoadTestScenario", () => {
+    test(`scenarios are validated and their defaults are filled in`, () => {
+        let scenario = validateLoadTestScenario({ mockMixer: true, bots: 3, durationSeconds: 10, workers: 8 }, "mock");
+        expect(scenario.name).toBe("mock");
+        expect(scenario.jwt).toEqual({ unsigned: true });
+        expect(scenario.spawnRatePerSecond).toBe(5);
+        // There's no point in having more workers than bots.
+        expect(scenario.workers).toBe(3);
+        expect(scenario.movement).toEqual({ pattern: LoadTestMovementPatterns.Static });
+        expect(scenario.audio).toEqual({ source: "silence" });
+
+        expect(() => { validateLoadTestScenario({ bots: 3, durationSeconds: 10 }); }).toThrow(/jwt/);
+        expect(() => { validateLoadTestScenario({ mockMixer: true, bots: 0, durationSeconds: 10 }); }).toThrow(/bots/);
+        expect(() => { validateLoadTestScenario({ jwt: { tokens: ["a"], unsigned: true }, bots: 1, durationSeconds: 10 }); }).toThrow(/exactly one/);
+        expect(() => { validateLoadTestScenario({ mockMixer: true, bots: 1, durationSeconds: 10, movement: { pattern: "teleport" } }); }).toThrow(/movement/);
+        expect(() => { validateLoadTestScenario({ mockMixer: true, bots: 1, durationSeconds: 10, audio: [{ source: "file" }] }); }).toThrow(/filePath/);
+    });
+
+    test(`per-bot configurations are assigned in turn`, () => {
+        let configs = [{ source: "tone" }, { source: "noise" }];
+        expect(getLoadTestBotConfig(configs, 3)).toBe(configs[1]);
+        expect(getLoadTestBotConfig(configs[0], 3)).toBe(configs[0]);
+    });
+
+    test(`JWTs are signed with the App Secret`, () => {
+        let jwt = createLoadTestBotJWT({ appID: "app", spaceID: "space", appSecret: "secret" }, 7);
+        let [header, payload, signature] = jwt.split(".");
+        expect(JSON.parse(Buffer.from(payload, "base64").toString())).toEqual({ user_id: "loadtest-bot-7", app_id: "app", space_id: "space" });
+        let expectedSignature = crypto.createHmac("sha256", "secret").update(`${header}.${payload}`).digest("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+        expect(signature).toBe(expectedSignature);
+
+        expect(createLoadTestBotJWT({ tokens: ["a", "b"] }, 3)).toBe("b");
+        expect(createLoadTestBotJWT({ unsigned: true }, 0).endsWith(".")).toBe(true);
+    });
+
+    test(`token files are read once, when the scenario is validated`, () => {
+        let directory = fs.mkdtempSync(path.join(os.tmpdir(), "hifiLoadTest-"));
+        let tokenFile = path.join(directory, "tokens.txt");
+        fs.writeFileSync(tokenFile, "a\n\n b \n");
+        let scenario = validateLoadTestScenario({ jwt: { tokenFile }, bots: 3, durationSeconds: 10 });
+        fs.rmSync(directory, { recursive: true, force: true });
+
+        expect(scenario.jwt).toEqual({ tokens: ["a", "b"] });
+        expect(createLoadTestBotJWT(scenario.jwt, 3)).toBe("b");
+        expect(() => { validateLoadTestScenario({ jwt: { tokenFile }, bots: 3, durationSeconds: 10 }); }).toThrow();
+    });
+
+    test(`movement patterns are deterministic and stay within their radius`, () => {
+        let circle = { pattern: LoadTestMovementPatterns.Circle, radiusMeters: 2, speedMetersPerSecond: 1 };
+        let start = getLoadTestBotPose(circle, 1, 4, 0);
+        expect(start.x).toBeCloseTo(0);
+        expect(start.z).toBeCloseTo(2);
+        let quarterLap = getLoadTestBotPose(circle, 1, 4, Math.PI);
+        expect(quarterLap.x).toBeCloseTo(-2);
+        expect(quarterLap.z).toBeCloseTo(0);
+
+        let line = { pattern: LoadTestMovementPatterns.Line, radiusMeters: 1, speedMetersPerSecond: 1 };
+        expect(getLoadTestBotPose(line, 0, 1, 0).x).toBeCloseTo(0);
+        expect(getLoadTestBotPose(line, 0, 1, 1).x).toBeCloseTo(1);
+        expect(getLoadTestBotPose(line, 0, 1, 3).x).toBeCloseTo(-1);
+
+        let randomWalk = { pattern: LoadTestMovementPatterns.RandomWalk, radiusMeters: 3, speedMetersPerSecond: 2 };
+        for (let t = 0; t < 30; t += 2.5) {
+            let pose = getLoadTestBotPose(randomWalk, 5, 10, t);
+            expect(pose).toEqual(getLoadTestBotPose(randomWalk, 5, 10, t));
+            expect(Math.abs(pose.x)).toBeLessThanOrEqual(3);
+            expect(Math.abs(pose.z)).toBeLessThanOrEqual(3);
+        }
+
+        let gridPositions = [0, 1, 2, 3].map((botIndex) => { return getLoadTestBotPose({ pattern: LoadTestMovementPatterns.Static, radiusMeters: 1 }, botIndex, 4, 10); });
+        expect(gridPositions.map((pose) => { return [pose.x, pose.z]; })).toEqual([[-1, -1], [1, -1], [-1, 1], [1, 1]]);
+    });
+
+    test(`percentiles use the nearest rank`, () => {
+        let values = [];
+        for (let i = 100; i >= 1; i--) {
+            values.push(i);
+        }
+        values.push(NaN);
+        expect(computeLoadTestPercentiles(values)).toEqual({ count: 100, min: 1, mean: 50.5, p50: 50, p90: 90, p99: 99, max: 100 });
+        expect(computeLoadTestPercentiles([])).toEqual({ count: 0 });
+    });
+
+    test(`bot results are combined into a report`, () => {
+        let scenario = validateLoadTestScenario({ name: "report", mockMixer: true, bots: 2, durationSeconds: 10 });
+        let botResult = (overrides: Partial<LoadTestBotResult>): LoadTestBotResult => {
+            return {
+                botIndex: 0, connectTimeMS: undefined, connectionStateCounts: {}, reconnectCount: 0, errors: [], connectedSeconds: 0,
+                peerUpdateCount: 0, roundTripTimeMS: [], jitterMS: [], jitterBufferDelayMS: [], ...overrides
+            };
+        };
+        let report = createLoadTestReport({
+            scenario,
+            botResults: [
+                botResult({ botIndex: 0, connectTimeMS: 300, connectionStateCounts: { "Connecting": 2, "Connected": 2, "Reconnecting": 1 }, reconnectCount: 1, connectedSeconds: 10, peerUpdateCount: 50, roundTripTimeMS: [20, 40] }),
+                botResult({ botIndex: 1, connectionStateCounts: { "Connecting": 1, "Failed": 1 }, errors: ["timed out"] })
+            ],
+            startedAt: 0,
+            elapsedSeconds: 10.5
+        });
+        expect(report.scenarioName).toBe("report");
+        expect(report.startedAt).toBe("1970-01-01T00:00:00.000Z");
+        expect(report.connectedBotCount).toBe(1);
+        expect(report.neverConnectedBotCount).toBe(1);
+        expect(report.reconnectCount).toBe(1);
+        expect(report.connectionStateCounts).toEqual({ "Connecting": 3, "Connected": 2, "Reconnecting": 1, "Failed": 1 });
+        expect(report.errorCounts).toEqual({ "timed out": 1 });
+        expect(report.connectTimeMS.p50).toBe(300);
+        expect(report.peerUpdatesPerSecond).toEqual({ count: 1, min: 5, mean: 5, p50: 5, p90: 5, p99: 5, max: 5 });
+        expect(report.roundTripTimeMS.mean).toBe(30);
+        expect(report.jitterMS.count).toBe(0);
+    });
+});
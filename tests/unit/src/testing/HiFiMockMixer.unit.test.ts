@@ -0,0 +1,203 @@
+import { HiFiMockMixer } from "../../../../src/testing/HiFiMockMixer";
+import { HiFiCommunicator, HiFiConnectionStates } from "../../../../src/classes/HiFiCommunicator";
+import { HiFiAudioAPIData, Point3D, ReceivedHiFiAudioAPIData } from "../../../../src/classes/HiFiAudioAPIData";
+import { AvailableUserDataSubscriptionComponents, UserDataSubscription } from "../../../../src/classes/HiFiUserDataSubscription";
+import { MuteReason } from "../../../../src/classes/HiFiMixerSession";
+import { sleep } from '../../../testUtilities/testUtils';
+
+describe("HiFiCommunicator connected to a HiFiMockMixer", () => {
+    let mockMixer: HiFiMockMixer;
+    let communicators: Array<HiFiCommunicator>;
+
+    beforeEach(async () => {
+        mockMixer = new HiFiMockMixer();
+        await mockMixer.start();
+        communicators = [];
+    });
+
+    afterEach(async () => {
+        for (const communicator of communicators) {
+            await communicator.disconnectFromHiFiAudioAPIServer();
+        }
+        await mockMixer.stop();
+    });
+
+    test(`connects and runs audionet.init`, async () => {
+        let communicator = new HiFiCommunicator();
+        communicators.push(communicator);
+        let result = await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        expect(result.success).toBe(true);
+        expect(communicator.getConnectionState()).toBe(HiFiConnectionStates.Connected);
+        expect(mockMixer.getClients().length).toBe(1);
+        expect(result.audionetInitResponse.visit_id_hash).toBe(mockMixer.getClients()[0].visitIDHash);
+        expect(mockMixer.getClients()[0].providedUserID).toBe("alice");
+    });
+
+    test(`receives input and relays it to subscribed peers`, async () => {
+        let alice = new HiFiCommunicator({ transmitRateLimitTimeoutMS: 10 });
+        let bob = new HiFiCommunicator();
+        communicators.push(alice, bob);
+        await alice.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        await bob.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "bob" }), mockMixer.signalingURL);
+
+        let callback = jest.fn();
+        bob.addUserDataSubscription(new UserDataSubscription({
+            providedUserID: "alice",
+            components: [AvailableUserDataSubscriptionComponents.Position],
+            callback: callback
+        }));
+
+        alice.updateUserDataAndTransmit(new HiFiAudioAPIData({ position: new Point3D({ x: 1, y: 2, z: 3 }) }));
+        await sleep(500);
+
+        let aliceClient = mockMixer.getClients().find((client) => { return client.providedUserID === "alice"; });
+        expect(aliceClient.currentState.x).toBe(1000);
+        expect(aliceClient.currentState.y).toBe(2000);
+        expect(aliceClient.currentState.z).toBe(3000);
+
+        expect(callback).toHaveBeenCalled();
+        let lastUpdate: Array<ReceivedHiFiAudioAPIData> = callback.mock.calls[callback.mock.calls.length - 1][0];
+        expect(lastUpdate[0].providedUserID).toBe("alice");
+        expect(lastUpdate[0].position.x).toBeCloseTo(1);
+        expect(lastUpdate[0].position.y).toBeCloseTo(2);
+        expect(lastUpdate[0].position.z).toBeCloseTo(3);
+    });
+
+    test(`reports peers that disconnect`, async () => {
+        let onUsersDisconnected = jest.fn();
+        let alice = new HiFiCommunicator();
+        let bob = new HiFiCommunicator({ onUsersDisconnected });
+        communicators.push(bob);
+        await alice.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        await bob.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "bob" }), mockMixer.signalingURL);
+        await sleep(250);
+
+        await alice.disconnectFromHiFiAudioAPIServer();
+        await sleep(500);
+        expect(onUsersDisconnected).toHaveBeenCalled();
+        expect(onUsersDisconnected.mock.calls[0][0][0].providedUserID).toBe("alice");
+    });
+
+    test(`reports the clients it drops when it stops`, async () => {
+        let alice = new HiFiCommunicator();
+        communicators.push(alice);
+        await alice.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        let client = mockMixer.getClients()[0];
+        let onClientDisconnected = jest.fn();
+        mockMixer.onClientDisconnected = onClientDisconnected;
+
+        await mockMixer.stop();
+        expect(onClientDisconnected).toHaveBeenCalledTimes(1);
+        expect(onClientDisconnected).toHaveBeenCalledWith(client);
+        expect(mockMixer.getClients()).toEqual([]);
+    });
+
+    test(`maintains a peer roster`, async () => {
+        let onPeerJoined = jest.fn();
+        let onPeerLeft = jest.fn();
+        let alice = new HiFiCommunicator();
+        let bob = new HiFiCommunicator({ onPeerJoined, onPeerLeft });
+        communicators.push(bob);
+        await alice.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        await bob.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "bob" }), mockMixer.signalingURL);
+        await sleep(250);
+
+        expect(bob.getPeerCount()).toBe(2);
+        expect(bob.getPeerByProvidedUserID("bob").isSelf).toBe(true);
+        expect(bob.getPeerByProvidedUserID("alice").isSelf).toBe(false);
+        expect(onPeerJoined).toHaveBeenCalledTimes(2);
+
+        await alice.disconnectFromHiFiAudioAPIServer();
+        await sleep(500);
+        expect(bob.getPeerCount()).toBe(1);
+        expect(bob.getPeerByProvidedUserID("alice")).toBeUndefined();
+        expect(onPeerLeft).toHaveBeenCalledTimes(1);
+    });
+
+    test(`admin mute instructions are passed to onMuteChanged`, async () => {
+        let onMuteChanged = jest.fn();
+        let communicator = new HiFiCommunicator({ onMuteChanged });
+        communicators.push(communicator);
+        await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+
+        mockMixer.muteClient(mockMixer.getClients()[0], true);
+        await sleep(500);
+        expect(onMuteChanged).toHaveBeenCalled();
+        let muteChangedEvent = onMuteChanged.mock.calls[onMuteChanged.mock.calls.length - 1][0];
+        expect(muteChangedEvent.muteReason).toBe(MuteReason.ADMIN);
+        expect(muteChangedEvent.adminPreventsInputAudioUnmuting).toBe(true);
+    });
+
+    test(`terminate instructions disconnect without reconnecting`, async () => {
+        let onConnectionStateChanged = jest.fn();
+        let communicator = new HiFiCommunicator({
+            onConnectionStateChanged,
+            connectionRetryAndTimeoutConfig: { autoRetryOnDisconnect: true, maxSecondsToSpendRetryingOnDisconnect: 5 }
+        });
+        communicators.push(communicator);
+        await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+
+        mockMixer.terminateClient(mockMixer.getClients()[0]);
+        await sleep(1500);
+        expect(communicator.getConnectionState()).toBe(HiFiConnectionStates.Disconnected);
+        expect(onConnectionStateChanged).not.toHaveBeenCalledWith(HiFiConnectionStates.Reconnecting, expect.anything());
+    });
+
+    test(`reconnects after the mixer drops the connection`, async () => {
+        let onConnectionStateChanged = jest.fn();
+        let communicator = new HiFiCommunicator({
+            onConnectionStateChanged,
+            connectionRetryAndTimeoutConfig: { autoRetryOnDisconnect: true, maxSecondsToSpendRetryingOnDisconnect: 10 }
+        });
+        communicators.push(communicator);
+        await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+
+        mockMixer.getClients()[0].drop();
+        await sleep(5000);
+        expect(onConnectionStateChanged).toHaveBeenCalledWith(HiFiConnectionStates.Reconnecting, expect.anything());
+        expect(communicator.getConnectionState()).toBe(HiFiConnectionStates.Connected);
+        expect(mockMixer.getClients().length).toBe(1);
+    }, 10000);
+
+    test(`recovers from an ICE restart without reconnecting`, async () => {
+        let onConnectionStateChanged = jest.fn();
+        let communicator = new HiFiCommunicator({
+            onConnectionStateChanged,
+            connectionRetryAndTimeoutConfig: { autoRetryOnDisconnect: true, iceRestartTimeoutMS: 3000 }
+        });
+        communicators.push(communicator);
+        let result = await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        let visitIDHash = result.audionetInitResponse.visit_id_hash;
+        onConnectionStateChanged.mockClear();
+
+        expect(communicator["_mixerSession"]["_raviSession"].restartIce("test")).toBe(true);
+        await sleep(1500);
+        expect(mockMixer.getClients()[0].iceRestartCount).toBe(1);
+        expect(mockMixer.getClients()[0].visitIDHash).toBe(visitIDHash);
+        expect(communicator.getConnectionState()).toBe(HiFiConnectionStates.Connected);
+        expect(onConnectionStateChanged).not.toHaveBeenCalled();
+        expect(communicator["_mixerSession"]["_raviSession"]["_iceRestartTimeout"]).toBeNull();
+    });
+
+    test(`doesn't restart ICE when the server doesn't support it`, async () => {
+        mockMixer.capabilities = [];
+        let communicator = new HiFiCommunicator();
+        communicators.push(communicator);
+        await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+        mockMixer.capabilities = ["ice_restart"];
+
+        expect(communicator["_mixerSession"]["_raviSession"].restartIce("test")).toBe(false);
+        expect(mockMixer.getClients()[0].iceRestartCount).toBe(0);
+    });
+
+    test(`doesn't restart ICE when ICE restarts are disabled`, async () => {
+        let communicator = new HiFiCommunicator({
+            connectionRetryAndTimeoutConfig: { iceRestartTimeoutMS: 0 }
+        });
+        communicators.push(communicator);
+        await communicator.connectToHiFiAudioAPIServer(HiFiMockMixer.createUnsignedJWT({ user_id: "alice" }), mockMixer.signalingURL);
+
+        expect(communicator["_mixerSession"]["_raviSession"].restartIce("test")).toBe(false);
+        expect(mockMixer.getClients()[0].iceRestartCount).toBe(0);
+    });
+});
@@ -0,0 +1,50 @@
+import { HiFiEventEmitter } from "../../../../src/utilities/HiFiEventEmitter";
+import { HiFiLogger, HiFiLogLevel } from "../../../../src/utilities/HiFiLogger";
+
+interface TestEvents {
+    ping: (count: number) => void;
+    pair: (name: string, value: boolean) => void;
+}
+
+describe(`HiFiEventEmitter`, () => {
+    test(`listeners are called in order with the emitted arguments`, () => {
+        let emitter = new HiFiEventEmitter<TestEvents>();
+        let calls: Array<string> = [];
+        emitter.on("pair", (name, value) => { calls.push(`first ${name} ${value}`); });
+        emitter.on("pair", (name, value) => { calls.push(`second ${name} ${value}`); });
+        expect(emitter.emit("pair", "a", true)).toBe(true);
+        expect(calls).toEqual(["first a true", "second a true"]);
+        expect(emitter.emit("ping", 1)).toBe(false);
+    });
+
+    test(`off removes a listener and once listeners are only called once`, () => {
+        let emitter = new HiFiEventEmitter<TestEvents>();
+        let listener = jest.fn();
+        let onceListener = jest.fn();
+        emitter.on("ping", listener);
+        emitter.once("ping", onceListener);
+        expect(emitter.listenerCount("ping")).toBe(2);
+
+        emitter.emit("ping", 1);
+        emitter.emit("ping", 2);
+        expect(onceListener).toHaveBeenCalledTimes(1);
+        expect(onceListener).toHaveBeenCalledWith(1);
+        expect(listener).toHaveBeenCalledTimes(2);
+
+        emitter.off("ping", listener);
+        emitter.emit("ping", 3);
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(emitter.listenerCount("ping")).toBe(0);
+    });
+
+    test(`a listener that throws doesn't prevent other listeners from being called`, () => {
+        HiFiLogger.setHiFiLogLevel(HiFiLogLevel.None);
+        let emitter = new HiFiEventEmitter<TestEvents>();
+        let listener = jest.fn();
+        emitter.on("ping", () => { throw new Error("oops"); });
+        emitter.on("ping", listener);
+        emitter.emit("ping", 1);
+        expect(listener).toHaveBeenCalledWith(1);
+        HiFiLogger.setHiFiLogLevel(HiFiLogLevel.Error);
+    });
+});
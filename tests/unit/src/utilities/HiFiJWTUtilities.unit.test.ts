@@ -0,0 +1,26 @@
+import { HiFiJWTUtilities } from "../../../../src/utilities/HiFiJWTUtilities";
+import { createUnsignedTestJWT } from "../../../testUtilities/testUtils";
+
+describe(`HiFiJWTUtilities`, () => {
+    test(`claims are decoded from base64url payloads`, () => {
+        // This payload has non-ASCII characters, and its base64url encoding contains "_" and needs padding.
+        let claims = { user_id: "üser?>>", app_id: "app", space_id: "space", exp: 1700000000 };
+        expect(HiFiJWTUtilities.decodeClaims(createUnsignedTestJWT(claims))).toEqual(claims);
+        expect(HiFiJWTUtilities.getExpirationTimeMS(createUnsignedTestJWT(claims))).toBe(1700000000000);
+    });
+
+    test(`malformed JWTs have no claims`, () => {
+        expect(HiFiJWTUtilities.decodeClaims(undefined)).toBeUndefined();
+        expect(HiFiJWTUtilities.decodeClaims("not a jwt")).toBeUndefined();
+        expect(HiFiJWTUtilities.decodeClaims("a.%%%.c")).toBeUndefined();
+        expect(HiFiJWTUtilities.decodeClaims(createUnsignedTestJWT([1, 2]))).toBeUndefined();
+        expect(HiFiJWTUtilities.getExpirationTimeMS(createUnsignedTestJWT({ exp: "tomorrow" }))).toBeUndefined();
+    });
+
+    test(`JWTs without an exp claim never expire`, () => {
+        expect(HiFiJWTUtilities.isExpired(createUnsignedTestJWT({ user_id: "alice" }))).toBe(false);
+        expect(HiFiJWTUtilities.isExpired(createUnsignedTestJWT({ exp: 100 }), 99999)).toBe(false);
+        expect(HiFiJWTUtilities.isExpired(createUnsignedTestJWT({ exp: 100 }), 100000)).toBe(true);
+        expect(HiFiJWTUtilities.isExpired(createUnsignedTestJWT({ exp: Date.now() / 1000 - 1 }))).toBe(true);
+    });
+});
@@ -1,7 +1,7 @@
 // HiFiMath.unit.test.ts
 //
 
-import { Vector3, Matrix3, Quaternion } from "../../../../src/utilities/HiFiMath";
+import { Vector3, Matrix3, Quaternion, Pose, EulerOrder } from "../../../../src/utilities/HiFiMath";
 
 const ALMOST_ZERO = 1.0e-7;
 
@@ -67,6 +67,58 @@ describe("Vector3", () => {
         let z_cross_x = Vector3.cross(zAxis, xAxis);
         expect(Vector3.distance(yAxis, z_cross_x) < ALMOST_ZERO).toBe(true);
     });
+
+    test("add and subtract", () => {
+        let a = new Vector3({x: 1.0, y: 2.0, z: 3.0});
+        let b = new Vector3({x: 0.5, y: -4.0, z: 10.0});
+        expect(Vector3.approximatelyEqual(Vector3.add(a, b), new Vector3({x: 1.5, y: -2.0, z: 13.0}))).toBe(true);
+        expect(Vector3.approximatelyEqual(Vector3.subtract(a, b), new Vector3({x: 0.5, y: 6.0, z: -7.0}))).toBe(true);
+    });
+
+    test("instance arithmetic", () => {
+        let a = new Vector3({x: 1.0, y: 2.0, z: 3.0});
+        let b = new Vector3({x: 3.0, y: 2.0, z: 1.0});
+        expect(Vector3.approximatelyEqual(a.add(b).scale(0.5), new Vector3({x: 2.0, y: 2.0, z: 2.0}))).toBe(true);
+        expect(Vector3.approximatelyEqual(a.subtract(b), new Vector3({x: -2.0, y: 0.0, z: 2.0}))).toBe(true);
+        expect(a.dot(b)).toBe(Vector3.dot(a, b));
+        expect(Vector3.approximatelyEqual(a.cross(b), Vector3.cross(a, b))).toBe(true);
+
+        // the operands are not modified
+        expect(a.x).toBe(1.0);
+        expect(b.x).toBe(3.0);
+    });
+
+    test("normalize", () => {
+        let v = new Vector3({x: 0.0, y: 3.0, z: 4.0});
+        let n = Vector3.normalize(v);
+        expect(Math.abs(n.length() - 1.0) < ALMOST_ZERO).toBe(true);
+        expect(v.length()).toBe(5.0);
+        v.normalize();
+        expect(Vector3.approximatelyEqual(v, n)).toBe(true);
+
+        // too short to normalize: left unchanged
+        let zero = new Vector3();
+        zero.normalize();
+        expect(zero.length()).toBe(0.0);
+    });
+
+    test("lerp", () => {
+        let a = new Vector3({x: 0.0, y: 2.0, z: -4.0});
+        let b = new Vector3({x: 10.0, y: 4.0, z: 4.0});
+        expect(Vector3.approximatelyEqual(Vector3.lerp(a, b, 0.0), a)).toBe(true);
+        expect(Vector3.approximatelyEqual(Vector3.lerp(a, b, 1.0), b)).toBe(true);
+        expect(Vector3.approximatelyEqual(Vector3.lerp(a, b, 0.25), new Vector3({x: 2.5, y: 2.5, z: -2.0}))).toBe(true);
+        expect(Vector3.approximatelyEqual(Vector3.lerp(a, b, 1.5), new Vector3({x: 15.0, y: 5.0, z: 8.0}))).toBe(true);
+    });
+
+    test("projectOnPlane", () => {
+        let v = new Vector3({x: 1.0, y: 2.0, z: 3.0});
+        let projected = Vector3.projectOnPlane(v, new Vector3({x: 0.0, y: 5.0, z: 0.0}));
+        expect(Vector3.approximatelyEqual(projected, new Vector3({x: 1.0, y: 0.0, z: 3.0}))).toBe(true);
+
+        // a degenerate plane normal leaves the vector unchanged
+        expect(Vector3.approximatelyEqual(Vector3.projectOnPlane(v, new Vector3()), v)).toBe(true);
+    });
 });
 
 describe("Matrix3", () => {
@@ -337,5 +389,194 @@ describe("Quaternion", () => {
         let elevation = q.getElevation();
         expect(Math.abs(Math.abs(elevation - pitch)) < ALMOST_ZERO).toBe(true);
     });
+
+    test("euler orders", () => {
+        let angles = {yawDegrees: 57.0, pitchDegrees: 41.0, rollDegrees: 23.0};
+
+        // the default order is unchanged
+        let q = Quaternion.fromEulerAngles(angles);
+        expect(Quaternion.approximatelyEqual(Quaternion.fromEulerAngles({...angles, order: EulerOrder.YXZ}), q)).toBe(true);
+
+        for (const order of Object.values(EulerOrder)) {
+            q = Quaternion.fromEulerAngles({...angles, order: order});
+            let decomposed = q.getEulerAngles(order);
+            expect(Math.abs(decomposed.yawDegrees - angles.yawDegrees) < ALMOST_ZERO).toBe(true);
+            expect(Math.abs(decomposed.pitchDegrees - angles.pitchDegrees) < ALMOST_ZERO).toBe(true);
+            expect(Math.abs(decomposed.rollDegrees - angles.rollDegrees) < ALMOST_ZERO).toBe(true);
+
+            // a single rotation doesn't depend on the order
+            let yawOnly = Quaternion.fromEulerAngles({yawDegrees: angles.yawDegrees, order: order});
+            expect(Quaternion.approximatelyEqual(yawOnly, Quaternion.fromEulerAngles({yawDegrees: angles.yawDegrees}))).toBe(true);
+        }
+
+        // different orders give different rotations
+        let xyz = Quaternion.fromEulerAngles({...angles, order: EulerOrder.XYZ});
+        let zyx = Quaternion.fromEulerAngles({...angles, order: EulerOrder.ZYX});
+        expect(Quaternion.approximatelyEqual(xyz, zyx)).toBe(false);
+
+        // gimbal lock: the decomposition still reproduces the rotation
+        for (const order of Object.values(EulerOrder)) {
+            let middleAxisAngle = {yawDegrees: 0.0, pitchDegrees: 0.0, rollDegrees: 0.0};
+            let middle = order[1] === "X" ? "pitchDegrees" : (order[1] === "Y" ? "yawDegrees" : "rollDegrees");
+            (middleAxisAngle as any)[middle] = 90.0;
+            let locked = Quaternion.fromEulerAngles({...middleAxisAngle, yawDegrees: middleAxisAngle.yawDegrees + (middle === "yawDegrees" ? 0.0 : 30.0), order: order});
+            let decomposed = locked.getEulerAngles(order);
+            let recomposed = Quaternion.fromEulerAngles({...decomposed, order: order});
+            expect(Quaternion.approximatelyEqual(recomposed, locked, 1.0e-6)).toBe(true);
+        }
+    });
+
+    test("conjugate and inverse", () => {
+        let q = Quaternion.fromEulerAngles({yawDegrees: 57.0, pitchDegrees: 41.0, rollDegrees: 23.0});
+        let identity = new Quaternion();
+        expect(Quaternion.approximatelyEqual(Quaternion.multiply(q, q.conjugate()), identity)).toBe(true);
+        expect(Quaternion.approximatelyEqual(Quaternion.multiply(q.inverse(), q), identity)).toBe(true);
+
+        // the inverse of a non-normalized Quaternion is not its conjugate
+        let p = new Quaternion({w: 1.0, x: 2.0, y: 3.0, z: 4.0});
+        expect(Quaternion.approximatelyEqual(Quaternion.multiply(p, p.inverse()), identity)).toBe(true);
+        expect(Quaternion.approximatelyEqual(Quaternion.multiply(p, p.conjugate()), identity)).toBe(false);
+    });
+
+    test("nlerp", () => {
+        let a = Quaternion.fromEulerAngles({yawDegrees: 10.0});
+        let b = Quaternion.fromEulerAngles({yawDegrees: 50.0});
+        expect(Quaternion.approximatelyEqual(Quaternion.nlerp(a, b, 0.0), a)).toBe(true);
+        expect(Quaternion.approximatelyEqual(Quaternion.nlerp(a, b, 1.0), b)).toBe(true);
+        // the midpoint of nlerp and slerp coincide
+        expect(Quaternion.approximatelyEqual(Quaternion.nlerp(a, b, 0.5), Quaternion.slerp(a, b, 0.5))).toBe(true);
+        let negatedB = new Quaternion({w: -b.w, x: -b.x, y: -b.y, z: -b.z});
+        expect(Math.abs(Quaternion.nlerp(a, negatedB, 0.5).getYaw() - 30.0) < ALMOST_ZERO).toBe(true);
+    });
+
+    test("fromTwoVectors", () => {
+        let from = new Vector3({x: 1.0, y: 2.0, z: 3.0});
+        let to = new Vector3({x: -4.0, y: 0.5, z: 2.0});
+        let q = Quaternion.fromTwoVectors(from, to);
+        let rotated = q.rotateVector(Vector3.normalize(from));
+        expect(Vector3.approximatelyEqual(rotated, Vector3.normalize(to))).toBe(true);
+
+        // parallel and opposite vectors
+        expect(Quaternion.approximatelyEqual(Quaternion.fromTwoVectors(from, Vector3.scale(2.0, from)), new Quaternion())).toBe(true);
+        let opposite = Quaternion.fromTwoVectors(from, Vector3.scale(-1.0, from));
+        expect(Vector3.approximatelyEqual(opposite.rotateVector(Vector3.normalize(from)), Vector3.normalize(Vector3.scale(-1.0, from)))).toBe(true);
+    });
+
+    test("lookRotation", () => {
+        let forward = new Vector3({x: 0.0, y: 0.0, z: -1.0});
+        let up = new Vector3({x: 0.0, y: 1.0, z: 0.0});
+        expect(Quaternion.approximatelyEqual(Quaternion.lookRotation(forward, up), new Quaternion())).toBe(true);
+
+        // looking along +X is a yaw of -90 degrees
+        let q = Quaternion.lookRotation(new Vector3({x: 2.0}));
+        expect(Math.abs(q.getYaw() + 90.0) < ALMOST_ZERO).toBe(true);
+
+        // an 'up' that isn't orthogonal to forward is made orthogonal
+        let target = new Vector3({x: 1.0, y: 1.0, z: -1.0});
+        q = Quaternion.lookRotation(target, new Vector3({x: 0.0, y: 1.0, z: 0.2}));
+        expect(Vector3.approximatelyEqual(q.rotateVector(forward), Vector3.normalize(target))).toBe(true);
+        let rotatedUp = q.rotateVector(up);
+        expect(Math.abs(Vector3.dot(rotatedUp, target)) < ALMOST_ZERO).toBe(true);
+
+        // forward parallel to up still produces a valid rotation
+        q = Quaternion.lookRotation(up, up);
+        expect(Vector3.approximatelyEqual(q.rotateVector(forward), up)).toBe(true);
+    });
+
+    test("angleTo", () => {
+        let a = Quaternion.fromEulerAngles({yawDegrees: 10.0});
+        let b = Quaternion.fromEulerAngles({yawDegrees: 50.0});
+        expect(Math.abs(a.angleTo(b) - 40.0 * Math.PI / 180.0) < ALMOST_ZERO).toBe(true);
+        let negatedB = new Quaternion({w: -b.w, x: -b.x, y: -b.y, z: -b.z});
+        expect(Math.abs(a.angleTo(negatedB) - 40.0 * Math.PI / 180.0) < ALMOST_ZERO).toBe(true);
+        expect(a.angleTo(a)).toBe(0.0);
+    });
+
+    test("approximatelyEqual", () => {
+        let q = Quaternion.fromEulerAngles({yawDegrees: 10.0});
+        let negatedQ = new Quaternion({w: -q.w, x: -q.x, y: -q.y, z: -q.z});
+        expect(Quaternion.approximatelyEqual(q, negatedQ)).toBe(true);
+        expect(Quaternion.approximatelyEqual(q, Quaternion.fromEulerAngles({yawDegrees: 10.1}))).toBe(false);
+        expect(Quaternion.approximatelyEqual(q, Quaternion.fromEulerAngles({yawDegrees: 10.1}), 0.01)).toBe(true);
+    });
+
+    test("slerp", () => {
+        let a = Quaternion.fromEulerAngles({yawDegrees: 10.0});
+        let b = Quaternion.fromEulerAngles({yawDegrees: 50.0});
+
+        // the endpoints are reproduced
+        expect(Math.abs(Quaternion.slerp(a, b, 0.0).getYaw() - 10.0) < ALMOST_ZERO).toBe(true);
+        expect(Math.abs(Quaternion.slerp(a, b, 1.0).getYaw() - 50.0) < ALMOST_ZERO).toBe(true);
+
+        // the angle changes at a constant rate, also when extrapolating
+        expect(Math.abs(Quaternion.slerp(a, b, 0.25).getYaw() - 20.0) < ALMOST_ZERO).toBe(true);
+        expect(Math.abs(Quaternion.slerp(a, b, 1.5).getYaw() - 70.0) < ALMOST_ZERO).toBe(true);
+
+        // the shortest arc is taken even when the quaternions are in opposite hemispheres
+        let negatedB = new Quaternion({w: -b.w, x: -b.x, y: -b.y, z: -b.z});
+        expect(Math.abs(Quaternion.slerp(a, negatedB, 0.5).getYaw() - 30.0) < ALMOST_ZERO).toBe(true);
+
+        // the result is normalized
+        let c = Quaternion.slerp(a, b, 0.5);
+        expect(Math.abs(Quaternion.dot(c, c) - 1.0) < ALMOST_ZERO).toBe(true);
+
+        // identical rotations don't produce NaN
+        let d = Quaternion.slerp(a, a, 0.5);
+        expect(Math.abs(Quaternion.dot(a, d) - 1.0) < ALMOST_ZERO).toBe(true);
+    });
 });
 
+describe("Pose", () => {
+    let pose = new Pose({
+        position: new Vector3({x: 1.0, y: 2.0, z: 3.0}),
+        orientation: Quaternion.fromEulerAngles({yawDegrees: 90.0})
+    });
+
+    test("ctor", () => {
+        let identity = new Pose();
+        expect(Vector3.approximatelyEqual(identity.position, new Vector3())).toBe(true);
+        expect(Quaternion.approximatelyEqual(identity.orientation, new Quaternion())).toBe(true);
+
+        // the constructor copies its arguments
+        let position = new Vector3({x: 1.0});
+        let p = new Pose({position: position});
+        position.x = 2.0;
+        expect(p.position.x).toBe(1.0);
+    });
+
+    test("transformPoint", () => {
+        // yaw of 90 degrees takes forward (-Z) to -X
+        let p = pose.transformPoint(new Vector3({x: 0.0, y: 0.0, z: -1.0}));
+        expect(Vector3.approximatelyEqual(p, new Vector3({x: 0.0, y: 2.0, z: 3.0}))).toBe(true);
+    });
+
+    test("inverse", () => {
+        let point = new Vector3({x: -3.0, y: 7.0, z: 0.5});
+        let roundTrip = pose.inverse().transformPoint(pose.transformPoint(point));
+        expect(Vector3.approximatelyEqual(roundTrip, point)).toBe(true);
+
+        let identity = Pose.compose(pose, pose.inverse());
+        expect(Vector3.approximatelyEqual(identity.position, new Vector3())).toBe(true);
+        expect(Quaternion.approximatelyEqual(identity.orientation, new Quaternion())).toBe(true);
+    });
+
+    test("compose", () => {
+        let child = new Pose({
+            position: new Vector3({x: 0.0, y: 0.0, z: -2.0}),
+            orientation: Quaternion.fromEulerAngles({pitchDegrees: 30.0})
+        });
+        let composed = Pose.compose(pose, child);
+        let point = new Vector3({x: 0.5, y: -1.0, z: 4.0});
+        expect(Vector3.approximatelyEqual(composed.transformPoint(point), pose.transformPoint(child.transformPoint(point)))).toBe(true);
+    });
+
+    test("interpolate", () => {
+        let other = new Pose({
+            position: new Vector3({x: 3.0, y: 2.0, z: 3.0}),
+            orientation: Quaternion.fromEulerAngles({yawDegrees: 50.0})
+        });
+        let halfway = Pose.interpolate(pose, other, 0.5);
+        expect(Vector3.approximatelyEqual(halfway.position, new Vector3({x: 2.0, y: 2.0, z: 3.0}))).toBe(true);
+        expect(Math.abs(halfway.orientation.getYaw() - 70.0) < ALMOST_ZERO).toBe(true);
+    });
+});
@@ -0,0 +1,78 @@
+import { HiFiPeerMotionInterpolator } from "../../../../src/utilities/HiFiPeerMotionInterpolator";
+import { Vector3, Quaternion } from "../../../../src/utilities/HiFiMath";
+
+const ALMOST_ZERO = 1.0e-7;
+
+describe("HiFiPeerMotionInterpolator", () => {
+    let interpolator: HiFiPeerMotionInterpolator;
+
+    beforeEach(() => {
+        interpolator = new HiFiPeerMotionInterpolator({ renderDelayMS: 100, maxExtrapolationMS: 200 });
+        interpolator.addSample("peer", { position: new Vector3({ x: 0 }), orientation: Quaternion.fromEulerAngles({ yawDegrees: 0 }) }, 1000);
+        interpolator.addSample("peer", { position: new Vector3({ x: 10 }), orientation: Quaternion.fromEulerAngles({ yawDegrees: 40 }) }, 2000);
+    });
+
+    test(`returns undefined for unknown peers`, () => {
+        expect(interpolator.getInterpolatedPeerPose("unknown", 1500)).toBeUndefined();
+    });
+
+    test(`interpolates between samples, delayed by renderDelayMS`, () => {
+        let pose = interpolator.getInterpolatedPeerPose("peer", 1600);
+        expect(pose.position.x).toBeCloseTo(5);
+        expect(Math.abs(pose.orientation.getYaw() - 20.0) < ALMOST_ZERO).toBe(true);
+    });
+
+    test(`holds the oldest sample before the first sample`, () => {
+        let pose = interpolator.getInterpolatedPeerPose("peer", 500);
+        expect(pose.position.x).toBe(0);
+    });
+
+    test(`extrapolates for at most maxExtrapolationMS`, () => {
+        // render time 2100: 100ms past the newest sample
+        let pose = interpolator.getInterpolatedPeerPose("peer", 2200);
+        expect(pose.position.x).toBeCloseTo(11);
+        expect(Math.abs(pose.orientation.getYaw() - 44.0) < ALMOST_ZERO).toBe(true);
+
+        // render time 3000: clamped to 200ms past the newest sample
+        pose = interpolator.getInterpolatedPeerPose("peer", 3100);
+        expect(pose.position.x).toBeCloseTo(12);
+    });
+
+    test(`doesn't extrapolate when maxExtrapolationMS is 0`, () => {
+        interpolator.maxExtrapolationMS = 0;
+        let pose = interpolator.getInterpolatedPeerPose("peer", 3100);
+        expect(pose.position.x).toBeCloseTo(10);
+    });
+
+    test(`ignores out-of-order samples and replaces samples with the same timestamp`, () => {
+        interpolator.addSample("peer", { position: new Vector3({ x: 100 }) }, 1500);
+        interpolator.addSample("peer", { position: new Vector3({ x: 20 }), orientation: Quaternion.fromEulerAngles({ yawDegrees: 40 }) }, 2000);
+        let pose = interpolator.getInterpolatedPeerPose("peer", 1600);
+        expect(pose.position.x).toBeCloseTo(10);
+    });
+
+    test(`keeps at most maxSamplesPerPeer samples`, () => {
+        interpolator.maxSamplesPerPeer = 2;
+        interpolator.addSample("peer", { position: new Vector3({ x: 20 }) }, 3000);
+        // the sample at 1000ms has been discarded, so the oldest sample is now the one at 2000ms
+        let pose = interpolator.getInterpolatedPeerPose("peer", 1600);
+        expect(pose.position.x).toBeCloseTo(10);
+    });
+
+    test(`uses whichever position or orientation is available`, () => {
+        interpolator.addSample("orientationOnly", { orientation: Quaternion.fromEulerAngles({ yawDegrees: 0 }) }, 1000);
+        interpolator.addSample("orientationOnly", { orientation: Quaternion.fromEulerAngles({ yawDegrees: 40 }) }, 2000);
+        let pose = interpolator.getInterpolatedPeerPose("orientationOnly", 1600);
+        expect(pose.position).toBeNull();
+        expect(Math.abs(pose.orientation.getYaw() - 20.0) < ALMOST_ZERO).toBe(true);
+    });
+
+    test(`forgets peers`, () => {
+        interpolator.addSample("other", { position: new Vector3({ x: 1 }) }, 1000);
+        interpolator.removePeer("peer");
+        expect(interpolator.getInterpolatedPeerPose("peer", 1600)).toBeUndefined();
+        expect(interpolator.getInterpolatedPeerPose("other", 1600)).toBeDefined();
+        interpolator.clear();
+        expect(interpolator.getInterpolatedPeerPose("other", 1600)).toBeUndefined();
+    });
+});
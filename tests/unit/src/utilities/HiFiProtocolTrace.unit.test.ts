@@ -0,0 +1,105 @@
+import { HiFiProtocolTraceRecorder, HiFiProtocolTraceReplayer, HiFiProtocolTraceEntryTypes, ProtocolTraceEntry } from "../../../../src/utilities/HiFiProtocolTrace";
+import { HiFiLogger } from "../../../../src/utilities/HiFiLogger";
+import pako from 'pako'
+
+describe("HiFiProtocolTraceRecorder", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test(`entries survive a round trip through JSONL`, () => {
+        let recorder = new HiFiProtocolTraceRecorder();
+        let frame = { peers: { "1": { e: "aliceHash", x: 1000 } } };
+        recorder.record("out", HiFiProtocolTraceEntryTypes.SendInput, { x: 1000 });
+        recorder.record("in", HiFiProtocolTraceEntryTypes.MixerFrame, frame);
+        // Later changes to the data aren't reflected in the trace.
+        frame.peers["1"].x = 2000;
+
+        let jsonl = recorder.toJSONL();
+        let lines = jsonl.trim().split("\n");
+        expect(lines.length).toBe(3);
+        expect(JSON.parse(lines[0])).toEqual({ type: "header", version: HiFiProtocolTraceRecorder.TRACE_FORMAT_VERSION, startedAt: recorder.startedAt });
+
+        let entries = HiFiProtocolTraceRecorder.parseJSONL(jsonl);
+        expect(entries).toEqual(recorder.getEntries());
+        expect(entries[1].direction).toBe("in");
+        expect(entries[1].data).toEqual({ peers: { "1": { e: "aliceHash", x: 1000 } } });
+    });
+
+    test(`invalid lines are skipped when parsing`, () => {
+        let warnSpy = jest.spyOn(HiFiLogger, "warn").mockImplementation(() => { return true; });
+        let entries = HiFiProtocolTraceRecorder.parseJSONL(`not JSON\n{"foo":1}\n\n{"t":5,"direction":"in","type":"mixerFrame","data":{}}\n`);
+        expect(entries).toEqual([{ t: 5, direction: "in", type: HiFiProtocolTraceEntryTypes.MixerFrame, data: {} }]);
+        expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test(`the oldest entries are discarded, and signaling can be excluded`, () => {
+        let warnSpy = jest.spyOn(HiFiLogger, "warn").mockImplementation(() => { return true; });
+        let onEntry = jest.fn();
+        let recorder = new HiFiProtocolTraceRecorder({ maxEntries: 2, includeSignaling: false, onEntry });
+        recorder.record("out", HiFiProtocolTraceEntryTypes.Signaling, { type: "offer" });
+        for (let i = 0; i < 4; i++) {
+            recorder.record("out", HiFiProtocolTraceEntryTypes.SendInput, { x: i });
+        }
+        expect(recorder.getEntries().map((entry) => { return entry.data.x; })).toEqual([2, 3]);
+        expect(onEntry).toHaveBeenCalledTimes(4);
+        expect(warnSpy).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("HiFiProtocolTraceReplayer", () => {
+    let receivedFrames: Array<any>;
+    let target: { handleRAVISessionBinaryData: (data: any) => void, mixerInfo: any };
+    const entries: Array<ProtocolTraceEntry> = [
+        { t: 30, direction: "in", type: HiFiProtocolTraceEntryTypes.MixerFrame, data: { deleted_visit_ids: ["aliceHash"] } },
+        { t: 0, direction: "in", type: HiFiProtocolTraceEntryTypes.AudionetInitResponse, data: { visit_id_hash: "myHash" } },
+        { t: 10, direction: "in", type: HiFiProtocolTraceEntryTypes.MixerFrame, data: { peers: { "1": { e: "aliceHash", x: 1000 } } } },
+        { t: 10, direction: "out", type: HiFiProtocolTraceEntryTypes.SendInput, data: { x: 0 } },
+        { t: 20, direction: "in", type: HiFiProtocolTraceEntryTypes.MixerFrame, data: { peers: { "1": { x: 2000 } } } }
+    ];
+
+    beforeEach(() => {
+        receivedFrames = [];
+        target = {
+            handleRAVISessionBinaryData: (data: any) => { receivedFrames.push(JSON.parse(pako.ungzip(data, { to: 'string' }))); },
+            mixerInfo: {}
+        };
+    });
+
+    test(`frames are replayed in order of their timestamps, as gzipped data`, () => {
+        let replayer = new HiFiProtocolTraceReplayer({ target, entries });
+        expect(replayer.replayUntil(15)).toBe(3);
+        expect(target.mixerInfo.visit_id_hash).toBe("myHash");
+        expect(receivedFrames).toEqual([{ peers: { "1": { e: "aliceHash", x: 1000 } } }]);
+        expect(replayer.getNextTimestamp()).toBe(20);
+
+        expect(replayer.replayAll()).toBe(2);
+        expect(replayer.isFinished()).toBe(true);
+        expect(replayer.step()).toBeUndefined();
+        expect(receivedFrames.length).toBe(3);
+        expect(receivedFrames[2]).toEqual({ deleted_visit_ids: ["aliceHash"] });
+
+        replayer.rewind();
+        expect(replayer.step().t).toBe(0);
+    });
+
+    test(`frames can be replayed with the recorded timing`, async () => {
+        jest.useFakeTimers();
+        try {
+            let replayer = new HiFiProtocolTraceReplayer({ target, entries });
+            let replayPromise = replayer.replayInRealTime(2);
+            // The replay waits 5ms (10ms at double speed) before the first frame.
+            await Promise.resolve();
+            expect(receivedFrames.length).toBe(0);
+            for (let i = 0; i < 3; i++) {
+                jest.advanceTimersByTime(5);
+                await Promise.resolve();
+                await Promise.resolve();
+            }
+            expect(await replayPromise).toBe(entries.length);
+            expect(receivedFrames.length).toBe(3);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});